@@ -0,0 +1,67 @@
+import { verifyJWT, getServerDatabases, DB_ID, Query } from './utils/appwrite.js'
+import { createCorsResponse, handlePreflight } from './utils/cors.js'
+
+export const config = {
+  runtime: 'edge',
+  regions: ['fra1'],
+};
+
+/**
+ * Guardrail result of one generation (GET ?generation_id=…).
+ * The check runs after the completion returned, so the client polls:
+ * 202 while it is pending, 200 with the scores once it was stored.
+ */
+export default async function handler(req: Request) {
+  const origin = req.headers.get('origin');
+
+  if (req.method === 'OPTIONS') {
+    return handlePreflight(origin);
+  }
+
+  if (req.method !== 'GET') {
+    return createCorsResponse({ error: 'Method not allowed' }, { status: 405, origin });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return createCorsResponse({ error: 'Nicht angemeldet' }, { status: 401, origin });
+    }
+
+    const user = await verifyJWT(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      return createCorsResponse({ error: 'Ungueltiger Auth Token' }, { status: 401, origin });
+    }
+
+    const generationId = new URL(req.url).searchParams.get('generation_id')?.trim();
+    if (!generationId || generationId.length > 128) {
+      return createCorsResponse({ error: 'generation_id ist erforderlich' }, { status: 400, origin });
+    }
+
+    const databases = getServerDatabases();
+    const results = await databases.listDocuments(DB_ID, 'guardrail_results', [
+      Query.equal('user_id', user.id),
+      Query.equal('generation_id', generationId),
+      Query.limit(1),
+    ]);
+
+    const doc = results.documents[0];
+    if (!doc) {
+      return createCorsResponse({ status: 'pending' }, { status: 202, origin });
+    }
+
+    return createCorsResponse({
+      status: 'complete',
+      result: {
+        factual_accuracy: doc.factual_accuracy,
+        source_fidelity: doc.source_fidelity,
+        pii_detected: doc.pii_detected,
+        issues: doc.issues || [],
+        label: doc.label,
+      },
+    }, { status: 200, origin });
+  } catch (error) {
+    console.error('Guardrail lookup error:', error);
+    return createCorsResponse({ error: 'Guardrail-Ergebnis konnte nicht geladen werden' }, { status: 500, origin });
+  }
+}
@@ -1,17 +1,47 @@
-import { createCorsResponse, handlePreflight } from '../../utils/cors.js';
+import { createCorsResponse, getCorsHeaders, handlePreflight } from '../../utils/cors.js';
 import { parseJsonSafely } from '../../utils/safeJson.js';
 import { verifyJWT, getServerDatabases, DB_ID, Query } from '../../utils/appwrite.js';
 import { checkRateLimit, getClientIp } from '../../utils/rateLimit.js';
 import { ensureTracing, getTracer, SpanStatusCode } from '../../utils/tracing.js';
-import { runGuardrailCheck } from '../../utils/guardrail.js';
+import {
+  runGuardrailCheck,
+  getGuardrailLabel,
+  getGuardrailPolicy,
+  buildGuardrailFeedback,
+  isOutputLanguage,
+  GUARDRAIL_TIMEOUT_MS,
+  type GuardrailPolicy,
+  type GuardrailResult,
+} from '../../utils/guardrail.js';
+import {
+  loadModelRoutes,
+  resolveModelRoute,
+  shouldFallBack,
+  type ModelHop,
+  type ModelRoute,
+  type ModelRouting,
+} from '../../utils/modelRouting.js';
+import { checkMonthlyBudget, recordUsage, type TokenUsage, type UsageKind } from '../../utils/usage.js';
+import { checkFreeTier, isRequestKind, type RequestKind } from '../../utils/freeTier.js';
 
 export const config = {
   runtime: 'edge',
   regions: ['fra1'],
 };
 
-const DEFAULT_OPENROUTER_MODEL = (process.env.OPENROUTER_MODEL || 'openrouter/auto').trim() || 'openrouter/auto'
-const FREE_GENERATIONS_PER_DAY = 3
+// Routing table with environment overrides, read once per isolate
+const MODEL_ROUTES = loadModelRoutes()
+const OPENROUTER_COMPLETIONS_URL = 'https://openrouter.ai/api/v1/chat/completions'
+// Blocking policy: regenerations after a failed check before the post is returned quarantined
+const GUARDRAIL_MAX_REGENERATIONS = 1
+// Blocking policy: completion, checks and regeneration together; the client waits a little longer
+// (BLOCKING_GUARDRAIL_TIMEOUT_MS in src/config/ai.ts)
+const BLOCKING_FLOW_TIMEOUT_MS = 55000
+// A regeneration is only started with this much time left for it, plus a full check afterwards
+const REGENERATION_MIN_MS = 10000
+// Whole fallback chain; a model that still has fallbacks behind it gets at most ATTEMPT_TIMEOUT_MS
+const REQUEST_TIMEOUT_MS = 30000
+const ATTEMPT_TIMEOUT_MS = 20000
 
 function normalizeOpenRouterApiKey(rawKey: string | undefined): string | null {
   if (!rawKey) return null
@@ -24,33 +54,9 @@ function normalizeOpenRouterApiKey(rawKey: string | undefined): string | null {
   return normalized.length > 0 ? normalized : null
 }
 
-function mapModelToOpenRouter(model: string): string {
-  const normalizedModel = model.trim()
-
-  if (!normalizedModel) {
-    return DEFAULT_OPENROUTER_MODEL
-  }
-
-  if (normalizedModel.includes('/')) {
-    return normalizedModel
-  }
-
-  const modelMap: Record<string, string> = {
-    'claude-3-5-sonnet-20241022': 'anthropic/claude-sonnet-4',
-    'claude-3-5-sonnet-latest': 'anthropic/claude-sonnet-4',
-    'claude-3-opus-20240229': 'anthropic/claude-3-opus',
-    'claude-3-sonnet-20240229': 'anthropic/claude-3-sonnet',
-    'claude-3-haiku-20240307': 'anthropic/claude-3-haiku',
-    'claude-sonnet-4-20250514': 'anthropic/claude-sonnet-4',
-    'claude-opus-4-20250514': 'anthropic/claude-opus-4',
-  };
-
-  return modelMap[normalizedModel] || `anthropic/${normalizedModel}`;
-}
-
-function transformRequestToOpenRouter(body: Record<string, unknown>): Record<string, unknown> {
+function transformRequestToOpenRouter(body: Record<string, unknown>, model: string): Record<string, unknown> {
   const openRouterBody: Record<string, unknown> = {
-    model: mapModelToOpenRouter((body.model as string | undefined) || DEFAULT_OPENROUTER_MODEL),
+    model,
     messages: body.messages,
   };
 
@@ -58,6 +64,7 @@ function transformRequestToOpenRouter(body: Record<string, unknown>): Record<str
   if (body.temperature !== undefined) openRouterBody.temperature = body.temperature;
   if (body.top_p !== undefined) openRouterBody.top_p = body.top_p;
   if (body.stop) openRouterBody.stop = body.stop;
+  if (body.response_format) openRouterBody.response_format = body.response_format;
 
   return openRouterBody;
 }
@@ -83,6 +90,401 @@ function transformResponseToAnthropic(openRouterResponse: Record<string, unknown
   };
 }
 
+type Databases = ReturnType<typeof getServerDatabases>;
+type ChatSpan = ReturnType<ReturnType<typeof getTracer>['startSpan']>;
+
+interface OpenRouterUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface CompletionContext {
+  span: ChatSpan;
+  routing: ModelRouting;
+  isPremium: boolean;
+  databases: Databases;
+  userId: string;
+  apiKey: string;
+  origin: string | null;
+  sourceText?: string;
+  /** Requested output language (de, en, …) when it may differ from the source */
+  language?: string;
+  guardrailPolicy: GuardrailPolicy;
+  requestKind: RequestKind;
+  /** Free tier: the completion counts as one of the day's generations (see api/utils/freeTier.ts) */
+  billable: boolean;
+  /** Generation a repair or helper call belongs to */
+  parentGenerationId?: string;
+}
+
+interface CompletionResult {
+  /** OpenRouter generation id; the guardrail result is stored under it */
+  id?: string;
+  model?: string;
+  usage?: OpenRouterUsage;
+  finishReason?: string | null;
+  text: string;
+  /** How the final text was produced; defaults to `completion` */
+  kind?: UsageKind;
+}
+
+// Max duration of a streamed completion once the first byte arrived
+const STREAM_TIMEOUT_MS = 60000;
+
+// SSE helper: format a Server-Sent Event (same wire format as api/extract.ts)
+function sseEvent(type: string, data?: Record<string, unknown>): string {
+  return `data: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+function openRouterHeaders(apiKey: string, origin: string | null): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${apiKey}`,
+    'HTTP-Referer': origin || 'https://linkedin-posts-one.vercel.app',
+    'X-Title': 'Social Transformer',
+  };
+}
+
+function completionText(openRouterData: Record<string, unknown>): string {
+  const choices = openRouterData.choices as Array<{ message?: { content?: string } }> | undefined;
+  return choices?.[0]?.message?.content || '';
+}
+
+// Cost accounting for one OpenRouter call (see api/utils/usage.ts); `final` marks the call whose text is returned.
+// Never rejects: a failed write only loses accounting.
+function trackUsage(ctx: CompletionContext, kind: UsageKind, model: string | undefined, usage: TokenUsage | undefined, generationId?: string, final = false): Promise<void> {
+  return recordUsage(ctx.databases, {
+    userId: ctx.userId,
+    kind,
+    model,
+    usage,
+    generationId,
+    ...(final ? { requestKind: ctx.requestKind, parentGenerationId: ctx.parentGenerationId } : {}),
+  }).catch(() => { /* non-critical */ });
+}
+
+// Guardrail checks are billed to the generation they check
+function guardrailUsageTracker(ctx: CompletionContext, generationId?: string) {
+  return (model: string, usage: TokenUsage | undefined) => trackUsage(ctx, 'guardrail', model, usage, generationId);
+}
+
+// Scores are kept so the client can show them next to the post (GET /api/guardrail)
+function storeGuardrailResult(ctx: CompletionContext, generationId: string | undefined, guardrail: GuardrailResult): Promise<unknown> | undefined {
+  if (!generationId) return;
+  return import('node-appwrite').then(({ ID }) =>
+    ctx.databases.createDocument(DB_ID, 'guardrail_results', ID.unique(), {
+      user_id: ctx.userId,
+      generation_id: generationId,
+      factual_accuracy: guardrail.factual_accuracy,
+      source_fidelity: guardrail.source_fidelity,
+      pii_detected: guardrail.pii_detected,
+      issues: guardrail.issues,
+      label: getGuardrailLabel(guardrail),
+      created_at: new Date().toISOString(),
+    })
+  );
+}
+
+/**
+ * Blocking policy: check the completion before it is returned. A failing post is regenerated
+ * with the issues as feedback; if it still fails, it goes back quarantined.
+ * An unavailable check (null) does not block the user.
+ *
+ * Everything has to finish by `deadline`: checks are cut short to the time that is left, and a
+ * failing post without enough time for a regeneration and its check is returned quarantined.
+ */
+async function enforceGuardrail(
+  ctx: CompletionContext,
+  sourceText: string,
+  openRouterBody: Record<string, unknown>,
+  first: Record<string, unknown>,
+  deadline: number
+): Promise<{ data: Record<string, unknown>; guardrail: GuardrailResult | null; regenerated: boolean }> {
+  let data = first;
+  let regenerated = false;
+  const remaining = () => deadline - Date.now();
+  const check = async () => remaining() <= 0 ? null : runGuardrailCheck(
+    sourceText, completionText(data), ctx.apiKey, ctx.origin, ctx.language,
+    guardrailUsageTracker(ctx, data.id as string | undefined),
+    Math.min(GUARDRAIL_TIMEOUT_MS, remaining())
+  );
+  let guardrail = await check();
+
+  for (
+    let attempt = 1;
+    attempt <= GUARDRAIL_MAX_REGENERATIONS && guardrail && getGuardrailLabel(guardrail) === 'fail';
+    attempt++
+  ) {
+    if (remaining() < REGENERATION_MIN_MS + GUARDRAIL_TIMEOUT_MS) {
+      ctx.span.setAttribute('guardrail.budget_exhausted', true);
+      break;
+    }
+    ctx.span.setAttribute('guardrail.regenerations', attempt);
+    try {
+      const response = await fetch(OPENROUTER_COMPLETIONS_URL, {
+        method: 'POST',
+        headers: openRouterHeaders(ctx.apiKey, ctx.origin),
+        body: JSON.stringify({
+          ...openRouterBody,
+          messages: [
+            ...(openRouterBody.messages as unknown[]),
+            { role: 'assistant', content: completionText(data) },
+            { role: 'user', content: buildGuardrailFeedback(guardrail) },
+          ],
+        }),
+        // Leaves a full check window for the regenerated post
+        signal: AbortSignal.timeout(remaining() - GUARDRAIL_TIMEOUT_MS),
+      });
+      if (!response.ok) break;
+      const next = await response.json() as Record<string, unknown>;
+      // The final version is accounted in finishCompletion, discarded ones here
+      trackUsage(ctx, regenerated ? 'regeneration' : 'completion', data.model as string | undefined, data.usage as TokenUsage | undefined, data.id as string | undefined);
+      data = next;
+      regenerated = true;
+    } catch {
+      break;
+    }
+    guardrail = await check();
+  }
+
+  return { data, guardrail, regenerated };
+}
+
+/**
+ * Shared bookkeeping once the final text is known (streamed or not):
+ * span attributes, cost accounting, free-tier usage and the guardrail check.
+ * `checked` is the result of a blocking check that already ran; otherwise the check runs in the background.
+ *
+ * Resolves once the final usage record is stored: repairs and helper calls of this completion are
+ * checked against it (api/utils/freeTier.ts), so the response must not go out before it exists.
+ */
+async function finishCompletion(ctx: CompletionContext, result: CompletionResult, checked?: GuardrailResult | null): Promise<void> {
+  ctx.span.setAttributes({
+    'gen_ai.response.model': result.model || ctx.routing.model,
+    'gen_ai.usage.input_tokens': result.usage?.prompt_tokens || 0,
+    'gen_ai.usage.output_tokens': result.usage?.completion_tokens || 0,
+    'gen_ai.usage.total_tokens': result.usage?.total_tokens || 0,
+    'gen_ai.response.finish_reason': result.finishReason || '',
+  });
+  ctx.span.setStatus({ code: SpanStatusCode.OK });
+  ctx.span.end();
+
+  const finalUsage = trackUsage(ctx, result.kind || 'completion', result.model || ctx.routing.model, result.usage, result.id, true);
+
+  // Only primary generations count against the free tier, and not when the blocking guardrail withheld the post
+  const quarantined = checked ? getGuardrailLabel(checked) === 'fail' : false;
+  if (!ctx.isPremium && ctx.billable && !quarantined) {
+    import('node-appwrite').then(({ ID }) =>
+      ctx.databases.createDocument(DB_ID, 'generation_usage', ID.unique(), {
+        user_id: ctx.userId,
+        generated_at: new Date().toISOString(),
+      })
+    ).catch(() => { /* non-critical */ });
+  }
+
+  if (checked) {
+    storeGuardrailResult(ctx, result.id, checked)?.catch(() => { /* non-critical */ });
+  } else if (ctx.guardrailPolicy !== 'off' && checked === undefined && ctx.sourceText && result.text) {
+    // Fire-and-forget guardrail check — runs async, does not block user response
+    runGuardrailCheck(ctx.sourceText, result.text, ctx.apiKey, ctx.origin, ctx.language, guardrailUsageTracker(ctx, result.id))
+      .then((guardrail) => guardrail ? storeGuardrailResult(ctx, result.id, guardrail) : undefined)
+      .catch(() => { /* non-critical */ });
+  }
+
+  await finalUsage;
+}
+
+/**
+ * Send the request to each model of the route until one answers. Rate limits, 5xx and timeouts
+ * move on to the next model; any other answer (including 400) is returned as-is, as is the last model's.
+ * Throws the last model's timeout or network error. The route and every hop are recorded on the span.
+ */
+async function fetchWithFallback(
+  route: ModelRoute,
+  openRouterBody: Record<string, unknown>,
+  span: ChatSpan,
+  apiKey: string,
+  origin: string | null
+): Promise<{ response: Response; controller: AbortController; routing: ModelRouting }> {
+  const deadline = Date.now() + REQUEST_TIMEOUT_MS;
+  const hops: ModelHop[] = [];
+  const recordHop = (hop: ModelHop) => {
+    hops.push(hop);
+    span.setAttributes({
+      'model_routing.fallback_hops': hops.length,
+      'model_routing.failed_models': hops.map((h) => `${h.model} (${h.status ?? h.reason})`),
+    });
+  };
+
+  for (const [index, model] of route.models.entries()) {
+    const isLast = index === route.models.length - 1;
+    const remaining = Math.max(0, deadline - Date.now());
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), isLast ? remaining : Math.min(remaining, ATTEMPT_TIMEOUT_MS));
+
+    try {
+      const response = await fetch(OPENROUTER_COMPLETIONS_URL, {
+        method: 'POST',
+        headers: openRouterHeaders(apiKey, origin),
+        body: JSON.stringify({ ...openRouterBody, model }),
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+
+      if (response.ok || isLast || !shouldFallBack(response.status)) {
+        span.setAttribute('model_routing.model', model);
+        return { response, controller, routing: { route: route.key, model, hops } };
+      }
+      response.body?.cancel().catch(() => { /* connection already closed */ });
+      recordHop({ model, reason: response.status === 429 ? 'rate_limited' : 'server_error', status: response.status });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      recordHop({ model, reason: error instanceof Error && error.name === 'AbortError' ? 'timeout' : 'network_error' });
+      if (isLast) throw error;
+    }
+  }
+
+  throw new Error('Model route without models');
+}
+
+/**
+ * Forward OpenRouter's SSE stream as our own events:
+ * `delta` (text chunk), `done` (final Anthropic-format message) or `error`.
+ * Usage and guardrail run on the assembled text after the stream ended.
+ */
+function streamCompletion(
+  upstream: Response,
+  controller: AbortController,
+  ctx: CompletionContext
+): Response {
+  const cors = getCorsHeaders(ctx.origin);
+
+  // Set once the browser disconnected or the stream was closed; enqueue and close throw after that
+  let closed = false;
+
+  const stream = new ReadableStream({
+    start(streamController) {
+      const encoder = new TextEncoder();
+      const send = (type: string, data?: Record<string, unknown>) => {
+        if (closed) return;
+        try {
+          streamController.enqueue(encoder.encode(sseEvent(type, data)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      // Detach async work from start() so the stream flushes immediately (see api/extract.ts)
+      (async () => {
+        const timeoutId = setTimeout(() => controller.abort(), STREAM_TIMEOUT_MS);
+        const reader = upstream.body!.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        let id: string | undefined;
+        let model: string | undefined;
+        let usage: OpenRouterUsage | undefined;
+        let finishReason: string | null = null;
+
+        try {
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const rawLine of lines) {
+              const line = rawLine.trim();
+              // Skip keep-alive comments (": OPENROUTER PROCESSING") and blank lines
+              if (!line.startsWith('data: ')) continue;
+              const payload = line.slice(6);
+              if (payload === '[DONE]') continue;
+
+              let chunk: {
+                id?: string;
+                model?: string;
+                usage?: OpenRouterUsage;
+                error?: { message?: string };
+                choices?: Array<{ delta?: { content?: string }; finish_reason?: string | null }>;
+              };
+              try {
+                chunk = JSON.parse(payload);
+              } catch {
+                continue;
+              }
+
+              if (chunk.error) {
+                throw new Error(chunk.error.message || 'AI service error');
+              }
+
+              id = chunk.id || id;
+              model = chunk.model || model;
+              usage = chunk.usage || usage;
+              const choice = chunk.choices?.[0];
+              finishReason = choice?.finish_reason || finishReason;
+
+              const delta = choice?.delta?.content;
+              if (delta) {
+                text += delta;
+                send('delta', { text: delta });
+              }
+            }
+          }
+
+          // Wait for the usage record: a repair sent right after `done` is checked against it
+          await finishCompletion(ctx, { id, model, usage, finishReason, text });
+
+          send('done', {
+            message: {
+              id,
+              type: 'message',
+              role: 'assistant',
+              content: [{ type: 'text', text }],
+              model,
+              stop_reason: finishReason,
+              usage,
+              routing: ctx.routing,
+            },
+          });
+        } catch (err) {
+          const isTimeout = err instanceof Error && err.name === 'AbortError';
+          const reason = closed ? 'client disconnected' : isTimeout ? 'stream timeout' : 'stream error';
+          ctx.span.setStatus({ code: SpanStatusCode.ERROR, message: reason });
+          ctx.span.end();
+          send('error', {
+            code: isTimeout ? 'TIMEOUT' : 'STREAM_ERROR',
+            message: isTimeout ? 'Request timeout. Please try again.' : 'AI stream interrupted',
+          });
+        } finally {
+          clearTimeout(timeoutId);
+          if (!closed) {
+            closed = true;
+            streamController.close();
+          }
+        }
+      })();
+    },
+    // The browser went away: stop the upstream completion so it is no longer generated and billed
+    cancel() {
+      closed = true;
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...cors,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
 export default async function handler(req: Request) {
   const origin = req.headers.get('origin');
 
@@ -98,6 +500,11 @@ export default async function handler(req: Request) {
     }, { status: 405, origin });
   }
 
+  // Determine if client wants SSE streaming (same convention as api/extract.ts)
+  const wantsStream = req.headers.get('accept')?.includes('text/event-stream') ?? false;
+  // The client's timeout starts with the request, so the blocking budget does too
+  const blockingDeadline = Date.now() + BLOCKING_FLOW_TIMEOUT_MS;
+
   try {
     const authHeader = req.headers.get('authorization');
     if (!authHeader?.startsWith('Bearer ')) {
@@ -134,22 +541,6 @@ export default async function handler(req: Request) {
     ]);
     const isPremium = subs.documents.length > 0;
 
-    if (!isPremium) {
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      const usage = await databases.listDocuments(DB_ID, 'generation_usage', [
-        Query.equal('user_id', user.id),
-        Query.greaterThanEqual('generated_at', todayStart.toISOString()),
-        Query.limit(FREE_GENERATIONS_PER_DAY + 1),
-      ]);
-      if (usage.documents.length >= FREE_GENERATIONS_PER_DAY) {
-        return createCorsResponse({
-          error: 'Tageslimit erreicht. Upgrade auf Pro fuer unbegrenzte Generierungen.',
-          code: 'FREE_TIER_LIMIT_REACHED'
-        }, { status: 429, origin });
-      }
-    }
-
     const parseResult = await parseJsonSafely<{ messages?: unknown[]; [key: string]: unknown }>(req, 100 * 1024);
     if (!parseResult.success) {
       const errMsg = parseResult.error;
@@ -175,6 +566,53 @@ export default async function handler(req: Request) {
       }, { status: 400, origin });
     }
 
+    const requestKind = body.kind ?? 'generation';
+    if (!isRequestKind(requestKind)) {
+      return createCorsResponse({
+        error: 'Invalid request kind',
+        code: 'INVALID_REQUEST',
+        details: 'kind must be "generation", "repair" or "auxiliary"'
+      }, { status: 400, origin });
+    }
+    const requestedParentId = typeof body.generationId === 'string' ? body.generationId : undefined;
+
+    let billable = true;
+    let parentGenerationId = requestedParentId;
+    if (!isPremium) {
+      const freeTier = await checkFreeTier(databases, user.id, { kind: requestKind, generationId: requestedParentId });
+      billable = freeTier.billable;
+      // Only a verified parent is stored; the follow-up allowance counts records that have one
+      parentGenerationId = freeTier.linked ? requestedParentId : undefined;
+      if (freeTier.limited === 'generations') {
+        return createCorsResponse({
+          error: 'Tageslimit erreicht. Upgrade auf Pro fuer unbegrenzte Generierungen.',
+          code: 'FREE_TIER_LIMIT_REACHED'
+        }, { status: 429, origin });
+      }
+      if (freeTier.limited === 'follow_ups') {
+        return createCorsResponse({
+          error: 'Tageslimit fuer Ueberarbeitungen erreicht. Upgrade auf Pro fuer unbegrenzte Nutzung.',
+          code: 'FREE_TIER_LIMIT_REACHED'
+        }, { status: 429, origin });
+      }
+      if (freeTier.limited === 'auxiliary') {
+        return createCorsResponse({
+          error: 'Tageslimit fuer Hilfsfunktionen erreicht. Upgrade auf Pro fuer unbegrenzte Nutzung.',
+          code: 'FREE_TIER_LIMIT_REACHED'
+        }, { status: 429, origin });
+      }
+    }
+
+    const budget = await checkMonthlyBudget(databases, user.id);
+    if (budget.exceeded) {
+      return createCorsResponse({
+        error: 'Monatliches Kostenlimit erreicht. Das Limit setzt sich zum Monatsanfang zurueck.',
+        code: 'MONTHLY_BUDGET_REACHED',
+        spentUsd: budget.spentUsd,
+        limitUsd: budget.limitUsd,
+      }, { status: 429, origin });
+    }
+
     const apiKey = normalizeOpenRouterApiKey(process.env.OPENROUTER_API_KEY);
 
     if (!apiKey) {
@@ -186,40 +624,44 @@ export default async function handler(req: Request) {
       }, { status: 503, origin });
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
     ensureTracing();
     const tracer = getTracer();
 
+    const sourceText = body.sourceText as string | undefined;
+    const guardrailPolicy = await getGuardrailPolicy(databases, user.id);
+    // A blocked post must never reach the client, so blocking checks run before anything is streamed
+    const blocking = guardrailPolicy === 'blocking' && !!sourceText;
+
     try {
-      const openRouterBody = transformRequestToOpenRouter(body);
-      const requestModel = openRouterBody.model as string;
+      const route = resolveModelRoute(MODEL_ROUTES, {
+        platform: typeof body.platform === 'string' ? body.platform : undefined,
+        isPremium,
+        requestedModel: typeof body.model === 'string' ? body.model : undefined,
+      });
+      const openRouterBody = transformRequestToOpenRouter(body, route.models[0]);
+      if (wantsStream && !blocking) {
+        openRouterBody.stream = true;
+        openRouterBody.stream_options = { include_usage: true };
+      }
 
       const span = tracer.startSpan('gen_ai.chat', {
         attributes: {
           'gen_ai.system': 'openrouter',
           'gen_ai.operation.name': 'chat',
-          'gen_ai.request.model': requestModel,
+          'gen_ai.request.model': route.models[0],
           'gen_ai.request.max_tokens': (openRouterBody.max_tokens as number) || 0,
           'gen_ai.request.temperature': (openRouterBody.temperature as number) || 0,
           'user.is_premium': isPremium,
+          'gen_ai.request.stream': wantsStream,
+          'guardrail.policy': guardrailPolicy,
+          'model_routing.route': route.key,
+          'request.kind': requestKind,
         },
       });
 
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-          'HTTP-Referer': origin || 'https://linkedin-posts-one.vercel.app',
-          'X-Title': 'Social Transformer',
-        },
-        body: JSON.stringify(openRouterBody),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
+      const { response, controller, routing } = await fetchWithFallback(route, openRouterBody, span, apiKey, origin);
+      // Guardrail regenerations stay on the model that answered
+      openRouterBody.model = routing.model;
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({
@@ -274,42 +716,62 @@ export default async function handler(req: Request) {
         throw new Error(`OpenRouter API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
       }
 
-      const openRouterData = await response.json() as Record<string, unknown>;
-      const anthropicFormatData = transformResponseToAnthropic(openRouterData);
+      const completionContext: CompletionContext = {
+        span,
+        routing,
+        isPremium,
+        databases,
+        userId: user.id,
+        apiKey,
+        origin,
+        sourceText,
+        language: isOutputLanguage(body.language) ? body.language : undefined,
+        guardrailPolicy,
+        requestKind,
+        billable,
+        parentGenerationId,
+      };
+
+      if (wantsStream && !blocking && response.body) {
+        return streamCompletion(response, controller, completionContext);
+      }
 
-      // Log gen_ai semantic convention attributes from response
-      const choices = openRouterData.choices as Array<{ finish_reason?: string }> | undefined;
-      const usage = openRouterData.usage as { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined;
-      span.setAttributes({
-        'gen_ai.response.model': (openRouterData.model as string) || requestModel,
-        'gen_ai.usage.input_tokens': usage?.prompt_tokens || 0,
-        'gen_ai.usage.output_tokens': usage?.completion_tokens || 0,
-        'gen_ai.usage.total_tokens': usage?.total_tokens || 0,
-        'gen_ai.response.finish_reason': choices?.[0]?.finish_reason || '',
-      });
-      span.setStatus({ code: SpanStatusCode.OK });
-      span.end();
-
-      if (!isPremium) {
-        const { ID } = await import('node-appwrite');
-        databases.createDocument(DB_ID, 'generation_usage', ID.unique(), {
-          user_id: user.id,
-          generated_at: new Date().toISOString(),
-        }).catch(() => { /* non-critical */ });
+      let openRouterData = await response.json() as Record<string, unknown>;
+      let guardrail: GuardrailResult | null | undefined;
+      let regenerated = false;
+      if (blocking && sourceText) {
+        ({ data: openRouterData, guardrail, regenerated } = await enforceGuardrail(completionContext, sourceText, openRouterBody, openRouterData, blockingDeadline));
+      }
+      const anthropicFormatData = transformResponseToAnthropic(openRouterData);
+      anthropicFormatData.routing = routing;
+      if (guardrail) {
+        const label = getGuardrailLabel(guardrail);
+        anthropicFormatData.guardrail = { ...guardrail, label, quarantined: label === 'fail', regenerated };
       }
 
-      // Fire-and-forget guardrail check — runs async, does not block user response
-      const sourceText = body.sourceText as string | undefined;
-      const generatedText = (anthropicFormatData.content as Array<{ text?: string }>)?.[0]?.text;
-      if (sourceText && generatedText) {
-        runGuardrailCheck(sourceText, generatedText, apiKey, origin).catch(() => { /* non-critical */ });
+      // Log gen_ai semantic convention attributes, track usage and run the guardrail; the usage
+      // record is stored before the response goes out, so follow-up calls can refer to it
+      const choices = openRouterData.choices as Array<{ finish_reason?: string }> | undefined;
+      await finishCompletion(completionContext, {
+        id: openRouterData.id as string | undefined,
+        model: openRouterData.model as string | undefined,
+        usage: openRouterData.usage as OpenRouterUsage | undefined,
+        finishReason: choices?.[0]?.finish_reason,
+        text: (anthropicFormatData.content as Array<{ text?: string }>)?.[0]?.text || '',
+        kind: regenerated ? 'regeneration' : 'completion',
+      }, guardrail);
+
+      // Streaming clients still get SSE, with the checked message as the only event
+      if (wantsStream) {
+        return new Response(sseEvent('done', { message: anthropicFormatData }), {
+          status: 200,
+          headers: { ...getCorsHeaders(origin), 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache, no-transform' },
+        });
       }
 
       return createCorsResponse(anthropicFormatData, { status: 200, origin });
 
     } catch (fetchError) {
-      clearTimeout(timeoutId);
-
       if (fetchError instanceof Error && fetchError.name === 'AbortError') {
         return createCorsResponse({
           error: 'Request timeout. Please try again.',
@@ -0,0 +1,48 @@
+import { verifyJWT, getServerDatabases } from './utils/appwrite.js'
+import { createCorsResponse, handlePreflight } from './utils/cors.js'
+import { getMonthStart, getMonthlyCostLimit, listUsageRecords, summarizeUsage } from './utils/usage.js'
+
+export const config = {
+  runtime: 'edge',
+  regions: ['fra1'],
+};
+
+/**
+ * Token and cost usage of the signed-in account for the current month (GET),
+ * with the monthly ceiling the chat proxy enforces. Shown under Settings → Verbrauch.
+ */
+export default async function handler(req: Request) {
+  const origin = req.headers.get('origin');
+
+  if (req.method === 'OPTIONS') {
+    return handlePreflight(origin);
+  }
+
+  if (req.method !== 'GET') {
+    return createCorsResponse({ error: 'Method not allowed' }, { status: 405, origin });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return createCorsResponse({ error: 'Nicht angemeldet' }, { status: 401, origin });
+    }
+
+    const user = await verifyJWT(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      return createCorsResponse({ error: 'Ungueltiger Auth Token' }, { status: 401, origin });
+    }
+
+    const databases = getServerDatabases();
+    const monthStart = getMonthStart();
+    const [records, limit] = await Promise.all([
+      listUsageRecords(databases, user.id, monthStart),
+      getMonthlyCostLimit(databases, user.id),
+    ]);
+
+    return createCorsResponse(summarizeUsage(records, monthStart, limit), { status: 200, origin });
+  } catch (error) {
+    console.error('Usage lookup error:', error);
+    return createCorsResponse({ error: 'Verbrauch konnte nicht geladen werden' }, { status: 500, origin });
+  }
+}
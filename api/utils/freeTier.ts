@@ -0,0 +1,105 @@
+import { DB_ID, Query, type getServerDatabases } from './appwrite.js';
+
+/**
+ * Free-tier quota of the chat proxy. Only the primary generation of a post counts against the
+ * daily generation limit; the calls around it declare their kind so they are not counted again:
+ *
+ * - `generation` (default): a new post, series or carousel. Writes one `generation_usage` document.
+ * - `repair`: a rewrite of an existing post (rule repairs, guardrail fixes, regenerations). Must send the
+ *   OpenRouter id of the completion it rewrites; without a completion of the user's today it is billed
+ *   as a generation.
+ * - `auxiliary`: helper calls (key-point digest, hooks, inline edits, quotes, series posts).
+ *
+ * Repairs and auxiliary calls that name a completion of the user's today share a daily allowance,
+ * counted from the `request_kind` and `parent_generation_id` attributes of their `ai_usage` documents
+ * (see recordUsage). Auxiliary calls without one get a much smaller allowance, so they cannot stand in
+ * for generations.
+ */
+
+type Databases = ReturnType<typeof getServerDatabases>;
+
+export const REQUEST_KINDS = ['generation', 'repair', 'auxiliary'] as const;
+
+export type RequestKind = typeof REQUEST_KINDS[number];
+
+export const FREE_GENERATIONS_PER_DAY = 3;
+/** Repairs and helper calls of the user's own completions per day; generous, but caps what a free account can spend */
+export const FREE_FOLLOW_UPS_PER_DAY = 40;
+/** Helper calls without a completion per day: the digest of one long source (at most 12 sections) and a few edits */
+export const FREE_UNLINKED_AUXILIARY_PER_DAY = 15;
+
+export function isRequestKind(value: unknown): value is RequestKind {
+  return typeof value === 'string' && (REQUEST_KINDS as readonly string[]).includes(value);
+}
+
+export interface FreeTierCheck {
+  /** Writes a `generation_usage` document once the completion succeeded */
+  billable: boolean;
+  /** The quota this request ran into, if any */
+  limited: 'generations' | 'follow_ups' | 'auxiliary' | null;
+  /** `generationId` is a completion of the user's today; only then is it stored as the parent */
+  linked: boolean;
+}
+
+function startOfToday(): string {
+  const todayStart = new Date();
+  todayStart.setHours(0, 0, 0, 0);
+  return todayStart.toISOString();
+}
+
+async function countDocuments(databases: Databases, collection: string, queries: string[], limit: number): Promise<number> {
+  const result = await databases.listDocuments(DB_ID, collection, [
+    ...queries,
+    Query.limit(limit + 1),
+  ]);
+  return result.documents.length;
+}
+
+/** Whether `generationId` is a completion the proxy returned to the user today (a generation or one of its follow-ups) */
+async function isOwnCompletion(databases: Databases, userId: string, generationId: string): Promise<boolean> {
+  const result = await databases.listDocuments(DB_ID, 'ai_usage', [
+    Query.equal('user_id', userId),
+    Query.equal('generation_id', generationId),
+    Query.isNotNull('request_kind'),
+    Query.greaterThanEqual('created_at', startOfToday()),
+    Query.limit(1),
+  ]);
+  return result.documents.length > 0;
+}
+
+/**
+ * Decide how a free account's request is counted and whether its quota is used up.
+ */
+export async function checkFreeTier(
+  databases: Databases,
+  userId: string,
+  { kind, generationId }: { kind: RequestKind; generationId?: string }
+): Promise<FreeTierCheck> {
+  const linked = kind !== 'generation' && !!generationId && await isOwnCompletion(databases, userId, generationId);
+
+  if (linked) {
+    const calls = await countDocuments(databases, 'ai_usage', [
+      Query.equal('user_id', userId),
+      Query.equal('request_kind', ['repair', 'auxiliary']),
+      Query.isNotNull('parent_generation_id'),
+      Query.greaterThanEqual('created_at', startOfToday()),
+    ], FREE_FOLLOW_UPS_PER_DAY);
+    return { billable: false, limited: calls >= FREE_FOLLOW_UPS_PER_DAY ? 'follow_ups' : null, linked };
+  }
+
+  if (kind === 'auxiliary') {
+    const calls = await countDocuments(databases, 'ai_usage', [
+      Query.equal('user_id', userId),
+      Query.equal('request_kind', 'auxiliary'),
+      Query.isNull('parent_generation_id'),
+      Query.greaterThanEqual('created_at', startOfToday()),
+    ], FREE_UNLINKED_AUXILIARY_PER_DAY);
+    return { billable: false, limited: calls >= FREE_UNLINKED_AUXILIARY_PER_DAY ? 'auxiliary' : null, linked };
+  }
+
+  const generations = await countDocuments(databases, 'generation_usage', [
+    Query.equal('user_id', userId),
+    Query.greaterThanEqual('generated_at', startOfToday()),
+  ], FREE_GENERATIONS_PER_DAY);
+  return { billable: true, limited: generations >= FREE_GENERATIONS_PER_DAY ? 'generations' : null, linked };
+}
@@ -1,12 +1,69 @@
 import { ensureTracing, getTracer, SpanStatusCode } from './tracing.js';
+import { DB_ID, type getServerDatabases } from './appwrite.js';
+import type { TokenUsage } from './usage.js';
 
-interface GuardrailResult {
+export interface GuardrailResult {
   factual_accuracy: number;
   source_fidelity: number;
   pii_detected: boolean;
   issues: string[];
 }
 
+export type GuardrailLabel = 'pass' | 'warn' | 'fail';
+
+/**
+ * Pass/warn/fail label shown to users: PII always fails, otherwise the lower of both scores decides.
+ */
+export function getGuardrailLabel(result: GuardrailResult): GuardrailLabel {
+  const minScore = Math.min(result.factual_accuracy, result.source_fidelity);
+  return result.pii_detected
+    ? 'fail'
+    : minScore >= 4
+      ? 'pass'
+      : minScore >= 3
+        ? 'warn'
+        : 'fail';
+}
+
+/** Mirrors GUARDRAIL_POLICIES in src/config/ai.ts */
+export type GuardrailPolicy = 'off' | 'advisory' | 'blocking';
+
+const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = 'advisory';
+
+/**
+ * Read the account's guardrail policy from its profile (document id = user id).
+ * Accounts without a profile, or with an unknown value, get the advisory default.
+ */
+export async function getGuardrailPolicy(
+  databases: ReturnType<typeof getServerDatabases>,
+  userId: string
+): Promise<GuardrailPolicy> {
+  try {
+    const profile = await databases.getDocument(DB_ID, 'profiles', userId);
+    const policy = profile.guardrail_policy;
+    return policy === 'off' || policy === 'advisory' || policy === 'blocking'
+      ? policy
+      : DEFAULT_GUARDRAIL_POLICY;
+  } catch {
+    return DEFAULT_GUARDRAIL_POLICY;
+  }
+}
+
+/**
+ * Feedback for a regeneration after a failed check: the issues, phrased as instructions.
+ */
+export function buildGuardrailFeedback(result: GuardrailResult): string {
+  const issues = result.issues.map((issue) => `- ${issue}`);
+  if (result.pii_detected) {
+    issues.unshift('- Der Post enthaelt personenbezogene Daten (E-Mail, Telefonnummer, Adresse o.ae.)');
+  }
+
+  return `Ein Faktencheck gegen den Quelltext hat diesen Post abgelehnt:
+${issues.join('\n')}
+
+Schreibe den Post neu und behebe JEDES Problem: streiche oder korrigiere Aussagen, die der Quelltext nicht stuetzt, bleib bei den Themen des Quelltexts und entferne personenbezogene Daten. Behalte Sprache, Tonalitaet und exakt dasselbe Ausgabeformat bei.`;
+}
+
 const GUARDRAIL_PROMPT = `Du bist ein Quality-Assurance-System fuer Social-Media-Posts.
 
 Du bekommst zwei Texte:
@@ -35,6 +92,34 @@ PII_DETECTED (true/false):
 
 ISSUES: Liste konkret jedes gefundene Problem auf. Bei keinen Problemen: leeres Array.`;
 
+// Mirrors OUTPUT_LANGUAGES in src/lib/language.ts
+const LANGUAGE_NAMES: Record<string, string> = {
+  de: 'Deutsch',
+  en: 'Englisch',
+  fr: 'Franzoesisch',
+  es: 'Spanisch',
+  it: 'Italienisch',
+  nl: 'Niederlaendisch',
+};
+
+export function isOutputLanguage(value: unknown): value is string {
+  return typeof value === 'string' && value in LANGUAGE_NAMES;
+}
+
+// A post in another language than the source is a translation, not a deviation
+function buildLanguageNote(language?: string): string {
+  if (!language || !isOutputLanguage(language)) return '';
+  return `\n\nHINWEIS: Der Post wurde absichtlich auf ${LANGUAGE_NAMES[language]} verfasst. Eine Uebersetzung ist keine Abweichung vom Quelltext; vergleiche Fakten und Aussagen sprachunabhaengig.`;
+}
+
+const GUARDRAIL_MODEL = 'anthropic/claude-haiku-4-5-20251001';
+
+// A slow check must not hold up the blocking flow; a timed-out check counts as unavailable
+export const GUARDRAIL_TIMEOUT_MS = 10000;
+
+// Enough for the key-point digest of a long source (src/lib/source-digest.ts), which replaces the raw text
+const GUARDRAIL_SOURCE_MAX_CHARS = 16000;
+
 const GUARDRAIL_SCHEMA = {
   type: 'object' as const,
   properties: {
@@ -56,12 +141,16 @@ const GUARDRAIL_SCHEMA = {
  * Logs results as OpenTelemetry span attributes for Dynatrace.
  *
  * Designed to run fire-and-forget — errors are caught and logged, never thrown.
+ * `onUsage` receives the tokens of the check for cost accounting; `timeoutMs` aborts the check (result null).
  */
 export async function runGuardrailCheck(
   sourceText: string,
   generatedPost: string,
   openRouterApiKey: string,
-  origin: string | null
+  origin: string | null,
+  language?: string,
+  onUsage?: (model: string, usage: TokenUsage | undefined) => void,
+  timeoutMs = GUARDRAIL_TIMEOUT_MS
 ): Promise<GuardrailResult | null> {
   ensureTracing();
   const tracer = getTracer();
@@ -69,9 +158,10 @@ export async function runGuardrailCheck(
     attributes: {
       'gen_ai.system': 'openrouter',
       'gen_ai.operation.name': 'guardrail',
-      'gen_ai.request.model': 'anthropic/claude-haiku-4-5-20251001',
+      'gen_ai.request.model': GUARDRAIL_MODEL,
       'guardrail.source_length': sourceText.length,
       'guardrail.post_length': generatedPost.length,
+      'guardrail.language': language || '',
     },
   });
 
@@ -85,12 +175,12 @@ export async function runGuardrailCheck(
         'X-Title': 'Social Transformer Guardrail',
       },
       body: JSON.stringify({
-        model: 'anthropic/claude-haiku-4-5-20251001',
+        model: GUARDRAIL_MODEL,
         max_tokens: 512,
         temperature: 0,
         messages: [{
           role: 'user',
-          content: `${GUARDRAIL_PROMPT}\n\n---\nQUELLTEXT:\n${sourceText.slice(0, 3000)}\n\n---\nGENERIERTER POST:\n${generatedPost}`,
+          content: `${GUARDRAIL_PROMPT}${buildLanguageNote(language)}\n\n---\nQUELLTEXT:\n${sourceText.slice(0, GUARDRAIL_SOURCE_MAX_CHARS)}\n\n---\nGENERIERTER POST:\n${generatedPost}`,
         }],
         response_format: {
           type: 'json_schema',
@@ -101,6 +191,7 @@ export async function runGuardrailCheck(
           },
         },
       }),
+      signal: AbortSignal.timeout(timeoutMs),
     });
 
     if (!response.ok) {
@@ -114,8 +205,10 @@ export async function runGuardrailCheck(
 
     const data = await response.json() as {
       choices?: Array<{ message?: { content?: string }; finish_reason?: string }>;
-      usage?: { prompt_tokens?: number; completion_tokens?: number };
+      model?: string;
+      usage?: TokenUsage;
     };
+    onUsage?.(data.model || GUARDRAIL_MODEL, data.usage);
 
     const content = data.choices?.[0]?.message?.content;
     if (!content) {
@@ -127,15 +220,7 @@ export async function runGuardrailCheck(
 
     const result: GuardrailResult = JSON.parse(content);
 
-    // Compute pass/warn/fail label
-    const minScore = Math.min(result.factual_accuracy, result.source_fidelity);
-    const label = result.pii_detected
-      ? 'fail'
-      : minScore >= 4
-        ? 'pass'
-        : minScore >= 3
-          ? 'warn'
-          : 'fail';
+    const label = getGuardrailLabel(result);
 
     span.setAttributes({
       'guardrail.factual_accuracy': result.factual_accuracy,
@@ -0,0 +1,163 @@
+/**
+ * Model routing for the chat proxy: which OpenRouter model answers a request,
+ * by platform and subscription tier, and which models take over when it fails.
+ *
+ * The table below is the default. OPENROUTER_MODEL replaces every route (default and platforms,
+ * both tiers) with one model, OPENROUTER_MODEL_ROUTES (JSON, same shape as ModelRoutingTable)
+ * then overrides parts of it,
+ * e.g. `{"platforms":{"x":{"free":"openai/gpt-4o-mini"}},"fallbacks":["openrouter/auto"]}`.
+ */
+
+export type ModelTier = 'free' | 'premium';
+
+export type TierModels = Record<ModelTier, string>;
+
+export interface ModelRoutingTable {
+  /** Used for platforms without their own route and for requests without a platform (batched, carousel) */
+  default: TierModels;
+  /** Keyed by platform id (linkedin, x, …) as sent by the client */
+  platforms: Record<string, TierModels>;
+  /** Tried in order when a model answers 429/5xx or times out */
+  fallbacks: string[];
+}
+
+export interface ModelRoute {
+  /** Route key for traces, e.g. "x:free" or "default:premium" */
+  key: string;
+  /** Models in the order they are tried: primary first, then the fallbacks */
+  models: string[];
+}
+
+/** A model that was skipped, and why */
+export interface ModelHop {
+  model: string;
+  reason: 'rate_limited' | 'server_error' | 'timeout' | 'network_error';
+  status?: number;
+}
+
+/** Reported with every completion (response body and span) */
+export interface ModelRouting {
+  route: string;
+  model: string;
+  hops: ModelHop[];
+}
+
+// Primary plus at most two fallbacks, so a failing chain stays within the request timeout
+export const MAX_MODEL_ATTEMPTS = 3;
+
+export const MODEL_ROUTES: ModelRoutingTable = {
+  default: { free: 'openai/gpt-4o-mini', premium: 'anthropic/claude-sonnet-4' },
+  platforms: {
+    // Short posts: the cheap model is good enough for both tiers
+    x: { free: 'openai/gpt-4o-mini', premium: 'openai/gpt-4o-mini' },
+    bluesky: { free: 'openai/gpt-4o-mini', premium: 'openai/gpt-4o-mini' },
+    threads: { free: 'openai/gpt-4o-mini', premium: 'openai/gpt-4o-mini' },
+    // Long-form posts where writing quality matters most
+    linkedin: { free: 'anthropic/claude-3.5-haiku', premium: 'anthropic/claude-sonnet-4' },
+  },
+  fallbacks: ['openai/gpt-4o-mini', 'openrouter/auto'],
+};
+
+const LEGACY_MODEL_IDS: Record<string, string> = {
+  'claude-3-5-sonnet-20241022': 'anthropic/claude-sonnet-4',
+  'claude-3-5-sonnet-latest': 'anthropic/claude-sonnet-4',
+  'claude-3-opus-20240229': 'anthropic/claude-3-opus',
+  'claude-3-sonnet-20240229': 'anthropic/claude-3-sonnet',
+  'claude-3-haiku-20240307': 'anthropic/claude-3-haiku',
+  'claude-sonnet-4-20250514': 'anthropic/claude-sonnet-4',
+  'claude-opus-4-20250514': 'anthropic/claude-opus-4',
+};
+
+/**
+ * OpenRouter id for a model requested by the client: ids with a provider prefix pass through,
+ * legacy Claude ids are mapped. Returns null for an empty value.
+ */
+export function mapModelToOpenRouter(model: string): string | null {
+  const normalizedModel = model.trim();
+  if (!normalizedModel) return null;
+  if (normalizedModel.includes('/')) return normalizedModel;
+  return LEGACY_MODEL_IDS[normalizedModel] || `anthropic/${normalizedModel}`;
+}
+
+function isTierModels(value: unknown): value is Partial<TierModels> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Routing table with the environment overrides applied. Invalid override JSON is logged and ignored.
+ */
+export function loadModelRoutes(env: Record<string, string | undefined> = process.env): ModelRoutingTable {
+  const model = env.OPENROUTER_MODEL?.trim();
+  // A pinned model applies to every platform, so no route keeps a differently priced model
+  const pinned = (models: TierModels): TierModels => (model ? { free: model, premium: model } : { ...models });
+  const table: ModelRoutingTable = {
+    default: pinned(MODEL_ROUTES.default),
+    platforms: Object.fromEntries(
+      Object.entries(MODEL_ROUTES.platforms).map(([platform, models]) => [platform, pinned(models)])
+    ),
+    fallbacks: [...MODEL_ROUTES.fallbacks],
+  };
+
+  const raw = env.OPENROUTER_MODEL_ROUTES?.trim();
+  if (!raw) return table;
+
+  let overrides: Partial<ModelRoutingTable>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    console.error('OPENROUTER_MODEL_ROUTES is not valid JSON, using the default routes');
+    return table;
+  }
+
+  if (isTierModels(overrides.default)) {
+    table.default = { ...table.default, ...overrides.default };
+  }
+  if (isTierModels(overrides.platforms)) {
+    for (const [platform, models] of Object.entries(overrides.platforms)) {
+      if (isTierModels(models)) {
+        table.platforms[platform] = { ...(table.platforms[platform] ?? table.default), ...models };
+      }
+    }
+  }
+  if (Array.isArray(overrides.fallbacks)) {
+    table.fallbacks = overrides.fallbacks.filter((fallback): fallback is string => typeof fallback === 'string');
+  }
+
+  return table;
+}
+
+/** Models a tier may ask for by name: every model the table routes that tier to, plus the fallbacks */
+export function getAllowedModels(table: ModelRoutingTable, tier: ModelTier): Set<string> {
+  return new Set([
+    table.default[tier],
+    ...Object.values(table.platforms).map((models) => models[tier]),
+    ...table.fallbacks,
+  ]);
+}
+
+/**
+ * Models to try for one request. A model requested by a premium client replaces the routed primary
+ * if the premium tier is routed to it anyway; free clients always get their route, so they cannot
+ * pick a pricier model. The fallbacks still apply. Duplicates are dropped and the chain is capped
+ * at MAX_MODEL_ATTEMPTS.
+ */
+export function resolveModelRoute(
+  table: ModelRoutingTable,
+  { platform, isPremium, requestedModel }: { platform?: string; isPremium: boolean; requestedModel?: string }
+): ModelRoute {
+  const tier: ModelTier = isPremium ? 'premium' : 'free';
+  const routed = platform && Object.prototype.hasOwnProperty.call(table.platforms, platform);
+  const requested = isPremium && requestedModel ? mapModelToOpenRouter(requestedModel) : null;
+  const primary = (requested && getAllowedModels(table, tier).has(requested) ? requested : null)
+    || (routed ? table.platforms[platform!][tier] : table.default[tier]);
+
+  return {
+    key: `${routed ? platform : 'default'}:${tier}`,
+    models: [...new Set([primary, ...table.fallbacks])].slice(0, MAX_MODEL_ATTEMPTS),
+  };
+}
+
+/** Whether a failed status is worth another model: rate limits and upstream errors, not bad requests */
+export function shouldFallBack(status: number): boolean {
+  return status === 429 || status >= 500;
+}
@@ -0,0 +1,268 @@
+import { DB_ID, Query, type getServerDatabases } from './appwrite.js';
+import type { RequestKind } from './freeTier.js';
+
+/**
+ * Token and cost accounting for every OpenRouter call the proxy makes (completions, guardrail
+ * regenerations and guardrail checks), plus the monthly cost ceiling per account.
+ *
+ * Each call is one `ai_usage` document, and its cost is added to the user's `usage_totals` document
+ * of the month, so the ceiling is checked with one read. The ceiling comes from the account's
+ * `usage_budgets` document (document id = user id, written by operators only) or
+ * MONTHLY_COST_LIMIT_USD; without either there is none.
+ */
+
+type Databases = ReturnType<typeof getServerDatabases>;
+
+export type UsageKind = 'completion' | 'regeneration' | 'guardrail';
+
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * OpenRouter list prices. Keys are matched as prefixes of the model id the response reports,
+ * so dated ids ("anthropic/claude-haiku-4-5-20251001") find their family. Keep in sync with MODEL_ROUTES.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'anthropic/claude-3-haiku': { input: 0.25, output: 1.25 },
+  'anthropic/claude-3.5-haiku': { input: 0.8, output: 4 },
+  'anthropic/claude-haiku-4': { input: 1, output: 5 },
+  'anthropic/claude-3-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-sonnet-4': { input: 3, output: 15 },
+  'anthropic/claude-3-opus': { input: 15, output: 75 },
+  'anthropic/claude-opus-4': { input: 15, output: 75 },
+};
+
+// Unknown models are billed like the most expensive routed model, so the ceiling errs on the safe side
+export const DEFAULT_MODEL_PRICE: ModelPrice = { input: 3, output: 15 };
+
+// Pages of ai_usage documents read for the monthly summary (1000 calls each)
+const MAX_USAGE_PAGES = 20;
+
+export function getModelPrice(model: string | undefined): ModelPrice {
+  if (!model) return DEFAULT_MODEL_PRICE;
+  const key = Object.keys(MODEL_PRICES)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? MODEL_PRICES[key] : DEFAULT_MODEL_PRICE;
+}
+
+/** Cost of one call in USD */
+export function computeCost(model: string | undefined, usage: TokenUsage | undefined): number {
+  const price = getModelPrice(model);
+  return ((usage?.prompt_tokens || 0) * price.input + (usage?.completion_tokens || 0) * price.output) / 1_000_000;
+}
+
+/** First instant of the current calendar month (UTC) */
+export function getMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/** `usage_totals` document of a user and month, e.g. "<userId>_202610" */
+export function getMonthlyTotalId(userId: string, monthStart: Date = getMonthStart()): string {
+  return `${userId}_${monthStart.toISOString().slice(0, 7).replace('-', '')}`;
+}
+
+function hasCode(error: unknown, code: number): boolean {
+  return (error as { code?: number } | null)?.code === code;
+}
+
+/**
+ * Add a call's cost to the month's running total. The increment is atomic; the first call of the
+ * month creates the document (server-only, no permissions).
+ */
+async function addToMonthlyTotal(databases: Databases, userId: string, costUsd: number): Promise<void> {
+  if (costUsd <= 0) return;
+  const monthStart = getMonthStart();
+  const documentId = getMonthlyTotalId(userId, monthStart);
+  const increment = () => databases.incrementDocumentAttribute(DB_ID, 'usage_totals', documentId, 'cost_usd', costUsd);
+
+  try {
+    await increment();
+  } catch (error) {
+    if (!hasCode(error, 404)) throw error;
+    try {
+      await databases.createDocument(DB_ID, 'usage_totals', documentId, {
+        user_id: userId,
+        month: monthStart.toISOString().slice(0, 7),
+        cost_usd: costUsd,
+      });
+    } catch (createError) {
+      // A concurrent call created it first
+      if (!hasCode(createError, 409)) throw createError;
+      await increment();
+    }
+  }
+}
+
+/**
+ * Store one call and add its cost to the monthly total. Callers run it fire-and-forget;
+ * a failed write only loses accounting, not the response.
+ */
+export async function recordUsage(
+  databases: Databases,
+  entry: {
+    userId: string;
+    kind: UsageKind;
+    model?: string;
+    usage?: TokenUsage;
+    generationId?: string;
+    /** Set on the final completion of a request only, so follow-up calls can be counted (see freeTier.ts) */
+    requestKind?: RequestKind;
+    /** Generation a repair or helper call belongs to */
+    parentGenerationId?: string;
+  }
+): Promise<void> {
+  const { ID } = await import('node-appwrite');
+  const costUsd = computeCost(entry.model, entry.usage);
+  await databases.createDocument(DB_ID, 'ai_usage', ID.unique(), {
+    user_id: entry.userId,
+    kind: entry.kind,
+    model: entry.model || 'unknown',
+    prompt_tokens: entry.usage?.prompt_tokens || 0,
+    completion_tokens: entry.usage?.completion_tokens || 0,
+    cost_usd: costUsd,
+    generation_id: entry.generationId || null,
+    request_kind: entry.requestKind || null,
+    parent_generation_id: entry.parentGenerationId || null,
+    created_at: new Date().toISOString(),
+  });
+  await addToMonthlyTotal(databases, entry.userId, costUsd);
+}
+
+export interface UsageRecord {
+  kind: UsageKind;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+/** All calls of the user since `since`, oldest first */
+export async function listUsageRecords(databases: Databases, userId: string, since: Date): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_USAGE_PAGES; page++) {
+    const result = await databases.listDocuments(DB_ID, 'ai_usage', [
+      Query.equal('user_id', userId),
+      Query.greaterThanEqual('created_at', since.toISOString()),
+      Query.orderAsc('$id'),
+      Query.limit(1000),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ]);
+    for (const doc of result.documents) {
+      records.push({
+        kind: doc.kind,
+        model: doc.model,
+        prompt_tokens: doc.prompt_tokens || 0,
+        completion_tokens: doc.completion_tokens || 0,
+        cost_usd: doc.cost_usd || 0,
+      });
+    }
+    if (result.documents.length < 1000) break;
+    cursor = result.documents[result.documents.length - 1].$id;
+  }
+
+  return records;
+}
+
+/**
+ * Monthly ceiling in USD, or null without one. The account's `usage_budgets` document wins over
+ * MONTHLY_COST_LIMIT_USD; a value of 0 or less disables the ceiling, and so does leaving both unset.
+ */
+export async function getMonthlyCostLimit(databases: Databases, userId: string): Promise<number | null> {
+  const envLimit = Number.parseFloat(process.env.MONTHLY_COST_LIMIT_USD ?? '');
+  let limit = Number.isNaN(envLimit) ? null : envLimit;
+
+  try {
+    const budget = await databases.getDocument(DB_ID, 'usage_budgets', userId);
+    if (typeof budget.monthly_limit_usd === 'number') limit = budget.monthly_limit_usd;
+  } catch {
+    // No budget document: the environment ceiling applies, if any
+  }
+
+  return limit !== null && limit > 0 ? limit : null;
+}
+
+export interface UsageSummary {
+  /** Calendar month, e.g. "2026-10" */
+  month: string;
+  cost_usd: number;
+  limit_usd: number | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  calls: number;
+  by_model: Array<{ model: string; calls: number; tokens: number; cost_usd: number }>;
+  by_kind: Record<UsageKind, { calls: number; cost_usd: number }>;
+}
+
+export function summarizeUsage(records: UsageRecord[], monthStart: Date, limit: number | null): UsageSummary {
+  const byModel = new Map<string, { model: string; calls: number; tokens: number; cost_usd: number }>();
+  const byKind: UsageSummary['by_kind'] = {
+    completion: { calls: 0, cost_usd: 0 },
+    regeneration: { calls: 0, cost_usd: 0 },
+    guardrail: { calls: 0, cost_usd: 0 },
+  };
+  const summary: UsageSummary = {
+    month: monthStart.toISOString().slice(0, 7),
+    cost_usd: 0,
+    limit_usd: limit,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    calls: records.length,
+    by_model: [],
+    by_kind: byKind,
+  };
+
+  for (const record of records) {
+    summary.cost_usd += record.cost_usd;
+    summary.prompt_tokens += record.prompt_tokens;
+    summary.completion_tokens += record.completion_tokens;
+
+    const model = byModel.get(record.model) ?? { model: record.model, calls: 0, tokens: 0, cost_usd: 0 };
+    model.calls++;
+    model.tokens += record.prompt_tokens + record.completion_tokens;
+    model.cost_usd += record.cost_usd;
+    byModel.set(record.model, model);
+
+    if (byKind[record.kind]) {
+      byKind[record.kind].calls++;
+      byKind[record.kind].cost_usd += record.cost_usd;
+    }
+  }
+
+  summary.by_model = [...byModel.values()].sort((a, b) => b.cost_usd - a.cost_usd);
+  return summary;
+}
+
+/**
+ * Spent and allowed cost of the current month, read from the running total. `exceeded` is true once
+ * the spend reached the ceiling; the call that crosses it still completes.
+ */
+export async function checkMonthlyBudget(
+  databases: Databases,
+  userId: string
+): Promise<{ spentUsd: number; limitUsd: number | null; exceeded: boolean }> {
+  const limitUsd = await getMonthlyCostLimit(databases, userId);
+  if (limitUsd === null) return { spentUsd: 0, limitUsd, exceeded: false };
+
+  let spentUsd = 0;
+  try {
+    const total = await databases.getDocument(DB_ID, 'usage_totals', getMonthlyTotalId(userId));
+    spentUsd = typeof total.cost_usd === 'number' ? total.cost_usd : 0;
+  } catch (error) {
+    // No call this month yet
+    if (!hasCode(error, 404)) throw error;
+  }
+  return { spentUsd, limitUsd, exceeded: spentUsd >= limitUsd };
+}
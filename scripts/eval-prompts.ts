@@ -0,0 +1,145 @@
+/**
+ * Offline prompt evaluation (see src/lib/prompt-eval.ts).
+ *
+ *   npm run eval:prompts                                         # standard vs structured, stub model
+ *   npm run eval:prompts -- --base standard --head structured --platforms linkedin,x --goal share_lessons
+ *   npm run eval:prompts -- --model recorded                     # replay scripts/prompt-eval/recordings.json
+ *   npm run eval:prompts -- --model recorded --record            # record missing responses (OPENROUTER_API_KEY)
+ *   npm run eval:prompts -- --compare main.json branch.json      # compare two saved runs, e.g. before/after a prompt change
+ *
+ * Writes one JSON file per run and report.md to --out (default .prompt-eval/).
+ */
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ALL_PLATFORMS, isPlatform } from '@/config/platforms';
+import { isPostGoal } from '@/config/post-goals';
+import { isPromptTemplateId, type PromptTemplateId } from '@/libs/promptTemplates';
+import { singlePostSchema, toResponseFormat } from '@/libs/postSchema';
+import {
+  buildComparisonReport,
+  createRecordedModel,
+  createStubModel,
+  runPromptEval,
+  type EvalFixture,
+  type EvalModel,
+  type EvalRecordings,
+  type EvalRun,
+} from '@/lib/prompt-eval';
+
+const EVAL_DIR = path.resolve('scripts/prompt-eval');
+
+const { values } = parseArgs({
+  options: {
+    base: { type: 'string', default: 'standard' },
+    head: { type: 'string', default: 'structured' },
+    model: { type: 'string', default: 'stub' },
+    record: { type: 'boolean', default: false },
+    recordings: { type: 'string', default: path.join(EVAL_DIR, 'recordings.json') },
+    fixtures: { type: 'string', default: path.join(EVAL_DIR, 'fixtures') },
+    platforms: { type: 'string', default: ALL_PLATFORMS.join(',') },
+    goal: { type: 'string' },
+    out: { type: 'string', default: '.prompt-eval' },
+    compare: { type: 'string', multiple: true },
+  },
+});
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(file, 'utf8')) as T;
+}
+
+function loadFixtures(dir: string): EvalFixture[] {
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.md'))
+    .sort()
+    .map((file) => ({ id: path.basename(file, '.md'), content: readFileSync(path.join(dir, file), 'utf8').trim() }));
+}
+
+// Live model for recording only; same request shape as the production single-post flow
+function createOpenRouterModel(apiKey: string): EvalModel {
+  const model = process.env.OPENROUTER_MODEL || 'openrouter/auto';
+  return {
+    name: `openrouter:${model}`,
+    async complete({ prompt, platform }) {
+      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          temperature: 0.7,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: toResponseFormat(`${platform}_post`, singlePostSchema(platform)),
+        }),
+        signal: AbortSignal.timeout(60000),
+      });
+      if (!response.ok) throw new Error(`OpenRouter ${response.status}: ${await response.text()}`);
+      const data = (await response.json()) as { choices?: Array<{ message?: { content?: string } }> };
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+  };
+}
+
+function writeReport(base: EvalRun, head: EvalRun) {
+  const report = buildComparisonReport(base, head);
+  mkdirSync(values.out, { recursive: true });
+  writeFileSync(path.join(values.out, 'report.md'), report);
+  console.log(report);
+}
+
+async function main() {
+  if (values.compare) {
+    if (values.compare.length !== 2) fail('--compare needs two run files: --compare base.json --compare head.json');
+    writeReport(readJson<EvalRun>(values.compare[0]), readJson<EvalRun>(values.compare[1]));
+    return;
+  }
+
+  const templates = [values.base, values.head];
+  const invalidTemplate = templates.find((template) => !isPromptTemplateId(template));
+  if (invalidTemplate) fail(`Unknown template: ${invalidTemplate}`);
+  const platforms = values.platforms.split(',').map((platform) => platform.trim());
+  const invalidPlatform = platforms.find((platform) => !isPlatform(platform));
+  if (invalidPlatform) fail(`Unknown platform: ${invalidPlatform}`);
+  if (values.goal !== undefined && !isPostGoal(values.goal)) fail(`Unknown goal: ${values.goal}`);
+
+  let model: EvalModel;
+  let recordings: EvalRecordings | undefined;
+  if (values.model === 'stub') {
+    model = createStubModel();
+  } else if (values.model === 'recorded') {
+    recordings = existsSync(values.recordings) ? readJson<EvalRecordings>(values.recordings) : {};
+    const apiKey = process.env.OPENROUTER_API_KEY;
+    if (values.record && !apiKey) fail('--record needs OPENROUTER_API_KEY');
+    model = createRecordedModel(recordings, values.record && apiKey ? createOpenRouterModel(apiKey) : undefined);
+  } else {
+    fail(`Unknown model: ${values.model} (stub | recorded)`);
+  }
+
+  const fixtures = loadFixtures(values.fixtures);
+  if (fixtures.length === 0) fail(`No fixtures in ${values.fixtures}`);
+
+  const runs: EvalRun[] = [];
+  for (const template of templates as PromptTemplateId[]) {
+    const run = await runPromptEval({
+      template,
+      fixtures,
+      platforms: platforms.filter(isPlatform),
+      model,
+      goal: isPostGoal(values.goal) ? values.goal : undefined,
+    });
+    mkdirSync(values.out, { recursive: true });
+    writeFileSync(path.join(values.out, `${run.templateVersion}.json`), JSON.stringify(run, null, 2));
+    runs.push(run);
+  }
+
+  if (recordings && values.record) {
+    writeFileSync(values.recordings, `${JSON.stringify(recordings, null, 2)}\n`);
+  }
+  writeReport(runs[0], runs[1]);
+}
+
+main().catch((error) => fail(error instanceof Error ? error.stack ?? error.message : String(error)));
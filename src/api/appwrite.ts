@@ -1,4 +1,13 @@
 import { Client, Account, Databases, ID, Query, Permission, Role, Models } from 'appwrite'
+import { isPlatform, type Platform } from '@/config/platforms'
+import { CUSTOM_VOICE_TONE_STYLE, type VoiceTone } from '@/config/voice-tones'
+import type { VoiceProfile } from '@/lib/voice-clone'
+import { DEFAULT_GUARDRAIL_POLICY, isGuardrailPolicy, type GuardrailPolicy } from '@/config/ai'
+import { isOutputLanguage, type OutputLanguage } from '@/lib/language'
+import { isPostGoal, type PostGoal } from '@/config/post-goals'
+import { isHookFormula, type HookFormula } from '@/config/hook-formulas'
+import type { PromptMeta } from '@/libs/promptTemplates'
+import type { ContentSeries } from '@/lib/series'
 
 // Lazy-initialized singletons — created on first access, after env validation in main.tsx
 let _client: Client | null = null
@@ -39,6 +48,7 @@ const COLLECTIONS = {
   saved_posts: 'saved_posts',
   subscriptions: 'subscriptions',
   profiles: 'profiles',
+  voice_tones: 'voice_tones',
   generation_usage: 'generation_usage',
   pending_subscriptions: 'pending_subscriptions',
   processed_webhooks: 'processed_webhooks',
@@ -58,7 +68,21 @@ export interface SavedPost {
   content: string
   created_at: string
   user_id?: string | null
-  platform?: 'linkedin' | 'x' | 'instagram'
+  platform?: Platform
+  /** Output language the post was generated in (missing on older posts) */
+  language?: OutputLanguage
+  goal?: PostGoal
+  /** Prompt template that produced the post, e.g. "structured@1" */
+  template_version?: string
+  /** Formula of the first line picked in the hook workshop */
+  hook_formula?: HookFormula
+  /** Content series the post belongs to; all posts of a series share the id */
+  series_id?: string
+  series_name?: string
+  /** Position in the series, from 1 */
+  series_position?: number
+  /** Suggested publish date, YYYY-MM-DD */
+  publish_date?: string
 }
 
 export interface GenerationUsage {
@@ -84,13 +108,33 @@ export interface SessionData {
 // --- Helpers ---
 
 function mapDocument(doc: Models.Document): SavedPost {
-  const d = doc as Models.Document & { content: string; user_id?: string; platform?: string }
+  const d = doc as Models.Document & {
+    content: string
+    user_id?: string
+    platform?: string
+    language?: string
+    goal?: string
+    template_version?: string
+    hook_formula?: string
+    series_id?: string
+    series_name?: string
+    series_position?: number
+    publish_date?: string
+  }
   return {
     id: d.$id,
     content: d.content,
     created_at: d.$createdAt,
     user_id: d.user_id,
-    platform: d.platform as SavedPost['platform'],
+    platform: isPlatform(d.platform) ? d.platform : undefined,
+    language: isOutputLanguage(d.language) ? d.language : undefined,
+    goal: isPostGoal(d.goal) ? d.goal : undefined,
+    template_version: d.template_version || undefined,
+    hook_formula: isHookFormula(d.hook_formula) ? d.hook_formula : undefined,
+    series_id: d.series_id || undefined,
+    series_name: d.series_name || undefined,
+    series_position: d.series_position ?? undefined,
+    publish_date: d.publish_date || undefined,
   }
 }
 
@@ -104,7 +148,7 @@ function mapUserToAppwriteUser(user: Models.User<Models.Preferences>): AppwriteU
 
 // --- Saved Posts CRUD ---
 
-export const savePost = async (content: string, platform: 'linkedin' | 'x' | 'instagram' = 'linkedin') => {
+export const savePost = async (content: string, platform: Platform = 'linkedin', prompt?: PromptMeta, hookFormula?: HookFormula) => {
   const user = await account.get()
   const userId = user.$id
 
@@ -112,7 +156,15 @@ export const savePost = async (content: string, platform: 'linkedin' | 'x' | 'in
     DB_ID,
     COLLECTIONS.saved_posts,
     ID.unique(),
-    { user_id: userId, content, platform },
+    {
+      user_id: userId,
+      content,
+      platform,
+      ...(prompt?.language ? { language: prompt.language } : {}),
+      ...(prompt?.goal ? { goal: prompt.goal } : {}),
+      ...(prompt ? { template_version: prompt.templateVersion } : {}),
+      ...(hookFormula ? { hook_formula: hookFormula } : {}),
+    },
     [
       Permission.read(Role.user(userId)),
       Permission.update(Role.user(userId)),
@@ -123,6 +175,44 @@ export const savePost = async (content: string, platform: 'linkedin' | 'x' | 'in
   return mapDocument(doc)
 }
 
+/** Save every post of a series, one document per position and platform, under one series id */
+export const saveSeries = async (series: ContentSeries, prompt?: PromptMeta) => {
+  const user = await account.get()
+  const userId = user.$id
+  const seriesId = ID.unique()
+
+  const documents = series.entries.flatMap((entry, index) =>
+    Object.entries(entry.posts)
+      .filter(([platform, content]) => isPlatform(platform) && content?.trim())
+      .map(([platform, content]) =>
+        databases.createDocument(
+          DB_ID,
+          COLLECTIONS.saved_posts,
+          ID.unique(),
+          {
+            user_id: userId,
+            content,
+            platform,
+            series_id: seriesId,
+            series_name: series.name,
+            series_position: index + 1,
+            publish_date: entry.publishDate,
+            ...(prompt?.language ? { language: prompt.language } : {}),
+            ...(prompt?.goal ? { goal: prompt.goal } : {}),
+            ...(prompt ? { template_version: prompt.templateVersion } : {}),
+          },
+          [
+            Permission.read(Role.user(userId)),
+            Permission.update(Role.user(userId)),
+            Permission.delete(Role.user(userId)),
+          ]
+        )
+      )
+  )
+
+  return (await Promise.all(documents)).map(mapDocument)
+}
+
 export const getSavedPosts = async () => {
   const user = await account.get()
 
@@ -171,8 +261,127 @@ export const deleteSavedPost = async (id: string) => {
   await databases.deleteDocument(DB_ID, COLLECTIONS.saved_posts, id)
 }
 
-export const updateSavedPost = async (id: string, content: string) => {
-  await databases.updateDocument(DB_ID, COLLECTIONS.saved_posts, id, { content })
+export const updateSavedPost = async (id: string, content: string, hookFormula?: HookFormula) => {
+  await databases.updateDocument(DB_ID, COLLECTIONS.saved_posts, id, {
+    content,
+    ...(hookFormula ? { hook_formula: hookFormula } : {}),
+  })
+}
+
+// --- Custom Voice Tones ---
+
+function mapVoiceToneDocument(doc: Models.Document): VoiceTone {
+  const d = doc as Models.Document & {
+    name: string
+    emoji: string
+    description: string
+    characteristics?: string[]
+    prompt_modifier: string
+    examples?: string[]
+  }
+  return {
+    id: d.$id,
+    name: d.name,
+    emoji: d.emoji,
+    description: d.description,
+    characteristics: d.characteristics ?? [],
+    promptModifier: d.prompt_modifier,
+    examples: d.examples ?? [],
+    isCustom: true,
+    ...CUSTOM_VOICE_TONE_STYLE,
+  }
+}
+
+export const getCustomVoiceTones = async () => {
+  const user = await account.get()
+
+  const response = await databases.listDocuments(
+    DB_ID,
+    COLLECTIONS.voice_tones,
+    [
+      Query.equal('user_id', user.$id),
+      Query.orderDesc('$createdAt'),
+    ]
+  )
+
+  return response.documents.map(mapVoiceToneDocument)
+}
+
+export const saveCustomVoiceTone = async (profile: VoiceProfile) => {
+  const user = await account.get()
+  const userId = user.$id
+
+  const doc = await databases.createDocument(
+    DB_ID,
+    COLLECTIONS.voice_tones,
+    ID.unique(),
+    {
+      user_id: userId,
+      name: profile.name,
+      emoji: profile.emoji,
+      description: profile.description,
+      characteristics: profile.characteristics,
+      prompt_modifier: profile.promptModifier,
+      examples: profile.examples,
+    },
+    [
+      Permission.read(Role.user(userId)),
+      Permission.update(Role.user(userId)),
+      Permission.delete(Role.user(userId)),
+    ]
+  )
+
+  return mapVoiceToneDocument(doc)
+}
+
+export const deleteCustomVoiceTone = async (id: string) => {
+  await databases.deleteDocument(DB_ID, COLLECTIONS.voice_tones, id)
+}
+
+// --- Account Settings (profiles, document id = user id) ---
+
+export const getGuardrailPolicy = async (): Promise<GuardrailPolicy> => {
+  const user = await account.get()
+
+  try {
+    const doc = await databases.getDocument(DB_ID, COLLECTIONS.profiles, user.$id)
+    return isGuardrailPolicy(doc.guardrail_policy) ? doc.guardrail_policy : DEFAULT_GUARDRAIL_POLICY
+  } catch (error) {
+    // No profile yet
+    if ((error as { code?: number }).code === 404) return DEFAULT_GUARDRAIL_POLICY
+    throw error
+  }
+}
+
+// Loaded once per session; requests need it to pick their timeout
+let cachedGuardrailPolicy: Promise<GuardrailPolicy> | null = null
+
+/**
+ * The account's guardrail policy, cached after the first load. Falls back to the default if it cannot be read.
+ */
+export const getCachedGuardrailPolicy = (): Promise<GuardrailPolicy> => {
+  cachedGuardrailPolicy ??= getGuardrailPolicy().catch(() => {
+    cachedGuardrailPolicy = null
+    return DEFAULT_GUARDRAIL_POLICY
+  })
+  return cachedGuardrailPolicy
+}
+
+export const saveGuardrailPolicy = async (policy: GuardrailPolicy) => {
+  const user = await account.get()
+  const userId = user.$id
+
+  await databases.upsertDocument(
+    DB_ID,
+    COLLECTIONS.profiles,
+    userId,
+    { user_id: userId, guardrail_policy: policy },
+    [
+      Permission.read(Role.user(userId)),
+      Permission.update(Role.user(userId)),
+    ]
+  )
+  cachedGuardrailPolicy = Promise.resolve(policy)
 }
 
 // --- Auth Helpers ---
@@ -278,6 +487,7 @@ export const updatePassword = async (newPassword: string, userId?: string, secre
 }
 
 export const signOut = async () => {
+  cachedGuardrailPolicy = null
   try {
     await account.deleteSession('current')
   } catch {
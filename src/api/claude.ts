@@ -1,8 +1,31 @@
-import { buildSinglePostPrompt, buildBatchedPostPrompt, parseBatchedResponse } from '@/libs/promptBuilder';
+import { buildSinglePostPrompt, buildBatchedPostPrompt, buildCarouselPrompt, buildVoiceClonePrompt, buildRepairPrompt, buildIssueFixPrompt, buildHookPrompt, buildInlineEditPrompt, buildKeyPointsPrompt, buildSeriesAnglesPrompt, buildSeriesPostsPrompt, buildQuotesPrompt, parseBatchedResponse, extractPrefixedPost, normalizeSinglePostResponse } from '@/libs/promptBuilder';
 import { generateOpenRouterMessage } from '@/libs/api-client';
 import type { OpenRouterMessageResponse } from '@/libs/api-client';
 import type { Platform } from '@/config/platforms';
-import { OPENROUTER_MODEL } from '@/config/ai';
+import { PLATFORMS } from '@/config/platforms';
+import { REPAIR_MAX_ATTEMPTS } from '@/config/ai';
+import type { VoiceTone } from '@/config/voice-tones';
+import { parseCarouselResponse } from '@/lib/carousel';
+import type { Carousel, CarouselFormat } from '@/lib/carousel';
+import { parseVoiceProfileResponse, validateWritingSamples } from '@/lib/voice-clone';
+import type { VoiceProfile } from '@/lib/voice-clone';
+import { findPostViolations } from '@/lib/post-rules';
+import type { PostCheck, PostRepair } from '@/lib/post-rules';
+import { redactPii, restorePii } from '@/lib/pii-redaction';
+import { applyPlatformHashtags } from '@/lib/hashtags';
+import { MAX_HOOKS, parseHooksResponse, replaceHook, splitHook } from '@/lib/hook-workshop';
+import type { HookAlternative } from '@/lib/hook-workshop';
+import { parseInlineEditResponse, splitAtSelection } from '@/lib/inline-edit';
+import type { TextSelection } from '@/lib/inline-edit';
+import type { InlineEditAction } from '@/config/inline-edits';
+import { MAX_SOURCE_CHARS, buildDigestText, parseKeyPointsResponse, splitSource } from '@/lib/source-digest';
+import type { SourceDigest } from '@/lib/source-digest';
+import { MAX_SERIES_ANGLES, MIN_SERIES_ANGLES, findRepeatedHooks, parseSeriesAnglesResponse, parseSeriesPostsResponse, pickUnusedHook } from '@/lib/series';
+import type { SeriesAngle } from '@/lib/series';
+import { MAX_QUOTES, findQuoteCandidates, parseQuotesResponse } from '@/lib/quotes';
+import type { PromptOptions } from '@/libs/promptTemplates';
+import type { OutputLanguage } from '@/lib/language';
+import { SINGLE_POST_FIELD, batchedPostsSchema, carouselSchema, hooksSchema, inlineEditSchema, keyPointsSchema, parseJsonObject, quotesSchema, seriesAnglesSchema, seriesPostsSchema, singlePostSchema, toResponseFormat, voiceProfileSchema } from '@/libs/postSchema';
 
 function extractText(response: OpenRouterMessageResponse): string {
   const block = response.content?.[0];
@@ -12,182 +35,515 @@ function extractText(response: OpenRouterMessageResponse): string {
   return block.text;
 }
 
-export async function linkedInPostsFromNewsletter(content: string) {
-  try {
-   const prompt = buildSinglePostPrompt(content, 'linkedin');
-   const response = await generateOpenRouterMessage({
-     model: OPENROUTER_MODEL,
-     max_tokens: 4096,
-     temperature: 0.85,
-     messages: [{ role: 'user', content: prompt }],
-     sourceText: content,
-   });
-
-   const text = extractText(response);
-   // Parse single LinkedIn post
-   const regex = /LINKEDIN:\s*([\s\S]*?)$/;
-   const match = text.match(regex);
-
-   if (match && match[1]) {
-     const postContent = match[1].trim();
-     if (postContent) {
-       return [postContent]; // Return array with single post
-     }
-   }
-
-   // Fallback: if no LINKEDIN: prefix found, take the whole text
-   const cleanText = text.replace(/^\s*LINKEDIN:\s*/, '').trim();
-   return cleanText ? [cleanText] : [];
-  } catch {
-    throw new Error('Failed to remix content');
-  }
-} 
-
-// === Instagram generation ===
-
-// === X (Twitter) generation ===
-
-function sanitizeTweet(tweet: string): string {
-  let t = tweet.trim();
-
-  // Entferne Hashtags vorsichtshalber
-  t = t.replace(/#[^\s#]+/g, '').trim();
-
-  // Entferne gängige Plattform-/Meta-Labels im Text
-  t = t
-    .replace(/\bX\s*\(Twitter\)\s*·\s*Post\s*#?\d+\b/gi, '')
-    .replace(/\bPost\s*#?\d+\b/gi, '')
-    .replace(/\bTweet\s*#?\d+\b/gi, '')
-    .trim();
-
-  // Entferne führende Labels/Nummerierung (Tweet 1:, Punkt 2:, 1) 1. - * • (1) etc.)
-  t = t
-    .replace(/^\s*(Tweet|Tweets|Punkt)\s*\d+\s*:\s*/i, '')
-  .replace(/^\s*[-*•]\s+/, '')
-    .replace(/^\s*\(?\d+\)?\s*[-.)]\s+/, '')
-    .replace(/^\s*\(?\d+\/\d+\)?\s+/, '')
-    .trim();
-
-  // Entferne Thread-Hinweise (am Anfang oder Ende)
-  t = t
-    .replace(/\s*\(?\d+\/\d+\)?\s*$/g, '') // z. B. "1/5" am Ende
-    .replace(/^\s*(Teil\s*\d+(?:\/\d+)?)\s*[:-]?\s*/i, '')
-    .replace(/\b(Thread|Fortsetzung|weiter(\s*geht's)?|Teil\s*\d+)\b/gi, '')
-    .replace(/\s{2,}/g, ' ')
-    .trim();
-
-  // Entferne Emojis (grobe Unicode-Emoji-Range und gängige Symbole)
-  // Hinweis: bewusst konservativ, um deutsche Umlaute/Sonderzeichen nicht zu treffen
-  t = t
-    .replace(/[\u{1F300}-\u{1F6FF}\u{1F700}-\u{1F77F}\u{1F900}-\u{1F9FF}\u{1FA70}-\u{1FAFF}\u{2600}-\u{27BF}]/gu, '')
-    .replace(/[\u2702-\u27B0]/g, '')
-    .trim();
-
-  // Kürze hart auf 280 Zeichen
-  if (t.length > 280) t = t.slice(0, 279) + '…';
-
-  return t;
+// Structured output carries the post in a JSON field; plain-text answers go through the platform parser
+function extractPost(text: string, platform: Platform): string {
+  const field = parseJsonObject(text)?.[SINGLE_POST_FIELD];
+  if (typeof field === 'string') return field.trim();
+
+  const definition = PLATFORMS[platform];
+  return definition.parse
+    ? definition.parse(text)
+    : extractPrefixedPost(text, definition.outputPrefix);
 }
 
-export async function xTweetsFromBlog(content: string) {
+/**
+ * Generate posts for one platform using its registered prompt, parser and sanitizer.
+ *
+ * @param content - Source content to generate posts from
+ * @param platform - Target platform
+ * @param options - Template, goal, audience and output language (see PromptOptions)
+ * @param generationId - Batch this post is retried for; the retry then counts as a repair of it
+ * @returns Array with the generated post (empty if the model returned nothing)
+ */
+export async function postsFromContent(
+  content: string,
+  platform: Platform,
+  options: PromptOptions = {},
+  generationId?: string
+): Promise<string[]> {
+  const definition = PLATFORMS[platform];
+
   try {
-    const prompt = buildSinglePostPrompt(content, 'x');
+    const redaction = redactPii(content);
+    const prompt = buildSinglePostPrompt(redaction.text, platform, undefined, undefined, options);
 
     const response = await generateOpenRouterMessage({
-      model: OPENROUTER_MODEL,
-      max_tokens: 280,
-      temperature: 0.65,
+      platform,
+      max_tokens: definition.generation.maxTokens,
+      temperature: definition.generation.temperature,
       messages: [{ role: 'user', content: prompt }],
-      sourceText: content,
+      sourceText: redaction.text,
+      language: options.language,
+      response_format: toResponseFormat(`${platform}_post`, singlePostSchema(platform)),
+      ...(generationId ? { kind: 'repair' as const, generationId } : {}),
     });
 
-    const text = extractText(response).trim();
+    const parsed = extractPost(extractText(response), platform);
+    const sanitized = definition.sanitize ? definition.sanitize(parsed) : parsed;
+    const post = restorePii(applyPlatformHashtags(sanitized, platform, redaction.text), redaction.entities);
 
-    // Parse single tweet - take the first non-empty line
-    const cleanedTweet = sanitizeTweet(text);
-
-    // Return array with single tweet
-    return cleanedTweet ? [cleanedTweet] : [];
+    return post ? [post] : [];
   } catch {
-    throw new Error('Failed to generate X tweets');
+    throw new Error(`Failed to generate ${definition.meta.label} posts`);
   }
 }
 
-export async function instagramPostsFromBlog(content: string) {
-  try {
-    const prompt = buildSinglePostPrompt(content, 'instagram');
+/**
+ * Validate-and-repair loop: while the post breaks its platform rules, send a targeted rewrite
+ * request that quotes the violations, up to `maxAttempts` times.
+ * With a source, the hashtag policy is applied to the post and to every rewrite before checking.
+ *
+ * Rewrites are sent as repairs of `generationId` (the completion the post came from), so they do not
+ * count as new generations.
+ *
+ * @param post - Normalized post to check
+ * @param platform - Target platform
+ * @returns The final post with every repair round and the violations that are left
+ */
+export async function repairPost(
+  post: string,
+  platform: Platform,
+  {
+    voiceTone,
+    sourceText,
+    language,
+    maxAttempts = REPAIR_MAX_ATTEMPTS,
+    generationId: draftId,
+  }: { voiceTone?: VoiceTone; sourceText?: string; language?: OutputLanguage; maxAttempts?: number; generationId?: string } = {}
+): Promise<PostCheck & { post: string }> {
+  const withHashtags = (text: string) => (sourceText === undefined ? text : applyPlatformHashtags(text, platform, sourceText));
+  let current = withHashtags(post);
+  let violations = findPostViolations(current, platform);
+  const repairs: PostRepair[] = [];
+  let generationId: string | undefined;
+  let quarantined: boolean | undefined;
+  let regenerated: boolean | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts && violations.length > 0; attempt++) {
+    let repaired: string;
+    try {
+      const response = await generateOpenRouterMessage({
+        platform,
+        max_tokens: PLATFORMS[platform].generation.singlePostMaxTokens,
+        // An edit, not a new creative draft
+        temperature: 0.4,
+        messages: [{ role: 'user', content: buildRepairPrompt(current, platform, violations, voiceTone, language) }],
+        sourceText,
+        language,
+        response_format: toResponseFormat(`${platform}_post`, singlePostSchema(platform)),
+        kind: 'repair',
+        generationId: generationId ?? draftId,
+      });
+      repaired = withHashtags(normalizeSinglePostResponse(extractText(response), platform));
+      generationId = response.id;
+      quarantined = response.guardrail?.quarantined;
+      regenerated = response.guardrail?.regenerated;
+    } catch (error) {
+      // Keep the last version; its violations are reported to the caller
+      if (import.meta.env.DEV) console.error('Post repair failed:', error);
+      break;
+    }
 
-    const response = await generateOpenRouterMessage({
-      model: OPENROUTER_MODEL,
-      max_tokens: 4096,
-      temperature: 0.85,
-      messages: [{ role: 'user', content: prompt }],
-      sourceText: content,
-    });
+    repairs.push({ attempt, violations, before: current, after: repaired });
+    current = repaired;
+    violations = findPostViolations(current, platform);
+  }
 
-    const text = extractText(response);
+  return { post: current, violations, repairs, generationId, quarantined, regenerated };
+}
 
-    // Parse single Instagram post from XML tags
-    const descriptionsMatch = text.match(/<instagram_descriptions>([\s\S]*?)<\/instagram_descriptions>/i);
+/**
+ * Rewrite a post with the guardrail's issues as feedback, then run the usual repair loop on the result.
+ *
+ * @param post - Post the guardrail flagged
+ * @param platform - Target platform
+ * @param issues - Issues from the guardrail result
+ * @param sourceText - Source the post was generated from
+ * @param language - Output language of the post
+ * @param generationId - Completion the post came from; the rewrite counts as a repair of it
+ * @returns The rewritten post with its rule check and generation id
+ */
+export async function fixPostIssues(
+  post: string,
+  platform: Platform,
+  issues: string[],
+  sourceText: string,
+  voiceTone?: VoiceTone,
+  language?: OutputLanguage,
+  generationId?: string
+): Promise<PostCheck & { post: string }> {
+  // Post, source and issues share one set of placeholders
+  const source = redactPii(sourceText);
+  const draft = redactPii(post, source.entities);
+  const redacted = issues.reduce(
+    (acc, issue) => {
+      const issueRedaction = redactPii(issue, acc.entities);
+      return { issues: [...acc.issues, issueRedaction.text], entities: issueRedaction.entities };
+    },
+    { issues: [] as string[], entities: draft.entities }
+  );
+
+  const response = await generateOpenRouterMessage({
+    platform,
+    max_tokens: PLATFORMS[platform].generation.singlePostMaxTokens,
+    temperature: 0.4,
+    messages: [{ role: 'user', content: buildIssueFixPrompt(draft.text, platform, redacted.issues, source.text, voiceTone, language) }],
+    sourceText: source.text,
+    language,
+    response_format: toResponseFormat(`${platform}_post`, singlePostSchema(platform)),
+    kind: 'repair',
+    generationId,
+  });
+  const fixed = normalizeSinglePostResponse(extractText(response), platform);
+  if (!fixed) throw new Error('Invalid AI response: empty post');
+
+  const { post: repaired, ...result } = await repairPost(fixed, platform, { voiceTone, sourceText: source.text, language, generationId: response.id });
+  const restored = restorePii(repaired, redacted.entities);
+  return result.generationId
+    ? { ...result, post: restored }
+    : {
+        ...result,
+        post: restored,
+        generationId: response.id,
+        quarantined: response.guardrail?.quarantined,
+        regenerated: response.guardrail?.regenerated,
+      };
+}
 
-    if (descriptionsMatch) {
-      const descriptionsText = descriptionsMatch[1].trim();
-      // Extract single post starting with INSTAGRAM:
-      const postMatch = descriptionsText.match(/INSTAGRAM:\s*([\s\S]*?)$/i);
-      if (postMatch && postMatch[1]) {
-        const postContent = postMatch[1].trim();
-        if (postContent) {
-          return [postContent]; // Return array with single post
-        }
-      }
-    }
+/**
+ * Alternative first lines for a generated or saved post (hook workshop), each labeled with its formula.
+ * The post is its own source: hooks may only use what it already says. Sent as an `auxiliary` call,
+ * so it does not count against the free tier.
+ *
+ * @param post - Post whose opening should be replaced
+ * @param platform - Platform of the post
+ * @param language - Output language of the post
+ * @param generationId - Generation the post belongs to, if known
+ * @returns 5-8 hooks, without the current one
+ */
+export async function hooksForPost(
+  post: string,
+  platform: Platform,
+  voiceTone?: VoiceTone,
+  language?: OutputLanguage,
+  generationId?: string
+): Promise<HookAlternative[]> {
+  const draft = redactPii(post);
+  const { hook } = splitHook(draft.text);
+
+  const response = await generateOpenRouterMessage({
+    platform,
+    max_tokens: 1024,
+    temperature: 0.9,
+    messages: [{ role: 'user', content: buildHookPrompt(draft.text, hook, platform, MAX_HOOKS, voiceTone, language) }],
+    sourceText: draft.text,
+    language,
+    response_format: toResponseFormat(`${platform}_hooks`, hooksSchema()),
+    kind: 'auxiliary',
+    generationId,
+  });
+
+  return parseHooksResponse(extractText(response), hook).map((alternative) => ({
+    ...alternative,
+    hook: restorePii(alternative.hook, draft.entities),
+  }));
+}
 
-    // Fallback: try to find INSTAGRAM: prefix in full text
-    const fallbackMatch = text.match(/INSTAGRAM:\s*([\s\S]*?)$/i);
-    if (fallbackMatch && fallbackMatch[1]) {
-      const postContent = fallbackMatch[1].trim();
-      if (postContent) {
-        return [postContent];
+/**
+ * Rewrite the selected range of a post with one inline edit action; the rest of the post is context only.
+ * Sent as an `auxiliary` call, so it does not count against the free tier.
+ *
+ * @param content - Post in the editor
+ * @param selection - Range to rewrite
+ * @param action - Inline edit action
+ * @param platform - Platform of the post
+ * @param language - Language of the post, or the target language for "translate"
+ * @returns Replacement for the selection (review it with diffWords before applying)
+ */
+export async function inlineEditSelection(
+  content: string,
+  selection: TextSelection,
+  action: InlineEditAction,
+  platform: Platform,
+  voiceTone?: VoiceTone,
+  language?: OutputLanguage
+): Promise<string> {
+  // The three parts share one set of placeholders
+  const parts = splitAtSelection(content, selection);
+  const selected = redactPii(parts.selected);
+  const before = redactPii(parts.before, selected.entities);
+  const after = redactPii(parts.after, before.entities);
+  const redacted = { before: before.text, selected: selected.text, after: after.text };
+
+  const response = await generateOpenRouterMessage({
+    platform,
+    max_tokens: PLATFORMS[platform].generation.singlePostMaxTokens,
+    temperature: 0.5,
+    messages: [{ role: 'user', content: buildInlineEditPrompt(redacted, action, platform, voiceTone, language) }],
+    sourceText: `${redacted.before}${redacted.selected}${redacted.after}`,
+    language,
+    response_format: toResponseFormat(`${platform}_inline_edit`, inlineEditSchema()),
+    kind: 'auxiliary',
+  });
+
+  return restorePii(parseInlineEditResponse(extractText(response)), after.entities);
+}
+
+/**
+ * Content series: find distinct angles in the source, then write one post per angle for each
+ * platform (one request per platform). A post that opens like an earlier one of the same
+ * platform gets a new first line from the hook workshop, and every post goes through the
+ * repair loop like a single post.
+ *
+ * The series counts as one generation: the angles request is the `generation`, the post and
+ * hook requests are `auxiliary` calls of it, and repairs refer to the posts they rewrite.
+ *
+ * @param content - Source content (the key-point digest for long sources)
+ * @param platforms - Platforms to write the series for
+ * @param angleCount - Requested number of angles, 5-10
+ * @returns The angles and, per platform, one post per angle in angle order
+ */
+export async function seriesFromContent(
+  content: string,
+  platforms: Platform[],
+  angleCount: number,
+  voiceTone?: VoiceTone,
+  options: PromptOptions = {}
+): Promise<{ angles: SeriesAngle[]; posts: Partial<Record<Platform, string[]>> }> {
+  const redaction = redactPii(content);
+  const count = Math.min(MAX_SERIES_ANGLES, Math.max(MIN_SERIES_ANGLES, angleCount));
+
+  const anglesResponse = await generateOpenRouterMessage({
+    max_tokens: 2048,
+    temperature: 0.7,
+    messages: [{ role: 'user', content: buildSeriesAnglesPrompt(redaction.text, count, options.language) }],
+    response_format: toResponseFormat('series_angles', seriesAnglesSchema()),
+    kind: 'generation',
+  }, { timeout: 45000 });
+  const angles = parseSeriesAnglesResponse(extractText(anglesResponse));
+
+  const posts: Partial<Record<Platform, string[]>> = {};
+  await Promise.all(platforms.map(async (platform) => {
+    const response = await generateOpenRouterMessage({
+      platform,
+      max_tokens: PLATFORMS[platform].generation.singlePostMaxTokens * angles.length,
+      temperature: 0.8,
+      messages: [{ role: 'user', content: buildSeriesPostsPrompt(redaction.text, angles, platform, voiceTone, options) }],
+      sourceText: redaction.text,
+      language: options.language,
+      response_format: toResponseFormat(`${platform}_series`, seriesPostsSchema(platform)),
+      kind: 'auxiliary',
+      generationId: anglesResponse.id,
+    }, { timeout: 60000 });
+    const platformPosts = parseSeriesPostsResponse(extractText(response), platform, angles.length)
+      .map((post) => applyPlatformHashtags(post, platform, redaction.text));
+
+    for (const index of findRepeatedHooks(platformPosts)) {
+      try {
+        const alternatives = await hooksForPost(platformPosts[index], platform, voiceTone, options.language, anglesResponse.id);
+        const hook = pickUnusedHook(platformPosts, alternatives.map((alternative) => alternative.hook));
+        if (hook) platformPosts[index] = replaceHook(platformPosts[index], hook);
+      } catch (error) {
+        // Keep the post; the repeated opening can still be changed in the hook workshop
+        if (import.meta.env.DEV) console.error('Series hook replacement failed:', error);
       }
     }
+    const repaired = await Promise.all(platformPosts.map((post) => repairPost(post, platform, {
+      voiceTone,
+      sourceText: redaction.text,
+      language: options.language,
+      generationId: response.id,
+    })));
+    posts[platform] = repaired.map(({ post }) => restorePii(post, redaction.entities));
+  }));
+
+  return {
+    angles: angles.map((angle) => ({
+      title: restorePii(angle.title, redaction.entities),
+      focus: restorePii(angle.focus, redaction.entities),
+    })),
+    posts,
+  };
+}
 
-    // Last fallback: if no INSTAGRAM: prefix found, take the whole text
-    const cleanText = text.replace(/^\s*INSTAGRAM:\s*/, '').trim();
-    return cleanText ? [cleanText] : [];
-  } catch {
-    throw new Error('Failed to generate Instagram posts');
+// Key-point requests running at the same time; the chat endpoint allows 20 requests per minute
+const DIGEST_CONCURRENCY = 3;
+
+/**
+ * Digest a long source (map-reduce): split it along its headings, extract the key points of every
+ * section, and merge them into one short source for the post prompts. The section calls are
+ * `auxiliary`: only the posts written from the digest count against the free tier.
+ *
+ * @param content - Source content, usually longer than LONG_SOURCE_MIN_CHARS
+ * @param onProgress - Called after each section with the number of finished sections
+ * @returns The key points per section and their merged text
+ */
+export async function digestSource(
+  content: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<SourceDigest> {
+  if (content.length > MAX_SOURCE_CHARS) {
+    throw new Error(`Quelltext zu lang (max. ${MAX_SOURCE_CHARS.toLocaleString('de-DE')} Zeichen).`);
+  }
+
+  // All sections share one set of placeholders
+  const redaction = redactPii(content);
+  const sections = splitSource(redaction.text);
+  const keyPoints: string[][] = [];
+  let done = 0;
+
+  for (let start = 0; start < sections.length; start += DIGEST_CONCURRENCY) {
+    const batch = sections.slice(start, start + DIGEST_CONCURRENCY).map(async (section, offset) => {
+      // No sourceText: key points are not a post, the guardrail checks the posts against the digest
+      const response = await generateOpenRouterMessage({
+        max_tokens: 1024,
+        temperature: 0.2,
+        messages: [{ role: 'user', content: buildKeyPointsPrompt(section, start + offset, sections.length) }],
+        response_format: toResponseFormat('section_key_points', keyPointsSchema()),
+        kind: 'auxiliary',
+      }, { timeout: 45000 });
+      keyPoints[start + offset] = parseKeyPointsResponse(extractText(response));
+      onProgress?.(++done, sections.length);
+    });
+    await Promise.all(batch);
+  }
+
+  const digested = sections.map((section, i) => ({
+    title: restorePii(section.title, redaction.entities),
+    keyPoints: keyPoints[i].map((point) => restorePii(point, redaction.entities)),
+  }));
+  const text = buildDigestText(digested);
+  if (!text) throw new Error('Keine Kernaussagen im Quelltext gefunden.');
+
+  return { source: content, sections: digested, text };
+}
+
+/**
+ * Find the most quotable sentences of the source for quote cards. The model only ranks
+ * candidates found locally, so every quote is verbatim from the source. Sent as an `auxiliary`
+ * call, so it does not count against the free tier.
+ *
+ * @param content - Source content (the original text, not a digest)
+ * @returns Up to MAX_QUOTES sentences, best first
+ */
+export async function quotesFromContent(content: string): Promise<string[]> {
+  const candidates = findQuoteCandidates(content);
+  if (candidates.length === 0) {
+    throw new Error('Keine zitierfähigen Sätze gefunden. Bitte einen längeren Text verwenden.');
   }
+  if (candidates.length <= MAX_QUOTES) return candidates;
+
+  // Candidates never contain line breaks, so they can be redacted as one text
+  const redacted = redactPii(candidates.join('\n')).text.split('\n');
+  const response = await generateOpenRouterMessage({
+    max_tokens: 256,
+    temperature: 0.2,
+    messages: [{ role: 'user', content: buildQuotesPrompt(redacted) }],
+    response_format: toResponseFormat('quote_candidates', quotesSchema()),
+    kind: 'auxiliary',
+  });
+
+  // Numbers index the original candidates, so nothing needs restoring
+  return parseQuotesResponse(extractText(response), candidates);
+}
+
+/**
+ * Generate a slide carousel (5-10 slides plus caption) from source content.
+ *
+ * @param content - Source content to generate the carousel from
+ * @param voiceTone - Optional voice tone
+ * @param regenerationSeed - Optional seed for a different variation
+ * @param format - Instagram carousel or LinkedIn document
+ * @param language - Output language; defaults to the language of the source
+ * @returns Parsed and validated carousel
+ */
+export async function carouselFromContent(
+  content: string,
+  voiceTone?: VoiceTone,
+  regenerationSeed?: number,
+  format: CarouselFormat = 'instagram',
+  language?: OutputLanguage
+): Promise<Carousel> {
+  const redaction = redactPii(content);
+  const response = await generateOpenRouterMessage({
+    max_tokens: 4096,
+    temperature: PLATFORMS[format].generation.temperature,
+    messages: [{ role: 'user', content: buildCarouselPrompt(redaction.text, regenerationSeed, voiceTone, format, language) }],
+    sourceText: redaction.text,
+    language,
+    response_format: toResponseFormat(`${format}_carousel`, carouselSchema(format)),
+  });
+
+  // Parse errors carry a user-facing message, so they are passed through
+  return parseCarouselResponse(restorePii(extractText(response), redaction.entities));
+}
+
+/**
+ * Derive a personal voice profile from 3-10 of the user's own posts.
+ *
+ * @param samples - The user's past posts
+ * @returns Parsed voice profile with anonymized examples
+ */
+export async function voiceProfileFromSamples(samples: string[]): Promise<VoiceProfile> {
+  validateWritingSamples(samples);
+
+  const response = await generateOpenRouterMessage({
+    max_tokens: 2048,
+    // Analysis, not creative writing
+    temperature: 0.3,
+    messages: [{ role: 'user', content: buildVoiceClonePrompt(samples) }],
+    sourceText: samples.join('\n\n'),
+    response_format: toResponseFormat('voice_profile', voiceProfileSchema()),
+  });
+
+  return parseVoiceProfileResponse(extractText(response));
 }
 
 /**
  * Generate posts for multiple platforms in a single API call.
  * Reduces API costs by ~3x compared to separate calls per platform.
+ * Platforms whose JSON field fails validation are regenerated individually; the rest of the batch is kept.
  *
  * @param content - Source content to generate posts from
  * @param platforms - Array of platforms to generate for
+ * @param options - Template, goal, audience and output language (see PromptOptions)
  * @returns Record with posts for each platform, or null if batching fails
  */
 export async function batchedPostsFromContent(
   content: string,
-  platforms: Platform[]
+  platforms: Platform[],
+  options: PromptOptions = {}
 ): Promise<Record<Platform, string[]> | null> {
   try {
-    const prompt = buildBatchedPostPrompt(content, platforms);
+    const redaction = redactPii(content);
+    const prompt = buildBatchedPostPrompt(redaction.text, platforms, undefined, options);
 
     const response = await generateOpenRouterMessage({
-      model: OPENROUTER_MODEL,
       max_tokens: 4096,
       temperature: 0.85,
       messages: [{ role: 'user', content: prompt }],
-      sourceText: content,
+      sourceText: redaction.text,
+      language: options.language,
+      response_format: toResponseFormat('batched_posts', batchedPostsSchema(platforms)),
     });
 
-    const text = extractText(response);
+    const parsed = parseBatchedResponse(extractText(response), platforms);
+    if (!parsed) return null; // Not JSON at all, triggering fallback
+    for (const platform of platforms) {
+      parsed.posts[platform] = parsed.posts[platform].map((post) =>
+        restorePii(applyPlatformHashtags(post, platform, redaction.text), redaction.entities)
+      );
+    }
 
-    // Parse batched response
-    const parsed = parseBatchedResponse(text, platforms);
+    // Retry only the fields that failed validation instead of discarding the whole batch
+    const retried = await Promise.all(
+      parsed.failed.map((platform) => postsFromContent(content, platform, options, response.id).catch(() => []))
+    );
+    parsed.failed.forEach((platform, i) => {
+      parsed.posts[platform] = retried[i];
+    });
 
-    return parsed; // Returns null if parsing failed, triggering fallback
+    return parsed.posts;
   } catch (error) {
     if (import.meta.env.DEV) console.error('Batched generation failed:', error);
     return null; // Signal fallback to parallel calls
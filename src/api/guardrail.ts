@@ -0,0 +1,44 @@
+import { createJWT } from './appwrite';
+
+export type GuardrailLabel = 'pass' | 'warn' | 'fail';
+
+/** Quality check of a generated post against its source (see api/utils/guardrail.ts) */
+export type GuardrailResult = {
+  factual_accuracy: number; // 1-5
+  source_fidelity: number; // 1-5
+  pii_detected: boolean;
+  issues: string[];
+  label: GuardrailLabel;
+};
+
+export type GuardrailLookup =
+  | { status: 'pending' }
+  | { status: 'complete'; result: GuardrailResult };
+
+// Same origin in dev and production (see extract.ts)
+function apiBase() {
+  return '';
+}
+
+/**
+ * Fetch the stored guardrail result of a generation.
+ * The check finishes a few seconds after the post, so `pending` means "ask again later".
+ */
+export async function getGuardrailResult(generationId: string): Promise<GuardrailLookup> {
+  const headers: Record<string, string> = {};
+
+  const jwt = await createJWT();
+  if (jwt) {
+    headers['Authorization'] = `Bearer ${jwt}`;
+  }
+
+  const res = await fetch(`${apiBase()}/api/guardrail?generation_id=${encodeURIComponent(generationId)}`, { headers });
+  if (res.status === 202) {
+    return { status: 'pending' };
+  }
+  if (!res.ok) {
+    const t = await res.text().catch(() => '');
+    throw new Error(`Guardrail lookup failed (${res.status}): ${t || res.statusText}`);
+  }
+  return res.json();
+}
@@ -0,0 +1,36 @@
+import { createJWT } from './appwrite';
+
+export type UsageKind = 'completion' | 'regeneration' | 'guardrail';
+
+/** Current month's token and cost usage of the account (see api/utils/usage.ts) */
+export type UsageSummary = {
+  /** Calendar month, e.g. "2026-10" */
+  month: string;
+  cost_usd: number;
+  /** Monthly ceiling enforced by the chat proxy; null without one */
+  limit_usd: number | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  calls: number;
+  by_model: Array<{ model: string; calls: number; tokens: number; cost_usd: number }>;
+  by_kind: Record<UsageKind, { calls: number; cost_usd: number }>;
+};
+
+/**
+ * Fetch this month's usage of the signed-in account.
+ */
+export async function getUsageSummary(): Promise<UsageSummary> {
+  const headers: Record<string, string> = {};
+
+  const jwt = await createJWT();
+  if (jwt) {
+    headers['Authorization'] = `Bearer ${jwt}`;
+  }
+
+  const res = await fetch('/api/usage', { headers });
+  if (!res.ok) {
+    const t = await res.text().catch(() => '');
+    throw new Error(`Usage lookup failed (${res.status}): ${t || res.statusText}`);
+  }
+  return res.json();
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Download, RefreshCw } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { CopyButton } from '@/components/ui/copy-button'
+import { carouselFromContent } from '@/api/claude'
+import { useSubscription } from '@/hooks/useSubscription'
+import type { Carousel } from '@/lib/carousel'
+import { createCarouselZip, renderCarouselSlides } from '@/lib/carousel-render'
+import { downloadBlob } from '@/lib/download'
+import type { VoiceTone } from '@/config/voice-tones'
+import type { OutputLanguage } from '@/lib/language'
+
+interface CarouselDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  content: string
+  voiceTone?: VoiceTone
+  language?: OutputLanguage
+}
+
+/**
+ * Instagram carousel mode: generates 5-10 slides, renders them locally
+ * to 1080×1350 PNGs and offers slides + caption as ZIP download.
+ */
+export function CarouselDialog({ isOpen, onClose, content, voiceTone, language }: CarouselDialogProps) {
+  const { decrementUsage, hasUsageRemaining } = useSubscription()
+  const [carousel, setCarousel] = useState<Carousel | null>(null)
+  const [slides, setSlides] = useState<Blob[]>([])
+  const [previews, setPreviews] = useState<string[]>([])
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [regenerationCount, setRegenerationCount] = useState(0)
+
+  // Object URLs for thumbnails, released when the slides change
+  useEffect(() => {
+    const urls = slides.map((blob) => URL.createObjectURL(blob))
+    setPreviews(urls)
+    return () => urls.forEach((url) => URL.revokeObjectURL(url))
+  }, [slides])
+
+  const generate = async (isRegeneration: boolean) => {
+    if (!isRegeneration && !hasUsageRemaining()) {
+      toast.error('Tageslimit erreicht. Upgrade für unbegrenzte Posts.')
+      return
+    }
+
+    setIsGenerating(true)
+    try {
+      const seed = isRegeneration ? regenerationCount + 1 : undefined
+      const result = await carouselFromContent(content, voiceTone, seed, 'instagram', language)
+      const rendered = await renderCarouselSlides(result)
+      setCarousel(result)
+      setSlides(rendered)
+      setRegenerationCount(seed ?? 0)
+      if (!isRegeneration) decrementUsage()
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Carousel generation failed:', error)
+      const message = error instanceof Error && error.message.startsWith('Karussell')
+        ? error.message
+        : 'Karussell konnte nicht erstellt werden. Bitte erneut versuchen.'
+      toast.error(message)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleDownload = async () => {
+    if (!carousel) return
+    try {
+      const zip = await createCarouselZip(carousel, slides)
+      downloadBlob(zip, `instagram-karussell-${new Date().toISOString().slice(0, 10)}.zip`)
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Carousel export failed:', error)
+      toast.error('Download fehlgeschlagen. Bitte versuche es erneut.')
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Instagram-Karussell</DialogTitle>
+          <DialogDescription>
+            5–10 Slides im Format 1080×1350, lokal gerendert – als ZIP mit Caption.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!carousel ? (
+          <Button onClick={() => generate(false)} isLoading={isGenerating} variant="instagram" fullWidth>
+            ✨ Karussell generieren
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-3 overflow-x-auto pb-2" aria-label={`${previews.length} Slides`}>
+              {previews.map((url, i) => (
+                <img
+                  key={url}
+                  src={url}
+                  alt={`Slide ${i + 1}: ${carousel.slides[i]?.headline ?? ''}`}
+                  className="w-40 shrink-0 rounded-md border aspect-[4/5]"
+                />
+              ))}
+            </div>
+
+            {carousel.caption && (
+              <div className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Caption</span>
+                  <CopyButton text={carousel.caption} size="sm" label="Caption kopieren" />
+                </div>
+                <p className="text-sm whitespace-pre-wrap text-muted-foreground">{carousel.caption}</p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleDownload} variant="instagram" disabled={isGenerating}>
+                <Download /> ZIP herunterladen
+              </Button>
+              <Button onClick={() => generate(true)} isLoading={isGenerating} variant="outline">
+                <RefreshCw /> Neu generieren
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,6 +2,7 @@ import { useMemo, useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { AlertTriangle, CheckCircle, AlertCircle } from 'lucide-react';
 import type { Platform } from '@/config/platforms';
+import { PLATFORMS, countPostLength, getPlatformLimits, getPlatformMaxLength } from '@/config/platforms';
 
 interface CharacterCounterProps {
   value: string;
@@ -13,12 +14,14 @@ interface CharacterCounterProps {
   onChange?: (value: string) => void; // Optional, not used in display-only mode
 }
 
-// Platform-specific character limits
-const PLATFORM_LIMITS: Record<Platform, { ideal: number; max: number }> = {
-  linkedin: { ideal: 1300, max: 3000 },
-  x: { ideal: 280, max: 280 },
-  instagram: { ideal: 125, max: 2200 },
-};
+// Platform-specific character limits, resolved from the registry on each call
+// because some platforms are configured per user (e.g. Mastodon instance limit)
+function getCounterLimits(platform: Platform): { ideal: number; max: number } {
+  return { ideal: getPlatformLimits(platform).ideal, max: getPlatformMaxLength(platform) };
+}
+
+const countCharacters = (value: string, platform?: Platform) =>
+  platform ? countPostLength(platform, value) : value.length;
 
 export function CharacterCounter({
   value,
@@ -35,11 +38,11 @@ export function CharacterCounter({
   // Determine the actual limit
   const limit = useMemo(() => {
     if (maxLength) return { ideal: maxLength * 0.8, max: maxLength };
-    if (platform) return PLATFORM_LIMITS[platform];
+    if (platform) return getCounterLimits(platform);
     return { ideal: 500, max: 1000 }; // Default limits
   }, [platform, maxLength]);
 
-  const charCount = value.length;
+  const charCount = countCharacters(value, platform);
   const percentage = (charCount / limit.max) * 100;
 
   // Determine status
@@ -210,6 +213,8 @@ interface CharacterCounterTextareaProps extends CharacterCounterProps {
   autoFocus?: boolean;
   onFocus?: () => void;
   onBlur?: () => void;
+  /** Selected range, reported on every selection change (e.g. for inline edits) */
+  onSelectionChange?: (selection: { start: number; end: number }) => void;
 }
 
 export function CharacterCounterTextarea({
@@ -225,11 +230,14 @@ export function CharacterCounterTextarea({
   onChange,
   onFocus,
   onBlur,
+  onSelectionChange,
 }: CharacterCounterTextareaProps) {
-  const limit = maxLength || (platform ? PLATFORM_LIMITS[platform].max : 1000);
-  const charCount = value.length;
+  const limit = maxLength || (platform ? getPlatformMaxLength(platform) : 1000);
+  const charCount = countCharacters(value, platform);
   const percentage = (charCount / limit) * 100;
   const isOverLimit = charCount > limit;
+  // The native maxLength counts UTF-16 units, which would cut off platforms that count graphemes
+  const usesNativeLength = !platform || !PLATFORMS[platform].countLength;
 
   return (
     <div className="space-y-2">
@@ -239,11 +247,15 @@ export function CharacterCounterTextarea({
           onChange={(e) => onChange?.(e.target.value)}
           onFocus={onFocus}
           onBlur={onBlur}
+          onSelect={onSelectionChange && ((e) => onSelectionChange({
+            start: e.currentTarget.selectionStart,
+            end: e.currentTarget.selectionEnd,
+          }))}
           placeholder={placeholder}
           rows={rows}
           disabled={disabled}
           autoFocus={autoFocus}
-          maxLength={isOverLimit ? undefined : limit}
+          maxLength={isOverLimit || !usesNativeLength ? undefined : limit}
           className={cn(
             "w-full px-3 py-2 rounded-md border bg-background",
             "transition-all duration-200",
@@ -307,8 +319,8 @@ export function useCharacterCount(
   limit?: number,
   platform?: Platform
 ) {
-  const actualLimit = limit || (platform ? PLATFORM_LIMITS[platform].max : 1000);
-  const charCount = value.length;
+  const actualLimit = limit || (platform ? getPlatformMaxLength(platform) : 1000);
+  const charCount = countCharacters(value, platform);
   const remaining = actualLimit - charCount;
   const percentage = (charCount / actualLimit) * 100;
   const isOverLimit = charCount > actualLimit;
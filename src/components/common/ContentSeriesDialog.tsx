@@ -0,0 +1,286 @@
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { ArrowDown, ArrowUp, CalendarDays, RefreshCw, Save, Trash2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CharacterCounterTextarea } from '@/components/common/CharacterCounter'
+import { seriesFromContent } from '@/api/claude'
+import { saveSeries } from '@/api/appwrite'
+import { useSubscription } from '@/hooks/useSubscription'
+import { ALL_PLATFORMS, PLATFORM_META, type Platform } from '@/config/platforms'
+import { DEFAULT_SERIES_CADENCE, SERIES_CADENCES, SERIES_CADENCE_META, isSeriesCadence, type SeriesCadence } from '@/config/series'
+import type { VoiceTone } from '@/config/voice-tones'
+import type { PromptMeta, PromptOptions } from '@/libs/promptTemplates'
+import {
+  MAX_SERIES_ANGLES,
+  MIN_SERIES_ANGLES,
+  SERIES_NAME_MAX_LENGTH,
+  createSeriesEntry,
+  defaultSeriesStart,
+  findRepeatedHooks,
+  moveSeriesEntry,
+  suggestPublishDates,
+  type SeriesEntry,
+} from '@/lib/series'
+
+interface ContentSeriesDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  content: string
+  /** Text the posts are written from (the key-point digest for long sources) */
+  resolveSource: (content: string) => Promise<string>
+  voiceTone?: VoiceTone
+  promptOptions?: PromptOptions
+  /** Template, goal and language saved with every post of the series */
+  promptMeta?: PromptMeta
+  onSaved?: () => void
+}
+
+const ANGLE_COUNT_OPTIONS = Array.from({ length: MAX_SERIES_ANGLES - MIN_SERIES_ANGLES + 1 }, (_, i) => MIN_SERIES_ANGLES + i)
+
+// Errors of the series and digest parsers carry a user-facing message
+const isUserFacingError = (message: string) => /^(Serien|Zu wenige|Quelltext|Keine Kernaussagen|Kernaussagen)/.test(message)
+
+// First heading or line of the source, as the default series name
+function suggestSeriesName(content: string): string {
+  const line = content.split('\n').map((l) => l.replace(/^#+\s*/, '').trim()).find(Boolean) ?? ''
+  return line.length > SERIES_NAME_MAX_LENGTH ? `${line.slice(0, SERIES_NAME_MAX_LENGTH - 1).trimEnd()}…` : line
+}
+
+/**
+ * Series mode: 5-10 angles from one source, one post per angle and platform, planned on
+ * suggested publish dates. Posts, order and dates can be edited before the whole series is saved.
+ * Counts as one generation.
+ */
+export function ContentSeriesDialog({ isOpen, onClose, content, resolveSource, voiceTone, promptOptions, promptMeta, onSaved }: ContentSeriesDialogProps) {
+  const { decrementUsage, hasUsageRemaining } = useSubscription()
+  // Follows the source until edited
+  const [customName, setCustomName] = useState<string | null>(null)
+  const name = customName ?? suggestSeriesName(content)
+  const [platforms, setPlatforms] = useState<Platform[]>(['linkedin'])
+  const [angleCount, setAngleCount] = useState(7)
+  const [startDate, setStartDate] = useState(() => defaultSeriesStart())
+  const [cadence, setCadence] = useState<SeriesCadence>(DEFAULT_SERIES_CADENCE)
+  const [entries, setEntries] = useState<SeriesEntry[]>([])
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Platforms of the generated series; the checkboxes only apply to the next generation
+  const seriesPlatforms = useMemo(
+    () => ALL_PLATFORMS.filter((platform) => entries.some((entry) => entry.posts[platform] !== undefined)),
+    [entries]
+  )
+  // Posts that open like an earlier post of the same platform, e.g. after editing
+  const repeatedHooks = useMemo(() => new Set(seriesPlatforms.flatMap((platform) =>
+    findRepeatedHooks(entries.map((entry) => entry.posts[platform] ?? '')).map((index) => `${platform}-${index}`)
+  )), [entries, seriesPlatforms])
+
+  const togglePlatform = (platform: Platform) => {
+    setPlatforms((prev) => prev.includes(platform) ? prev.filter((p) => p !== platform) : [...prev, platform])
+  }
+
+  // New start or cadence: the dates are suggested again in the current order
+  const reschedule = (start: string, nextCadence: SeriesCadence) => {
+    setStartDate(start)
+    setCadence(nextCadence)
+    const dates = suggestPublishDates(start, entries.length, nextCadence)
+    if (dates.length === entries.length) {
+      setEntries((prev) => prev.map((entry, i) => ({ ...entry, publishDate: dates[i] })))
+    }
+  }
+
+  const updateEntry = (index: number, update: Partial<SeriesEntry>) => {
+    setEntries((prev) => prev.map((entry, i) => (i === index ? { ...entry, ...update } : entry)))
+  }
+
+  const generate = async () => {
+    if (!hasUsageRemaining()) {
+      toast.error('Tageslimit erreicht. Upgrade für unbegrenzte Posts.')
+      return
+    }
+
+    setIsGenerating(true)
+    try {
+      const source = await resolveSource(content)
+      const result = await seriesFromContent(source, platforms, angleCount, voiceTone, promptOptions)
+      const dates = suggestPublishDates(startDate || defaultSeriesStart(), result.angles.length, cadence)
+      setEntries(result.angles.map((angle, i) => createSeriesEntry(
+        angle,
+        dates[i],
+        Object.fromEntries(platforms.map((platform) => [platform, result.posts[platform]?.[i] ?? '']))
+      )))
+      decrementUsage()
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Series generation failed:', error)
+      toast.error(error instanceof Error && isUserFacingError(error.message)
+        ? error.message
+        : 'Serie konnte nicht erstellt werden. Bitte erneut versuchen.')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const seriesName = name.trim()
+    if (!seriesName) {
+      toast.error('Bitte gib der Serie einen Namen.')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const saved = await saveSeries({ name: seriesName, entries }, promptMeta)
+      toast.success(`Serie „${seriesName}“ gespeichert: ${saved.length} Posts`)
+      setEntries([])
+      onSaved?.()
+      onClose()
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Saving series failed:', error)
+      toast.error('Serie konnte nicht gespeichert werden. Bist du eingeloggt?')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Content-Serie planen</DialogTitle>
+          <DialogDescription>
+            {MIN_SERIES_ANGLES}–{MAX_SERIES_ANGLES} Blickwinkel aus einem Text, je ein Post pro Blickwinkel und Plattform – mit Veröffentlichungsplan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1.5 sm:col-span-2">
+              <Label htmlFor="series-name">Name der Serie</Label>
+              <Input
+                id="series-name"
+                value={name}
+                onChange={(e) => setCustomName(e.target.value)}
+                maxLength={SERIES_NAME_MAX_LENGTH}
+                placeholder="z. B. Onboarding-Woche"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="series-start">Start</Label>
+              <Input
+                id="series-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => reschedule(e.target.value, cadence)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="series-cadence">Rhythmus</Label>
+              <select
+                id="series-cadence"
+                value={cadence}
+                onChange={(e) => isSeriesCadence(e.target.value) && reschedule(startDate, e.target.value)}
+                className="h-9 w-full rounded-md border bg-background px-2 text-sm"
+              >
+                {SERIES_CADENCES.map((id) => (
+                  <option key={id} value={id}>{SERIES_CADENCE_META[id].label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {ALL_PLATFORMS.map((platform) => (
+              <label key={platform} className="flex cursor-pointer items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={platforms.includes(platform)}
+                  onChange={() => togglePlatform(platform)}
+                />
+                {PLATFORM_META[platform].emoji} {PLATFORM_META[platform].label}
+              </label>
+            ))}
+            <label className="ml-auto flex items-center gap-1.5 text-xs text-muted-foreground">
+              Blickwinkel
+              <select
+                value={angleCount}
+                onChange={(e) => setAngleCount(Number(e.target.value))}
+                className="h-8 rounded-md border bg-background px-2 text-sm text-foreground"
+              >
+                {ANGLE_COUNT_OPTIONS.map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <Button onClick={generate} isLoading={isGenerating} disabled={platforms.length === 0} variant={entries.length ? 'outline' : 'default'} fullWidth>
+            {entries.length ? <><RefreshCw /> Serie neu erstellen</> : '✨ Serie erstellen'}
+          </Button>
+
+          {entries.length > 0 && (
+            <ol className="space-y-3">
+              {entries.map((entry, index) => (
+                <li key={entry.id} className="space-y-2 rounded-md border p-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold">#{index + 1}</span>
+                    <CalendarDays className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+                    <Input
+                      type="date"
+                      value={entry.publishDate}
+                      onChange={(e) => updateEntry(index, { publishDate: e.target.value })}
+                      aria-label={`Veröffentlichung von Post ${index + 1}`}
+                      className="h-8 w-40"
+                    />
+                    <div className="ml-auto flex gap-1">
+                      <Button size="sm" variant="ghost" aria-label="Nach oben" disabled={index === 0}
+                        onClick={() => setEntries((prev) => moveSeriesEntry(prev, index, index - 1))}>
+                        <ArrowUp />
+                      </Button>
+                      <Button size="sm" variant="ghost" aria-label="Nach unten" disabled={index === entries.length - 1}
+                        onClick={() => setEntries((prev) => moveSeriesEntry(prev, index, index + 1))}>
+                        <ArrowDown />
+                      </Button>
+                      <Button size="sm" variant="ghost" aria-label="Entfernen"
+                        onClick={() => setEntries((prev) => prev.filter((_, i) => i !== index))}>
+                        <Trash2 />
+                      </Button>
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium">{entry.angle.title}</p>
+                    {entry.angle.focus && <p className="text-xs text-muted-foreground">{entry.angle.focus}</p>}
+                  </div>
+                  {seriesPlatforms.map((platform) => (
+                    <div key={platform} className="space-y-1">
+                      <p className="text-xs text-muted-foreground">
+                        {PLATFORM_META[platform].emoji} {PLATFORM_META[platform].label}
+                        {repeatedHooks.has(`${platform}-${index}`) && (
+                          <span className="text-amber-700"> · gleicher Einstieg wie ein früherer Post</span>
+                        )}
+                      </p>
+                      <CharacterCounterTextarea
+                        value={entry.posts[platform] ?? ''}
+                        onChange={(value) => updateEntry(index, { posts: { ...entry.posts, [platform]: value } })}
+                        platform={platform}
+                        rows={5}
+                        showWarnings={false}
+                      />
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {entries.length > 0 && (
+            <Button onClick={handleSave} isLoading={isSaving} disabled={isGenerating} fullWidth>
+              <Save /> Serie speichern ({entries.length} × {seriesPlatforms.length})
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
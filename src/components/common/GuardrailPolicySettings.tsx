@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { getGuardrailPolicy, saveGuardrailPolicy } from '@/api/appwrite'
+import { DEFAULT_GUARDRAIL_POLICY, GUARDRAIL_POLICIES, type GuardrailPolicy } from '@/config/ai'
+import { cn } from '@/lib/utils'
+
+const POLICY_OPTIONS: Record<GuardrailPolicy, { label: string; description: string }> = {
+  off: {
+    label: 'Aus',
+    description: 'Kein Faktencheck.',
+  },
+  advisory: {
+    label: 'Hinweis',
+    description: 'Bewertung und Probleme erscheinen unter jedem Post.',
+  },
+  blocking: {
+    label: 'Blockieren',
+    description: 'Durchgefallene Posts werden neu generiert oder zurückgehalten. Zurückgehaltene Posts zählen nicht zum Tageslimit.',
+  },
+}
+
+/**
+ * Account-wide guardrail policy: how the fact check against the source treats generated posts.
+ */
+export function GuardrailPolicySettings() {
+  const [policy, setPolicy] = useState<GuardrailPolicy>(DEFAULT_GUARDRAIL_POLICY)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    getGuardrailPolicy()
+      .then((stored) => {
+        if (!cancelled) setPolicy(stored)
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load guardrail policy:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const handleSelect = async (next: GuardrailPolicy) => {
+    if (next === policy) return
+    const previous = policy
+    setPolicy(next)
+    setSaving(true)
+    try {
+      await saveGuardrailPolicy(next)
+      toast.success(`Faktencheck: ${POLICY_OPTIONS[next].label}`)
+    } catch {
+      setPolicy(previous)
+      toast.error('Einstellung konnte nicht gespeichert werden')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div role="radiogroup" aria-label="Faktencheck" className="space-y-2">
+      {GUARDRAIL_POLICIES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          role="radio"
+          aria-checked={policy === option}
+          disabled={loading || saving}
+          onClick={() => handleSelect(option)}
+          className={cn(
+            'w-full rounded-md border p-3 text-left transition-colors disabled:opacity-60',
+            policy === option ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+          )}
+        >
+          <div className="text-sm font-medium">{POLICY_OPTIONS[option].label}</div>
+          <div className="text-xs text-muted-foreground">{POLICY_OPTIONS[option].description}</div>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import { Loader2, ShieldAlert, ShieldCheck, ShieldX, Sparkles } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useGuardrailResult } from '@/hooks/useGuardrailResult'
+import type { GuardrailLabel } from '@/api/guardrail'
+import { cn } from '@/lib/utils'
+
+interface GuardrailReportProps {
+  /** Generation the post came from; the guardrail result is stored under this id */
+  generationId?: string
+  /** Rewrite the post with the listed issues as feedback */
+  onFixIssues?: (issues: string[]) => void
+  isFixing?: boolean
+}
+
+const LABELS: Record<GuardrailLabel, { text: string; className: string; Icon: typeof ShieldCheck }> = {
+  pass: { text: 'Quellentreu', className: 'border-green-200 bg-green-50 text-green-700', Icon: ShieldCheck },
+  warn: { text: 'Prüfen', className: 'border-amber-200 bg-amber-50 text-amber-700', Icon: ShieldAlert },
+  fail: { text: 'Probleme', className: 'border-red-200 bg-red-50 text-red-700', Icon: ShieldX },
+}
+
+/**
+ * Guardrail verdict for a generated post: factual accuracy, source fidelity and PII,
+ * with the issues found and a one-click rewrite that addresses them.
+ */
+export function GuardrailReport({ generationId, onFixIssues, isFixing = false }: GuardrailReportProps) {
+  const { result, isPending } = useGuardrailResult(generationId)
+
+  if (!generationId) return null
+
+  if (!result) {
+    if (!isPending) return null
+    return (
+      <p className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground" role="status">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Faktencheck läuft…
+      </p>
+    )
+  }
+
+  const { text, className, Icon } = LABELS[result.label]
+  const issues = result.pii_detected
+    ? ['Enthält personenbezogene Daten', ...result.issues]
+    : result.issues
+
+  return (
+    <div className="mt-2 space-y-1.5 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className={cn('gap-1 font-normal', className)}>
+          <Icon className="h-3.5 w-3.5" />
+          {text}
+        </Badge>
+        <span className="text-muted-foreground">
+          Fakten {result.factual_accuracy}/5 · Quellentreue {result.source_fidelity}/5
+        </span>
+      </div>
+      {issues.length > 0 && (
+        <>
+          <ul className="list-disc space-y-0.5 pl-5 text-muted-foreground">
+            {issues.map((issue, i) => (
+              <li key={i}>{issue}</li>
+            ))}
+          </ul>
+          {onFixIssues && (
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Sparkles className="h-3.5 w-3.5" />}
+              isLoading={isFixing}
+              onClick={() => onFixIssues(issues)}
+            >
+              Probleme beheben
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
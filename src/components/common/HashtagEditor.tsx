@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react'
+import { ArrowLeft, ArrowRight, Ban, Hash, Pin, Plus, X } from 'lucide-react'
+import type { Platform } from '@/config/platforms'
+import {
+  getHashtagPolicy,
+  setHashtagPolicy,
+  setTrailingHashtags,
+  splitTrailingHashtags,
+  suggestHashtags,
+  type HashtagPolicy,
+} from '@/lib/hashtags'
+import { cn } from '@/lib/utils'
+
+interface HashtagEditorProps {
+  platform: Platform
+  content: string
+  /** Source text the suggestions are ranked from */
+  source: string
+  onChange: (content: string) => void
+}
+
+const key = (tag: string) => tag.toLocaleLowerCase('de')
+
+/**
+ * The hashtag block at the end of a post as chips: reorder, remove, pin or ban a tag, or add a suggestion.
+ * Pins and bans are saved to the platform's hashtag policy and apply to the next generations.
+ */
+export function HashtagEditor({ platform, content, source, onChange }: HashtagEditorProps) {
+  const [policy, setPolicy] = useState<HashtagPolicy>(() => getHashtagPolicy(platform))
+  const suggestions = useMemo(() => suggestHashtags(source), [source])
+  const { tags } = splitTrailingHashtags(content)
+
+  if (policy.count === 0) return null
+
+  const used = new Set(tags.map(key))
+  const pinned = new Set(policy.pinned.map(key))
+  const banned = new Set(policy.banned.map(key))
+  const available = suggestions.filter((candidate) => !used.has(key(candidate.tag)) && !banned.has(key(candidate.tag)))
+  const isFull = tags.length >= policy.count
+
+  const update = (next: string[]) => onChange(setTrailingHashtags(content, next))
+
+  const move = (index: number, offset: number) => {
+    const next = [...tags]
+    const [tag] = next.splice(index, 1)
+    next.splice(index + offset, 0, tag)
+    update(next)
+  }
+
+  const savePolicy = (next: HashtagPolicy) => setPolicy(setHashtagPolicy(platform, next))
+
+  const togglePin = (tag: string) => {
+    savePolicy({
+      ...policy,
+      pinned: pinned.has(key(tag)) ? policy.pinned.filter((t) => key(t) !== key(tag)) : [...policy.pinned, tag],
+    })
+  }
+
+  const ban = (tag: string) => {
+    savePolicy({
+      ...policy,
+      pinned: policy.pinned.filter((t) => key(t) !== key(tag)),
+      banned: [...policy.banned, tag],
+    })
+    update(tags.filter((t) => key(t) !== key(tag)))
+  }
+
+  return (
+    <div className="mt-2 space-y-1.5 text-xs">
+      <div className="flex flex-wrap items-center gap-1">
+        <Hash className="h-3.5 w-3.5 text-muted-foreground" aria-label="Hashtags" />
+        {tags.length === 0 && <span className="text-muted-foreground">Keine Hashtags</span>}
+        {tags.map((tag, index) => (
+          <span
+            key={tag}
+            className={cn(
+              'inline-flex items-center gap-0.5 rounded-md border px-1.5 py-0.5',
+              pinned.has(key(tag)) && 'border-purple-300 bg-purple-50'
+            )}
+          >
+            <button type="button" onClick={() => move(index, -1)} disabled={index === 0} aria-label={`#${tag} nach links`} className="disabled:opacity-30">
+              <ArrowLeft className="h-3 w-3" />
+            </button>
+            <span className="font-medium text-purple-600">#{tag}</span>
+            <button type="button" onClick={() => move(index, 1)} disabled={index === tags.length - 1} aria-label={`#${tag} nach rechts`} className="disabled:opacity-30">
+              <ArrowRight className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              onClick={() => togglePin(tag)}
+              aria-pressed={pinned.has(key(tag))}
+              title={pinned.has(key(tag)) ? 'Nicht mehr anheften' : 'Immer verwenden'}
+            >
+              <Pin className="h-3 w-3" />
+            </button>
+            <button type="button" onClick={() => ban(tag)} title="Nie verwenden">
+              <Ban className="h-3 w-3" />
+            </button>
+            <button type="button" onClick={() => update(tags.filter((t) => t !== tag))} title="Entfernen">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <span className="text-muted-foreground">{tags.length}/{policy.count}</span>
+      </div>
+
+      {available.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-muted-foreground">
+          <span>Vorschläge:</span>
+          {available.slice(0, 6).map((candidate) => (
+            <button
+              key={candidate.tag}
+              type="button"
+              onClick={() => update([...tags, candidate.tag])}
+              disabled={isFull}
+              title={candidate.origin === 'curated' ? 'Kuratierter Hashtag' : 'Aus deinem Text'}
+              className="inline-flex items-center gap-0.5 rounded-md border border-dashed px-1.5 py-0.5 hover:text-foreground disabled:opacity-50"
+            >
+              <Plus className="h-3 w-3" />#{candidate.tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ALL_PLATFORMS, PLATFORM_LABEL, type Platform } from '@/config/platforms'
+import { MAX_HASHTAGS, getHashtagPolicy, hasCustomHashtagPolicy, setHashtagPolicy, type HashtagPolicy } from '@/lib/hashtags'
+import { cn } from '@/lib/utils'
+
+const formatTags = (tags: string[]) => tags.map((tag) => `#${tag}`).join(' ')
+const parseTags = (value: string) => value.split(/[\s,]+/).filter(Boolean)
+
+/**
+ * Per-platform hashtag policy: how many hashtags a post gets and which ones are always or never used.
+ */
+export function HashtagPolicySettings() {
+  const [platform, setPlatform] = useState<Platform>('instagram')
+  const [initial] = useState(() => getHashtagPolicy('instagram'))
+  const [count, setCount] = useState(String(initial.count))
+  const [pinned, setPinned] = useState(formatTags(initial.pinned))
+  const [banned, setBanned] = useState(formatTags(initial.banned))
+  const [isCustom, setIsCustom] = useState(() => hasCustomHashtagPolicy('instagram'))
+
+  const showPolicy = (next: Platform, policy: HashtagPolicy = getHashtagPolicy(next)) => {
+    setPlatform(next)
+    setCount(String(policy.count))
+    setPinned(formatTags(policy.pinned))
+    setBanned(formatTags(policy.banned))
+    setIsCustom(hasCustomHashtagPolicy(next))
+  }
+
+  const handleSave = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const saved = setHashtagPolicy(platform, { count: Number(count), pinned: parseTags(pinned), banned: parseTags(banned) })
+    showPolicy(platform, saved)
+    toast.success(`${PLATFORM_LABEL[platform]}: ${saved.count === 0 ? 'keine Hashtags' : `${saved.count} Hashtags`}`)
+  }
+
+  const handleReset = () => {
+    showPolicy(platform, setHashtagPolicy(platform, null))
+    toast.success(`${PLATFORM_LABEL[platform]}: Plattform-Standard`)
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div role="radiogroup" aria-label="Plattform" className="flex flex-wrap gap-1">
+        {ALL_PLATFORMS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={platform === option}
+            onClick={() => showPolicy(option)}
+            className={cn(
+              'rounded-md border px-2 py-1 text-xs transition-colors',
+              platform === option ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+            )}
+          >
+            {PLATFORM_LABEL[option]}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="hashtag-count">Hashtags pro Post</Label>
+        <Input
+          id="hashtag-count"
+          type="number"
+          inputMode="numeric"
+          min={0}
+          max={MAX_HASHTAGS}
+          value={count}
+          onChange={(e) => setCount(e.target.value)}
+        />
+        {!isCustom && (
+          <p className="text-xs text-muted-foreground">Standard der Plattform.</p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="hashtag-pinned">Immer verwenden</Label>
+        <Input
+          id="hashtag-pinned"
+          value={pinned}
+          onChange={(e) => setPinned(e.target.value)}
+          placeholder="#DeineMarke"
+          autoComplete="off"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="hashtag-banned">Nie verwenden</Label>
+        <Input
+          id="hashtag-banned"
+          value={banned}
+          onChange={(e) => setBanned(e.target.value)}
+          placeholder="#Motivation"
+          autoComplete="off"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" variant="outline" size="sm" className="flex-1">
+          Speichern
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={handleReset} disabled={!isCustom}>
+          Zurücksetzen
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle, RefreshCw } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { hooksForPost } from '@/api/claude'
+import { HOOK_FORMULA_META, type HookFormula } from '@/config/hook-formulas'
+import type { Platform } from '@/config/platforms'
+import { replaceHook, splitHook, type HookAlternative } from '@/lib/hook-workshop'
+import { findPostViolations } from '@/lib/post-rules'
+import type { OutputLanguage } from '@/lib/language'
+import { cn } from '@/lib/utils'
+
+interface HookWorkshopDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  platform: Platform
+  content: string
+  language?: OutputLanguage
+  onApply: (content: string, formula: HookFormula) => void
+}
+
+// Characters of the body shown under each hook in the A/B comparison
+const BODY_PREVIEW_LENGTH = 160
+
+function HookPreview({ label, hook, rest }: { label: React.ReactNode; hook: string; rest: string }) {
+  const body = rest.trim()
+  return (
+    <div className="rounded-md border p-3 space-y-1.5 text-sm">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <p className="font-semibold">{hook}</p>
+      <p className="whitespace-pre-wrap text-muted-foreground">
+        {body.length > BODY_PREVIEW_LENGTH ? `${body.slice(0, BODY_PREVIEW_LENGTH)}…` : body}
+      </p>
+    </div>
+  )
+}
+
+/**
+ * Hook workshop: 5–8 alternative first lines, each labeled with its hook formula,
+ * compared side by side with the current opening. Swapping keeps the body of the post.
+ * An edit of an existing post, so no credit is used.
+ */
+export function HookWorkshopDialog({ isOpen, onClose, platform, content, language, onApply }: HookWorkshopDialogProps) {
+  const [hooks, setHooks] = useState<HookAlternative[] | null>(null)
+  const [selected, setSelected] = useState(0)
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  const { hook: currentHook, rest } = splitHook(content)
+  const candidate = hooks?.[selected]
+  const swapped = candidate ? replaceHook(content, candidate.hook) : ''
+  const violations = candidate ? findPostViolations(swapped, platform) : []
+
+  const generate = async () => {
+    setIsGenerating(true)
+    try {
+      setHooks(await hooksForPost(content, platform, undefined, language))
+      setSelected(0)
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Hook generation failed:', error)
+      const message = error instanceof Error && error.message.startsWith('Hook')
+        ? error.message
+        : 'Hooks konnten nicht erstellt werden. Bitte erneut versuchen.'
+      toast.error(message)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleApply = () => {
+    if (!candidate) return
+    onApply(swapped, candidate.formula)
+    toast.success(`Hook übernommen (${HOOK_FORMULA_META[candidate.formula].label})`)
+    setHooks(null)
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Hook-Werkstatt</DialogTitle>
+          <DialogDescription>
+            Alternative erste Zeilen nach bewährten Hook-Formeln. Der Rest des Posts bleibt unverändert.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!hooks ? (
+          <Button onClick={generate} isLoading={isGenerating} fullWidth>
+            Hooks generieren
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <div role="radiogroup" aria-label="Hook-Alternativen" className="space-y-2">
+              {hooks.map((alternative, i) => (
+                <button
+                  key={alternative.hook}
+                  type="button"
+                  role="radio"
+                  aria-checked={selected === i}
+                  onClick={() => setSelected(i)}
+                  className={cn(
+                    'w-full rounded-md border p-3 text-left transition-colors',
+                    selected === i ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                  )}
+                >
+                  <Badge variant="secondary" className="mb-1">{HOOK_FORMULA_META[alternative.formula].label}</Badge>
+                  <div className="text-sm">{alternative.hook}</div>
+                </button>
+              ))}
+            </div>
+
+            {candidate && (
+              <div className="grid gap-3 sm:grid-cols-2">
+                <HookPreview label="A · Aktuell" hook={currentHook} rest={rest} />
+                <HookPreview label={`B · ${HOOK_FORMULA_META[candidate.formula].label}`} hook={candidate.hook} rest={rest} />
+              </div>
+            )}
+
+            {violations.length > 0 && (
+              <p className="flex items-start gap-1.5 text-xs text-amber-700">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <span>{violations.map((v) => v.message).join(' · ')}</span>
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleApply} disabled={!candidate || isGenerating}>
+                B übernehmen
+              </Button>
+              <Button onClick={generate} isLoading={isGenerating} variant="outline">
+                <RefreshCw /> Neue Hooks
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
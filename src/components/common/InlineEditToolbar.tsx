@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Check, Loader2, Sparkles, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { inlineEditSelection } from '@/api/claude'
+import { INLINE_EDIT_ACTIONS, INLINE_EDIT_ACTION_META, type InlineEditAction } from '@/config/inline-edits'
+import type { Platform } from '@/config/platforms'
+import { applyInlineEdit, diffWords, hasSelection, splitAtSelection, type TextSelection } from '@/lib/inline-edit'
+import { LANGUAGE_META, OUTPUT_LANGUAGES, type OutputLanguage } from '@/lib/language'
+
+interface InlineEditToolbarProps {
+  platform: Platform
+  content: string
+  selection: TextSelection | null
+  /** Language of the post */
+  language?: OutputLanguage
+  onApply: (content: string) => void
+}
+
+interface PendingEdit {
+  action: InlineEditAction
+  /** Editor content the edit was requested for; a changed editor invalidates it */
+  content: string
+  selection: TextSelection
+  replacement: string
+}
+
+// Characters of surrounding text shown around the diff
+const CONTEXT_LENGTH = 40
+
+/**
+ * AI actions on the selected text in the post editor. The result is shown as an inline
+ * word diff and only replaces the selection once accepted. An edit, so no credit is used.
+ */
+export function InlineEditToolbar({ platform, content, selection, language, onApply }: InlineEditToolbarProps) {
+  const [pending, setPending] = useState<PendingEdit | null>(null)
+  const [running, setRunning] = useState<InlineEditAction | null>(null)
+  const [targetLanguage, setTargetLanguage] = useState<OutputLanguage>(language === 'en' ? 'de' : 'en')
+  const canEdit = hasSelection(content, selection) && running === null
+
+  const run = async (action: InlineEditAction) => {
+    if (!hasSelection(content, selection)) return
+    setRunning(action)
+    try {
+      const replacement = await inlineEditSelection(
+        content,
+        selection,
+        action,
+        platform,
+        undefined,
+        action === 'translate' ? targetLanguage : language
+      )
+      setPending({ action, content, selection, replacement })
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Inline edit failed:', error)
+      toast.error(error instanceof Error && error.message.startsWith('Bearbeitung')
+        ? error.message
+        : `${INLINE_EDIT_ACTION_META[action].label} fehlgeschlagen. Bitte erneut versuchen.`)
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  const accept = () => {
+    if (!pending) return
+    if (pending.content !== content) {
+      toast.error('Der Text wurde inzwischen geändert. Bitte die Aktion erneut ausführen.')
+    } else {
+      onApply(applyInlineEdit(content, pending.selection, pending.replacement))
+    }
+    setPending(null)
+  }
+
+  if (pending) {
+    const { before, selected, after } = splitAtSelection(pending.content, pending.selection)
+    return (
+      <div className="mt-2 space-y-2 rounded-md border bg-muted/30 p-3 text-sm" aria-live="polite">
+        <div className="text-xs font-medium text-muted-foreground">
+          {INLINE_EDIT_ACTION_META[pending.action].label}
+        </div>
+        <p className="whitespace-pre-wrap leading-relaxed">
+          {before.length > CONTEXT_LENGTH && '…'}
+          <span className="text-muted-foreground">{before.slice(-CONTEXT_LENGTH)}</span>
+          {diffWords(selected, pending.replacement).map((part, i) =>
+            part.type === 'removed' ? (
+              <del key={i} className="bg-red-100 text-red-700">{part.text}</del>
+            ) : part.type === 'added' ? (
+              <ins key={i} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+            ) : (
+              <span key={i}>{part.text}</span>
+            )
+          )}
+          <span className="text-muted-foreground">{after.slice(0, CONTEXT_LENGTH)}</span>
+          {after.length > CONTEXT_LENGTH && '…'}
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setPending(null)}>
+            <X /> Verwerfen
+          </Button>
+          <Button size="sm" onClick={accept}>
+            <Check /> Übernehmen
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1" role="toolbar" aria-label="KI-Bearbeitung der Auswahl">
+      <Sparkles className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
+      {INLINE_EDIT_ACTIONS.map((action) => (
+        <Button
+          key={action}
+          size="sm"
+          variant="outline"
+          className="h-7 px-2 text-xs"
+          disabled={!canEdit}
+          onClick={() => run(action)}
+        >
+          {running === action && <Loader2 className="animate-spin" />}
+          {action === 'translate'
+            ? `${INLINE_EDIT_ACTION_META[action].label} (${LANGUAGE_META[targetLanguage].flag})`
+            : INLINE_EDIT_ACTION_META[action].label}
+        </Button>
+      ))}
+      <select
+        value={targetLanguage}
+        onChange={(e) => setTargetLanguage(e.target.value as OutputLanguage)}
+        aria-label="Zielsprache"
+        className="h-7 rounded-md border bg-background px-1 text-xs"
+      >
+        {OUTPUT_LANGUAGES.map((option) => (
+          <option key={option} value={option}>{LANGUAGE_META[option].label}</option>
+        ))}
+      </select>
+      {!hasSelection(content, selection) && (
+        <span className="text-xs text-muted-foreground">Text markieren, um ihn zu bearbeiten</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Download, RefreshCw } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { carouselFromContent } from '@/api/claude'
+import type { Carousel } from '@/lib/carousel'
+import { SLIDE_THEMES, createCarouselPdf, renderCarouselSlides } from '@/lib/carousel-render'
+import { downloadBlob } from '@/lib/download'
+
+interface LinkedInDocumentDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  /** LinkedIn post the document is attached to; also the source for the pages */
+  post: string
+}
+
+const toFilename = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9äöüß]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'linkedin-dokument'
+
+/**
+ * LinkedIn document export: turns a post into 5-10 pages and builds the PDF in the browser.
+ * The post text stays the caption; the PDF is attached when creating the LinkedIn post.
+ */
+export function LinkedInDocumentDialog({ isOpen, onClose, post }: LinkedInDocumentDialogProps) {
+  const [carousel, setCarousel] = useState<Carousel | null>(null)
+  const [pages, setPages] = useState<Blob[]>([])
+  const [previews, setPreviews] = useState<string[]>([])
+  const [title, setTitle] = useState('')
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [regenerationCount, setRegenerationCount] = useState(0)
+
+  // Object URLs for thumbnails, released when the pages change
+  useEffect(() => {
+    const urls = pages.map((blob) => URL.createObjectURL(blob))
+    setPreviews(urls)
+    return () => urls.forEach((url) => URL.revokeObjectURL(url))
+  }, [pages])
+
+  // Documents are derived from an existing post, so they don't consume a free generation
+  const generate = async (isRegeneration: boolean) => {
+    setIsGenerating(true)
+    try {
+      const seed = isRegeneration ? regenerationCount + 1 : undefined
+      const result = await carouselFromContent(post, undefined, seed, 'linkedin')
+      const rendered = await renderCarouselSlides(result, { theme: SLIDE_THEMES.linkedin, type: 'image/jpeg' })
+      setCarousel(result)
+      setPages(rendered)
+      setTitle((current) => current || result.slides[0].headline)
+      setRegenerationCount(seed ?? 0)
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('LinkedIn document generation failed:', error)
+      const message = error instanceof Error && error.message.startsWith('Karussell')
+        ? error.message
+        : 'Dokument konnte nicht erstellt werden. Bitte erneut versuchen.'
+      toast.error(message)
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleDownload = async () => {
+    try {
+      const pdf = await createCarouselPdf(pages, title.trim())
+      downloadBlob(pdf, `${toFilename(title)}.pdf`)
+      toast.success('PDF heruntergeladen. Füge es in LinkedIn über „Dokument hinzufügen“ an.')
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('LinkedIn document export failed:', error)
+      toast.error('Download fehlgeschlagen. Bitte versuche es erneut.')
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>LinkedIn-Dokument (PDF)</DialogTitle>
+          <DialogDescription>
+            Macht aus deinem Post ein PDF-Karussell mit 5–10 Seiten – direkt im Browser erstellt.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!carousel ? (
+          <Button onClick={() => generate(false)} isLoading={isGenerating} variant="linkedin" fullWidth>
+            ✨ Dokument generieren
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-3 overflow-x-auto pb-2" aria-label={`${previews.length} Seiten`}>
+              {previews.map((url, i) => (
+                <img
+                  key={url}
+                  src={url}
+                  alt={`Seite ${i + 1}: ${carousel.slides[i]?.headline ?? ''}`}
+                  className="w-40 shrink-0 rounded-md border aspect-[4/5]"
+                />
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="linkedin-document-title">Dokumenttitel</Label>
+              <Input
+                id="linkedin-document-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleDownload} variant="linkedin" disabled={isGenerating || !title.trim()}>
+                <Download /> PDF herunterladen
+              </Button>
+              <Button onClick={() => generate(true)} isLoading={isGenerating} variant="outline">
+                <RefreshCw /> Neu generieren
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { getMastodonInstance, setMastodonInstance } from '@/lib/mastodon-instance'
+
+/**
+ * Form for the user's Mastodon instance (share target and post limit).
+ */
+export function MastodonInstanceSettings() {
+  const [initial] = useState(getMastodonInstance)
+  const [domain, setDomain] = useState(initial.domain)
+  const [maxChars, setMaxChars] = useState(String(initial.maxChars))
+
+  const handleSave = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    try {
+      const saved = setMastodonInstance({ domain, maxChars: Number(maxChars) })
+      setDomain(saved.domain)
+      toast.success(`Mastodon-Instanz gespeichert (${saved.domain}, ${saved.maxChars} Zeichen)`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Speichern fehlgeschlagen')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="mastodon-domain">Instanz</Label>
+        <Input
+          id="mastodon-domain"
+          value={domain}
+          onChange={(e) => setDomain(e.target.value)}
+          placeholder="mastodon.social"
+          autoComplete="off"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="mastodon-max-chars">Zeichenlimit</Label>
+        <Input
+          id="mastodon-max-chars"
+          type="number"
+          inputMode="numeric"
+          min={100}
+          value={maxChars}
+          onChange={(e) => setMaxChars(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Standard ist 500. Manche Instanzen erlauben längere Posts.
+        </p>
+      </div>
+      <Button type="submit" variant="outline" size="sm" className="w-full">
+        Speichern
+      </Button>
+    </form>
+  )
+}
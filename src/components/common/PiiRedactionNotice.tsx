@@ -0,0 +1,45 @@
+import { useMemo } from 'react'
+import { Lock } from 'lucide-react'
+import { PII_LABELS, redactPii, type PiiType } from '@/lib/pii-redaction'
+
+interface PiiRedactionNoticeProps {
+  /** Source text as entered; redacted the same way before every request */
+  content: string
+}
+
+/**
+ * Lists the personal data that is masked before the source text leaves the browser.
+ */
+export function PiiRedactionNotice({ content }: PiiRedactionNoticeProps) {
+  const { entities } = useMemo(() => redactPii(content), [content])
+
+  if (entities.length === 0) return null
+
+  const counts = entities.reduce<Partial<Record<PiiType, number>>>((acc, entity) => {
+    acc[entity.type] = (acc[entity.type] ?? 0) + 1
+    return acc
+  }, {})
+  const summary = Object.entries(counts)
+    .map(([type, count]) => `${count}× ${PII_LABELS[type as PiiType]}`)
+    .join(', ')
+
+  return (
+    <details className="rounded-md border border-green-200 bg-green-50/60 px-3 py-2 text-xs text-green-800">
+      <summary className="flex cursor-pointer items-center gap-1.5">
+        <Lock className="h-3.5 w-3.5 shrink-0" />
+        {entities.length} personenbezogene Angaben werden vor dem Senden maskiert ({summary})
+      </summary>
+      <ul className="mt-2 space-y-0.5">
+        {entities.map((entity) => (
+          <li key={entity.placeholder} className="flex flex-wrap gap-x-2">
+            <span className="font-mono">{entity.placeholder}</span>
+            <span className="text-green-700/80">{entity.value}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-green-700/80">
+        Die KI sieht nur die Platzhalter. Im fertigen Post werden sie wieder durch die Originale ersetzt.
+      </p>
+    </details>
+  )
+}
@@ -1,45 +1,132 @@
-import { useMemo, memo } from 'react'
+import { memo, useEffect, useMemo, useState } from 'react'
+import { CalendarDays, Quote } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useContentGeneration } from '@/hooks/useContentGeneration'
-import type { Platform } from '@/config/platforms'
+import { CarouselDialog } from '@/components/common/CarouselDialog'
+import { ContentSeriesDialog } from '@/components/common/ContentSeriesDialog'
+import { QuoteCardDialog } from '@/components/common/QuoteCardDialog'
+import { PiiRedactionNotice } from '@/components/common/PiiRedactionNotice'
+import { SourceDigestPanel } from '@/components/common/SourceDigestPanel'
+import { VoiceToneSelector, VoiceToneTrigger } from '@/components/common/VoiceToneSelector'
+import { useCustomVoiceTones } from '@/hooks/useCustomVoiceTones'
+import { DEFAULT_VOICE_TONE, type VoiceTone } from '@/config/voice-tones'
+import { ALL_PLATFORMS, PLATFORM_META, type Platform } from '@/config/platforms'
+import { MAX_VARIANTS, type PostVariant } from '@/lib/variants'
+import type { PostCheck } from '@/lib/post-rules'
+import type { SourceDigest } from '@/lib/source-digest'
+import { DEFAULT_OUTPUT_LANGUAGE, LANGUAGE_META, OUTPUT_LANGUAGES, detectLanguage, isOutputLanguage, type OutputLanguage } from '@/lib/language'
+import { POST_GOALS, POST_GOAL_META, isPostGoal, type PostGoal } from '@/config/post-goals'
+import {
+  AUDIENCE_MAX_LENGTH,
+  PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_IDS,
+  getPreferredPromptTemplate,
+  getTemplateVersion,
+  isPromptTemplateId,
+  setPreferredPromptTemplate,
+  type PromptMeta,
+  type PromptTemplateId,
+} from '@/libs/promptTemplates'
 
 interface PlatformGeneratorsProps {
   content: string
-  onPostGenerated?: (platform: Platform, post: string) => void
+  /** `check` lists the platform-rule violations and automatic repairs of the post */
+  /** `prompt` records the template, goal and language the post was generated with */
+  onPostGenerated?: (platform: Platform, post: string, check?: PostCheck, prompt?: PromptMeta) => void
+  /** Called with the text received so far while a post streams in */
+  onPostStreaming?: (platform: Platform, partialText: string) => void
+  onGenerationFailed?: (platform: Platform, error: string) => void
+  /** Variants mode: alternatives for the comparison grid instead of a single post */
+  onVariantsGenerated?: (platform: Platform, variants: PostVariant[]) => void
+  /** Called with the key points a long source was reduced to; its posts are based on them */
+  onSourceDigest?: (digest: SourceDigest) => void
+  /** Called after a content series was saved to the saved posts */
+  onSeriesSaved?: () => void
 }
 
-export function PlatformGenerators({ content, onPostGenerated }: PlatformGeneratorsProps) {
+const VARIANT_COUNT_OPTIONS = Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1)
+
+export function PlatformGenerators({ content, onPostGenerated, onPostStreaming, onGenerationFailed, onVariantsGenerated, onSourceDigest, onSeriesSaved }: PlatformGeneratorsProps) {
   const {
     generatedPosts,
     generateSinglePost,
+    generateVariants,
     regeneratePost,
     isGenerating,
+    sourceDigest,
+    digestProgress,
+    groundingSource,
   } = useContentGeneration()
+  // Opt-in X thread mode (numbered multi-tweet thread instead of one tweet)
+  const [threadMode, setThreadMode] = useState(false)
+  // 1 = single post; 2-5 = alternatives compared side by side
+  const [variantCount, setVariantCount] = useState(1)
+  const [carouselOpen, setCarouselOpen] = useState(false)
+  const [seriesOpen, setSeriesOpen] = useState(false)
+  const [quoteCardsOpen, setQuoteCardsOpen] = useState(false)
+  const [voiceTone, setVoiceTone] = useState<VoiceTone>(DEFAULT_VOICE_TONE)
+  const [voiceSelectorOpen, setVoiceSelectorOpen] = useState(false)
+  const { customTones, isCloning, cloneVoice, removeVoice } = useCustomVoiceTones()
+  // 'auto' follows the detected source language
+  const [languageChoice, setLanguageChoice] = useState<OutputLanguage | 'auto'>('auto')
+  const detectedLanguage = useMemo(() => detectLanguage(content), [content])
+  const language = languageChoice === 'auto' ? detectedLanguage ?? DEFAULT_OUTPUT_LANGUAGE : languageChoice
+  const [template, setTemplate] = useState<PromptTemplateId>(getPreferredPromptTemplate)
+  const [goal, setGoal] = useState<PostGoal | undefined>()
+  const [audience, setAudience] = useState('')
+  const promptOptions = { template, goal, audience, language }
+  const promptMeta: PromptMeta = { templateVersion: getTemplateVersion(template), goal, language, voiceTone }
+
+  useEffect(() => {
+    if (sourceDigest) onSourceDigest?.(sourceDigest)
+  }, [sourceDigest, onSourceDigest])
+
+  const handleTemplateChange = (value: string) => {
+    if (!isPromptTemplateId(value)) return
+    setTemplate(value)
+    setPreferredPromptTemplate(value)
+  }
+
+  const optionsFor = (platform: Platform, onChecked: (check: PostCheck) => void) => ({
+    ...promptOptions,
+    thread: platform === 'x' && threadMode,
+    onStream: onPostStreaming && ((partialText: string) => onPostStreaming(platform, partialText)),
+    onChecked,
+  })
 
-  const platforms = useMemo(() => (
-    [
-      { key: 'linkedin', name: 'LinkedIn', icon: '💼', variant: 'linkedin' as const },
-      { key: 'x', name: 'X', icon: '🐦', variant: 'x' as const },
-      { key: 'instagram', name: 'Instagram', icon: '📸', variant: 'instagram' as const },
-    ]
-  ), [])
+  // Threads have their own format, so thread mode takes precedence over variants
+  const variantsFor = (platform: Platform) =>
+    variantCount > 1 && !!onVariantsGenerated && !(platform === 'x' && threadMode)
+
+  const handleGenerateVariants = async (platform: Platform) => {
+    try {
+      const variants = await generateVariants(content, platform, variantCount, voiceTone, promptOptions)
+      onVariantsGenerated?.(platform, variants.map((variant) => ({ ...variant, prompt: promptMeta })))
+    } catch (error) {
+      console.error(`Variant generation failed for ${platform}:`, error)
+    }
+  }
 
   const handleGenerate = async (platform: Platform) => {
     if (!content.trim()) return
     try {
-      const post = await generateSinglePost(content, platform)
-      onPostGenerated?.(platform, post)
+      let check: PostCheck | undefined
+      const post = await generateSinglePost(content, platform, false, voiceTone, optionsFor(platform, (c) => { check = c }))
+      onPostGenerated?.(platform, post, check, promptMeta)
     } catch (error) {
       console.error(`Generation failed for ${platform}:`, error)
+      onGenerationFailed?.(platform, error instanceof Error ? error.message : String(error))
     }
   }
 
   const handleRegenerate = async (platform: Platform) => {
     try {
-      const post = await regeneratePost(content, platform)
-      if (post) onPostGenerated?.(platform, post)
+      let check: PostCheck | undefined
+      const post = await regeneratePost(content, platform, voiceTone, optionsFor(platform, (c) => { check = c }))
+      if (post) onPostGenerated?.(platform, post, check, promptMeta)
     } catch (error) {
       console.error(`Regeneration failed for ${platform}:`, error)
+      onGenerationFailed?.(platform, error instanceof Error ? error.message : String(error))
     }
   }
 
@@ -53,41 +140,185 @@ export function PlatformGenerators({ content, onPostGenerated }: PlatformGenerat
 
   return (
     <div className="space-y-6">
-      <h3 className="text-lg font-semibold">Posts generieren</h3>
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold">Posts generieren</h3>
+        <div className="flex items-center gap-3">
+          {onVariantsGenerated && (
+            <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              Varianten
+              <select
+                value={variantCount}
+                onChange={(e) => setVariantCount(Number(e.target.value))}
+                className="h-8 rounded-md border bg-background px-2 text-sm text-foreground"
+              >
+                {VARIANT_COUNT_OPTIONS.map((count) => (
+                  <option key={count} value={count}>{count === 1 ? 'Aus' : count}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <Button onClick={() => setSeriesOpen(true)} variant="outline" size="sm">
+            <CalendarDays /> Serie
+          </Button>
+          <VoiceToneTrigger currentTone={voiceTone} onClick={() => setVoiceSelectorOpen(true)} size="sm" />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          Vorlage
+          <select
+            value={template}
+            onChange={(e) => handleTemplateChange(e.target.value)}
+            title={PROMPT_TEMPLATES[template].description}
+            className="h-8 rounded-md border bg-background px-2 text-sm text-foreground"
+          >
+            {PROMPT_TEMPLATE_IDS.map((id) => (
+              <option key={id} value={id}>{PROMPT_TEMPLATES[id].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          Ziel
+          <select
+            value={goal ?? ''}
+            onChange={(e) => setGoal(isPostGoal(e.target.value) ? e.target.value : undefined)}
+            title={goal ? POST_GOAL_META[goal].description : undefined}
+            className="h-8 rounded-md border bg-background px-2 text-sm text-foreground"
+          >
+            <option value="">Kein Ziel</option>
+            {POST_GOALS.map((id) => (
+              <option key={id} value={id}>{POST_GOAL_META[id].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          Sprache
+          <select
+            value={languageChoice}
+            onChange={(e) => setLanguageChoice(isOutputLanguage(e.target.value) ? e.target.value : 'auto')}
+            className="h-8 rounded-md border bg-background px-2 text-sm text-foreground"
+          >
+            <option value="auto">
+              Auto ({detectedLanguage ? LANGUAGE_META[detectedLanguage].label : `${LANGUAGE_META[DEFAULT_OUTPUT_LANGUAGE].label}, nicht erkannt`})
+            </option>
+            {OUTPUT_LANGUAGES.map((code) => (
+              <option key={code} value={code}>{LANGUAGE_META[code].flag} {LANGUAGE_META[code].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex min-w-[12rem] flex-1 items-center gap-1.5 text-xs text-muted-foreground">
+          Zielgruppe
+          <input
+            value={audience}
+            onChange={(e) => setAudience(e.target.value)}
+            maxLength={AUDIENCE_MAX_LENGTH}
+            placeholder="z. B. HR-Leads in KMU"
+            className="h-8 flex-1 rounded-md border bg-background px-2 text-sm text-foreground"
+          />
+        </label>
+      </div>
+
+      <PiiRedactionNotice content={content} />
+      <SourceDigestPanel content={content} digest={sourceDigest} progress={digestProgress} />
 
       <div className="grid gap-4 md:grid-cols-3">
-        {platforms.map(({ key, name, icon, variant }) => {
-          const k = key as Platform
-          const currentPost = generatedPosts[k]
+        {ALL_PLATFORMS.map((platform) => {
+          const { emoji, label, buttonVariant } = PLATFORM_META[platform]
+          const currentPost = generatedPosts[platform]
           const hasPost = !!currentPost?.post
-          const loading = isGenerating(k)
+          const loading = isGenerating(platform)
+          const withVariants = variantsFor(platform)
 
           return (
-            <div key={key} className="border rounded-lg p-4 space-y-4">
+            <div key={platform} className="border rounded-lg p-4 space-y-4">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                  <span className="text-xl" aria-hidden>{icon}</span>
-                  <span className="font-medium">{name}</span>
+                  <span className="text-xl" aria-hidden>{emoji}</span>
+                  <span className="font-medium">{label}</span>
                   {currentPost?.regenerationCount ? (
                     <span className="text-xs bg-accent/20 px-2 py-1 rounded">
                       v{currentPost.regenerationCount + 1}
                     </span>
                   ) : null}
                 </div>
+                {platform === 'x' && (
+                  <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={threadMode}
+                      onChange={(e) => setThreadMode(e.target.checked)}
+                      className="accent-black"
+                    />
+                    Thread
+                  </label>
+                )}
               </div>
 
               <Button
-                onClick={() => (hasPost ? handleRegenerate(k) : handleGenerate(k))}
+                onClick={() => {
+                  if (withVariants) handleGenerateVariants(platform)
+                  else if (hasPost) handleRegenerate(platform)
+                  else handleGenerate(platform)
+                }}
                 isLoading={loading}
-                variant={variant}
+                variant={buttonVariant}
                 fullWidth
               >
-                {hasPost ? '🔄 Regenerieren' : '✨ Generieren'}
+                {withVariants ? `✨ ${variantCount} Varianten` : hasPost ? '🔄 Regenerieren' : '✨ Generieren'}
               </Button>
+
+              {platform === 'instagram' && (
+                <Button onClick={() => setCarouselOpen(true)} variant="outline" size="sm" fullWidth>
+                  🖼️ Karussell erstellen
+                </Button>
+              )}
+              {platform === 'instagram' && (
+                <Button onClick={() => setQuoteCardsOpen(true)} variant="outline" size="sm" fullWidth>
+                  <Quote /> Zitatkarten
+                </Button>
+              )}
             </div>
           )
         })}
       </div>
+
+      <CarouselDialog
+        isOpen={carouselOpen}
+        onClose={() => setCarouselOpen(false)}
+        content={sourceDigest?.source === content ? sourceDigest.text : content}
+        voiceTone={voiceTone}
+        language={language}
+      />
+      <QuoteCardDialog
+        isOpen={quoteCardsOpen}
+        onClose={() => setQuoteCardsOpen(false)}
+        content={content}
+        caption={generatedPosts.instagram?.post}
+      />
+      <ContentSeriesDialog
+        isOpen={seriesOpen}
+        onClose={() => setSeriesOpen(false)}
+        content={content}
+        resolveSource={groundingSource}
+        voiceTone={voiceTone}
+        promptOptions={promptOptions}
+        promptMeta={promptMeta}
+        onSaved={onSeriesSaved}
+      />
+      <VoiceToneSelector
+        isOpen={voiceSelectorOpen}
+        onClose={() => setVoiceSelectorOpen(false)}
+        onSelectTone={setVoiceTone}
+        currentTone={voiceTone}
+        customTones={customTones}
+        onCloneVoice={cloneVoice}
+        onDeleteVoice={(id) => {
+          removeVoice(id)
+          if (voiceTone.id === id) setVoiceTone(DEFAULT_VOICE_TONE)
+        }}
+        isCloning={isCloning}
+      />
     </div>
   )
 }
@@ -1,15 +1,24 @@
-import { memo, useMemo } from 'react'
-import { cn } from '@/lib/utils'
-import { PLATFORM_META, type Platform } from '@/config/platforms'
+import { memo, useMemo, useState } from 'react'
+import { FileText, Loader2, Magnet, ShieldX } from 'lucide-react'
+import { PLATFORMS, PLATFORM_META, countPostLength, getPlatformMaxLength, type Platform } from '@/config/platforms'
 import { CharacterCounterTextarea } from '@/components/common/CharacterCounter'
 import { CopyButton } from '@/components/ui/copy-button'
-import {
-  SaveButton,
-  EditButton,
-  LinkedInShareButton,
-  XShareButton,
-  InstagramShareButton,
-} from '@/design-system/components/ActionButtons'
+import { SaveButton, EditButton } from '@/design-system/components/ActionButtons'
+import { PlatformShareButton } from '@/components/common/PlatformShareButton'
+import { LinkedInDocumentDialog } from '@/components/common/LinkedInDocumentDialog'
+import { Button } from '@/components/ui/button'
+import { ThreadEditor, ThreadPreview } from '@/components/common/ThreadPreview'
+import { isThread, numberThread, splitThread } from '@/lib/thread'
+import { PostRepairLog } from '@/components/common/PostRepairLog'
+import { GuardrailReport } from '@/components/common/GuardrailReport'
+import { HashtagEditor } from '@/components/common/HashtagEditor'
+import { HookWorkshopDialog } from '@/components/common/HookWorkshopDialog'
+import { InlineEditToolbar } from '@/components/common/InlineEditToolbar'
+import { ReadabilityPanel } from '@/components/common/ReadabilityPanel'
+import type { TextSelection } from '@/lib/inline-edit'
+import type { HookFormula } from '@/config/hook-formulas'
+import type { OutputLanguage } from '@/lib/language'
+import type { PostRepair, PostViolation } from '@/lib/post-rules'
 import { toast } from 'sonner'
 
 interface PlatformPreviewCardProps {
@@ -28,24 +37,43 @@ interface PlatformPreviewCardProps {
   onShare?: () => void
   /** Compact mode for saved-posts column */
   compact?: boolean
+  /** Content is still arriving from the model; read-only, no actions */
+  isStreaming?: boolean
+  /** Result of the validate-and-repair loop */
+  violations?: PostViolation[]
+  repairs?: PostRepair[]
+  /** Generation id for the guardrail result (omit for edited posts) */
+  generationId?: string
+  onFixIssues?: (issues: string[]) => void
+  isFixing?: boolean
+  /** Withheld by the blocking guardrail; hidden until the user chooses to see it */
+  quarantined?: boolean
+  /** The withheld post was regenerated once before the final check */
+  regenerated?: boolean
+  /** Source text for hashtag suggestions; with `onHashtagsChange` the hashtag editor is shown */
+  source?: string
+  onHashtagsChange?: (content: string) => void
+  /** Output language of the post, for the hook workshop and the style analysis */
+  language?: OutputLanguage
+  /** Swap in a hook from the hook workshop; without it the workshop is hidden */
+  onApplyHook?: (content: string, formula: HookFormula) => void
 }
 
 /**
- * Highlights hashtags in Instagram content with gradient-colored text.
+ * Highlights hashtags with colored text (platforms with `preview.highlightHashtags`).
  */
-function HighlightedContent({ content, platform }: { content: string; platform: Platform }) {
-  if (platform !== 'instagram') {
+function HighlightedContent({ content, highlightHashtags }: { content: string; highlightHashtags?: boolean }) {
+  if (!highlightHashtags) {
     return <>{content}</>
   }
 
-  // Split content into regular text and hashtag sections
-  const hashtagRegex = /(#\w+)/g
-  const parts = content.split(hashtagRegex)
+  // Split content into regular text and hashtag sections; the captured hashtags land at odd indexes
+  const parts = content.split(/(#[\p{L}\p{N}_]+)/u)
 
   return (
     <>
       {parts.map((part, i) =>
-        hashtagRegex.test(part) ? (
+        i % 2 === 1 ? (
           <span key={i} className="text-purple-600 font-medium">{part}</span>
         ) : (
           <span key={i}>{part}</span>
@@ -55,106 +83,92 @@ function HighlightedContent({ content, platform }: { content: string; platform:
   )
 }
 
-/** LinkedIn Preview: Professional style with blue left border */
-function LinkedInPreview({ content, isEditing, editContent, onEditContentChange, actions }: {
+/** Platform preview rendered from the registry's preview config */
+function PlatformPreview({ platform, content, isEditing, isStreaming = false, editContent, onEditContentChange, language, actions }: {
+  platform: Platform
   content: string
   isEditing: boolean
+  isStreaming?: boolean
   editContent: string
   onEditContentChange: (v: string) => void
+  language?: OutputLanguage
   actions: React.ReactNode
 }) {
+  const { preview } = PLATFORMS[platform]
+  const [selection, setSelection] = useState<TextSelection | null>(null)
+  const { header, body, footer } = preview
+  const charCount = countPostLength(platform, content)
+  // X thread mode stores tweets in one string; decided on the saved content so the editor stays put
+  const showThread = !isStreaming && platform === 'x' && isThread(content)
+
   return (
     <div
-      className={cn(
-        "rounded-lg bg-white border border-gray-200 transition-all duration-200",
-        "hover:shadow-[0_0_15px_rgba(10,102,194,0.25)]"
-      )}
-      style={{ borderLeftWidth: '3px', borderLeftColor: '#0A66C2' }}
+      className={preview.cardClassName}
+      style={preview.cardStyle}
       data-post-card
+      aria-busy={isStreaming}
     >
+      {preview.accentBar && (
+        <div className="h-0.5" style={{ background: preview.accentBar }} />
+      )}
+
       {/* Header */}
-      <div className="flex items-center gap-3 p-5 pb-0">
-        <div className="w-10 h-10 rounded-full bg-[#0A66C2]/10 flex items-center justify-center text-sm font-semibold text-[#0A66C2]">
-          Du
-        </div>
-        <div>
-          <p className="text-sm font-semibold text-gray-900">Du</p>
-          <p className="text-xs text-gray-500">Gerade eben</p>
+      <div className={header.className}>
+        <div className={header.avatar.className} style={header.avatar.style}>
+          {header.avatar.text}
         </div>
-      </div>
-
-      {/* Content */}
-      <div className="p-5">
-        {isEditing ? (
-          <CharacterCounterTextarea
-            value={editContent}
-            onChange={onEditContentChange}
-            platform="linkedin"
-            rows={8}
-          />
+        {header.layout === 'stacked' ? (
+          <div>
+            <p className={header.name.className}>{header.name.text}</p>
+            {header.timestamp && <p className={header.timestamp.className}>{header.timestamp.text}</p>}
+          </div>
         ) : (
-          <p className="text-gray-800 whitespace-pre-wrap leading-relaxed text-[15px]">
-            {content}
-          </p>
+          <div className="flex items-center gap-1">
+            <span className={header.name.className}>{header.name.text}</span>
+            {header.handle && <span className={header.handle.className}>{header.handle.text}</span>}
+            {header.timestamp && <span className={header.timestamp.className}>{header.timestamp.text}</span>}
+          </div>
         )}
       </div>
 
-      {/* Footer */}
-      <div className="border-t border-gray-100 px-5 py-3">
-        {actions}
-      </div>
-    </div>
-  )
-}
-
-/** X Preview: Compact tweet-like style */
-function XPreview({ content, isEditing, editContent, onEditContentChange, actions }: {
-  content: string
-  isEditing: boolean
-  editContent: string
-  onEditContentChange: (v: string) => void
-  actions: React.ReactNode
-}) {
-  const charCount = content.length
-
-  return (
-    <div
-      className={cn(
-        "rounded-lg bg-white border transition-all duration-200",
-        "hover:shadow-[0_0_15px_rgba(0,0,0,0.15)]"
-      )}
-      style={{ borderColor: '#E1E8ED' }}
-      data-post-card
-    >
-      {/* Header */}
-      <div className="flex items-center gap-2 p-4 pb-0">
-        <div className="w-9 h-9 rounded-full bg-gray-900 flex items-center justify-center text-xs font-bold text-white">
-          X
-        </div>
-        <div className="flex items-center gap-1">
-          <span className="text-sm font-bold text-gray-900">Du</span>
-          <span className="text-sm text-gray-500">@dein_handle</span>
-          <span className="text-gray-400 text-xs">· Gerade eben</span>
-        </div>
-      </div>
-
       {/* Content */}
-      <div className="p-4 pt-2">
-        {isEditing ? (
-          <CharacterCounterTextarea
-            value={editContent}
-            onChange={onEditContentChange}
-            platform="x"
-            rows={4}
-          />
+      <div className={body.className}>
+        {isEditing && showThread ? (
+          <ThreadEditor value={editContent} onChange={onEditContentChange} />
+        ) : showThread ? (
+          <ThreadPreview content={content} />
+        ) : isEditing ? (
+          <>
+            <CharacterCounterTextarea
+              value={editContent}
+              onChange={onEditContentChange}
+              onSelectionChange={setSelection}
+              platform={platform}
+              rows={body.editorRows}
+            />
+            <InlineEditToolbar
+              platform={platform}
+              content={editContent}
+              selection={selection}
+              language={language}
+              onApply={(next) => {
+                onEditContentChange(next)
+                setSelection(null)
+              }}
+            />
+            <ReadabilityPanel platform={platform} content={editContent} language={language} defaultOpen />
+          </>
         ) : (
           <>
-            <p className="text-gray-900 whitespace-pre-wrap leading-snug text-[15px]">
-              {content}
+            <p className={body.textClassName}>
+              <HighlightedContent content={content} highlightHashtags={preview.highlightHashtags} />
+              {isStreaming && (
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" aria-hidden="true" />
+              )}
             </p>
-            {charCount > 250 && (
+            {preview.showCountAbove !== undefined && charCount > preview.showCountAbove && (
               <p className="text-xs text-gray-400 mt-2 font-mono">
-                {charCount}/280
+                {charCount}/{getPlatformMaxLength(platform)}
               </p>
             )}
           </>
@@ -162,61 +176,7 @@ function XPreview({ content, isEditing, editContent, onEditContentChange, action
       </div>
 
       {/* Footer */}
-      <div className="border-t px-4 py-2.5" style={{ borderColor: '#E1E8ED' }}>
-        {actions}
-      </div>
-    </div>
-  )
-}
-
-/** Instagram Preview: Visual style with gradient accent */
-function InstagramPreview({ content, isEditing, editContent, onEditContentChange, actions }: {
-  content: string
-  isEditing: boolean
-  editContent: string
-  onEditContentChange: (v: string) => void
-  actions: React.ReactNode
-}) {
-  return (
-    <div
-      className={cn(
-        "rounded-lg bg-[#FAFAFA] border border-[#DBDBDB] overflow-hidden transition-all duration-200",
-        "hover:shadow-[0_0_15px_rgba(131,58,180,0.25)]"
-      )}
-      data-post-card
-    >
-      {/* Gradient top border */}
-      <div className="h-0.5" style={{ background: 'linear-gradient(45deg, #833AB4, #FD1D1D, #F77737)' }} />
-
-      {/* Header */}
-      <div className="flex items-center gap-2.5 p-4 pb-0">
-        <div
-          className="w-9 h-9 rounded-full flex items-center justify-center text-white text-xs font-bold"
-          style={{ background: 'linear-gradient(45deg, #833AB4, #FD1D1D, #F77737)' }}
-        >
-          IG
-        </div>
-        <span className="text-sm font-semibold text-gray-900">dein_username</span>
-      </div>
-
-      {/* Content */}
-      <div className="p-4">
-        {isEditing ? (
-          <CharacterCounterTextarea
-            value={editContent}
-            onChange={onEditContentChange}
-            platform="instagram"
-            rows={6}
-          />
-        ) : (
-          <p className="text-gray-800 whitespace-pre-wrap leading-relaxed text-sm">
-            <HighlightedContent content={content} platform="instagram" />
-          </p>
-        )}
-      </div>
-
-      {/* Footer */}
-      <div className="border-t border-[#DBDBDB] px-4 py-2.5">
+      <div className={footer.className} style={footer.style}>
         {actions}
       </div>
     </div>
@@ -235,8 +195,31 @@ export const PlatformPreviewCard = memo(function PlatformPreviewCard({
   onSaveEdit,
   onSave,
   onShare,
+  isStreaming = false,
+  violations,
+  repairs,
+  generationId,
+  onFixIssues,
+  isFixing,
+  quarantined = false,
+  regenerated = false,
+  source,
+  onHashtagsChange,
+  language,
+  onApplyHook,
 }: PlatformPreviewCardProps) {
   const meta = PLATFORM_META[platform]
+  const [documentOpen, setDocumentOpen] = useState(false)
+  const [hooksOpen, setHooksOpen] = useState(false)
+  const [revealed, setRevealed] = useState(false)
+  const isWithheld = quarantined && !revealed && !isEditing
+  // Only X posts are threads; a `---` line elsewhere is just part of the post
+  const thread = platform === 'x' && isThread(content)
+  // Threads are copied numbered and separated by blank lines, ready to paste tweet by tweet
+  const copyText = useMemo(
+    () => (thread ? numberThread(splitThread(content)).join('\n\n') : content),
+    [thread, content]
+  )
 
   const editActions = useMemo(() => (
     <div className="flex justify-end gap-2">
@@ -257,7 +240,7 @@ export const PlatformPreviewCard = memo(function PlatformPreviewCard({
       </span>
       <div className="flex gap-1">
         <CopyButton
-          text={content}
+          text={copyText}
           size="sm"
           variant="ghost"
           onCopy={() => toast.success('Kopiert!')}
@@ -274,49 +257,99 @@ export const PlatformPreviewCard = memo(function PlatformPreviewCard({
           text=""
           title="Speichern"
         />
-        {platform === 'linkedin' && (
-          <LinkedInShareButton
-            size="sm"
-            text=""
-            onClick={() => onShare?.()}
-            title="Auf LinkedIn teilen"
-          />
-        )}
-        {platform === 'x' && (
-          <XShareButton
+        {onApplyHook && !thread && (
+          <Button
             size="sm"
-            text=""
-            tweetContent={content}
-            title="Auf X teilen"
-          />
+            variant="ghost"
+            onClick={() => setHooksOpen(true)}
+            title="Hook-Werkstatt: alternative erste Zeilen"
+            aria-label="Hook-Werkstatt öffnen"
+          >
+            <Magnet />
+          </Button>
         )}
-        {platform === 'instagram' && (
-          <InstagramShareButton
+        {platform === 'linkedin' && (
+          <Button
             size="sm"
-            text=""
-            postContent={content}
-            title="Auf Instagram teilen"
-          />
+            variant="ghost"
+            onClick={() => setDocumentOpen(true)}
+            title="Als PDF-Dokument exportieren"
+            aria-label="Als PDF-Dokument exportieren"
+          >
+            <FileText />
+          </Button>
         )}
+        <PlatformShareButton platform={platform} content={content} onShare={onShare} />
       </div>
     </div>
-  ), [content, index, meta, platform, onStartEdit, onSave, onShare])
+  ), [content, copyText, thread, index, meta, platform, onStartEdit, onSave, onShare, onApplyHook])
 
-  const actions = isEditing ? editActions : viewActions
-  const editProps = {
-    content,
-    isEditing,
-    editContent,
-    onEditContentChange: onEditContentChange || (() => {}),
-    actions,
-  }
+  const streamingActions = (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground" role="status">
+      <Loader2 className="w-3.5 h-3.5 animate-spin" />
+      {meta.label}-Post wird geschrieben…
+    </div>
+  )
 
-  switch (platform) {
-    case 'linkedin':
-      return <LinkedInPreview {...editProps} />
-    case 'x':
-      return <XPreview {...editProps} />
-    case 'instagram':
-      return <InstagramPreview {...editProps} />
-  }
+  const actions = isStreaming ? streamingActions : isEditing ? editActions : viewActions
+
+  const preview = (
+    <PlatformPreview
+      platform={platform}
+      content={content}
+      isEditing={isEditing}
+      isStreaming={isStreaming}
+      editContent={editContent}
+      onEditContentChange={onEditContentChange || (() => {})}
+      language={language}
+      actions={actions}
+    />
+  )
+
+  return (
+    <>
+      {isWithheld ? (
+        <div className="relative">
+          <div className="pointer-events-none select-none blur-sm" aria-hidden="true">
+            {preview}
+          </div>
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 rounded-lg bg-background/80 p-4 text-center">
+            <ShieldX className="h-6 w-6 text-red-600" />
+            <p className="text-sm font-medium">Post zurückgehalten</p>
+            <p className="max-w-xs text-xs text-muted-foreground">
+              {regenerated
+                ? 'Der Faktencheck ist auch nach einer Neugenerierung fehlgeschlagen.'
+                : 'Der Faktencheck ist fehlgeschlagen.'}
+            </p>
+            <Button size="sm" variant="outline" onClick={() => setRevealed(true)}>
+              Trotzdem anzeigen
+            </Button>
+          </div>
+        </div>
+      ) : preview}
+      {!isStreaming && !isEditing && (
+        <>
+          {source !== undefined && onHashtagsChange && !isWithheld && (
+            <HashtagEditor platform={platform} content={content} source={source} onChange={onHashtagsChange} />
+          )}
+          <PostRepairLog violations={violations} repairs={repairs} />
+          {!isWithheld && <ReadabilityPanel platform={platform} content={content} language={language} />}
+          <GuardrailReport generationId={generationId} onFixIssues={onFixIssues} isFixing={isFixing} />
+        </>
+      )}
+      {onApplyHook && (
+        <HookWorkshopDialog
+          isOpen={hooksOpen}
+          onClose={() => setHooksOpen(false)}
+          platform={platform}
+          content={content}
+          language={language}
+          onApply={onApplyHook}
+        />
+      )}
+      {platform === 'linkedin' && (
+        <LinkedInDocumentDialog isOpen={documentOpen} onClose={() => setDocumentOpen(false)} post={content} />
+      )}
+    </>
+  )
 })
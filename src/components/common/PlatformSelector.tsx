@@ -1,5 +1,5 @@
 import type { Platform } from "@/config/platforms";
-import { PLATFORM_LABEL, ALL_PLATFORMS } from "@/config/platforms";
+import { PLATFORM_META, ALL_PLATFORMS } from "@/config/platforms";
 import { Badge } from "@/components/ui/badge";
 
 type Props = {
@@ -17,17 +17,8 @@ export function PlatformSelector({ value, onChange }: Props) {
     <div className="flex flex-wrap gap-2">
       {ALL_PLATFORMS.map((p) => {
         const active = value.includes(p);
-        const isInstagram = p === "instagram";
-        const isLinkedIn = p === "linkedin";
-        const isX = p === "x";
         const activeClass = active
-          ? isInstagram
-            ? "bg-[#e706ab] text-white border-[#e706ab] hover:bg-[#e706ab]/90"
-            : isLinkedIn
-              ? "bg-[#0a66c2] text-white border-[#0a66c2] hover:bg-[#0a66c2]/90"
-              : isX
-                ? "bg-black text-white border-black hover:bg-black/90"
-                : "bg-primary text-primary-foreground border-primary hover:bg-primary/90"
+          ? PLATFORM_META[p].selectedClassName
           : "bg-background hover:bg-muted";
         return (
           <button
@@ -38,7 +29,7 @@ export function PlatformSelector({ value, onChange }: Props) {
             aria-pressed={active}
           >
             <Badge variant="outline" className="border-transparent text-inherit">
-              {PLATFORM_LABEL[p]}
+              {PLATFORM_META[p].label}
             </Badge>
           </button>
         );
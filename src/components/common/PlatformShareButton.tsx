@@ -0,0 +1,70 @@
+import { PLATFORMS, type Platform } from '@/config/platforms'
+import {
+  LinkedInShareButton,
+  XShareButton,
+  InstagramShareButton,
+  IntentShareButton,
+} from '@/design-system/components/ActionButtons'
+import type { ButtonProps } from '@/components/ui/button'
+import { isThread, numberThread, splitThread } from '@/lib/thread'
+import { toast } from 'sonner'
+
+interface PlatformShareButtonProps {
+  platform: Platform
+  content: string
+  /** Custom share handler (e.g. LinkedIn draft via API); replaces the default share URL */
+  onShare?: () => void
+  size?: ButtonProps['size']
+  text?: string
+}
+
+/**
+ * Renders the share action registered for a platform.
+ */
+export function PlatformShareButton({ platform, content, onShare, size = 'sm', text = '' }: PlatformShareButtonProps) {
+  const { meta, share } = PLATFORMS[platform]
+
+  switch (share.type) {
+    case 'linkedin':
+      return (
+        <LinkedInShareButton
+          size={size}
+          text={text}
+          postContent={onShare ? '' : content}
+          onClick={() => onShare?.()}
+          title={share.title}
+        />
+      )
+    case 'x': {
+      if (!isThread(content)) {
+        return <XShareButton size={size} text={text} tweetContent={content} title={share.title} />
+      }
+      // X has no thread intent: open the first tweet, copy the rest for replying
+      const [first, ...rest] = numberThread(splitThread(content))
+      return (
+        <XShareButton
+          size={size}
+          text={text}
+          tweetContent={first}
+          title="Thread auf X starten"
+          onClick={() => {
+            navigator.clipboard?.writeText(rest.join('\n\n')).catch(() => {})
+            toast.success(`Tweet 1 geöffnet. Die restlichen ${rest.length} Tweets sind kopiert – poste sie als Antworten.`)
+          }}
+        />
+      )
+    }
+    case 'instagram':
+      return <InstagramShareButton size={size} text={text} postContent={content} title={share.title} />
+    case 'intent':
+      return (
+        <IntentShareButton
+          size={size}
+          text={text}
+          variant={meta.buttonVariant}
+          shareUrl={share.buildUrl(content)}
+          title={share.title}
+        />
+      )
+  }
+}
@@ -0,0 +1,40 @@
+import { AlertTriangle, Wrench } from 'lucide-react'
+import type { PostRepair, PostViolation } from '@/lib/post-rules'
+
+interface PostRepairLogProps {
+  violations?: PostViolation[]
+  repairs?: PostRepair[]
+}
+
+/**
+ * Shows why a post was rewritten automatically and which platform rules it still breaks.
+ */
+export function PostRepairLog({ violations = [], repairs = [] }: PostRepairLogProps) {
+  if (violations.length === 0 && repairs.length === 0) return null
+
+  return (
+    <div className="mt-2 space-y-1 text-xs">
+      {violations.length > 0 && (
+        <p className="flex items-start gap-1.5 text-amber-700">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <span>{violations.map((v) => v.message).join(' · ')}</span>
+        </p>
+      )}
+      {repairs.length > 0 && (
+        <details className="text-muted-foreground">
+          <summary className="flex cursor-pointer items-center gap-1.5">
+            <Wrench className="h-3.5 w-3.5" />
+            {repairs.length}× automatisch korrigiert
+          </summary>
+          <ol className="mt-1 space-y-0.5 pl-5">
+            {repairs.map((repair) => (
+              <li key={repair.attempt} className="list-decimal">
+                {repair.violations.map((v) => v.message).join(' · ')}
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  )
+}
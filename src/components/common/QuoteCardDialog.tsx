@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Download, RefreshCw } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { InstagramShareButton } from '@/design-system/components/ActionButtons'
+import { quotesFromContent } from '@/api/claude'
+import {
+  QUOTE_CARD_FORMATS,
+  QUOTE_CARD_FORMAT_META,
+  QUOTE_CARD_LAYOUTS,
+  QUOTE_CARD_LAYOUT_META,
+  QUOTE_FONT_SCALES,
+  QUOTE_FONT_SCALE_META,
+  isQuoteCardFormat,
+  isQuoteCardLayout,
+  isQuoteFontScale,
+  type QuoteCardFormat,
+  type QuoteCardLayout,
+  type QuoteFontScale,
+} from '@/config/quote-cards'
+import { renderQuoteCard } from '@/lib/quote-card-render'
+import { downloadBlob } from '@/lib/download'
+
+interface QuoteCardDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Original source; quotes are taken from it word for word */
+  content: string
+  /** Instagram post shared as the caption of the card */
+  caption?: string
+}
+
+const ATTRIBUTION_MAX_LENGTH = 60
+
+/**
+ * Quote cards: the most quotable sentences of the source, rendered locally as branded
+ * square or portrait PNGs. Finding quotes does not count as a generation.
+ */
+export function QuoteCardDialog({ isOpen, onClose, content, caption }: QuoteCardDialogProps) {
+  const [quotes, setQuotes] = useState<string[]>([])
+  const [selected, setSelected] = useState(0)
+  const [layout, setLayout] = useState<QuoteCardLayout>('gradient')
+  const [format, setFormat] = useState<QuoteCardFormat>('square')
+  const [fontScale, setFontScale] = useState<QuoteFontScale>('medium')
+  const [attribution, setAttribution] = useState('')
+  const [card, setCard] = useState<File | null>(null)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+
+  const quote = quotes[selected]
+
+  // Re-render the card whenever the quote or its options change; stale renders are dropped
+  useEffect(() => {
+    if (!quote) {
+      setCard(null)
+      return
+    }
+    let cancelled = false
+    renderQuoteCard({ quote, attribution, layout, format, fontScale })
+      .then((blob) => {
+        if (cancelled) return
+        const filename = `zitatkarte-${format}-${new Date().toISOString().slice(0, 10)}.png`
+        setCard(new File([blob], filename, { type: 'image/png' }))
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Quote card rendering failed:', error)
+        if (!cancelled) toast.error('Zitatkarte konnte nicht erstellt werden.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [quote, attribution, layout, format, fontScale])
+
+  // Object URL for the preview, released when the card changes
+  useEffect(() => {
+    const url = card ? URL.createObjectURL(card) : null
+    setPreview(url)
+    return () => {
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [card])
+
+  const findQuotes = async () => {
+    setIsSearching(true)
+    try {
+      setQuotes(await quotesFromContent(content))
+      setSelected(0)
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Quote extraction failed:', error)
+      const message = error instanceof Error && /^(Keine zitierfähigen|Zitat)/.test(error.message)
+        ? error.message
+        : 'Zitate konnten nicht gefunden werden. Bitte erneut versuchen.'
+      toast.error(message)
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Zitatkarten</DialogTitle>
+          <DialogDescription>
+            Die stärksten Sätze aus deinem Text, wörtlich übernommen und lokal als Bild im Markendesign gerendert.
+          </DialogDescription>
+        </DialogHeader>
+
+        {quotes.length === 0 ? (
+          <Button onClick={findQuotes} isLoading={isSearching} variant="instagram" fullWidth>
+            ✨ Zitate finden
+          </Button>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-4">
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium">Zitat</legend>
+                {quotes.map((text, i) => (
+                  <label
+                    key={text}
+                    className={`flex cursor-pointer gap-2 rounded-md border p-2 text-sm ${i === selected ? 'border-primary bg-primary/5' : ''}`}
+                  >
+                    <input type="radio" name="quote" checked={i === selected} onChange={() => setSelected(i)} className="mt-1" />
+                    <span>{text}</span>
+                  </label>
+                ))}
+              </fieldset>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1.5">
+                  <Label htmlFor="quote-layout">Layout</Label>
+                  <select
+                    id="quote-layout"
+                    value={layout}
+                    onChange={(e) => isQuoteCardLayout(e.target.value) && setLayout(e.target.value)}
+                    title={QUOTE_CARD_LAYOUT_META[layout].description}
+                    className="h-9 w-full rounded-md border bg-background px-2 text-sm"
+                  >
+                    {QUOTE_CARD_LAYOUTS.map((id) => (
+                      <option key={id} value={id}>{QUOTE_CARD_LAYOUT_META[id].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="quote-format">Format</Label>
+                  <select
+                    id="quote-format"
+                    value={format}
+                    onChange={(e) => isQuoteCardFormat(e.target.value) && setFormat(e.target.value)}
+                    className="h-9 w-full rounded-md border bg-background px-2 text-sm"
+                  >
+                    {QUOTE_CARD_FORMATS.map((id) => (
+                      <option key={id} value={id}>{QUOTE_CARD_FORMAT_META[id].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="quote-font-scale">Schrift</Label>
+                  <select
+                    id="quote-font-scale"
+                    value={fontScale}
+                    onChange={(e) => isQuoteFontScale(e.target.value) && setFontScale(e.target.value)}
+                    className="h-9 w-full rounded-md border bg-background px-2 text-sm"
+                  >
+                    {QUOTE_FONT_SCALES.map((id) => (
+                      <option key={id} value={id}>{QUOTE_FONT_SCALE_META[id].label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="quote-attribution">Urheber (optional)</Label>
+                <Input
+                  id="quote-attribution"
+                  value={attribution}
+                  onChange={(e) => setAttribution(e.target.value)}
+                  maxLength={ATTRIBUTION_MAX_LENGTH}
+                  placeholder="z. B. Name oder @handle"
+                />
+              </div>
+
+              <Button onClick={findQuotes} isLoading={isSearching} variant="outline" size="sm">
+                <RefreshCw /> Neu suchen
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {preview && card && (
+                <img
+                  src={preview}
+                  alt={`Zitatkarte: ${quote}`}
+                  className={`w-full rounded-md border ${format === 'portrait' ? 'aspect-[4/5]' : 'aspect-square'}`}
+                />
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={() => card && downloadBlob(card, card.name)} variant="outline" disabled={!card}>
+                  <Download /> PNG herunterladen
+                </Button>
+                <InstagramShareButton image={card ?? undefined} postContent={caption} disabled={!card} />
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
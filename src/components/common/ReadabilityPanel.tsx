@@ -0,0 +1,73 @@
+import { useMemo } from 'react'
+import { BookOpen } from 'lucide-react'
+import type { Platform } from '@/config/platforms'
+import type { OutputLanguage } from '@/lib/language'
+import { analyzeStyle, evaluateStyle, formatTargetRange } from '@/lib/readability'
+
+interface ReadabilityPanelProps {
+  platform: Platform
+  content: string
+  /** Language of the post; detected from the text when missing */
+  language?: OutputLanguage
+  /** Start expanded, e.g. next to the editor */
+  defaultOpen?: boolean
+}
+
+// Hits listed per metric before the rest is summarized
+const MAX_HITS = 5
+
+/**
+ * Readability and style of a post against the platform's target ranges. Computed locally
+ * on every change, so it is free and works offline.
+ */
+export function ReadabilityPanel({ platform, content, language, defaultOpen = false }: ReadabilityPanelProps) {
+  const metrics = useMemo(
+    () => evaluateStyle(analyzeStyle(content, language), platform),
+    [content, language, platform]
+  )
+  if (!content.trim()) return null
+
+  const outOfRange = metrics.filter((metric) => !metric.inRange).length
+
+  return (
+    <details className="mt-2 text-xs" open={defaultOpen}>
+      <summary className="flex cursor-pointer items-center gap-1.5 text-muted-foreground">
+        <BookOpen className="h-3.5 w-3.5" />
+        Stil-Analyse
+        {outOfRange > 0 ? (
+          <span className="text-amber-700">· {outOfRange} außerhalb des Zielbereichs</span>
+        ) : (
+          <span className="text-green-700">· alles im Zielbereich</span>
+        )}
+      </summary>
+      <table className="mt-1 w-full">
+        <thead className="sr-only">
+          <tr>
+            <th>Kennzahl</th>
+            <th>Wert</th>
+            <th>Ziel</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map((metric) => (
+            <tr key={metric.id} className="align-top">
+              <td className="py-0.5 pr-2 text-muted-foreground">{metric.label}</td>
+              <td className={`py-0.5 pr-2 font-medium ${metric.inRange ? '' : 'text-amber-700'}`}>
+                {metric.value}
+                {metric.hits && metric.hits.length > 0 && (
+                  <span className="block font-normal text-muted-foreground" title={metric.hits.join('\n')}>
+                    {metric.hits.slice(0, MAX_HITS).map((hit) => `„${hit}“`).join(', ')}
+                    {metric.hits.length > MAX_HITS && ` +${metric.hits.length - MAX_HITS}`}
+                  </span>
+                )}
+              </td>
+              <td className="py-0.5 text-right font-mono text-muted-foreground">
+                {formatTargetRange(metric.target)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  )
+}
@@ -1,11 +1,18 @@
 import { useEffect, useState, memo } from 'react'
+import { Magnet } from 'lucide-react'
 import { SavedPost, getSavedPosts, deleteSavedPost, updateSavedPost } from '@/api/appwrite'
-import { SaveButton, EditButton, DeleteButton, LinkedInShareButton, XShareButton, InstagramShareButton } from '@/design-system/components/ActionButtons'
+import { SaveButton, EditButton, DeleteButton } from '@/design-system/components/ActionButtons'
+import { PlatformShareButton } from '@/components/common/PlatformShareButton'
 import { Button } from '@/components/ui/button'
+import { HookWorkshopDialog } from '@/components/common/HookWorkshopDialog'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
 import { PLATFORM_META, type Platform } from '@/config/platforms'
+import { LANGUAGE_META } from '@/lib/language'
+import { HOOK_FORMULA_META, type HookFormula } from '@/config/hook-formulas'
+import { formatPublishDate } from '@/lib/series'
+import { isThread } from '@/lib/thread'
 import {
   AlertDialog,
   AlertDialogTrigger,
@@ -34,17 +41,19 @@ interface PostCardProps {
   onStartEdit: (id: string, content: string) => void;
   onCancelEdit: () => void;
   onEditContentChange: (content: string) => void;
+  onApplyHook: (id: string, content: string, formula: HookFormula) => void;
 }
 
 /**
  * Compact post card optimized for narrow saved-posts column.
  * Shows platform color dot, truncated content, icon-only actions.
  */
-const PostCard = memo(({ post, editingPost, onEdit, onDelete, onStartEdit, onCancelEdit, onEditContentChange }: PostCardProps) => {
+const PostCard = memo(({ post, editingPost, onEdit, onDelete, onStartEdit, onCancelEdit, onEditContentChange, onApplyHook }: PostCardProps) => {
   const isEditing = editingPost?.id === post.id
-  const platform = (post.platform || 'linkedin') as Platform
+  const platform: Platform = post.platform ?? 'linkedin'
   const meta = PLATFORM_META[platform]
   const [expanded, setExpanded] = useState(false)
+  const [hooksOpen, setHooksOpen] = useState(false)
 
   const truncatedContent = post.content.length > 120 && !expanded
     ? `${post.content.slice(0, 120)}...`
@@ -84,6 +93,23 @@ const PostCard = memo(({ post, editingPost, onEdit, onDelete, onStartEdit, onCan
           <div className="flex items-center gap-1.5 mb-1.5">
             <span className="text-xs">{meta.emoji}</span>
             <span className="text-xs text-muted-foreground font-medium">{meta.label}</span>
+            {post.language && (
+              <span className="text-xs text-muted-foreground" title={LANGUAGE_META[post.language].label}>
+                · {LANGUAGE_META[post.language].flag}
+              </span>
+            )}
+            {post.hook_formula && (
+              <span className="text-xs text-muted-foreground" title="Hook-Formel">
+                · {HOOK_FORMULA_META[post.hook_formula].label}
+              </span>
+            )}
+            {post.series_name && (
+              <span className="text-xs text-muted-foreground" title="Serie">
+                · {post.series_name}
+                {post.series_position ? ` #${post.series_position}` : ''}
+                {post.publish_date ? `, ${formatPublishDate(post.publish_date)}` : ''}
+              </span>
+            )}
           </div>
 
           {/* Content - truncated */}
@@ -108,13 +134,19 @@ const PostCard = memo(({ post, editingPost, onEdit, onDelete, onStartEdit, onCan
                 text=""
                 title="Bearbeiten"
               />
-              {platform === 'x' ? (
-                <XShareButton tweetContent={post.content} size="sm" text="" title="Auf X teilen" />
-              ) : platform === 'instagram' ? (
-                <InstagramShareButton postContent={post.content} size="sm" text="" title="Auf Instagram teilen" />
-              ) : (
-                <LinkedInShareButton postContent={post.content} size="sm" text="" title="Auf LinkedIn teilen" />
+              {/* Only X posts are threads; a `---` line elsewhere is just part of the post */}
+              {!(post.platform === 'x' && isThread(post.content)) && (
+                <Button
+                  onClick={() => setHooksOpen(true)}
+                  variant="ghost"
+                  size="sm"
+                  title="Hook-Werkstatt: alternative erste Zeilen"
+                  aria-label="Hook-Werkstatt öffnen"
+                >
+                  <Magnet />
+                </Button>
               )}
+              <PlatformShareButton platform={platform} content={post.content} />
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <div>
@@ -141,6 +173,14 @@ const PostCard = memo(({ post, editingPost, onEdit, onDelete, onStartEdit, onCan
               </AlertDialog>
             </div>
           </div>
+          <HookWorkshopDialog
+            isOpen={hooksOpen}
+            onClose={() => setHooksOpen(false)}
+            platform={platform}
+            content={post.content}
+            language={post.language}
+            onApply={(content, formula) => onApplyHook(post.id, content, formula)}
+          />
         </>
       )}
     </div>
@@ -195,6 +235,17 @@ const SavedPostsComponent = function SavedPosts({ refreshKey, isAuthenticated, o
     }
   }
 
+  const handleApplyHook = async (id: string, newContent: string, hookFormula: HookFormula) => {
+    try {
+      await updateSavedPost(id, newContent, hookFormula)
+      setSavedPosts(posts => posts.map(p =>
+        p.id === id ? { ...p, content: newContent, hook_formula: hookFormula } : p
+      ))
+    } catch {
+      toast.error('Beitrag konnte nicht aktualisiert werden.')
+    }
+  }
+
   return (
     <div className={`h-full flex flex-col ${highlighted ? 'animate-targetPulse' : ''}`}>
       {/* Header */}
@@ -238,6 +289,7 @@ const SavedPostsComponent = function SavedPosts({ refreshKey, isAuthenticated, o
             onStartEdit={(id, content) => setEditingPost({ id, content })}
             onCancelEdit={() => setEditingPost(null)}
             onEditContentChange={(content) => setEditingPost(prev => prev ? { ...prev, content } : null)}
+            onApplyHook={handleApplyHook}
           />
         ))}
       </div>
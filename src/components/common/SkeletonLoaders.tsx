@@ -1,5 +1,6 @@
 import { cn } from '@/lib/utils';
 import type { ExtractionStage } from '@/api/extract';
+import { isPlatform, PLATFORM_META } from '@/config/platforms';
 
 interface SkeletonProps {
   className?: string;
@@ -79,9 +80,7 @@ export function PostGenerationSkeleton({ platform }: { platform: string }) {
       {/* Platform-specific animation overlay */}
       <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
         <div className="text-6xl animate-bounce opacity-20">
-          {platform === 'linkedin' && '💼'}
-          {platform === 'x' && '🐦'}
-          {platform === 'instagram' && '📸'}
+          {isPlatform(platform) && PLATFORM_META[platform].emoji}
         </div>
       </div>
     </div>
@@ -263,17 +262,8 @@ export function ExtractingContent({
   );
 }
 
-const PLATFORM_COLORS: Record<string, string> = {
-  linkedin: '#0A66C2',
-  x: '#000000',
-  instagram: '#833AB4',
-};
-
-const PLATFORM_EMOJIS: Record<string, string> = {
-  linkedin: '\uD83D\uDCBC',
-  x: '\uD83D\uDC26',
-  instagram: '\uD83D\uDCF8',
-};
+const getPlatformColor = (platform?: string) =>
+  isPlatform(platform) ? PLATFORM_META[platform].color : undefined;
 
 export function GeneratingPosts({
   platform,
@@ -281,7 +271,7 @@ export function GeneratingPosts({
   subMessage,
   className
 }: LoadingStateProps & { platform?: string }) {
-  const color = platform ? PLATFORM_COLORS[platform] : undefined;
+  const color = getPlatformColor(platform);
 
   return (
     <div className={cn("space-y-4", className)}>
@@ -292,7 +282,7 @@ export function GeneratingPosts({
         >
           {platform && (
             <span className="absolute text-3xl animate-pulse">
-              {PLATFORM_EMOJIS[platform]}
+              {isPlatform(platform) && PLATFORM_META[platform].emoji}
             </span>
           )}
           <div
@@ -323,7 +313,7 @@ export function GeneratingPosts({
 }
 
 export function PlatformPreviewSkeleton({ platform }: { platform?: string }) {
-  const color = platform ? PLATFORM_COLORS[platform] : '#e5e7eb';
+  const color = getPlatformColor(platform) ?? '#e5e7eb';
 
   return (
     <div
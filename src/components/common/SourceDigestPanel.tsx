@@ -0,0 +1,62 @@
+import { useMemo } from 'react'
+import { Layers, Loader2 } from 'lucide-react'
+import { isLongSource, sectionLabel, splitSource, type SourceDigest } from '@/lib/source-digest'
+
+interface SourceDigestPanelProps {
+  /** Source text as entered */
+  content: string
+  /** Key points of the last long source, if they belong to `content` they are shown */
+  digest: SourceDigest | null
+  /** Sections summarized so far while the digest is made */
+  progress: { done: number; total: number } | null
+}
+
+/**
+ * For long sources: announces the key-point step before generation and afterwards
+ * lists the key points per section that the posts are based on.
+ */
+export function SourceDigestPanel({ content, digest, progress }: SourceDigestPanelProps) {
+  const isLong = isLongSource(content)
+  const sectionCount = useMemo(() => (isLong ? splitSource(content).length : 0), [content, isLong])
+
+  if (!isLong) return null
+
+  if (digest?.source !== content) {
+    const words = content.trim().split(/\s+/).length
+    return (
+      <p className="flex items-center gap-1.5 rounded-md border bg-muted/30 px-3 py-2 text-xs text-muted-foreground">
+        {progress ? <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin" /> : <Layers className="h-3.5 w-3.5 shrink-0" />}
+        {progress
+          ? `Kernaussagen werden erstellt: ${progress.done} von ${progress.total || sectionCount} Abschnitten`
+          : `Langer Quelltext (${words.toLocaleString('de-DE')} Wörter): Vor dem ersten Post werden die Kernaussagen von ${sectionCount} Abschnitten erstellt. Die Posts basieren auf diesen Kernaussagen.`}
+      </p>
+    )
+  }
+
+  const pointCount = digest.sections.reduce((sum, section) => sum + section.keyPoints.length, 0)
+
+  return (
+    <details className="rounded-md border bg-muted/30 px-3 py-2 text-xs">
+      <summary className="flex cursor-pointer items-center gap-1.5 text-muted-foreground">
+        <Layers className="h-3.5 w-3.5 shrink-0" />
+        Posts basieren auf {pointCount} Kernaussagen aus {digest.sections.length} Abschnitten
+      </summary>
+      <ol className="mt-2 space-y-2">
+        {digest.sections.map((section, i) => (
+          <li key={i}>
+            <p className="font-medium">{sectionLabel(section.title, i)}</p>
+            {section.keyPoints.length > 0 ? (
+              <ul className="mt-0.5 list-disc space-y-0.5 pl-5">
+                {section.keyPoints.map((point, j) => (
+                  <li key={j}>{point}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-muted-foreground">Keine Kernaussagen</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </details>
+  )
+}
@@ -0,0 +1,169 @@
+import { useRef, useState } from 'react'
+import { ArrowDown, ArrowUp, Combine, Scissors, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import {
+  TWEET_MAX_LENGTH,
+  joinThread,
+  mergeWithNext,
+  moveTweet,
+  splitThread,
+  splitTweet,
+  threadMarker,
+  threadTweetLength,
+} from '@/lib/thread'
+
+/**
+ * Read-only thread view: numbered tweets connected by a vertical line.
+ */
+export function ThreadPreview({ content }: { content: string }) {
+  const tweets = splitThread(content)
+
+  return (
+    <ol className="space-y-0" aria-label={`Thread mit ${tweets.length} Tweets`}>
+      {tweets.map((tweet, i) => {
+        const length = threadTweetLength(tweet, i, tweets.length)
+        const isLast = i === tweets.length - 1
+
+        return (
+          <li key={i} className="relative flex gap-3 pb-4 last:pb-0">
+            {/* Connector line between avatars */}
+            {!isLast && (
+              <span className="absolute left-[17px] top-9 bottom-0 w-0.5 bg-[#E1E8ED]" aria-hidden="true" />
+            )}
+            <div className="w-9 h-9 shrink-0 rounded-full bg-gray-900 flex items-center justify-center text-xs font-bold text-white">
+              X
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="text-gray-900 whitespace-pre-wrap leading-snug text-[15px]">
+                {tweet}
+                <span className="text-gray-500">{threadMarker(i, tweets.length)}</span>
+              </p>
+              <p className={cn('text-xs mt-1 font-mono', length > TWEET_MAX_LENGTH ? 'text-red-500' : 'text-gray-400')}>
+                {length}/{TWEET_MAX_LENGTH}
+              </p>
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
+
+interface ThreadEditorProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+/**
+ * Per-tweet thread editor with reorder, merge, split and delete.
+ * Reports changes as a stored thread string, so it plugs into the regular edit flow.
+ */
+export function ThreadEditor({ value, onChange }: ThreadEditorProps) {
+  // Local copy keeps whitespace and empty tweets while typing; the reported string is normalized
+  const [tweets, setTweets] = useState(() => splitThread(value))
+  // Last cursor position per tweet, used as split point
+  const cursorRef = useRef<Record<number, number>>({})
+
+  const update = (next: string[]) => {
+    cursorRef.current = {}
+    setTweets(next)
+    onChange(joinThread(next))
+  }
+
+  const updateTweet = (index: number, text: string) => {
+    const next = [...tweets]
+    next[index] = text
+    setTweets(next)
+    onChange(joinThread(next))
+  }
+
+  return (
+    <div className="space-y-3">
+      {tweets.map((tweet, i) => {
+        const length = threadTweetLength(tweet, i, tweets.length)
+        const isOver = length > TWEET_MAX_LENGTH
+
+        return (
+          <div key={i} className="rounded-md border border-[#E1E8ED] p-2 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-gray-600">
+                Tweet {i + 1}/{tweets.length}
+              </span>
+              <span className={cn('text-xs font-mono', isOver ? 'text-red-500' : 'text-gray-400')}>
+                {length}/{TWEET_MAX_LENGTH}
+              </span>
+            </div>
+            <textarea
+              value={tweet}
+              rows={3}
+              onChange={(e) => updateTweet(i, e.target.value)}
+              onSelect={(e) => {
+                cursorRef.current[i] = e.currentTarget.selectionStart
+              }}
+              aria-label={`Tweet ${i + 1} bearbeiten`}
+              className={cn(
+                'w-full px-2 py-1.5 rounded-md border bg-background text-sm focus:outline-none focus:ring-2',
+                isOver ? 'border-red-500 focus:ring-red-500/20' : 'border-input focus:ring-primary/20'
+              )}
+            />
+            <div className="flex flex-wrap gap-1">
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={i === 0}
+                onClick={() => update(moveTweet(tweets, i, i - 1))}
+                title="Nach oben"
+                aria-label={`Tweet ${i + 1} nach oben`}
+              >
+                <ArrowUp />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={i === tweets.length - 1}
+                onClick={() => update(moveTweet(tweets, i, i + 1))}
+                title="Nach unten"
+                aria-label={`Tweet ${i + 1} nach unten`}
+              >
+                <ArrowDown />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={i === tweets.length - 1}
+                onClick={() => update(mergeWithNext(tweets, i))}
+                title="Mit nächstem Tweet zusammenführen"
+              >
+                <Combine /> Zusammenführen
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => update(splitTweet(tweets, i, cursorRef.current[i]))}
+                title="An der Cursorposition teilen"
+              >
+                <Scissors /> Teilen
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={tweets.length <= 1}
+                onClick={() => update(tweets.filter((_, j) => j !== i))}
+                title="Tweet entfernen"
+                aria-label={`Tweet ${i + 1} entfernen`}
+              >
+                <Trash2 />
+              </Button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react'
+import { getUsageSummary, type UsageKind, type UsageSummary } from '@/api/usage'
+import { Progress } from '@/components/ui/progress'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn } from '@/lib/utils'
+
+const KIND_LABELS: Record<UsageKind, string> = {
+  completion: 'Generierungen',
+  regeneration: 'Neu generiert (Faktencheck)',
+  guardrail: 'Faktenchecks',
+}
+
+const usd = new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 })
+const count = new Intl.NumberFormat('de-DE')
+
+/**
+ * This month's tokens and cost of the account, by model and call type, against the monthly ceiling.
+ */
+export function UsageSettings() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    getUsageSummary()
+      .then((result) => {
+        if (!cancelled) setSummary(result)
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load usage:', error)
+        if (!cancelled) setFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (failed) {
+    return <p className="text-sm text-muted-foreground">Verbrauch konnte nicht geladen werden.</p>
+  }
+
+  if (!summary) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-6 w-32" />
+        <Skeleton className="h-2 w-full" />
+        <Skeleton className="h-16 w-full" />
+      </div>
+    )
+  }
+
+  const share = summary.limit_usd ? Math.min(100, (summary.cost_usd / summary.limit_usd) * 100) : 0
+  const month = new Date(`${summary.month}-01T00:00:00Z`).toLocaleDateString('de-DE', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-baseline justify-between gap-2">
+          <span className="text-2xl font-semibold">{usd.format(summary.cost_usd)}</span>
+          <span className="text-xs text-muted-foreground">
+            {summary.limit_usd !== null ? `von ${usd.format(summary.limit_usd)} im ${month}` : `im ${month}, kein Limit`}
+          </span>
+        </div>
+        {summary.limit_usd !== null && (
+          <Progress
+            value={share}
+            aria-label="Anteil am monatlichen Kostenlimit"
+            className={cn(share >= 90 && '[&>div]:bg-destructive')}
+          />
+        )}
+        <p className="text-xs text-muted-foreground">
+          {count.format(summary.calls)} Anfragen · {count.format(summary.prompt_tokens)} Eingabe- und {count.format(summary.completion_tokens)} Ausgabe-Tokens
+        </p>
+      </div>
+
+      {summary.calls > 0 && (
+        <>
+          <dl className="space-y-1 text-sm">
+            {(Object.keys(KIND_LABELS) as UsageKind[])
+              .filter((kind) => summary.by_kind[kind]?.calls > 0)
+              .map((kind) => (
+                <div key={kind} className="flex justify-between gap-2">
+                  <dt className="text-muted-foreground">{KIND_LABELS[kind]} ({count.format(summary.by_kind[kind].calls)})</dt>
+                  <dd>{usd.format(summary.by_kind[kind].cost_usd)}</dd>
+                </div>
+              ))}
+          </dl>
+
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th scope="col" className="py-1 text-left font-normal">Modell</th>
+                <th scope="col" className="py-1 text-right font-normal">Tokens</th>
+                <th scope="col" className="py-1 text-right font-normal">Kosten</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.by_model.map((row) => (
+                <tr key={row.model} className="border-t border-border/50">
+                  <td className="py-1 pr-2 break-all">{row.model}</td>
+                  <td className="py-1 text-right">{count.format(row.tokens)}</td>
+                  <td className="py-1 text-right">{usd.format(row.cost_usd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  )
+}
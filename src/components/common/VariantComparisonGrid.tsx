@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { Check, Combine, Star, Trash2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { countPostLength, getPlatformMaxLength, type Platform } from '@/config/platforms'
+import { createVariant, splitVariantParts, type PostVariant } from '@/lib/variants'
+import { cn } from '@/lib/utils'
+
+interface VariantComparisonGridProps {
+  platform: Platform
+  variants: PostVariant[]
+  onStar: (id: string) => void
+  onDiscard: (id: string) => void
+  /** Adds the merged text as a new variant */
+  onMerge: (variant: PostVariant) => void
+  /** Keep the starred variant as the post and discard the rest */
+  onPick: (id: string) => void
+}
+
+/**
+ * Variants mode: alternatives side by side. Star the winner, merge parts of two, discard the rest.
+ */
+export function VariantComparisonGrid({ platform, variants, onStar, onDiscard, onMerge, onPick }: VariantComparisonGridProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [mergeOpen, setMergeOpen] = useState(false)
+  const maxLength = getPlatformMaxLength(platform)
+  const starred = variants.find((variant) => variant.starred)
+  const selected = selectedIds
+    .map((id) => variants.find((variant) => variant.id === id))
+    .filter((variant): variant is PostVariant => !!variant)
+
+  // Keep the last two selections; merging always combines exactly two variants
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+        {variants.map((variant) => {
+          const length = countPostLength(platform, variant.content)
+          const isSelected = selectedIds.includes(variant.id)
+
+          return (
+            <div
+              key={variant.id}
+              className={cn(
+                'flex flex-col rounded-lg border bg-background p-3 transition-colors',
+                variant.starred && 'border-amber-400 ring-1 ring-amber-300',
+                isSelected && !variant.starred && 'border-primary'
+              )}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <Badge variant="secondary" className="font-normal">{variant.approach}</Badge>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onStar(variant.id)}
+                    aria-label={variant.starred ? 'Favorit entfernen' : 'Als Favorit markieren'}
+                    aria-pressed={variant.starred}
+                  >
+                    <Star className={cn('h-4 w-4', variant.starred && 'fill-amber-400 text-amber-500')} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-red-600"
+                    onClick={() => {
+                      setSelectedIds((prev) => prev.filter((x) => x !== variant.id))
+                      onDiscard(variant.id)
+                    }}
+                    aria-label="Variante verwerfen"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <p className="mt-2 flex-1 whitespace-pre-wrap text-sm leading-relaxed">{variant.content}</p>
+
+              <div className="mt-3 flex items-center justify-between text-xs text-muted-foreground">
+                <label className="flex cursor-pointer items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => toggleSelected(variant.id)}
+                  />
+                  Kombinieren
+                </label>
+                <span className={cn(length > maxLength && 'text-red-500')}>
+                  {length}/{maxLength}
+                </span>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          leftIcon={<Combine className="h-4 w-4" />}
+          disabled={selected.length !== 2}
+          onClick={() => setMergeOpen(true)}
+        >
+          Auswahl kombinieren
+        </Button>
+        <Button
+          size="sm"
+          leftIcon={<Check className="h-4 w-4" />}
+          disabled={!starred}
+          onClick={() => starred && onPick(starred.id)}
+        >
+          Favorit übernehmen
+        </Button>
+      </div>
+
+      {selected.length === 2 && (
+        <VariantMergeDialog
+          key={selectedIds.join()}
+          isOpen={mergeOpen}
+          onClose={() => setMergeOpen(false)}
+          platform={platform}
+          variants={[selected[0], selected[1]]}
+          onMerge={(content) => {
+            onMerge(createVariant(content, 'Kombiniert'))
+            setSelectedIds([])
+            setMergeOpen(false)
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+interface VariantMergeDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  platform: Platform
+  variants: [PostVariant, PostVariant]
+  onMerge: (content: string) => void
+}
+
+/**
+ * Pick paragraphs (or sentences) from two variants in the order they should appear,
+ * then fine-tune the combined text.
+ */
+function VariantMergeDialog({ isOpen, onClose, platform, variants, onMerge }: VariantMergeDialogProps) {
+  const split = variants.map((variant) => splitVariantParts(variant.content))
+  // Long-form variants are combined by paragraph, short ones by sentence
+  const separator = split.some((s) => s.separator === '\n\n') ? '\n\n' : ' '
+  const [picked, setPicked] = useState<string[]>([])
+  const [draft, setDraft] = useState<string | null>(null)
+  const merged = draft ?? picked.join(separator)
+  const length = countPostLength(platform, merged)
+  const maxLength = getPlatformMaxLength(platform)
+
+  const togglePart = (part: string) => {
+    setDraft(null)
+    setPicked((prev) => (prev.includes(part) ? prev.filter((p) => p !== part) : [...prev, part]))
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Varianten kombinieren</DialogTitle>
+          <DialogDescription>
+            Wähle die Teile in der Reihenfolge aus, in der sie im Beitrag stehen sollen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {variants.map((variant, i) => (
+            <div key={variant.id} className="space-y-2">
+              <Badge variant="secondary" className="font-normal">{variant.approach}</Badge>
+              {split[i].parts.map((part, j) => {
+                const position = picked.indexOf(part)
+                return (
+                  <button
+                    key={j}
+                    type="button"
+                    onClick={() => togglePart(part)}
+                    className={cn(
+                      'relative w-full rounded-md border p-2 text-left text-sm whitespace-pre-wrap transition-colors',
+                      position >= 0 ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                    )}
+                  >
+                    {position >= 0 && (
+                      <span className="absolute -left-2 -top-2 flex h-5 w-5 items-center justify-center rounded-full bg-primary text-[10px] text-primary-foreground">
+                        {position + 1}
+                      </span>
+                    )}
+                    {part}
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <Textarea
+            value={merged}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            placeholder="Kombinierter Beitrag"
+            aria-label="Kombinierter Beitrag"
+          />
+          <div className={cn('text-right text-xs', length > maxLength ? 'text-red-500' : 'text-muted-foreground')}>
+            {length}/{maxLength}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Abbrechen</Button>
+          <Button onClick={() => onMerge(merged.trim())} disabled={!merged.trim()}>
+            Als Variante hinzufügen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  MAX_VOICE_SAMPLES,
+  MIN_VOICE_SAMPLES,
+  splitWritingSamples,
+  validateWritingSamples,
+} from '@/lib/voice-clone'
+import { cn } from '@/lib/utils'
+
+interface VoiceCloneFormProps {
+  onSubmit: (samples: string[]) => void
+  onCancel: () => void
+  isCloning?: boolean
+}
+
+/**
+ * Paste 3-10 own posts (separated by ---) to derive a personal voice tone.
+ */
+export function VoiceCloneForm({ onSubmit, onCancel, isCloning = false }: VoiceCloneFormProps) {
+  const [text, setText] = useState('')
+  const samples = splitWritingSamples(text)
+
+  let validationError: string | null = null
+  try {
+    validateWritingSamples(samples)
+  } catch (error) {
+    validationError = error instanceof Error ? error.message : String(error)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <h4 className="text-sm font-medium">Clone your own voice</h4>
+        <p className="text-xs text-muted-foreground">
+          Paste {MIN_VOICE_SAMPLES}–{MAX_VOICE_SAMPLES} of your past posts, separated by a line with <code>---</code>.
+          Examples are anonymized before they are stored.
+        </p>
+      </div>
+
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={10}
+        placeholder={'Mein erster Post…\n---\nMein zweiter Post…\n---\nMein dritter Post…'}
+        aria-label="Your posts"
+      />
+
+      <div className="flex items-center justify-between gap-3">
+        <span className={cn('text-xs', validationError && text.trim() ? 'text-red-500' : 'text-muted-foreground')}>
+          {text.trim() && validationError ? validationError : `${samples.length} posts`}
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={isCloning}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onSubmit(samples)}
+            disabled={!!validationError}
+            isLoading={isCloning}
+          >
+            Analyze Voice
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
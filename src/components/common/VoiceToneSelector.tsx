@@ -4,26 +4,39 @@
  */
 
 import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { VOICE_TONES, type VoiceTone, DEFAULT_VOICE_TONE } from '@/config/voice-tones'
 import { cn } from '@/lib/utils'
+import { VoiceCloneForm } from '@/components/common/VoiceCloneForm'
 
 interface VoiceToneSelectorProps {
   isOpen: boolean
   onClose: () => void
   onSelectTone: (tone: VoiceTone) => void
   currentTone?: VoiceTone
+  /** Tones cloned from the user's own posts, listed after the presets */
+  customTones?: VoiceTone[]
+  /** Enables "clone your voice"; resolves to the new tone or null on failure */
+  onCloneVoice?: (samples: string[]) => Promise<VoiceTone | null>
+  onDeleteVoice?: (id: string) => void
+  isCloning?: boolean
 }
 
 export function VoiceToneSelector({
   isOpen,
   onClose,
   onSelectTone,
-  currentTone = DEFAULT_VOICE_TONE
+  currentTone = DEFAULT_VOICE_TONE,
+  customTones = [],
+  onCloneVoice,
+  onDeleteVoice,
+  isCloning = false
 }: VoiceToneSelectorProps) {
   const [selectedTone, setSelectedTone] = useState<VoiceTone>(currentTone)
+  const [showCloneForm, setShowCloneForm] = useState(false)
 
   const handleApplyTone = () => {
     onSelectTone(selectedTone)
@@ -34,6 +47,38 @@ export function VoiceToneSelector({
     setSelectedTone(tone)
   }
 
+  const handleClone = async (samples: string[]) => {
+    const tone = await onCloneVoice?.(samples)
+    if (tone) {
+      setSelectedTone(tone)
+      setShowCloneForm(false)
+    }
+  }
+
+  const handleDelete = (tone: VoiceTone) => {
+    if (!window.confirm(`Delete voice "${tone.name}"?`)) return
+    onDeleteVoice?.(tone.id)
+    setSelectedTone(DEFAULT_VOICE_TONE)
+  }
+
+  const renderToneButton = (tone: VoiceTone) => (
+    <button
+      key={tone.id}
+      onClick={() => handleToneSelect(tone)}
+      className={cn(
+        "p-3 rounded-lg transition-all duration-200 hover:scale-110",
+        "border-2 flex items-center justify-center",
+        selectedTone.id === tone.id
+          ? "border-primary bg-primary/10 shadow-sm"
+          : "border-transparent hover:border-muted-foreground/20 hover:bg-muted/50"
+      )}
+      aria-label={`Select ${tone.name} tone`}
+      title={tone.name}
+    >
+      <span className="text-xl">{tone.emoji}</span>
+    </button>
+  )
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -54,26 +99,35 @@ export function VoiceToneSelector({
 
           {/* Tone Icon Selector */}
           <div className="flex justify-center">
-            <div className="flex gap-3 p-2 bg-muted/30 rounded-lg">
-              {VOICE_TONES.map((tone) => (
+            <div className="flex flex-wrap justify-center gap-3 p-2 bg-muted/30 rounded-lg">
+              {VOICE_TONES.map(renderToneButton)}
+              {(customTones.length > 0 || onCloneVoice) && (
+                <span className="w-px self-stretch bg-border" aria-hidden="true" />
+              )}
+              {customTones.map(renderToneButton)}
+              {onCloneVoice && (
                 <button
-                  key={tone.id}
-                  onClick={() => handleToneSelect(tone)}
-                  className={cn(
-                    "p-3 rounded-lg transition-all duration-200 hover:scale-110",
-                    "border-2 flex items-center justify-center",
-                    selectedTone.id === tone.id
-                      ? "border-primary bg-primary/10 shadow-sm"
-                      : "border-transparent hover:border-muted-foreground/20 hover:bg-muted/50"
-                  )}
-                  aria-label={`Select ${tone.name} tone`}
+                  onClick={() => setShowCloneForm(true)}
+                  className="p-3 rounded-lg border-2 border-dashed border-muted-foreground/30 flex items-center justify-center text-muted-foreground hover:border-primary/50 hover:text-primary transition-colors"
+                  aria-label="Clone your own voice"
+                  title="Clone your own voice"
                 >
-                  <span className="text-xl">{tone.emoji}</span>
+                  <Plus className="w-5 h-5" />
                 </button>
-              ))}
+              )}
             </div>
           </div>
 
+          {showCloneForm && onCloneVoice && (
+            <div className="p-4 rounded-lg border-2 border-dashed">
+              <VoiceCloneForm
+                onSubmit={handleClone}
+                onCancel={() => setShowCloneForm(false)}
+                isCloning={isCloning}
+              />
+            </div>
+          )}
+
           {/* Tone Description */}
           <div className={cn(
             "p-4 rounded-lg border-2 transition-all duration-300",
@@ -84,6 +138,12 @@ export function VoiceToneSelector({
                 {selectedTone.description}
               </p>
 
+              {selectedTone.examples && selectedTone.examples.length > 0 && (
+                <blockquote className="text-xs italic text-muted-foreground border-l-2 pl-3 whitespace-pre-wrap">
+                  {selectedTone.examples[0]}
+                </blockquote>
+              )}
+
               {/* Tone Characteristics */}
               <div className="space-y-2">
                 <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
@@ -106,6 +166,15 @@ export function VoiceToneSelector({
 
           {/* Action Buttons */}
           <div className="flex gap-3 justify-end pt-4">
+            {selectedTone.isCustom && onDeleteVoice && (
+              <Button
+                variant="ghost"
+                onClick={() => handleDelete(selectedTone)}
+                className="mr-auto text-destructive hover:text-destructive"
+              >
+                <Trash2 /> Delete Voice
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={onClose}
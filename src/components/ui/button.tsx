@@ -24,6 +24,9 @@ const buttonVariants = cva(
         linkedin: "bg-[#0077B5] text-white shadow hover:bg-[#0077B5]/90",
         x: "bg-black text-white shadow hover:bg-black/90",
         instagram: "bg-gradient-to-r from-[#833AB4] via-[#FD1D1D] to-[#F77737] text-white shadow hover:opacity-90",
+        threads: "bg-neutral-900 text-white shadow hover:bg-neutral-900/90",
+        bluesky: "bg-[#1185FE] text-white shadow hover:bg-[#1185FE]/90",
+        mastodon: "bg-[#6364FF] text-white shadow hover:bg-[#6364FF]/90",
       },
       size: {
         default: "h-9 px-4 py-2",
@@ -1,7 +1,29 @@
-export const DEFAULT_OPENROUTER_MODEL = 'openrouter/auto'
+// The model is picked server-side per platform and tier (api/utils/modelRouting.ts)
+export const OPENROUTER_CHAT_ENDPOINT = '/api/openrouter/v1/chat'
 
-export const OPENROUTER_MODEL = (
-  import.meta.env.VITE_OPENROUTER_MODEL || DEFAULT_OPENROUTER_MODEL
-).trim() || DEFAULT_OPENROUTER_MODEL
+/** Targeted rewrite requests per post when it breaks its platform rules (0 disables the repair loop) */
+export const REPAIR_MAX_ATTEMPTS = (() => {
+  const attempts = Number.parseInt(import.meta.env.VITE_REPAIR_MAX_ATTEMPTS ?? '', 10)
+  return Number.isNaN(attempts) ? 2 : Math.max(0, attempts)
+})()
 
-export const OPENROUTER_CHAT_ENDPOINT = '/api/openrouter/v1/chat'
+/**
+ * Per-account guardrail policy (Appwrite `profiles.guardrail_policy`, enforced in api/openrouter/v1/chat.ts):
+ * `off` skips the fact check, `advisory` shows its result next to the post,
+ * `blocking` withholds failing posts and regenerates them first.
+ */
+export const GUARDRAIL_POLICIES = ['off', 'advisory', 'blocking'] as const
+
+export type GuardrailPolicy = typeof GUARDRAIL_POLICIES[number]
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = 'advisory'
+
+/**
+ * Client timeout for requests the `blocking` policy checks before answering: the server's budget for
+ * completion, check and regeneration (BLOCKING_FLOW_TIMEOUT_MS in api/openrouter/v1/chat.ts) plus a margin.
+ */
+export const BLOCKING_GUARDRAIL_TIMEOUT_MS = 60000
+
+export function isGuardrailPolicy(value: unknown): value is GuardrailPolicy {
+  return typeof value === 'string' && (GUARDRAIL_POLICIES as readonly string[]).includes(value)
+}
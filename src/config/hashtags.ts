@@ -0,0 +1,43 @@
+/**
+ * Curated hashtags for the DACH market. A tag is suggested when the source mentions one of its
+ * keywords; keywords are lowercase word stems, matched against the start of each source word.
+ */
+
+export interface CuratedHashtag {
+  /** Tag without "#", in the spelling the community uses */
+  tag: string
+  keywords: string[]
+}
+
+export const CURATED_HASHTAGS: CuratedHashtag[] = [
+  { tag: 'KI', keywords: ['ki', 'künstlich', 'ai', 'chatgpt', 'llm', 'sprachmodell'] },
+  { tag: 'Digitalisierung', keywords: ['digitalisier', 'digital'] },
+  { tag: 'Mittelstand', keywords: ['mittelstand', 'mittelständ'] },
+  { tag: 'KMU', keywords: ['kmu', 'kleinunternehm', 'kleine unternehmen'] },
+  { tag: 'NewWork', keywords: ['newwork', 'new work', 'vier-tage-woche', 'arbeitszeit', 'hybrid'] },
+  { tag: 'RemoteWork', keywords: ['remote', 'homeoffice', 'home-office'] },
+  { tag: 'Führung', keywords: ['führung', 'führungskr', 'leadership', 'chef'] },
+  { tag: 'Unternehmenskultur', keywords: ['kultur', 'unternehmenskultur', 'werte'] },
+  { tag: 'Recruiting', keywords: ['recruiting', 'bewerb', 'fachkräft', 'stellenanzeig'] },
+  { tag: 'EmployerBranding', keywords: ['arbeitgebermarke', 'employer'] },
+  { tag: 'Karriere', keywords: ['karriere', 'beruf'] },
+  { tag: 'Weiterbildung', keywords: ['weiterbild', 'lernen', 'schulung', 'fortbild'] },
+  { tag: 'Startup', keywords: ['startup', 'start-up', 'gründ'] },
+  { tag: 'Selbstständigkeit', keywords: ['selbstständig', 'selbständig', 'freelanc', 'solopreneur'] },
+  { tag: 'Marketing', keywords: ['marketing', 'kampagn', 'werbung'] },
+  { tag: 'ContentMarketing', keywords: ['content', 'blog', 'newsletter'] },
+  { tag: 'SocialMedia', keywords: ['social media', 'linkedin', 'instagram', 'reichweite'] },
+  { tag: 'Vertrieb', keywords: ['vertrieb', 'sales', 'verkauf', 'akquise'] },
+  { tag: 'Kundenservice', keywords: ['kundenservice', 'support', 'kundenzufrieden'] },
+  { tag: 'Produktivität', keywords: ['produktiv', 'effizien', 'zeitmanagement', 'fokus'] },
+  { tag: 'Nachhaltigkeit', keywords: ['nachhaltig', 'klima', 'co2', 'esg'] },
+  { tag: 'Datenschutz', keywords: ['datenschutz', 'dsgvo', 'privacy', 'personenbezog'] },
+  { tag: 'Cybersecurity', keywords: ['sicherheit', 'cyber', 'hacker', 'phishing'] },
+  { tag: 'OpenSource', keywords: ['open source', 'open-source', 'opensource'] },
+  { tag: 'SaaS', keywords: ['saas', 'software', 'abo'] },
+  { tag: 'Ecommerce', keywords: ['e-commerce', 'ecommerce', 'onlineshop', 'shop'] },
+  { tag: 'Finanzen', keywords: ['finanz', 'budget', 'investi', 'umsatz'] },
+  { tag: 'Innovation', keywords: ['innovation', 'innovativ'] },
+  { tag: 'Onboarding', keywords: ['onboarding', 'einarbeit'] },
+  { tag: 'Pricing', keywords: ['preis', 'pricing'] },
+]
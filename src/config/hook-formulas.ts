@@ -0,0 +1,66 @@
+/**
+ * Hook formulas: proven patterns for the first line of a post. The `structured` template lists them
+ * (src/libs/promptTemplates.ts) and the hook workshop labels every alternative opening with one.
+ */
+
+export const HOOK_FORMULAS = [
+  'contrarian',
+  'mistake_story',
+  'transformation',
+  'failure_pattern',
+  'reality_check',
+  'problem_reveal',
+  'question',
+] as const
+
+export type HookFormula = typeof HOOK_FORMULAS[number]
+
+export interface HookFormulaMeta {
+  label: string
+  /** Name used in prompts */
+  name: string
+  /** Example line with [slots] for the prompt */
+  pattern: string
+}
+
+export const HOOK_FORMULA_META: Record<HookFormula, HookFormulaMeta> = {
+  contrarian: {
+    label: 'Gegenthese',
+    name: 'Contrarian Opinion',
+    pattern: 'Unpopular opinion: [opposite view]',
+  },
+  mistake_story: {
+    label: 'Fehler-Story',
+    name: 'Mistake Story',
+    pattern: 'I made a [X] mistake so you don\'t have to',
+  },
+  transformation: {
+    label: 'Vorher/Nachher',
+    name: 'Transformation',
+    pattern: '[X] years ago I was [situation]. Today I [result]',
+  },
+  failure_pattern: {
+    label: 'Fehlermuster',
+    name: 'Failure Pattern',
+    pattern: 'The #1 reason why [common practice] fails',
+  },
+  reality_check: {
+    label: 'Realitätscheck',
+    name: 'Reality Check',
+    pattern: 'Most people think [belief], but here is what actually works',
+  },
+  problem_reveal: {
+    label: 'Problem-Enthüllung',
+    name: 'Problem Reveal',
+    pattern: '[Problem] is not a [obvious cause] problem. It\'s a [real cause] problem',
+  },
+  question: {
+    label: 'Frage',
+    name: 'Question Hook',
+    pattern: 'Who else knows this problem?',
+  },
+}
+
+export function isHookFormula(value: unknown): value is HookFormula {
+  return typeof value === 'string' && (HOOK_FORMULAS as readonly string[]).includes(value)
+}
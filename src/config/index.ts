@@ -37,5 +37,5 @@ export type {
 } from '../lib/env-validation';
 
 // Platform configuration
-export type { Platform } from './platforms';
-export { PLATFORM_LABEL, ALL_PLATFORMS } from './platforms';
+export type { Platform, PlatformDefinition } from './platforms';
+export { PLATFORMS, PLATFORM_LABEL, ALL_PLATFORMS, getPlatform, isPlatform } from './platforms';
@@ -0,0 +1,53 @@
+/**
+ * Inline edit actions: AI rewrites of a selected passage in the post editor.
+ * Each action is one small prompt (see buildInlineEditPrompt in src/libs/promptBuilder.ts).
+ */
+
+export const INLINE_EDIT_ACTIONS = [
+  'shorten',
+  'expand',
+  'punchier',
+  'formal',
+  'list',
+  'cta',
+  'translate',
+] as const
+
+export type InlineEditAction = typeof INLINE_EDIT_ACTIONS[number]
+
+export interface InlineEditActionMeta {
+  label: string
+  /** What the model does with the selection; the translate target is added by the prompt builder */
+  instruction: string
+}
+
+export const INLINE_EDIT_ACTION_META: Record<InlineEditAction, InlineEditActionMeta> = {
+  shorten: {
+    label: 'Kürzen',
+    instruction: 'Shorten the selection to roughly half its length. Keep the core statement; cut filler, repetition and qualifiers.',
+  },
+  expand: {
+    label: 'Ausbauen',
+    instruction: 'Expand the selection by one or two sentences that make it more concrete: an example, a consequence or the reason behind it, drawn from what the post already says.',
+  },
+  punchier: {
+    label: 'Prägnanter',
+    instruction: 'Make the selection punchier: shorter sentences, active verbs, a clear point. Same meaning, more energy.',
+  },
+  formal: {
+    label: 'Formeller',
+    instruction: 'Make the selection more formal and professional: no slang, no emojis, complete sentences. Keep the form of address the post uses unless it is clearly too casual.',
+  },
+  list: {
+    label: 'Als Liste',
+    instruction: 'Turn the selection into a short list, one point per line, each line starting with "→ ". Keep every point the selection makes.',
+  },
+  cta: {
+    label: 'CTA ergänzen',
+    instruction: 'Keep the selection and add a short call to action after it that fits the post and the platform (a question to the readers or a concrete next step).',
+  },
+  translate: {
+    label: 'Übersetzen',
+    instruction: 'Translate the selection faithfully. Keep names, brands, numbers and hashtags unchanged.',
+  },
+}
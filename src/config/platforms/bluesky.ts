@@ -0,0 +1,103 @@
+import type { PlatformDefinition } from "./types";
+import { countGraphemes, truncateToCompleteSentence } from "@/lib/text";
+
+const BLUESKY_MAX_GRAPHEMES = 300;
+
+/**
+ * Bluesky limits posts to 300 graphemes, not UTF-16 units.
+ * Trim at sentence boundaries until the post fits; each UTF-16 unit is at most one grapheme,
+ * so cutting to the grapheme budget in UTF-16 units is always within the limit.
+ */
+function fitToBluesky(post: string): string {
+  if (countGraphemes(post) <= BLUESKY_MAX_GRAPHEMES) return post;
+  return truncateToCompleteSentence(post, BLUESKY_MAX_GRAPHEMES);
+}
+
+export const bluesky: PlatformDefinition = {
+  meta: {
+    label: "Bluesky",
+    emoji: "\uD83E\uDD8B",
+    color: "#1185FE",
+    bgColor: "#FFFFFF",
+    borderColor: "#D4DBE2",
+    hoverGlow: "shadow-[0_0_15px_rgba(17,133,254,0.25)]",
+    previewStyle: "compact",
+    maxLength: BLUESKY_MAX_GRAPHEMES,
+    buttonVariant: "bluesky",
+    selectedClassName: "bg-[#1185FE] text-white border-[#1185FE] hover:bg-[#1185FE]/90",
+  },
+  limits: { min: 100, max: BLUESKY_MAX_GRAPHEMES, ideal: BLUESKY_MAX_GRAPHEMES }, // Target: 180-280, with buffer
+  rules: { hashtags: { min: 0, max: 0 }, finalPunctuation: true },
+  style: { readability: { min: 60 }, sentenceLength: { max: 14 } },
+  countLength: countGraphemes,
+  outputPrefix: "BLUESKY",
+  prompt: {
+    batched: `
+---BLUESKY---
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 180-280 characters (platform limit is 300, emojis count as one)
+2. MUST end with complete sentence (. ! or ?)
+3. NO hashtags, NO links
+4. ONE standalone thought (not a thread teaser)
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Engagement bait ("Like if you agree")
+- Corporate speak like "leverage", "synergy", "optimize"
+- Incomplete sentences at the end
+
+✅ GOOD BLUESKY STRUCTURE:
+[Honest observation or opinion] + [One specific detail or example] + [Thoughtful ending]
+
+VOICE: Thoughtful, genuine, a bit nerdy. Community over reach.
+
+OUTPUT: Put the post in the "bluesky" JSON field.`,
+    single: `⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 180-280 characters (platform limit is 300, emojis count as one)
+2. MUST end with complete sentence (. ! or ?)
+3. NO hashtags, NO links
+4. ONE standalone thought (not a thread teaser)
+
+OUTPUT FORMAT:
+- Return ONLY the post text
+- Put it in the "post" field of the JSON object
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Engagement bait ("Like if you agree")
+- Corporate speak like "leverage", "synergy", "optimize"
+- Incomplete sentences at the end
+
+✅ GOOD BLUESKY STRUCTURE:
+[Honest observation or opinion] + [One specific detail or example] + [Thoughtful ending]
+
+VOICE: Thoughtful, genuine, a bit nerdy. Community over reach.`,
+  },
+  generation: { maxTokens: 512, temperature: 0.7, singlePostMaxTokens: 1024 },
+  sanitize: fitToBluesky,
+  preview: {
+    cardClassName: "rounded-lg bg-white border border-[#D4DBE2] transition-all duration-200 hover:shadow-[0_0_15px_rgba(17,133,254,0.25)]",
+    header: {
+      className: "flex items-center gap-2 p-4 pb-0",
+      layout: "inline",
+      avatar: {
+        text: "B",
+        className: "w-9 h-9 rounded-full bg-[#1185FE] flex items-center justify-center text-xs font-bold text-white",
+      },
+      name: { text: "Du", className: "text-sm font-bold text-gray-900" },
+      handle: { text: "@du.bsky.social", className: "text-sm text-gray-500" },
+      timestamp: { text: "· Gerade eben", className: "text-gray-400 text-xs" },
+    },
+    body: {
+      className: "p-4 pt-2",
+      textClassName: "text-gray-900 whitespace-pre-wrap leading-snug text-[15px]",
+      editorRows: 4,
+    },
+    footer: { className: "border-t border-[#D4DBE2] px-4 py-2.5" },
+    showCountAbove: 260,
+  },
+  share: {
+    type: "intent",
+    title: "Auf Bluesky teilen",
+    buildUrl: (content) => `https://bsky.app/intent/compose?text=${encodeURIComponent(content)}`,
+  },
+};
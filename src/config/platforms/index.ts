@@ -0,0 +1,78 @@
+import type { PlatformDefinition, PlatformLimits, PlatformPrompt } from "./types";
+import { linkedin } from "./linkedin";
+import { x } from "./x";
+import { instagram } from "./instagram";
+import { threads } from "./threads";
+import { bluesky } from "./bluesky";
+import { mastodon } from "./mastodon";
+
+export type {
+  PreviewStyle,
+  PlatformMeta,
+  PlatformLimits,
+  PlatformRules,
+  StyleTargets,
+  TargetRange,
+  PlatformPrompt,
+  PlatformPreviewConfig,
+  PlatformShareAction,
+  PlatformDefinition,
+} from "./types";
+
+/**
+ * Platform registry — the single place where output platforms are registered.
+ * Types, labels, limits, prompts, parsers, previews and share actions all derive from it.
+ * Order here is the display order in the UI.
+ */
+export const PLATFORMS = {
+  linkedin,
+  x,
+  instagram,
+  threads,
+  bluesky,
+  mastodon,
+} satisfies Record<string, PlatformDefinition>;
+
+export type Platform = keyof typeof PLATFORMS;
+
+export const ALL_PLATFORMS = Object.keys(PLATFORMS) as Platform[];
+
+/** Build a record with one entry per registered platform */
+export function createPlatformRecord<T>(factory: (platform: Platform) => T): Record<Platform, T> {
+  return Object.fromEntries(ALL_PLATFORMS.map((p) => [p, factory(p)])) as Record<Platform, T>;
+}
+
+export function getPlatform(platform: Platform): PlatformDefinition {
+  return PLATFORMS[platform];
+}
+
+export function isPlatform(value: unknown): value is Platform {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PLATFORMS, value);
+}
+
+export const PLATFORM_META = createPlatformRecord((p) => PLATFORMS[p].meta);
+
+export const PLATFORM_LABEL = createPlatformRecord((p) => PLATFORMS[p].meta.label);
+
+/** Validation limits, including per-user overrides (see PlatformDefinition.resolveLimits) */
+export function getPlatformLimits(platform: Platform): PlatformLimits {
+  const definition = PLATFORMS[platform];
+  return definition.resolveLimits?.() ?? definition.limits;
+}
+
+/** Hard length limit of the platform, as shown by the character counter */
+export function getPlatformMaxLength(platform: Platform): number {
+  const definition = PLATFORMS[platform];
+  return definition.resolveLimits ? definition.resolveLimits().max : definition.meta.maxLength;
+}
+
+export function getPlatformPrompt(platform: Platform): PlatformPrompt {
+  const { prompt } = PLATFORMS[platform];
+  return typeof prompt === "function" ? prompt(getPlatformLimits(platform)) : prompt;
+}
+
+/** Post length as the platform counts it (e.g. graphemes on Bluesky) */
+export function countPostLength(platform: Platform, text: string): number {
+  const definition = PLATFORMS[platform];
+  return definition.countLength ? definition.countLength(text) : text.length;
+}
@@ -0,0 +1,163 @@
+import type { PlatformDefinition } from "./types";
+
+const INSTAGRAM_GRADIENT = "linear-gradient(45deg, #833AB4, #FD1D1D, #F77737)";
+
+/**
+ * Older prompts wrapped captions in <instagram_descriptions> tags;
+ * accept both that and the plain "INSTAGRAM:" prefix.
+ */
+function parseInstagramCaption(text: string): string {
+  const descriptionsMatch = text.match(/<instagram_descriptions>([\s\S]*?)<\/instagram_descriptions>/i);
+  if (descriptionsMatch) {
+    const postMatch = descriptionsMatch[1].trim().match(/INSTAGRAM:\s*([\s\S]*?)$/i);
+    if (postMatch?.[1]?.trim()) return postMatch[1].trim();
+  }
+
+  const fallbackMatch = text.match(/INSTAGRAM:\s*([\s\S]*?)$/i);
+  if (fallbackMatch?.[1]?.trim()) return fallbackMatch[1].trim();
+
+  return text.replace(/^\s*INSTAGRAM:\s*/, "").trim();
+}
+
+/**
+ * Carousel mode: structured slides as JSON instead of a caption.
+ * Parsed by parseCarouselResponse (src/lib/carousel.ts), rendered locally.
+ */
+export const INSTAGRAM_CAROUSEL_PROMPT = `TASK: Turn the source into ONE Instagram carousel.
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. 5-10 slides, as many as the substance needs
+2. EACH headline max 60 characters, EACH body max 220 characters
+3. Slide 1 = cover: bold promise or question, body is a short teaser
+4. Last slide = takeaway or call to action (save, share, comment)
+5. At most ONE emoji per slide, in the "emoji" field only (empty string for none; never inside text)
+
+✅ SLIDE STRUCTURE:
+- One idea per slide, concrete examples and numbers from the source
+- Headlines readable on their own while swiping
+- Body adds the explanation in 1-3 short sentences
+
+CAPTION:
+- 300-1200 characters, first line hooks, ends with a complete sentence
+- 3-5 relevant hashtags at the very end
+
+OUTPUT FORMAT:
+Return ONLY valid JSON, no commentary, no markdown:
+{"slides":[{"headline":"...","body":"...","emoji":"💡"}],"caption":"..."}`;
+
+export const instagram: PlatformDefinition = {
+  meta: {
+    label: "Instagram",
+    emoji: "\uD83D\uDCF8",
+    color: "#833AB4",
+    bgColor: "#FAFAFA",
+    borderColor: "#DBDBDB",
+    hoverGlow: "shadow-[0_0_15px_rgba(131,58,180,0.25)]",
+    previewStyle: "visual",
+    maxLength: 2200,
+    gradient: INSTAGRAM_GRADIENT,
+    buttonVariant: "instagram",
+    selectedClassName: "bg-[#e706ab] text-white border-[#e706ab] hover:bg-[#e706ab]/90",
+  },
+  limits: { min: 300, max: 1500, ideal: 125 }, // Target: 400-1200, with buffer for hashtags
+  rules: { hashtags: { min: 3, max: 5 }, finalPunctuation: true },
+  style: { lineBreaks: { min: 4 }, emojis: { min: 1, max: 8 } },
+  outputPrefix: "INSTAGRAM",
+  prompt: {
+    batched: `
+---INSTAGRAM---
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 400-1200 characters (sweet spot for engagement)
+2. MUST end with complete sentence before hashtags (. ! or ?)
+3. First 125 characters = preview text (must hook reader!)
+4. EXACTLY 3-5 hashtags at the very end, separated by spaces
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Incomplete sentences or cut-off thoughts
+- More than 5 hashtags (looks spammy)
+- No line breaks (wall of text = no engagement)
+- Starting with hashtags
+- Generic CTAs like "Link in bio"
+
+✅ INSTAGRAM CAPTION STRUCTURE:
+Line 1: Strong hook (question, bold statement, or story opener)
+Line 2-4: Story/insight with emotional connection
+Line 5: Clear actionable takeaway or CTA
+Line 6: 3-5 relevant hashtags
+
+EXAMPLE CAPTION:
+"The advice that changed everything for me 👇
+
+Three years ago, someone told me: 'Stop planning. Start doing.'
+
+I had 47 business ideas in my notes app. Zero launched.
+
+That week, I picked the simplest one and shipped it in 48 hours. It flopped. But the NEXT one? That became my full-time income.
+
+Save this for when perfectionism hits. 💡
+
+#entrepreneurlife #startupjourney #businesstips"
+
+OUTPUT: Put the caption in the "instagram" JSON field.`,
+    single: `⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 400-1200 characters (sweet spot for engagement)
+2. MUST end with complete sentence before hashtags (. ! or ?)
+3. First 125 characters = preview text (must hook reader!)
+4. EXACTLY 3-5 hashtags at the very end, separated by spaces
+
+OUTPUT FORMAT:
+- Return ONLY the caption text
+- Put it in the "post" field of the JSON object
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Incomplete sentences or cut-off thoughts
+- More than 5 hashtags (looks spammy)
+- No line breaks (wall of text = no engagement)
+- Starting with hashtags
+- Generic CTAs like "Link in bio"
+
+✅ INSTAGRAM CAPTION STRUCTURE:
+Line 1: Strong hook (question, bold statement, story opener)
+Line 2-4: Story/insight with emotional connection
+Line 5: Clear actionable takeaway or CTA
+Line 6: 3-5 relevant hashtags
+
+EXAMPLE:
+"The advice that changed everything for me 👇
+
+Three years ago, someone told me: 'Stop planning. Start doing.'
+
+I had 47 business ideas in my notes app. Zero launched.
+
+That week, I picked the simplest one and shipped it in 48 hours. It flopped. But the NEXT one? That became my full-time income.
+
+Save this for when perfectionism hits. 💡
+
+#entrepreneurlife #startupjourney #businesstips"`,
+  },
+  generation: { maxTokens: 4096, temperature: 0.85, singlePostMaxTokens: 2048 },
+  parse: parseInstagramCaption,
+  preview: {
+    cardClassName: "rounded-lg bg-[#FAFAFA] border border-[#DBDBDB] overflow-hidden transition-all duration-200 hover:shadow-[0_0_15px_rgba(131,58,180,0.25)]",
+    accentBar: INSTAGRAM_GRADIENT,
+    header: {
+      className: "flex items-center gap-2.5 p-4 pb-0",
+      layout: "inline",
+      avatar: {
+        text: "IG",
+        className: "w-9 h-9 rounded-full flex items-center justify-center text-white text-xs font-bold",
+        style: { background: INSTAGRAM_GRADIENT },
+      },
+      name: { text: "dein_username", className: "text-sm font-semibold text-gray-900" },
+    },
+    body: {
+      className: "p-4",
+      textClassName: "text-gray-800 whitespace-pre-wrap leading-relaxed text-sm",
+      editorRows: 6,
+    },
+    footer: { className: "border-t border-[#DBDBDB] px-4 py-2.5" },
+    highlightHashtags: true,
+  },
+  share: { type: "instagram", title: "Auf Instagram teilen" },
+};
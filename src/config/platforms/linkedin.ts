@@ -0,0 +1,138 @@
+import type { PlatformDefinition } from "./types";
+
+/**
+ * Document mode: slides as JSON, exported as a multi-page PDF.
+ * The post itself stays the caption, so no caption is requested.
+ * Parsed by parseCarouselResponse (src/lib/carousel.ts), same structure as Instagram carousels.
+ */
+export const LINKEDIN_DOCUMENT_PROMPT = `TASK: Turn the source into ONE LinkedIn document post (PDF carousel).
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. 5-10 pages, as many as the substance needs
+2. EACH headline max 60 characters, EACH body max 220 characters
+3. Page 1 = title page: clear promise of what the reader learns
+4. Last page = key takeaway plus invitation to comment or follow
+5. At most ONE emoji per page, in the "emoji" field only (empty string for none; never inside text)
+
+✅ PAGE STRUCTURE:
+- One insight per page, backed by specific examples, numbers or frameworks from the source
+- Professional, skimmable headlines
+- Body explains the insight in 1-3 short sentences
+
+OUTPUT FORMAT:
+Return ONLY valid JSON, no commentary, no markdown:
+{"slides":[{"headline":"...","body":"...","emoji":"📊"}]}`;
+
+export const linkedin: PlatformDefinition = {
+  meta: {
+    label: "LinkedIn",
+    emoji: "\uD83D\uDCBC",
+    color: "#0A66C2",
+    bgColor: "#FFFFFF",
+    borderColor: "#0A66C2",
+    hoverGlow: "shadow-[0_0_15px_rgba(10,102,194,0.25)]",
+    previewStyle: "professional",
+    maxLength: 3000,
+    buttonVariant: "linkedin",
+    selectedClassName: "bg-[#0a66c2] text-white border-[#0a66c2] hover:bg-[#0a66c2]/90",
+  },
+  limits: { min: 400, max: 950, ideal: 1300 }, // Target: 500-900, with buffer
+  rules: { hashtags: { min: 0, max: 0 }, maxEmojis: 2, finalPunctuation: true },
+  style: { sentenceLength: { max: 16 }, lineBreaks: { min: 6 } },
+  outputPrefix: "LINKEDIN",
+  prompt: {
+    batched: `
+---LINKEDIN---
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 500-900 characters (optimal engagement length)
+2. MUST end with complete sentence (. ! or ?)
+3. NO hashtags (LinkedIn algorithm penalizes them)
+4. Maximum 1-2 emojis total, only if adding value
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Incomplete sentences or cut-off thoughts
+- "Agree?" or "Thoughts?" without context
+- Motivational fluff without substance ("Chase your dreams!")
+- Wall of text without line breaks
+- Starting with "I" (narcissistic opener)
+
+✅ PROVEN LINKEDIN STRUCTURE:
+Line 1: Hook (surprising fact, contrarian view, or bold claim)
+Line 2-3: Context/Story (the "why this matters")
+Line 4-6: Key insight with specific example
+Line 7: Actionable takeaway
+Line 8: Engagement question (optional)
+
+EXAMPLE STRUCTURE:
+"Nobody talks about the real reason startups fail.
+
+It's not funding. It's not the product.
+
+It's founders who can't admit when they're wrong.
+
+I watched 3 companies die this year because the CEO ignored customer feedback for 6 months.
+
+The fix? Weekly "What are we wrong about?" meetings.
+
+What blind spots have you discovered too late?"
+
+OUTPUT: Put the post in the "linkedin" JSON field.`,
+    single: `⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 500-900 characters (optimal engagement length)
+2. MUST end with complete sentence (. ! or ?)
+3. NO hashtags (LinkedIn algorithm penalizes them)
+4. Maximum 1-2 emojis total, only if adding value
+
+OUTPUT FORMAT:
+- Return ONLY the post text (no labels, no explanations)
+- Put it in the "post" field of the JSON object
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Incomplete sentences or cut-off thoughts
+- "Agree?" or "Thoughts?" without context
+- Motivational fluff without substance
+- Wall of text without line breaks
+- Starting with "I"
+
+✅ PROVEN LINKEDIN STRUCTURE:
+Line 1: Hook (surprising fact, contrarian view, bold claim)
+Line 2-3: Context/Story
+Line 4-6: Key insight with specific example
+Line 7: Actionable takeaway
+Line 8: Engagement question (optional)
+
+EXAMPLE:
+"Nobody talks about the real reason startups fail.
+
+It's not funding. It's not the product.
+
+It's founders who can't admit when they're wrong.
+
+I watched 3 companies die this year because the CEO ignored customer feedback for 6 months.
+
+The fix? Weekly 'What are we wrong about?' meetings."`,
+  },
+  generation: { maxTokens: 4096, temperature: 0.85, singlePostMaxTokens: 2048 },
+  preview: {
+    cardClassName: "rounded-lg bg-white border border-gray-200 transition-all duration-200 hover:shadow-[0_0_15px_rgba(10,102,194,0.25)]",
+    cardStyle: { borderLeftWidth: "3px", borderLeftColor: "#0A66C2" },
+    header: {
+      className: "flex items-center gap-3 p-5 pb-0",
+      layout: "stacked",
+      avatar: {
+        text: "Du",
+        className: "w-10 h-10 rounded-full bg-[#0A66C2]/10 flex items-center justify-center text-sm font-semibold text-[#0A66C2]",
+      },
+      name: { text: "Du", className: "text-sm font-semibold text-gray-900" },
+      timestamp: { text: "Gerade eben", className: "text-xs text-gray-500" },
+    },
+    body: {
+      className: "p-5",
+      textClassName: "text-gray-800 whitespace-pre-wrap leading-relaxed text-[15px]",
+      editorRows: 8,
+    },
+    footer: { className: "border-t border-gray-100 px-5 py-3" },
+  },
+  share: { type: "linkedin", title: "Auf LinkedIn teilen" },
+};
@@ -0,0 +1,105 @@
+import type { PlatformDefinition, PlatformLimits } from "./types";
+import { truncateToCompleteSentence } from "@/lib/text";
+import { DEFAULT_MASTODON_INSTANCE, getMastodonInstance } from "@/lib/mastodon-instance";
+
+/** Limits scale with the instance's post limit (default 500) */
+function mastodonLimits(): PlatformLimits {
+  const { maxChars } = getMastodonInstance();
+  return {
+    min: Math.min(150, Math.floor(maxChars / 2)),
+    max: maxChars,
+    ideal: Math.floor(maxChars * 0.8),
+  };
+}
+
+export const mastodon: PlatformDefinition = {
+  meta: {
+    label: "Mastodon",
+    emoji: "\uD83D\uDC18",
+    color: "#6364FF",
+    bgColor: "#FFFFFF",
+    borderColor: "#D9E1E8",
+    hoverGlow: "shadow-[0_0_15px_rgba(99,100,255,0.25)]",
+    previewStyle: "compact",
+    maxLength: DEFAULT_MASTODON_INSTANCE.maxChars,
+    buttonVariant: "mastodon",
+    selectedClassName: "bg-[#6364FF] text-white border-[#6364FF] hover:bg-[#6364FF]/90",
+  },
+  limits: { min: 150, max: DEFAULT_MASTODON_INSTANCE.maxChars, ideal: 400 },
+  rules: { hashtags: { min: 1, max: 3 }, finalPunctuation: true },
+  resolveLimits: mastodonLimits,
+  outputPrefix: "MASTODON",
+  prompt: ({ max }) => {
+    // Leave ~10% buffer below the instance limit
+    const target = `${Math.floor(max * 0.5)}-${Math.floor(max * 0.9)}`;
+    return {
+      batched: `
+---MASTODON---
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY ${target} characters (instance limit is ${max})
+2. MUST end with complete sentence (. ! or ?)
+3. 1-3 CamelCase hashtags at the end (#OpenSource, not #opensource) — Mastodon search relies on them
+4. NO links, NO emojis in place of words
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Marketing or growth-hacking tone (the fediverse hates it)
+- Engagement bait ("Boost if you agree")
+- Clickbait without substance
+
+✅ GOOD MASTODON STRUCTURE:
+[Clear statement of the topic] + [Concrete insight, context or experience] + [Invitation to discuss] + [Hashtags]
+
+VOICE: Sincere, informative, community-minded.
+
+OUTPUT: Put the post in the "mastodon" JSON field.`,
+      single: `⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY ${target} characters (instance limit is ${max})
+2. MUST end with complete sentence (. ! or ?)
+3. 1-3 CamelCase hashtags at the end (#OpenSource, not #opensource) — Mastodon search relies on them
+4. NO links, NO emojis in place of words
+
+OUTPUT FORMAT:
+- Return ONLY the post text
+- Put it in the "post" field of the JSON object
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Marketing or growth-hacking tone (the fediverse hates it)
+- Engagement bait ("Boost if you agree")
+- Clickbait without substance
+
+✅ GOOD MASTODON STRUCTURE:
+[Clear statement of the topic] + [Concrete insight, context or experience] + [Invitation to discuss] + [Hashtags]
+
+VOICE: Sincere, informative, community-minded.`,
+    };
+  },
+  generation: { maxTokens: 1024, temperature: 0.7, singlePostMaxTokens: 1024 },
+  sanitize: (post) => truncateToCompleteSentence(post, getMastodonInstance().maxChars),
+  preview: {
+    cardClassName: "rounded-lg bg-white border border-[#D9E1E8] transition-all duration-200 hover:shadow-[0_0_15px_rgba(99,100,255,0.25)]",
+    header: {
+      className: "flex items-center gap-2.5 p-4 pb-0",
+      layout: "stacked",
+      avatar: {
+        text: "M",
+        className: "w-10 h-10 rounded-md bg-[#6364FF] flex items-center justify-center text-sm font-bold text-white",
+      },
+      name: { text: "Du", className: "text-sm font-semibold text-gray-900" },
+      timestamp: { text: "Gerade eben", className: "text-xs text-gray-500" },
+    },
+    body: {
+      className: "p-4",
+      textClassName: "text-gray-900 whitespace-pre-wrap leading-relaxed text-[15px]",
+      editorRows: 5,
+    },
+    footer: { className: "border-t border-[#D9E1E8] px-4 py-2.5" },
+    highlightHashtags: true,
+    showCountAbove: 400,
+  },
+  share: {
+    type: "intent",
+    title: "Auf Mastodon teilen",
+    buildUrl: (content) => `https://${getMastodonInstance().domain}/share?text=${encodeURIComponent(content)}`,
+  },
+};
@@ -0,0 +1,89 @@
+import type { PlatformDefinition } from "./types";
+import { truncateToCompleteSentence } from "@/lib/text";
+
+export const threads: PlatformDefinition = {
+  meta: {
+    label: "Threads",
+    emoji: "\uD83E\uDDF5",
+    color: "#000000",
+    bgColor: "#FFFFFF",
+    borderColor: "#DBDBDB",
+    hoverGlow: "shadow-[0_0_15px_rgba(0,0,0,0.15)]",
+    previewStyle: "compact",
+    maxLength: 500,
+    buttonVariant: "threads",
+    selectedClassName: "bg-neutral-900 text-white border-neutral-900 hover:bg-neutral-900/90",
+  },
+  limits: { min: 150, max: 500, ideal: 400 }, // Target: 250-450, with buffer
+  rules: { hashtags: { min: 0, max: 1 }, finalPunctuation: true },
+  style: { readability: { min: 60 }, sentenceLength: { max: 14 } },
+  outputPrefix: "THREADS",
+  prompt: {
+    batched: `
+---THREADS---
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 250-450 characters (platform limit is 500)
+2. MUST end with complete sentence (. ! or ?)
+3. MAX 1 hashtag (Threads shows only one topic tag), NO links
+4. ONE standalone post (not a thread teaser)
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Copy-pasted LinkedIn tone ("I'm thrilled to announce")
+- Hashtag lists at the end
+- Clickbait without substance
+
+✅ GOOD THREADS STRUCTURE:
+[Casual, relatable hook] + [One concrete insight or short story] + [Open question that invites replies]
+
+VOICE: Casual and warm, like talking to people who already follow you.
+
+OUTPUT: Put the post in the "threads" JSON field.`,
+    single: `⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 250-450 characters (platform limit is 500)
+2. MUST end with complete sentence (. ! or ?)
+3. MAX 1 hashtag (Threads shows only one topic tag), NO links
+4. ONE standalone post (not a thread teaser)
+
+OUTPUT FORMAT:
+- Return ONLY the post text
+- Put it in the "post" field of the JSON object
+
+❌ ANTI-PATTERNS (NEVER DO):
+- Copy-pasted LinkedIn tone ("I'm thrilled to announce")
+- Hashtag lists at the end
+- Clickbait without substance
+
+✅ GOOD THREADS STRUCTURE:
+[Casual, relatable hook] + [One concrete insight or short story] + [Open question that invites replies]
+
+VOICE: Casual and warm, like talking to people who already follow you.`,
+  },
+  generation: { maxTokens: 1024, temperature: 0.75, singlePostMaxTokens: 1024 },
+  sanitize: (post) => truncateToCompleteSentence(post, 500),
+  preview: {
+    cardClassName: "rounded-lg bg-white border border-[#DBDBDB] transition-all duration-200 hover:shadow-[0_0_15px_rgba(0,0,0,0.15)]",
+    header: {
+      className: "flex items-center gap-2.5 p-4 pb-0",
+      layout: "inline",
+      avatar: {
+        text: "@",
+        className: "w-9 h-9 rounded-full bg-neutral-900 flex items-center justify-center text-sm font-bold text-white",
+      },
+      name: { text: "dein_username", className: "text-sm font-semibold text-gray-900" },
+      timestamp: { text: "· Gerade eben", className: "text-gray-400 text-xs" },
+    },
+    body: {
+      className: "p-4 pt-2",
+      textClassName: "text-gray-900 whitespace-pre-wrap leading-snug text-[15px]",
+      editorRows: 5,
+    },
+    footer: { className: "border-t border-[#DBDBDB] px-4 py-2.5" },
+    showCountAbove: 450,
+  },
+  share: {
+    type: "intent",
+    title: "Auf Threads teilen",
+    buildUrl: (content) => `https://www.threads.net/intent/post?text=${encodeURIComponent(content)}`,
+  },
+};
@@ -0,0 +1,147 @@
+import type { CSSProperties } from "react";
+import type { ButtonProps } from "@/components/ui/button";
+
+export type PreviewStyle = "professional" | "compact" | "visual";
+
+export interface PlatformMeta {
+  label: string;
+  emoji: string;
+  color: string;
+  bgColor: string;
+  borderColor: string;
+  hoverGlow: string;
+  previewStyle: PreviewStyle;
+  maxLength: number;
+  /** CSS gradient string for platforms with gradient branding (e.g. Instagram) */
+  gradient?: string;
+  /** Button variant used for the platform's generate button */
+  buttonVariant: NonNullable<ButtonProps["variant"]>;
+  /** Tailwind classes for the active state in PlatformSelector */
+  selectedClassName: string;
+}
+
+export interface PlatformLimits {
+  /** Minimum length accepted by validatePost */
+  min: number;
+  /** Maximum length accepted by validatePost */
+  max: number;
+  /** Length up to which the character counter reports "Perfect length" */
+  ideal: number;
+}
+
+/** Content rules checked after generation; violations trigger a targeted rewrite (see findPostViolations) */
+export interface PlatformRules {
+  hashtags: { min: number; max: number };
+  /** Omit to allow any number of emojis */
+  maxEmojis?: number;
+  /** Post (before trailing hashtags) must end with . ! or ? */
+  finalPunctuation: boolean;
+}
+
+/** Target range of a style metric; omit a bound for "no limit" */
+export interface TargetRange {
+  min?: number;
+  max?: number;
+}
+
+/** Target ranges of the readability and style panel (see src/lib/readability.ts) */
+export interface StyleTargets {
+  /** Readability score, 0 (hard) to 100 (easy): Amstad for German, Flesch for English */
+  readability: TargetRange;
+  /** Average words per sentence */
+  sentenceLength: TargetRange;
+  /** Percent of sentences in passive voice */
+  passiveShare: TargetRange;
+  fillerWords: TargetRange;
+  buzzwords: TargetRange;
+  /** Line breaks per 100 words */
+  lineBreaks: TargetRange;
+  emojis: TargetRange;
+}
+
+export interface PlatformPrompt {
+  /** Section appended to the batched multi-platform prompt */
+  batched: string;
+  /** Platform block of the single-post prompt (between system prompt and source) */
+  single: string;
+}
+
+export interface PlatformGenerationSettings {
+  /** Token budget for postsFromContent in api/claude.ts */
+  maxTokens: number;
+  temperature: number;
+  /** Token budget for the interactive single-post flow */
+  singlePostMaxTokens: number;
+}
+
+interface PreviewText {
+  text: string;
+  className: string;
+}
+
+/**
+ * Declarative description of a platform's preview card.
+ * Rendered by PlatformPreviewCard, so new platforms need no new component.
+ */
+export interface PlatformPreviewConfig {
+  cardClassName: string;
+  cardStyle?: CSSProperties;
+  /** CSS background of a thin bar rendered above the header */
+  accentBar?: string;
+  header: {
+    className: string;
+    /** stacked: name above timestamp; inline: name, handle and timestamp in one row */
+    layout: "stacked" | "inline";
+    avatar: PreviewText & { style?: CSSProperties };
+    name: PreviewText;
+    handle?: PreviewText;
+    timestamp?: PreviewText;
+  };
+  body: {
+    className: string;
+    textClassName: string;
+    editorRows: number;
+  };
+  footer: {
+    className: string;
+    style?: CSSProperties;
+  };
+  /** Color hashtags in the rendered post */
+  highlightHashtags?: boolean;
+  /** Show a "count/limit" hint once the post is longer than this */
+  showCountAbove?: number;
+}
+
+export type PlatformShareAction =
+  | { type: "linkedin"; title: string }
+  | { type: "x"; title: string }
+  | { type: "instagram"; title: string }
+  /** Opens the platform's compose URL with the post prefilled */
+  | { type: "intent"; title: string; buildUrl: (content: string) => string };
+
+/**
+ * Everything the app needs to know about one output platform.
+ * Register new definitions in ./index.ts; the rest of the app derives from the registry.
+ */
+export interface PlatformDefinition {
+  meta: PlatformMeta;
+  limits: PlatformLimits;
+  rules: PlatformRules;
+  /** Style targets that differ from the defaults in src/lib/readability.ts */
+  style?: Partial<StyleTargets>;
+  /** Limits configured per user (e.g. Mastodon instance). Overrides `limits` and `meta.maxLength`. */
+  resolveLimits?: () => PlatformLimits;
+  /** How the platform counts post length. Defaults to UTF-16 length (`string.length`). */
+  countLength?: (text: string) => number;
+  /** Label of plain-text completions, e.g. "LINKEDIN" for "LINKEDIN: ..." (models without structured output) */
+  outputPrefix: string;
+  /** Static prompt sections, or a builder for platforms with configurable limits */
+  prompt: PlatformPrompt | ((limits: PlatformLimits) => PlatformPrompt);
+  generation: PlatformGenerationSettings;
+  /** Extract the post from a plain-text single-platform completion. Defaults to prefix extraction. */
+  parse?: (text: string) => string;
+  /** Post-processing applied to every parsed post (e.g. hard length limits) */
+  sanitize?: (post: string) => string;
+  preview: PlatformPreviewConfig;
+  share: PlatformShareAction;
+}
@@ -0,0 +1,171 @@
+import type { PlatformDefinition } from "./types";
+import { truncateToCompleteSentence } from "@/lib/text";
+
+/**
+ * Strip labels, thread markers, hashtags and emojis the model sometimes adds
+ * to a single tweet.
+ */
+export function sanitizeTweet(tweet: string): string {
+  let t = tweet.trim();
+
+  // Entferne Hashtags vorsichtshalber
+  t = t.replace(/#[^\s#]+/g, "").trim();
+
+  // Entferne gängige Plattform-/Meta-Labels im Text
+  t = t
+    .replace(/\bX\s*\(Twitter\)\s*·\s*Post\s*#?\d+\b/gi, "")
+    .replace(/\bPost\s*#?\d+\b/gi, "")
+    .replace(/\bTweet\s*#?\d+\b/gi, "")
+    .trim();
+
+  // Entferne führende Labels/Nummerierung (Tweet 1:, Punkt 2:, 1) 1. - * • (1) etc.)
+  t = t
+    .replace(/^\s*(Tweet|Tweets|Punkt)\s*\d+\s*:\s*/i, "")
+    .replace(/^\s*[-*•]\s+/, "")
+    .replace(/^\s*\(?\d+\)?\s*[-.)]\s+/, "")
+    .replace(/^\s*\(?\d+\/\d+\)?\s+/, "")
+    .trim();
+
+  // Entferne Thread-Hinweise (am Anfang oder Ende)
+  t = t
+    .replace(/\s*\(?\d+\/\d+\)?\s*$/g, "") // z. B. "1/5" am Ende
+    .replace(/^\s*(Teil\s*\d+(?:\/\d+)?)\s*[:-]?\s*/i, "")
+    .replace(/\b(Thread|Fortsetzung|weiter(\s*geht's)?|Teil\s*\d+)\b/gi, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+
+  // Entferne Emojis (grobe Unicode-Emoji-Range und gängige Symbole)
+  // Hinweis: bewusst konservativ, um deutsche Umlaute/Sonderzeichen nicht zu treffen
+  t = t
+    .replace(/[\u{1F300}-\u{1F6FF}\u{1F700}-\u{1F77F}\u{1F900}-\u{1F9FF}\u{1FA70}-\u{1FAFF}\u{2600}-\u{27BF}]/gu, "")
+    .replace(/[\u2702-\u27B0]/g, "")
+    .trim();
+
+  // Kürze hart auf 280 Zeichen
+  if (t.length > 280) t = t.slice(0, 279) + "…";
+
+  return t;
+}
+
+/** Prompt block for opt-in thread mode (see buildThreadPrompt) */
+export const X_THREAD_PROMPT = `TASK: Turn the source into ONE X (Twitter) thread.
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. 3-8 tweets, as many as the substance needs (no filler tweets)
+2. EACH tweet max 270 characters (numbering is added automatically)
+3. EACH tweet ends with a complete sentence (. ! or ?)
+4. NO hashtags, NO links, max 1 emoji in the whole thread
+
+✅ THREAD STRUCTURE:
+Tweet 1: Hook that stands on its own and promises the payoff
+Tweets 2-N: One idea per tweet, concrete examples and numbers from the source
+Last tweet: Key takeaway or question that invites replies
+
+❌ ANTI-PATTERNS (NEVER DO):
+- "A thread 🧵" or "Let's dive in" as the only content of tweet 1
+- Sentences that continue across tweets
+- Repeating the hook in the last tweet
+
+OUTPUT FORMAT:
+- Start with "THREAD:" prefix
+- One tweet per block, numbered "1/", "2/", ... at the start of the line
+- Separate tweets with a blank line
+- No commentary before or after the thread
+
+VOICE: Conversational, authentic, like texting a smart friend.`;
+
+export const x: PlatformDefinition = {
+  meta: {
+    label: "X (Twitter)",
+    emoji: "\uD83D\uDC26",
+    color: "#000000",
+    bgColor: "#FFFFFF",
+    borderColor: "#E1E8ED",
+    hoverGlow: "shadow-[0_0_15px_rgba(0,0,0,0.15)]",
+    previewStyle: "compact",
+    maxLength: 280,
+    buttonVariant: "x",
+    selectedClassName: "bg-black text-white border-black hover:bg-black/90",
+  },
+  limits: { min: 100, max: 280, ideal: 280 }, // Target: 200-275, with buffer
+  rules: { hashtags: { min: 0, max: 0 }, maxEmojis: 0, finalPunctuation: true },
+  style: { readability: { min: 60 }, sentenceLength: { max: 14 } },
+  outputPrefix: "X",
+  prompt: {
+    batched: `
+---X (TWITTER)---
+
+⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 200-275 characters (leave buffer for platform)
+2. MUST end with complete sentence (. ! or ?)
+3. NO hashtags, NO emojis, NO links
+4. ONE standalone thought (not a thread teaser)
+
+❌ ANTI-PATTERNS (NEVER DO):
+- "That's" or any incomplete sentence at the end
+- Generic advice like "Work hard" or "Stay focused"
+- Corporate speak like "leverage", "synergy", "optimize"
+- Clickbait without substance
+
+✅ GOOD TWEET STRUCTURE:
+[Surprising insight or contrarian take] + [One concrete example or specific detail] + [Thought-provoking ending]
+
+EXAMPLE OF PERFECT TWEET:
+"Most founders fail because they solve problems nobody has. The trick: find what annoys YOU daily, then discover 1000 others feel the same. Your frustration is your business plan."
+
+VOICE: Conversational, authentic, like texting a smart friend.
+
+OUTPUT: Put the tweet in the "x" JSON field.`,
+    single: `⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
+1. EXACTLY 200-275 characters (leave buffer for platform)
+2. MUST end with complete sentence (. ! or ?)
+3. NO hashtags, NO emojis, NO links
+4. ONE standalone thought (not a thread teaser)
+
+OUTPUT FORMAT:
+- Return ONLY the tweet text
+- Put it in the "post" field of the JSON object
+
+❌ ANTI-PATTERNS (NEVER DO):
+- "That's" or any incomplete sentence at the end
+- Generic advice like "Work hard" or "Stay focused"
+- Corporate speak like "leverage", "synergy", "optimize"
+- Clickbait without substance
+
+✅ GOOD TWEET STRUCTURE:
+[Surprising insight or contrarian take] + [One concrete example] + [Thought-provoking ending]
+
+EXAMPLE:
+"Most founders fail because they solve problems nobody has. The trick: find what annoys YOU daily, then discover 1000 others feel the same. Your frustration is your business plan."
+
+VOICE: Conversational, authentic, like texting a smart friend.`,
+  },
+  generation: { maxTokens: 280, temperature: 0.65, singlePostMaxTokens: 1024 },
+  // Single completions are one bare tweet, so clean the whole text
+  parse: sanitizeTweet,
+  // Smart truncation keeps complete sentences within 280 chars
+  sanitize: (post) => truncateToCompleteSentence(post, 280),
+  preview: {
+    cardClassName: "rounded-lg bg-white border transition-all duration-200 hover:shadow-[0_0_15px_rgba(0,0,0,0.15)]",
+    cardStyle: { borderColor: "#E1E8ED" },
+    header: {
+      className: "flex items-center gap-2 p-4 pb-0",
+      layout: "inline",
+      avatar: {
+        text: "X",
+        className: "w-9 h-9 rounded-full bg-gray-900 flex items-center justify-center text-xs font-bold text-white",
+      },
+      name: { text: "Du", className: "text-sm font-bold text-gray-900" },
+      handle: { text: "@dein_handle", className: "text-sm text-gray-500" },
+      timestamp: { text: "· Gerade eben", className: "text-gray-400 text-xs" },
+    },
+    body: {
+      className: "p-4 pt-2",
+      textClassName: "text-gray-900 whitespace-pre-wrap leading-snug text-[15px]",
+      editorRows: 4,
+    },
+    footer: { className: "border-t px-4 py-2.5", style: { borderColor: "#E1E8ED" } },
+    showCountAbove: 250,
+  },
+  share: { type: "x", title: "Auf X teilen" },
+};
@@ -0,0 +1,59 @@
+/**
+ * Post goals: what a post should achieve. The goal steers the hook and the closing
+ * engagement trigger (see the goal variable in src/libs/promptTemplates.ts).
+ */
+
+export const POST_GOALS = [
+  'thought_leadership',
+  'drive_traffic',
+  'promote_feature',
+  'start_conversation',
+  'share_lessons',
+  'build_awareness',
+] as const
+
+export type PostGoal = typeof POST_GOALS[number]
+
+export interface PostGoalMeta {
+  label: string
+  description: string
+  /** Goal instruction for the prompt, including example closing lines */
+  instruction: string
+}
+
+export const POST_GOAL_META: Record<PostGoal, PostGoalMeta> = {
+  thought_leadership: {
+    label: 'Thought Leadership',
+    description: 'Aufbau von Expertise und Autorität',
+    instruction: 'Build expertise and authority with a clear, well-argued point of view. Close by asking for the reader\'s stance ("Was denkst du darüber?", "Stimmt ihr zu?").',
+  },
+  drive_traffic: {
+    label: 'Traffic',
+    description: 'Weiterleitung zu Blog oder Website',
+    instruction: 'Make the reader want the full article: tease the key insight without giving all of it away. Close by pointing to the link ("Mehr Details im Link in den Kommentaren").',
+  },
+  promote_feature: {
+    label: 'Feature vorstellen',
+    description: 'Neues Feature oder Produkt bewerben',
+    instruction: 'Show the concrete problem the feature solves and one specific benefit; no hard selling. Close with an invitation to try it ("Wer möchte das ausprobieren?").',
+  },
+  start_conversation: {
+    label: 'Diskussion starten',
+    description: 'Diskussion und Kommentare fördern',
+    instruction: 'Take a position people can agree or disagree with and leave room for their experience. Close with an open question ("Teilt eure Erfahrungen!", "Was ist euer Ansatz?").',
+  },
+  share_lessons: {
+    label: 'Lektionen teilen',
+    description: 'Erfahrungen und Learnings teilen',
+    instruction: 'Share what was learned, including what went wrong, as concrete takeaways. Close by asking for the reader\'s lessons ("Welche Lektion habt ihr gelernt?").',
+  },
+  build_awareness: {
+    label: 'Bewusstsein schaffen',
+    description: 'Aufmerksamkeit für ein Thema schaffen',
+    instruction: 'Name the problem so the reader recognizes it in their own work and understands why it matters. Close with a recognition question ("Kennt ihr das Problem auch?").',
+  },
+}
+
+export function isPostGoal(value: unknown): value is PostGoal {
+  return typeof value === 'string' && (POST_GOALS as readonly string[]).includes(value)
+}
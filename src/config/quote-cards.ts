@@ -0,0 +1,45 @@
+/**
+ * Quote card options: image formats, layouts and font scales
+ * (rendered in src/lib/quote-card-render.ts).
+ */
+
+export const QUOTE_CARD_FORMATS = ['square', 'portrait'] as const
+
+export type QuoteCardFormat = typeof QUOTE_CARD_FORMATS[number]
+
+export const QUOTE_CARD_FORMAT_META: Record<QuoteCardFormat, { label: string; width: number; height: number }> = {
+  square: { label: 'Quadrat 1:1', width: 1080, height: 1080 },
+  portrait: { label: 'Hochformat 4:5', width: 1080, height: 1350 },
+}
+
+export const QUOTE_CARD_LAYOUTS = ['gradient', 'minimal', 'bold'] as const
+
+export type QuoteCardLayout = typeof QUOTE_CARD_LAYOUTS[number]
+
+export const QUOTE_CARD_LAYOUT_META: Record<QuoteCardLayout, { label: string; description: string }> = {
+  gradient: { label: 'Verlauf', description: 'Markenverlauf, heller Text, großes Anführungszeichen' },
+  minimal: { label: 'Minimal', description: 'Heller Hintergrund mit Akzentleiste' },
+  bold: { label: 'Kontrast', description: 'Dunkler Hintergrund, Zitat in Akzentfarbe gerahmt' },
+}
+
+export const QUOTE_FONT_SCALES = ['small', 'medium', 'large'] as const
+
+export type QuoteFontScale = typeof QUOTE_FONT_SCALES[number]
+
+export const QUOTE_FONT_SCALE_META: Record<QuoteFontScale, { label: string; factor: number }> = {
+  small: { label: 'Klein', factor: 0.8 },
+  medium: { label: 'Mittel', factor: 1 },
+  large: { label: 'Groß', factor: 1.2 },
+}
+
+export function isQuoteCardFormat(value: unknown): value is QuoteCardFormat {
+  return typeof value === 'string' && (QUOTE_CARD_FORMATS as readonly string[]).includes(value)
+}
+
+export function isQuoteCardLayout(value: unknown): value is QuoteCardLayout {
+  return typeof value === 'string' && (QUOTE_CARD_LAYOUTS as readonly string[]).includes(value)
+}
+
+export function isQuoteFontScale(value: unknown): value is QuoteFontScale {
+  return typeof value === 'string' && (QUOTE_FONT_SCALES as readonly string[]).includes(value)
+}
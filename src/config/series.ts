@@ -0,0 +1,26 @@
+/**
+ * Publishing cadences of a content series: on which weekdays the suggested
+ * publish dates fall (see suggestPublishDates in src/lib/series.ts).
+ */
+
+export const SERIES_CADENCES = ['weekdays', 'twice_weekly', 'weekly'] as const
+
+export type SeriesCadence = typeof SERIES_CADENCES[number]
+
+export interface SeriesCadenceMeta {
+  label: string
+  /** Publishing days, 0 = Sunday as in Date.getDay() */
+  weekdays: number[]
+}
+
+export const SERIES_CADENCE_META: Record<SeriesCadence, SeriesCadenceMeta> = {
+  weekdays: { label: 'Werktags', weekdays: [1, 2, 3, 4, 5] },
+  twice_weekly: { label: '2× pro Woche (Di, Do)', weekdays: [2, 4] },
+  weekly: { label: 'Wöchentlich (Di)', weekdays: [2] },
+}
+
+export const DEFAULT_SERIES_CADENCE: SeriesCadence = 'twice_weekly'
+
+export function isSeriesCadence(value: unknown): value is SeriesCadence {
+  return typeof value === 'string' && (SERIES_CADENCES as readonly string[]).includes(value)
+}
@@ -0,0 +1,29 @@
+/**
+ * Word lists of the readability and style panel, lowercase. Filler words match whole words, buzzwords
+ * are stems matched against the start of each word; entries with a space are matched as phrases.
+ */
+
+/** Words that add length but no meaning */
+export const FILLER_WORDS: Record<'de' | 'en', string[]> = {
+  de: [
+    'eigentlich', 'halt', 'quasi', 'sozusagen', 'irgendwie', 'gewissermaßen', 'ziemlich', 'durchaus',
+    'einfach', 'wirklich', 'natürlich', 'echt', 'total', 'letztendlich', 'grundsätzlich', 'im grunde',
+  ],
+  en: [
+    'really', 'very', 'just', 'actually', 'basically', 'literally', 'quite', 'simply', 'totally',
+    'truly', 'kind of', 'sort of', 'pretty much',
+  ],
+}
+
+/** Corporate buzzwords; the `structured` template tells the model to avoid them (src/libs/promptTemplates.ts) */
+export const BUZZWORDS: Record<'de' | 'en', string[]> = {
+  de: [
+    'synergie', 'paradigmenwechsel', 'disruptiv', 'disruption', 'game-changer', 'gamechanger', 'ganzheitlich',
+    'holistisch', 'mehrwert', 'zielführend', 'proaktiv', 'win-win', 'leveragen', 'next level', 'best practice',
+    'innovationstreiber', 'zukunftsfähig',
+  ],
+  en: [
+    'synerg', 'paradigm shift', 'leverag', 'disruptive', 'disruption', 'game changer', 'game-changer', 'holistic',
+    'best-in-class', 'cutting-edge', 'thought leader', 'next level', 'move the needle', 'circle back', 'value-add',
+  ],
+}
@@ -12,6 +12,10 @@ export interface VoiceTone {
   promptModifier: string
   color: string
   bgColor: string
+  /** Anonymized writing samples (custom tones only), shown to the model as style reference */
+  examples?: string[]
+  /** Cloned from the user's own posts and stored in Appwrite */
+  isCustom?: boolean
 }
 
 /**
@@ -136,6 +140,14 @@ export const VOICE_TONES: VoiceTone[] = [
   }
 ]
 
+/**
+ * Styling shared by all custom (cloned) voice tones
+ */
+export const CUSTOM_VOICE_TONE_STYLE = {
+  color: 'text-teal-600',
+  bgColor: 'bg-teal-50 border-teal-200'
+} as const
+
 /**
  * Get voice tone by ID
  */
@@ -2,15 +2,19 @@ import React from 'react'
 import { Button, ButtonProps } from '@/components/ui/button'
 import { InstagramLogo } from '../Icons/InstagramLogo'
 import { toast } from 'sonner'
+import { downloadBlob } from '@/lib/download'
 
 interface InstagramShareButtonProps extends Omit<ButtonProps, 'variant' | 'leftIcon' | 'children'> {
   text?: string
   postContent?: string
+  /** Image to post, e.g. a quote card; shared along with the caption where the browser supports it */
+  image?: File
 }
 
 export const InstagramShareButton: React.FC<InstagramShareButtonProps> = ({
   text = 'Auf Instagram teilen',
   postContent = '',
+  image,
   onClick,
   ...props
 }) => {
@@ -33,13 +37,23 @@ export const InstagramShareButton: React.FC<InstagramShareButtonProps> = ({
       }
     }
 
+    const saveImage = () => {
+      if (image) {
+        // Instagram cannot receive the file here, so the user uploads it in the composer
+        downloadBlob(image, image.name)
+        toast.info('Bild heruntergeladen - Lade es in Instagram hoch.')
+      }
+    }
+
     const openWebComposer = () => {
+      saveImage()
       copyCaption()
   window.open(webComposerUrl, '_blank', 'noopener,noreferrer,width=1200,height=800')
     }
 
     const tryDeepLink = () => {
       // Copy caption then try opening Instagram app to library
+      saveImage()
       copyCaption()
       // Using location.href tends to work better for app deep links on mobile
       const deepLink = 'instagram://library'
@@ -52,13 +66,18 @@ export const InstagramShareButton: React.FC<InstagramShareButtonProps> = ({
       window.location.href = deepLink
     }
 
-    type NavigatorWithShare = Navigator & { share?: (data: { text?: string; url?: string; title?: string }) => Promise<void> }
+    type SharePayload = { text?: string; url?: string; title?: string; files?: File[] }
+    type NavigatorWithShare = Navigator & {
+      share?: (data: SharePayload) => Promise<void>
+      canShare?: (data: SharePayload) => boolean
+    }
     const navWithShare = navigator as NavigatorWithShare
+    const shareFiles = image && navWithShare.canShare?.({ files: [image] }) ? [image] : undefined
 
-    if (isMobile && typeof navWithShare.share === 'function') {
+    if (isMobile && typeof navWithShare.share === 'function' && (!image || shareFiles)) {
       // Try native share first
       navWithShare
-        .share({ text: postContent || '' })
+        .share({ text: postContent || '', files: shareFiles })
         .catch(() => {
           // If user cancels or share not available, try deep link
           tryDeepLink()
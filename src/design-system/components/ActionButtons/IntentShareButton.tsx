@@ -0,0 +1,39 @@
+import React from 'react'
+import { Share2 } from 'lucide-react'
+import { Button, ButtonProps } from '@/components/ui/button'
+
+interface IntentShareButtonProps extends Omit<ButtonProps, 'leftIcon' | 'children'> {
+  text?: string
+  /** Compose URL with the post prefilled (e.g. Bluesky or Threads intent links) */
+  shareUrl?: string
+}
+
+/**
+ * Share button for platforms that accept a prefilled compose URL.
+ * Pass the platform's button variant for branding.
+ */
+export const IntentShareButton: React.FC<IntentShareButtonProps> = ({
+  text = 'Teilen',
+  shareUrl = '',
+  onClick,
+  ...props
+}) => {
+  const handleShare = (e: React.MouseEvent<HTMLButtonElement>) => {
+    if (shareUrl) {
+      window.open(shareUrl, '_blank', 'noopener,noreferrer,width=600,height=600')
+    }
+    onClick?.(e)
+  }
+
+  return (
+    <Button
+      leftIcon={<Share2 size={16} className="text-white" />}
+      onClick={handleShare}
+      {...props}
+    >
+      {text}
+    </Button>
+  )
+}
+
+export default IntentShareButton
@@ -3,4 +3,5 @@ export { EditButton } from './EditButton'
 export { DeleteButton } from './DeleteButton'
 export { LinkedInShareButton } from './LinkedInShareButton'
 export { XShareButton } from './XShareButton'
-export { InstagramShareButton } from './InstagramShareButton'
\ No newline at end of file
+export { InstagramShareButton } from './InstagramShareButton'
+export { IntentShareButton } from './IntentShareButton'
\ No newline at end of file
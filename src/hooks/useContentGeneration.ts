@@ -1,14 +1,28 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { toast } from 'sonner'
-import { linkedInPostsFromNewsletter, xTweetsFromBlog, instagramPostsFromBlog, batchedPostsFromContent } from '@/api/claude'
+import { postsFromContent, batchedPostsFromContent, repairPost, digestSource } from '@/api/claude'
 import type { Platform } from '@/config/platforms'
-import { PLATFORM_LABEL } from '@/config/platforms'
-import { buildSinglePostPrompt, validatePost, normalizeSinglePostResponse } from '@/libs/promptBuilder'
+import { PLATFORMS, PLATFORM_LABEL, createPlatformRecord } from '@/config/platforms'
+import {
+  buildSinglePostPrompt,
+  buildThreadPrompt,
+  buildVariantsPrompt,
+  validatePost,
+  validateThread,
+  normalizeSinglePostResponse,
+  normalizeThreadResponse,
+} from '@/libs/promptBuilder'
+import { SINGLE_POST_FIELD, readPartialJsonField, singlePostSchema, toResponseFormat, variantsSchema } from '@/libs/postSchema'
+import type { PostCheck } from '@/lib/post-rules'
+import { MAX_VARIANTS, MIN_VARIANTS, parseVariantsResponse, type PostVariant } from '@/lib/variants'
+import { redactPii, restorePii } from '@/lib/pii-redaction'
+import { applyPlatformHashtags } from '@/lib/hashtags'
+import { isLongSource, type SourceDigest } from '@/lib/source-digest'
+import type { PromptOptions } from '@/libs/promptTemplates'
 import { useSubscription } from '@/hooks/useSubscription'
-import { generateOpenRouterMessage } from '@/libs/api-client'
+import { MONTHLY_BUDGET_MESSAGE, generateOpenRouterMessage, type OpenRouterMessageResponse } from '@/libs/api-client'
 import type { VoiceTone } from '@/config/voice-tones'
 import { DEFAULT_VOICE_TONE } from '@/config/voice-tones'
-import { OPENROUTER_MODEL } from '@/config/ai'
 
 interface GenerationProgress {
   progress: number // 0-100
@@ -20,6 +34,35 @@ interface GenerationProgress {
 // Maximum number of posts to keep in memory (LRU-like cache)
 const MAX_POSTS = 50
 
+// Threads need room for up to MAX_THREAD_TWEETS tweets
+const THREAD_MAX_TOKENS = 2048
+
+/** Template, goal, audience and language (see PromptOptions) plus generation callbacks */
+export interface SinglePostOptions extends PromptOptions {
+  /** X only: generate a numbered multi-tweet thread instead of one tweet */
+  thread?: boolean
+  /** Stream the completion; called with the text received so far */
+  onStream?: (partialText: string) => void
+  /** Called with the platform-rule violations and repair rounds of the final post */
+  onChecked?: (check: PostCheck) => void
+}
+
+// Show the JSON "post" field while it streams in (plain-text answers without their "PLATFORM:" label);
+// the final text is normalized properly
+const toStreamingPreview = (text: string) => {
+  const field = readPartialJsonField(text, SINGLE_POST_FIELD)
+  if (field !== null) return field
+  return /^\s*(```(json)?\s*)?\{/.test(text) ? '' : text.replace(/^\s*[A-Z]+:\s*/, '')
+}
+
+// Messages of digestSource and its parser that are shown as they are
+const isDigestError = (message: string) => message.startsWith('Quelltext') || message.includes('Kernaussagen')
+
+// The monthly cost ceiling mostly hits premium accounts, so it must not read as the free daily limit
+const isMonthlyBudgetError = (error: unknown, message: string) =>
+  (typeof error === 'object' && error !== null && 'code' in error && error.code === 'MONTHLY_BUDGET_REACHED') ||
+  message.includes('Kostenlimit')
+
 const toError = (error: unknown): Error => {
   if (error instanceof Error) return error
   if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
@@ -29,13 +72,9 @@ const toError = (error: unknown): Error => {
 }
 
 export const useContentGeneration = () => {
-  const [postsByPlatform, setPostsByPlatform] = useState<Record<Platform, string[]>>({
-    linkedin: [],
-    x: [],
-    instagram: [],
-  })
+  const [postsByPlatform, setPostsByPlatform] = useState<Record<Platform, string[]>>(() => createPlatformRecord(() => []))
   // Single-post state (new)
-  const [generatedPosts, setGeneratedPosts] = useState<Partial<Record<Platform, { post: string; regenerationCount: number; isEdited: boolean }>>>({})
+  const [generatedPosts, setGeneratedPosts] = useState<Partial<Record<Platform, { post: string; regenerationCount: number; isEdited: boolean; completionId?: string }>>>({})
   // Ref to always read latest generatedPosts inside callbacks (avoids stale closure)
   const generatedPostsRef = useRef(generatedPosts)
   generatedPostsRef.current = generatedPosts
@@ -48,6 +87,11 @@ export const useContentGeneration = () => {
     completedPlatforms: 0,
   })
   const [showUpgradeModal, setShowUpgradeModal] = useState(false)
+  // Key points of the last long source; its posts are generated from them
+  const [sourceDigest, setSourceDigest] = useState<SourceDigest | null>(null)
+  const [digestProgress, setDigestProgress] = useState<{ done: number; total: number } | null>(null)
+  // One digest per source, shared by every platform and regeneration
+  const digestRef = useRef<{ source: string; promise: Promise<SourceDigest> } | null>(null)
   // Free tier usage from subscription
   const { decrementUsage, hasUsageRemaining } = useSubscription()
 
@@ -56,11 +100,11 @@ export const useContentGeneration = () => {
     return () => {
       setGeneratedPosts({})
       setActiveGenerations(new Set())
-      setPostsByPlatform({ linkedin: [], x: [], instagram: [] })
+      setPostsByPlatform(createPlatformRecord(() => []))
     }
   }, [])
 
-  const generateContent = async (inputText: string, selectedPlatforms: Platform[]) => {
+  const generateContent = async (inputText: string, selectedPlatforms: Platform[], promptOptions: PromptOptions = {}) => {
     if (!inputText.trim()) {
       toast.error("Bitte gib einen Text ein")
       return false
@@ -75,7 +119,7 @@ export const useContentGeneration = () => {
     })
 
     try {
-      let newPosts: Record<Platform, string[]> = { linkedin: [], x: [], instagram: [] }
+      let newPosts: Record<Platform, string[]> = createPlatformRecord(() => [])
 
       // Show progress
       setGenerationProgress(prev => ({
@@ -90,7 +134,7 @@ export const useContentGeneration = () => {
        * Falls back to parallel calls if batching fails
        */
       if (selectedPlatforms.length > 1) {
-        const batchedResult = await batchedPostsFromContent(inputText, selectedPlatforms)
+        const batchedResult = await batchedPostsFromContent(inputText, selectedPlatforms, promptOptions)
 
         if (batchedResult) {
           // Batching succeeded - use those results
@@ -103,11 +147,11 @@ export const useContentGeneration = () => {
         } else {
           // Batching failed - fall back to parallel calls
           console.warn('Batched generation failed, falling back to parallel calls')
-          newPosts = await executeParallelGeneration(inputText, selectedPlatforms)
+          newPosts = await executeParallelGeneration(inputText, selectedPlatforms, promptOptions)
         }
       } else {
         // Single platform - use direct call (no need for batching)
-        newPosts = await executeParallelGeneration(inputText, selectedPlatforms)
+        newPosts = await executeParallelGeneration(inputText, selectedPlatforms, promptOptions)
       }
 
       setPostsByPlatform(prev => ({ ...prev, ...newPosts }))
@@ -137,26 +181,16 @@ export const useContentGeneration = () => {
    */
   const executeParallelGeneration = async (
     inputText: string,
-    selectedPlatforms: Platform[]
+    selectedPlatforms: Platform[],
+    promptOptions: PromptOptions
   ): Promise<Record<Platform, string[]>> => {
-    const newPosts: Record<Platform, string[]> = { linkedin: [], x: [], instagram: [] }
+    const newPosts: Record<Platform, string[]> = createPlatformRecord(() => [])
 
     // Create parallel promise array for all platforms
     const platformPromises = selectedPlatforms.map(async (platform) => {
       const platformName = PLATFORM_LABEL[platform]
       try {
-        let posts: string[] = []
-        switch (platform) {
-          case 'linkedin':
-            posts = await linkedInPostsFromNewsletter(inputText)
-            break
-          case 'x':
-            posts = await xTweetsFromBlog(inputText)
-            break
-          case 'instagram':
-            posts = await instagramPostsFromBlog(inputText)
-            break
-        }
+        const posts = await postsFromContent(inputText, platform, promptOptions)
         return { platform, posts, success: true, platformName }
       } catch (error) {
         return { platform, posts: [] as string[], success: false, error, platformName }
@@ -193,13 +227,37 @@ export const useContentGeneration = () => {
     return newPosts
   }
 
+  /**
+   * Text the posts are generated from: short sources as they are, long ones as their
+   * key-point digest (map-reduce), which is made once per source
+   */
+  const groundingSource = useCallback(async (content: string): Promise<string> => {
+    if (!isLongSource(content)) return content
+
+    let pending = digestRef.current
+    if (pending?.source !== content) {
+      const promise = digestSource(content, (done, total) => setDigestProgress({ done, total }))
+      pending = { source: content, promise }
+      digestRef.current = pending
+      setDigestProgress({ done: 0, total: 0 })
+      promise
+        .then(setSourceDigest, () => {
+          // A failed digest is made again on the next attempt
+          if (digestRef.current?.promise === promise) digestRef.current = null
+        })
+        .finally(() => setDigestProgress(null))
+    }
+    return (await pending.promise).text
+  }, [])
+
   // === New: Single post generation per platform (via Edge Function helper) ===
 
   const generateSinglePost = useCallback(async (
     content: string,
     platform: Platform,
     isRegeneration = false,
-    voiceTone?: VoiceTone
+    voiceTone?: VoiceTone,
+    options: SinglePostOptions = {}
   ): Promise<string> => {
     if (!content.trim()) {
       toast.error('Bitte gib einen Text ein')
@@ -217,45 +275,98 @@ export const useContentGeneration = () => {
     setActiveGenerations((prev) => new Set([...prev, generationId]))
 
     try {
-      const prompt = buildSinglePostPrompt(
-        content,
-        platform,
-        isRegeneration ? regenerationCount + 1 : undefined,
-        voiceTone || DEFAULT_VOICE_TONE
-      )
-
-      const maxTokens = platform === 'x' ? 1024 : 2048
+      const threadMode = options.thread === true && platform === 'x'
+      const regenerationSeed = isRegeneration ? regenerationCount + 1 : undefined
+      // Personal data stays in the browser; the model only sees placeholders
+      const redaction = redactPii(await groundingSource(content))
+      const { template, goal, audience, language } = options
+      const promptOptions = { template, goal, audience, language }
+      const prompt = threadMode
+        ? buildThreadPrompt(redaction.text, regenerationSeed, voiceTone || DEFAULT_VOICE_TONE, promptOptions)
+        : buildSinglePostPrompt(redaction.text, platform, regenerationSeed, voiceTone || DEFAULT_VOICE_TONE, promptOptions)
+
+      const maxTokens = threadMode ? THREAD_MAX_TOKENS : PLATFORMS[platform].generation.singlePostMaxTokens
       // Cap temperature at 0.95 to prevent API errors after 4+ regenerations
       const temperature = isRegeneration
         ? Math.min(0.95, 0.8 + regenerationCount * 0.05)
         : 0.7
 
-      const response = await generateOpenRouterMessage({
-        model: OPENROUTER_MODEL,
+      const request = {
+        platform,
         max_tokens: maxTokens,
         temperature,
         messages: [
-          { role: 'user', content: prompt },
+          { role: 'user' as const, content: prompt },
         ],
-        sourceText: content,
-      }, { timeout: 25000 })
+        sourceText: redaction.text,
+        language,
+        // A regeneration rewrites the current post, so the server does not count it as a new generation
+        ...(isRegeneration && current?.completionId ? { kind: 'repair' as const, generationId: current.completionId } : {}),
+        // Threads keep their numbered plain-text format
+        ...(threadMode ? {} : { response_format: toResponseFormat(`${platform}_post`, singlePostSchema(platform)) }),
+      }
+      let response: OpenRouterMessageResponse | undefined
+      if (options.onStream) {
+        let partial = ''
+        for await (const event of generateOpenRouterMessage(request, { timeout: 25000, stream: true })) {
+          if (event.type === 'delta') {
+            partial += event.text
+            options.onStream(restorePii(toStreamingPreview(partial), redaction.entities))
+          } else {
+            response = event.message
+          }
+        }
+      } else {
+        response = await generateOpenRouterMessage(request, { timeout: 25000 })
+      }
 
       // Type guard: validate response structure before accessing text
-      const firstBlock = response.content?.[0]
+      const firstBlock = response?.content?.[0]
       if (!firstBlock || typeof firstBlock !== 'object' || !('text' in firstBlock) || typeof firstBlock.text !== 'string') {
         throw new Error('Invalid AI response: expected text block')
       }
       const raw = firstBlock.text
-      const generatedPost = normalizeSinglePostResponse(raw, platform)
+      let generatedPost = threadMode
+        ? normalizeThreadResponse(raw)
+        : normalizeSinglePostResponse(raw, platform)
+
+      // Out-of-spec posts get targeted rewrites before the hard length check below
+      let check: PostCheck = {
+        violations: [],
+        repairs: [],
+        generationId: response?.id,
+        quarantined: response?.guardrail?.quarantined,
+        regenerated: response?.guardrail?.regenerated,
+      }
+      if (!threadMode) {
+        const { post: repaired, ...result } = await repairPost(generatedPost, platform, {
+          voiceTone: voiceTone || DEFAULT_VOICE_TONE,
+          sourceText: redaction.text,
+          language,
+          generationId: response?.id,
+        })
+        generatedPost = repaired
+        // The guardrail checked whichever completion produced the final text
+        check = result.generationId
+          ? result
+          : { ...result, generationId: check.generationId, quarantined: check.quarantined, regenerated: check.regenerated }
+      }
+
+      generatedPost = restorePii(generatedPost, redaction.entities)
 
       // Validate and store
-      validatePost(generatedPost, platform)
+      if (threadMode) {
+        validateThread(generatedPost)
+      } else {
+        validatePost(generatedPost, platform)
+      }
 
       setGeneratedPosts((prev) => {
         const newEntry = {
           post: generatedPost,
           regenerationCount: isRegeneration ? regenerationCount + 1 : 0,
           isEdited: false,
+          completionId: check.generationId,
         }
         const updated = { ...prev, [platform]: newEntry }
         const entries = Object.entries(updated)
@@ -268,16 +379,20 @@ export const useContentGeneration = () => {
         return updated
       })
 
-      if (!isRegeneration) {
+      // Quarantined posts are not counted server-side either
+      if (!isRegeneration && !check.quarantined) {
         decrementUsage()
       }
 
+      options.onChecked?.(check)
       return generatedPost
     } catch (error: unknown) {
       const err = toError(error)
       let errorMessage = 'Generierung fehlgeschlagen. Bitte erneut versuchen.'
       const msg = err.message
-      if (msg.includes('Usage limit') || msg.includes('limit')) {
+      if (isMonthlyBudgetError(error, msg)) {
+        errorMessage = MONTHLY_BUDGET_MESSAGE
+      } else if (msg.includes('Usage limit') || msg.includes('limit')) {
         errorMessage = 'Tageslimit erreicht. Upgrade für unbegrenzte Posts.'
       } else if (msg.includes('429') || msg.toLowerCase().includes('rate')) {
         errorMessage = 'Zu viele Anfragen. Bitte 30 Sekunden warten.'
@@ -291,6 +406,8 @@ export const useContentGeneration = () => {
         errorMessage = 'OpenRouter ist nicht eingerichtet. Bitte OPENROUTER_API_KEY in `.env.local` setzen.'
       } else if (msg.includes('OpenRouter API-Route nicht gefunden')) {
         errorMessage = 'Lokale API nicht erreichbar. Starte `npm run dev:full`.'
+      } else if (isDigestError(msg)) {
+        errorMessage = msg
       }
       toast.error(errorMessage)
       throw err
@@ -301,15 +418,87 @@ export const useContentGeneration = () => {
         return next
       })
     }
-  }, [hasUsageRemaining, decrementUsage, setShowUpgradeModal, setActiveGenerations, setGeneratedPosts])
+  }, [hasUsageRemaining, decrementUsage, setShowUpgradeModal, setActiveGenerations, setGeneratedPosts, groundingSource])
 
-  const regeneratePost = async (content: string, platform: Platform, voiceTone?: VoiceTone) => {
+  /**
+   * Variants mode: several distinct alternatives for one platform in a single request.
+   * Counts as one generation; the user picks the winner in the comparison grid.
+   */
+  const generateVariants = useCallback(async (
+    content: string,
+    platform: Platform,
+    count: number,
+    voiceTone?: VoiceTone,
+    promptOptions: PromptOptions = {}
+  ): Promise<PostVariant[]> => {
+    if (!content.trim()) {
+      toast.error('Bitte gib einen Text ein')
+      throw new Error('Empty content')
+    }
+
+    if (!hasUsageRemaining()) {
+      setShowUpgradeModal(true)
+      throw new Error('Usage limit reached')
+    }
+
+    const variantCount = Math.min(MAX_VARIANTS, Math.max(MIN_VARIANTS, count))
+    const generationId = `${platform}-variants-${Date.now()}`
+    setActiveGenerations((prev) => new Set([...prev, generationId]))
+
+    try {
+      const redaction = redactPii(await groundingSource(content))
+      const response = await generateOpenRouterMessage({
+        platform,
+        max_tokens: PLATFORMS[platform].generation.singlePostMaxTokens * variantCount,
+        // Higher than single posts so the alternatives actually differ
+        temperature: 0.9,
+        messages: [
+          { role: 'user', content: buildVariantsPrompt(redaction.text, platform, variantCount, undefined, voiceTone || DEFAULT_VOICE_TONE, promptOptions) },
+        ],
+        sourceText: redaction.text,
+        language: promptOptions.language,
+        response_format: toResponseFormat(`${platform}_variants`, variantsSchema(platform)),
+      }, { timeout: 45000 })
+
+      const firstBlock = response?.content?.[0]
+      if (!firstBlock || typeof firstBlock !== 'object' || !('text' in firstBlock) || typeof firstBlock.text !== 'string') {
+        throw new Error('Invalid AI response: expected text block')
+      }
+      const variants = parseVariantsResponse(firstBlock.text, platform).map((variant) => ({
+        ...variant,
+        content: restorePii(applyPlatformHashtags(variant.content, platform, redaction.text), redaction.entities),
+      }))
+
+      decrementUsage()
+      return variants
+    } catch (error: unknown) {
+      const err = toError(error)
+      // Parse errors carry a user-facing message
+      toast.error(err.message.startsWith('Varianten') || isDigestError(err.message)
+        ? err.message
+        : 'Varianten konnten nicht erstellt werden. Bitte erneut versuchen.')
+      throw err
+    } finally {
+      setActiveGenerations((prev) => {
+        const next = new Set(prev)
+        next.delete(generationId)
+        return next
+      })
+    }
+  }, [hasUsageRemaining, decrementUsage, setShowUpgradeModal, setActiveGenerations, groundingSource])
+
+  const regeneratePost = async (
+    content: string,
+    platform: Platform,
+    voiceTone?: VoiceTone,
+    options: SinglePostOptions = {}
+  ) => {
     const current = generatedPostsRef.current[platform]
     if (current?.isEdited) {
       const proceed = window.confirm('Das Regenerieren überschreibt Ihre Änderungen. Fortfahren?')
       if (!proceed) return null
     }
-    return generateSinglePost(content, platform, true, voiceTone)
+    return generateSinglePost(content, platform, true, voiceTone, options)
   }
 
   const isGenerating = (platform: Platform) =>
@@ -325,14 +514,14 @@ export const useContentGeneration = () => {
   }
 
   const clearPosts = () => {
-    setPostsByPlatform({ linkedin: [], x: [], instagram: [] })
+    setPostsByPlatform(createPlatformRecord(() => []))
     setGeneratedPosts({})
     setActiveGenerations(new Set())
   }
 
   // Full session reset for memory management
   const resetSession = useCallback(() => {
-    setPostsByPlatform({ linkedin: [], x: [], instagram: [] })
+    setPostsByPlatform(createPlatformRecord(() => []))
     setGeneratedPosts({})
     setActiveGenerations(new Set())
     setGenerationProgress({
@@ -353,7 +542,12 @@ export const useContentGeneration = () => {
     generatedPosts,
     setGeneratedPosts,
     generateSinglePost,
+    generateVariants,
     regeneratePost,
+    // Long sources
+    sourceDigest,
+    digestProgress,
+    groundingSource,
     isGenerating,
     updatePost,
     clearPosts,
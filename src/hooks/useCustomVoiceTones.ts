@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { deleteCustomVoiceTone, getCustomVoiceTones, saveCustomVoiceTone } from '@/api/appwrite';
+import { voiceProfileFromSamples } from '@/api/claude';
+import type { VoiceTone } from '@/config/voice-tones';
+
+/**
+ * Custom voice tones cloned from the user's own posts (Appwrite `voice_tones`).
+ * Signed-out users only see the presets.
+ */
+export function useCustomVoiceTones() {
+  const { user, loading: authLoading } = useAuth();
+  const [customTones, setCustomTones] = useState<VoiceTone[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isCloning, setIsCloning] = useState(false);
+
+  useEffect(() => {
+    if (authLoading || !user) {
+      setCustomTones([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    getCustomVoiceTones()
+      .then((tones) => {
+        if (!cancelled) setCustomTones(tones);
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load custom voice tones:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading]);
+
+  /** Analyze the samples and store the derived tone; returns null on failure */
+  const cloneVoice = useCallback(async (samples: string[]): Promise<VoiceTone | null> => {
+    if (!user) {
+      toast.error('Bitte melde dich an, um eigene Stimmen zu speichern.');
+      return null;
+    }
+
+    setIsCloning(true);
+    try {
+      const profile = await voiceProfileFromSamples(samples);
+      const tone = await saveCustomVoiceTone(profile);
+      setCustomTones((prev) => [tone, ...prev]);
+      toast.success(`Stimme „${tone.name}“ gespeichert`);
+      return tone;
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Voice cloning failed:', error);
+      // Sample and profile validation errors are user-facing (German); everything else is generic
+      const message = error instanceof Error && /Post|Stimmprofil/.test(error.message)
+        ? error.message
+        : 'Stimme konnte nicht erstellt werden. Bitte erneut versuchen.';
+      toast.error(message);
+      return null;
+    } finally {
+      setIsCloning(false);
+    }
+  }, [user]);
+
+  const removeVoice = useCallback(async (id: string) => {
+    try {
+      await deleteCustomVoiceTone(id);
+      setCustomTones((prev) => prev.filter((tone) => tone.id !== id));
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to delete voice tone:', error);
+      toast.error('Stimme konnte nicht gelöscht werden.');
+    }
+  }, []);
+
+  return {
+    customTones,
+    loading,
+    isCloning,
+    cloneVoice,
+    removeVoice,
+  };
+}
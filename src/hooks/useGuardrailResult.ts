@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react'
+import { getGuardrailResult, type GuardrailResult } from '@/api/guardrail'
+
+const POLL_INTERVAL_MS = 3000
+// The check usually lands within a few seconds; give up after ~30s
+const MAX_POLLS = 10
+
+/**
+ * Poll the guardrail result of a generation until it was stored.
+ * Without a generation id (edited posts, threads) nothing is fetched.
+ */
+export function useGuardrailResult(generationId?: string) {
+  const [result, setResult] = useState<GuardrailResult | null>(null)
+  const [isPending, setIsPending] = useState(false)
+
+  useEffect(() => {
+    setResult(null)
+    if (!generationId) {
+      setIsPending(false)
+      return
+    }
+
+    let cancelled = false
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    setIsPending(true)
+
+    const poll = async (attempt: number) => {
+      try {
+        const lookup = await getGuardrailResult(generationId)
+        if (cancelled) return
+        if (lookup.status === 'complete') {
+          setResult(lookup.result)
+          setIsPending(false)
+          return
+        }
+      } catch (error) {
+        if (import.meta.env.DEV) console.error('Guardrail lookup failed:', error)
+        if (!cancelled) setIsPending(false)
+        return
+      }
+
+      if (attempt + 1 >= MAX_POLLS) {
+        setIsPending(false)
+        return
+      }
+      timeoutId = setTimeout(() => poll(attempt + 1), POLL_INTERVAL_MS)
+    }
+
+    timeoutId = setTimeout(() => poll(0), POLL_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [generationId])
+
+  return { result, isPending }
+}
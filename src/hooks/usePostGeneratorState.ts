@@ -1,7 +1,11 @@
 import { useReducer, useCallback, useEffect } from 'react';
-import type { Platform } from '@/config/platforms';
+import { createPlatformRecord, type Platform } from '@/config/platforms';
 import type { WorkflowStep } from '@/components/common/WorkflowStepper';
 import type { ExtractionStage } from '@/api/extract';
+import { toggleVariantStar, type PostVariant } from '@/lib/variants';
+import type { PostRepair, PostViolation } from '@/lib/post-rules';
+import type { PromptMeta } from '@/libs/promptTemplates';
+import type { HookFormula } from '@/config/hook-formulas';
 
 // Stage → progress percentage mapping (module-level for reuse without recreation)
 const STAGE_PROGRESS: Record<string, number> = {
@@ -21,6 +25,20 @@ export interface GeneratedPost {
   regenerationCount: number;
   createdAt: Date;
   characterCount: number;
+  /** Platform-rule violations left after the repair loop */
+  violations?: PostViolation[];
+  /** Automatic rewrites, oldest first — explains why the post differs from the first draft */
+  repairs?: PostRepair[];
+  /** Completion the post came from; used to look up its guardrail result */
+  generationId?: string;
+  /** Withheld by the blocking guardrail (failed the fact check) */
+  quarantined?: boolean;
+  /** The blocking guardrail regenerated the post before withholding it */
+  regenerated?: boolean;
+  /** Template, goal and language the post was generated with */
+  prompt?: PromptMeta;
+  /** Formula of the first line, once one was swapped in from the hook workshop */
+  hookFormula?: HookFormula;
 }
 
 export interface PostGeneratorState {
@@ -38,6 +56,9 @@ export interface PostGeneratorState {
   // Generated Content - Now supports multiple posts per platform
   postsByPlatform: Record<Platform, GeneratedPost[]>;
 
+  /** Alternatives waiting in the comparison grid until one is picked */
+  variantsByPlatform: Partial<Record<Platform, PostVariant[]>>;
+
   // Editing State
   editingPost: {
     platform: Platform;
@@ -49,6 +70,8 @@ export interface PostGeneratorState {
   // Loading States
   isExtracting: boolean;
   isGenerating: Set<Platform>;
+  /** Text received so far for posts that are still streaming in */
+  streamingPosts: Partial<Record<Platform, string>>;
   extractionProgress: number;
   extractionStage: ExtractionStage | 'idle';
   generationProgress: {
@@ -82,6 +105,12 @@ type PostGeneratorAction =
   | { type: 'START_GENERATION'; platform: Platform }
   | { type: 'COMPLETE_GENERATION'; platform: Platform; post: GeneratedPost }
   | { type: 'FAIL_GENERATION'; platform: Platform; error: string }
+  | { type: 'STREAM_GENERATION'; platform: Platform; text: string }
+  | { type: 'SET_VARIANTS'; platform: Platform; variants: PostVariant[] }
+  | { type: 'STAR_VARIANT'; platform: Platform; id: string }
+  | { type: 'DISCARD_VARIANT'; platform: Platform; id: string }
+  | { type: 'ADD_VARIANT'; platform: Platform; variant: PostVariant }
+  | { type: 'PICK_VARIANT'; platform: Platform; id: string }
   | { type: 'SET_GENERATION_PROGRESS'; current: Platform | null; completed: number; total: number }
   | { type: 'SET_EXTRACTION_PROGRESS'; progress: number }
   | { type: 'SET_EXTRACTION_STAGE'; stage: ExtractionStage | 'idle' }
@@ -94,6 +123,7 @@ type PostGeneratorAction =
   | { type: 'SAVE_EDIT' }
   | { type: 'CANCEL_EDIT' }
   | { type: 'DELETE_POST'; platform: Platform; index: number }
+  | { type: 'REPLACE_POST'; platform: Platform; index: number; post: GeneratedPost }
   | { type: 'REGENERATE_POST'; platform: Platform; index: number };
 
 // Initial State
@@ -103,14 +133,12 @@ const initialState: PostGeneratorState = {
   sourceUrl: '',
   inputText: '',
   selectedPlatforms: ['linkedin'],
-  postsByPlatform: {
-    linkedin: [],
-    x: [],
-    instagram: [],
-  },
+  postsByPlatform: createPlatformRecord(() => []),
+  variantsByPlatform: {},
   editingPost: null,
   isExtracting: false,
   isGenerating: new Set(),
+  streamingPosts: {},
   extractionProgress: 0,
   extractionStage: 'idle',
   generationProgress: {
@@ -258,8 +286,14 @@ function handleExtractionActions(
 
 /**
  * Handles AI content generation lifecycle actions.
- * Manages: START_GENERATION, COMPLETE_GENERATION, FAIL_GENERATION, SET_GENERATION_PROGRESS
+ * Manages: START_GENERATION, STREAM_GENERATION, COMPLETE_GENERATION, FAIL_GENERATION, SET_GENERATION_PROGRESS
  */
+function withoutStreamingPost(state: PostGeneratorState, platform: Platform): Partial<Record<Platform, string>> {
+  const rest = { ...state.streamingPosts };
+  delete rest[platform];
+  return rest;
+}
+
 function handleGenerationActions(
   state: PostGeneratorState,
   action: PostGeneratorAction
@@ -281,6 +315,12 @@ function handleGenerationActions(
       };
     }
 
+    case 'STREAM_GENERATION':
+      return {
+        ...state,
+        streamingPosts: { ...state.streamingPosts, [action.platform]: action.text },
+      };
+
     case 'COMPLETE_GENERATION': {
       const updatedGenerating = new Set(state.isGenerating);
       updatedGenerating.delete(action.platform);
@@ -301,6 +341,7 @@ function handleGenerationActions(
         ...state,
         postsByPlatform: updatedPostsByPlatform,
         isGenerating: updatedGenerating,
+        streamingPosts: withoutStreamingPost(state, action.platform),
         completedSteps: allGenerated
           ? [...new Set([...state.completedSteps, 'generate'])] as WorkflowStep[]
           : state.completedSteps,
@@ -321,6 +362,7 @@ function handleGenerationActions(
       return {
         ...state,
         isGenerating: failGenerating,
+        streamingPosts: withoutStreamingPost(state, action.platform),
         errors: {
           ...state.errors,
           generation: {
@@ -346,9 +388,96 @@ function handleGenerationActions(
   }
 }
 
+function withVariants(
+  state: PostGeneratorState,
+  platform: Platform,
+  variants: PostVariant[]
+): Partial<Record<Platform, PostVariant[]>> {
+  const rest = { ...state.variantsByPlatform };
+  if (variants.length > 0) {
+    rest[platform] = variants;
+  } else {
+    delete rest[platform];
+  }
+  return rest;
+}
+
+/**
+ * Handles the variants comparison grid.
+ * Manages: SET_VARIANTS, STAR_VARIANT, DISCARD_VARIANT, ADD_VARIANT, PICK_VARIANT
+ */
+function handleVariantActions(
+  state: PostGeneratorState,
+  action: PostGeneratorAction
+): PostGeneratorState | null {
+  switch (action.type) {
+    case 'SET_VARIANTS': {
+      const finishedGenerating = new Set(state.isGenerating);
+      finishedGenerating.delete(action.platform);
+      return {
+        ...state,
+        variantsByPlatform: withVariants(state, action.platform, action.variants),
+        isGenerating: finishedGenerating,
+      };
+    }
+
+    case 'STAR_VARIANT':
+      return {
+        ...state,
+        variantsByPlatform: withVariants(
+          state,
+          action.platform,
+          toggleVariantStar(state.variantsByPlatform[action.platform] || [], action.id)
+        ),
+      };
+
+    case 'DISCARD_VARIANT':
+      return {
+        ...state,
+        variantsByPlatform: withVariants(
+          state,
+          action.platform,
+          (state.variantsByPlatform[action.platform] || []).filter(v => v.id !== action.id)
+        ),
+      };
+
+    case 'ADD_VARIANT':
+      return {
+        ...state,
+        variantsByPlatform: withVariants(state, action.platform, [
+          ...(state.variantsByPlatform[action.platform] || []),
+          action.variant,
+        ]),
+      };
+
+    case 'PICK_VARIANT': {
+      // The winner becomes a regular post; the remaining variants are discarded
+      const picked = state.variantsByPlatform[action.platform]?.find(v => v.id === action.id);
+      if (!picked) return state;
+
+      const post: GeneratedPost = {
+        content: picked.content,
+        platform: action.platform,
+        isEdited: false,
+        regenerationCount: 0,
+        createdAt: new Date(),
+        characterCount: picked.content.length,
+        prompt: picked.prompt,
+      };
+      return handleGenerationActions(
+        { ...state, variantsByPlatform: withVariants(state, action.platform, []) },
+        { type: 'COMPLETE_GENERATION', platform: action.platform, post }
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
 /**
  * Handles post editing and manipulation actions.
- * Manages: START_EDIT, UPDATE_EDITING_CONTENT, SAVE_EDIT, CANCEL_EDIT, DELETE_POST, REGENERATE_POST
+ * Manages: START_EDIT, UPDATE_EDITING_CONTENT, SAVE_EDIT, CANCEL_EDIT, DELETE_POST, REPLACE_POST, REGENERATE_POST
  */
 function handlePostEditingActions(
   state: PostGeneratorState,
@@ -421,6 +550,21 @@ function handlePostEditingActions(
       };
     }
 
+    case 'REPLACE_POST': {
+      const postsAfterReplace = [...(state.postsByPlatform[action.platform] || [])];
+      if (!postsAfterReplace[action.index]) return state;
+      postsAfterReplace[action.index] = action.post;
+
+      return {
+        ...state,
+        postsByPlatform: {
+          ...state.postsByPlatform,
+          [action.platform]: postsAfterReplace,
+        },
+        isDirty: true,
+      };
+    }
+
     case 'REGENERATE_POST': {
       const postsToRegenerate = [...(state.postsByPlatform[action.platform] || [])];
       if (postsToRegenerate[action.index]) {
@@ -485,6 +629,7 @@ function postGeneratorReducer(
     handleInputActions(state, action) ??
     handleExtractionActions(state, action) ??
     handleGenerationActions(state, action) ??
+    handleVariantActions(state, action) ??
     handlePostEditingActions(state, action) ??
     handleMetaActions(state, action) ??
     state
@@ -574,6 +719,30 @@ export function usePostGeneratorState() {
       dispatch({ type: 'FAIL_GENERATION', platform, error });
     }, []),
 
+    streamGeneration: useCallback((platform: Platform, text: string) => {
+      dispatch({ type: 'STREAM_GENERATION', platform, text });
+    }, []),
+
+    setVariants: useCallback((platform: Platform, variants: PostVariant[]) => {
+      dispatch({ type: 'SET_VARIANTS', platform, variants });
+    }, []),
+
+    starVariant: useCallback((platform: Platform, id: string) => {
+      dispatch({ type: 'STAR_VARIANT', platform, id });
+    }, []),
+
+    discardVariant: useCallback((platform: Platform, id: string) => {
+      dispatch({ type: 'DISCARD_VARIANT', platform, id });
+    }, []),
+
+    addVariant: useCallback((platform: Platform, variant: PostVariant) => {
+      dispatch({ type: 'ADD_VARIANT', platform, variant });
+    }, []),
+
+    pickVariant: useCallback((platform: Platform, id: string) => {
+      dispatch({ type: 'PICK_VARIANT', platform, id });
+    }, []),
+
     setGenerationProgress: useCallback(
       (current: Platform | null, completed: number, total: number) => {
         dispatch({ type: 'SET_GENERATION_PROGRESS', current, completed, total });
@@ -623,6 +792,10 @@ export function usePostGeneratorState() {
       dispatch({ type: 'DELETE_POST', platform, index });
     }, []),
 
+    replacePost: useCallback((platform: Platform, index: number, post: GeneratedPost) => {
+      dispatch({ type: 'REPLACE_POST', platform, index, post });
+    }, []),
+
     regeneratePost: useCallback((platform: Platform, index: number) => {
       dispatch({ type: 'REGENERATE_POST', platform, index });
     }, []),
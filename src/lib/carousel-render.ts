@@ -0,0 +1,241 @@
+import { colors } from '@/design-system/tokens/colors';
+import { typography } from '@/design-system/tokens/typography';
+import type { Carousel, CarouselSlide } from '@/lib/carousel';
+import { createImagePdf } from '@/lib/pdf';
+import { createZip } from '@/lib/zip';
+
+/** Instagram portrait format (4:5) */
+export const SLIDE_WIDTH = 1080;
+export const SLIDE_HEIGHT = 1350;
+
+const PADDING = 96;
+export const FONT_FAMILY = typography.fontFamily.sans.join(', ');
+const HEADLINE_WEIGHT = Number(typography.fontWeight.extrabold);
+const BODY_WEIGHT = Number(typography.fontWeight.normal);
+const FOOTER_WEIGHT = Number(typography.fontWeight.semibold);
+const HEADLINE_LINE_HEIGHT = Number(typography.lineHeight.tight);
+const BODY_LINE_HEIGHT = Number(typography.lineHeight.relaxed);
+
+/** Gradient used for cover and closing slides */
+export interface SlideTheme {
+  from: string;
+  to: string;
+}
+
+export const SLIDE_THEMES = {
+  brand: { from: colors.primary.DEFAULT, to: colors.accent.DEFAULT },
+  linkedin: { from: colors.linkedin.DEFAULT, to: colors.linkedin.dark },
+} satisfies Record<string, SlideTheme>;
+
+type SlideKind = 'cover' | 'content' | 'closing';
+
+function slideKind(index: number, total: number): SlideKind {
+  if (index === 0) return 'cover';
+  if (index === total - 1) return 'closing';
+  return 'content';
+}
+
+/** Greedy word wrap; words longer than a line are kept whole */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+interface FitTextOptions {
+  maxWidth: number;
+  maxHeight: number;
+  fontSize: number;
+  minFontSize: number;
+  weight: number;
+  lineHeight: number;
+}
+
+/** Wrap text, shrinking the font until it fits `maxHeight`; leaves `ctx.font` at the chosen size */
+export function fitText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  { maxWidth, maxHeight, fontSize, minFontSize, weight, lineHeight }: FitTextOptions
+): { lines: string[]; lineStep: number; height: number } {
+  let size = fontSize;
+  let lines: string[] = [];
+
+  for (; size >= minFontSize; size -= 4) {
+    ctx.font = `${weight} ${size}px ${FONT_FAMILY}`;
+    lines = wrapText(ctx, text, maxWidth);
+    if (lines.length * size * lineHeight <= maxHeight) break;
+  }
+
+  const lineStep = Math.max(size, minFontSize) * lineHeight;
+  return { lines, lineStep, height: lines.length * lineStep };
+}
+
+/** Draw wrapped text, shrinking the font until it fits `maxHeight`. Returns the height used. */
+function drawFittedText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  { x, y, ...options }: FitTextOptions & { x: number; y: number }
+): number {
+  const { lines, lineStep, height } = fitText(ctx, text, options);
+  lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineStep));
+  return height;
+}
+
+function fillGradient(ctx: CanvasRenderingContext2D, theme: SlideTheme) {
+  const gradient = ctx.createLinearGradient(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT);
+  gradient.addColorStop(0, theme.from);
+  gradient.addColorStop(1, theme.to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT);
+}
+
+/**
+ * Draw one slide onto a 1080×1350 canvas.
+ * Cover and closing slides use the theme gradient, content slides a light card layout.
+ */
+export function drawSlide(
+  ctx: CanvasRenderingContext2D,
+  slide: CarouselSlide,
+  index: number,
+  total: number,
+  theme: SlideTheme = SLIDE_THEMES.brand
+) {
+  const kind = slideKind(index, total);
+  const onGradient = kind !== 'content';
+  const textColor = onGradient ? colors.primary.foreground : colors.foreground.DEFAULT;
+  const mutedColor = onGradient ? colors.primary.foreground : colors.foreground.muted;
+  const contentWidth = SLIDE_WIDTH - PADDING * 2;
+
+  ctx.clearRect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT);
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+
+  if (onGradient) {
+    fillGradient(ctx, theme);
+  } else {
+    ctx.fillStyle = colors.background.DEFAULT;
+    ctx.fillRect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT);
+    // Accent bar
+    ctx.fillStyle = theme.from;
+    ctx.fillRect(0, 0, SLIDE_WIDTH, 16);
+  }
+
+  let y = kind === 'cover' ? 300 : PADDING + 40;
+
+  if (slide.emoji) {
+    ctx.font = `120px ${FONT_FAMILY}`;
+    ctx.fillText(slide.emoji, PADDING, y);
+    y += 170;
+  }
+
+  ctx.fillStyle = textColor;
+  y += drawFittedText(ctx, slide.headline, {
+    x: PADDING,
+    y,
+    maxWidth: contentWidth,
+    maxHeight: 420,
+    fontSize: kind === 'cover' ? 96 : 76,
+    minFontSize: 48,
+    weight: HEADLINE_WEIGHT,
+    lineHeight: HEADLINE_LINE_HEIGHT,
+  });
+
+  if (slide.body) {
+    y += 48;
+    ctx.fillStyle = mutedColor;
+    ctx.globalAlpha = onGradient ? 0.9 : 1;
+    drawFittedText(ctx, slide.body, {
+      x: PADDING,
+      y,
+      maxWidth: contentWidth,
+      maxHeight: SLIDE_HEIGHT - y - 200,
+      fontSize: 48,
+      minFontSize: 32,
+      weight: BODY_WEIGHT,
+      lineHeight: BODY_LINE_HEIGHT,
+    });
+    ctx.globalAlpha = 1;
+  }
+
+  // Footer: slide counter and swipe hint
+  ctx.font = `${FOOTER_WEIGHT} 32px ${FONT_FAMILY}`;
+  ctx.fillStyle = mutedColor;
+  ctx.fillText(`${index + 1}/${total}`, PADDING, SLIDE_HEIGHT - PADDING - 32);
+  if (index < total - 1) {
+    ctx.textAlign = 'right';
+    ctx.fillText('Swipe →', SLIDE_WIDTH - PADDING, SLIDE_HEIGHT - PADDING - 32);
+  }
+}
+
+type SlideImageType = 'image/png' | 'image/jpeg';
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: SlideImageType): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Bild konnte nicht gerendert werden'))),
+      type,
+      0.92
+    );
+  });
+}
+
+/** Render all slides to image blobs (in order); PNG by default, JPEG for PDF embedding */
+export async function renderCarouselSlides(
+  carousel: Carousel,
+  { theme = SLIDE_THEMES.brand, type = 'image/png' }: { theme?: SlideTheme; type?: SlideImageType } = {}
+): Promise<Blob[]> {
+  const canvas = document.createElement('canvas');
+  canvas.width = SLIDE_WIDTH;
+  canvas.height = SLIDE_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas wird von diesem Browser nicht unterstützt');
+
+  // Make sure the brand font is ready before measuring text
+  await document.fonts?.ready;
+
+  const blobs: Blob[] = [];
+  for (let i = 0; i < carousel.slides.length; i++) {
+    drawSlide(ctx, carousel.slides[i], i, carousel.slides.length, theme);
+    blobs.push(await canvasToBlob(canvas, type));
+  }
+  return blobs;
+}
+
+/** Bundle rendered slides and the caption into one ZIP */
+export async function createCarouselZip(carousel: Carousel, slides: Blob[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const entries = await Promise.all(
+    slides.map(async (blob, i) => ({
+      name: `slide-${String(i + 1).padStart(2, '0')}.png`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    }))
+  );
+  entries.push({ name: 'caption.txt', data: encoder.encode(carousel.caption) });
+  return createZip(entries);
+}
+
+/** Bundle JPEG-rendered slides into a multi-page PDF (LinkedIn document post) */
+export async function createCarouselPdf(slides: Blob[], title: string): Promise<Blob> {
+  const pages = await Promise.all(
+    slides.map(async (blob) => ({
+      jpeg: new Uint8Array(await blob.arrayBuffer()),
+      width: SLIDE_WIDTH,
+      height: SLIDE_HEIGHT,
+    }))
+  );
+  return createImagePdf(pages, { title });
+}
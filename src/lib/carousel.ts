@@ -0,0 +1,62 @@
+/**
+ * Instagram carousel model and response parsing.
+ * The model returns JSON slides (carouselSchema); rendering happens locally (see carousel-render.ts).
+ */
+
+import { parseJsonObject } from '@/libs/postSchema';
+
+export interface CarouselSlide {
+  headline: string;
+  body: string;
+  emoji?: string;
+}
+
+export interface Carousel {
+  slides: CarouselSlide[];
+  caption: string;
+}
+
+/** Instagram image carousel or LinkedIn document (PDF) post */
+export type CarouselFormat = 'instagram' | 'linkedin';
+
+export const CAROUSEL_MIN_SLIDES = 5;
+export const CAROUSEL_MAX_SLIDES = 10;
+/** Longer text no longer fits the slide layout at a readable size */
+export const SLIDE_HEADLINE_MAX = 70;
+export const SLIDE_BODY_MAX = 240;
+
+function asTrimmedString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Parse and validate the carousel JSON returned by the model.
+ * Throws with a user-facing message when the structure is unusable.
+ */
+export function parseCarouselResponse(response: string): Carousel {
+  const data = parseJsonObject(response);
+  if (!data) {
+    throw new Error('Karussell-Antwort enthält kein gültiges JSON');
+  }
+
+  const rawSlides = Array.isArray(data.slides) ? data.slides : [];
+
+  const slides = rawSlides
+    .map((raw): CarouselSlide => {
+      const slide = (raw ?? {}) as Record<string, unknown>;
+      const emoji = asTrimmedString(slide.emoji);
+      return {
+        headline: asTrimmedString(slide.headline).slice(0, SLIDE_HEADLINE_MAX),
+        body: asTrimmedString(slide.body).slice(0, SLIDE_BODY_MAX),
+        ...(emoji ? { emoji } : {}),
+      };
+    })
+    .filter((slide) => slide.headline)
+    .slice(0, CAROUSEL_MAX_SLIDES);
+
+  if (slides.length < CAROUSEL_MIN_SLIDES) {
+    throw new Error(`Karussell zu kurz (min. ${CAROUSEL_MIN_SLIDES} Slides)`);
+  }
+
+  return { slides, caption: asTrimmedString(data.caption) };
+}
@@ -0,0 +1,254 @@
+/**
+ * Hashtag service: ranked suggestions from the source and the per-platform hashtag policy.
+ * The policy is applied to every generated post as a post-processing step, so the number of
+ * hashtags, pinned tags and banned tags do not depend on the model following the prompt.
+ */
+
+import { PLATFORMS, type Platform } from '@/config/platforms';
+import { CURATED_HASHTAGS } from '@/config/hashtags';
+
+export interface HashtagCandidate {
+  /** Tag without "#" */
+  tag: string;
+  score: number;
+  /** Key phrase of the source, or a curated tag whose keywords the source mentions */
+  origin: 'source' | 'curated';
+}
+
+export interface HashtagPolicy {
+  /** Hashtags per post, inline ones included */
+  count: number;
+  /** Always used first, in this order */
+  pinned: string[];
+  /** Never used; generated posts lose them */
+  banned: string[];
+}
+
+export const HASHTAG_POLICY_STORAGE_KEY = 'hashtagPolicies';
+
+/** Upper bound for the per-platform count */
+export const MAX_HASHTAGS = 10;
+
+const MAX_TAG_LENGTH = 30;
+const DEFAULT_SUGGESTION_LIMIT = 12;
+
+const HASHTAG_REGEX = /(^|\s)#([\p{L}\p{N}_]+)/gu;
+const TRAILING_HASHTAGS_REGEX = /(?:\s*#[\p{L}\p{N}_]+)+\s*$/u;
+// Placeholders of redacted personal data ([EMAIL_1]) are not topics
+const PLACEHOLDER_REGEX = /\[[A-Z]+_\d+\]/g;
+// Capitalized words that are never a topic: articles and question words at sentence starts, units of time and amounts
+const IGNORED_WORDS = new Set([
+  'der', 'die', 'das', 'ein', 'eine', 'mit', 'für', 'und', 'warum', 'wieso', 'weshalb', 'wie', 'was', 'wer', 'wann', 'welche', 'welcher', 'heute', 'morgen',
+  'tage', 'tagen', 'wochen', 'monate', 'monaten', 'jahre', 'jahren', 'stunden', 'minuten', 'prozent', 'euro',
+  'the', 'and', 'with', 'what', 'why', 'how', 'when', 'who', 'which', 'this', 'that', 'these', 'there',
+]);
+
+/** Case-insensitive identity of a tag */
+function tagKey(tag: string): string {
+  return tag.toLocaleLowerCase('de');
+}
+
+/**
+ * Turn a phrase or user input into a tag: "#" stripped, words joined in CamelCase
+ * ("Vier-Tage-Woche" → "VierTageWoche"). Returns an empty string for input without letters.
+ */
+export function toHashtag(phrase: string): string {
+  const tag = phrase
+    .replace(/^#+/, '')
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toLocaleUpperCase('de') + part.slice(1))
+    .join('')
+    .slice(0, MAX_TAG_LENGTH);
+  return /\p{L}/u.test(tag) ? tag : '';
+}
+
+/** Hashtags of a post, in order, without "#" */
+export function findHashtags(post: string): string[] {
+  return [...post.matchAll(HASHTAG_REGEX)].map((match) => match[2]);
+}
+
+/** Split a post into its text and the block of hashtags at its end */
+export function splitTrailingHashtags(post: string): { text: string; tags: string[] } {
+  const match = post.match(TRAILING_HASHTAGS_REGEX);
+  if (!match || match.index === undefined) return { text: post.trim(), tags: [] };
+  return { text: post.slice(0, match.index).trim(), tags: findHashtags(match[0]) };
+}
+
+/** Replace the hashtag block at the end of a post; an empty list removes it */
+export function setTrailingHashtags(post: string, tags: string[]): string {
+  const { text } = splitTrailingHashtags(post);
+  return tags.length > 0 ? `${text}\n\n${tags.map((tag) => `#${tag}`).join(' ')}` : text;
+}
+
+function uniqueTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = tagKey(tag);
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function matchesKeyword(words: string[], text: string, keyword: string): number {
+  if (keyword.includes(' ')) return text.split(keyword).length - 1;
+  // Short keywords (KI, AI, CO2) only count as whole words
+  return words.filter((word) => (keyword.length < 4 ? word === keyword : word.startsWith(keyword))).length;
+}
+
+/**
+ * Ranked hashtag candidates for a source text: its own hashtags, recurring nouns and names
+ * (capitalized words that never appear lowercase, plus capitalized word pairs) and curated
+ * DACH tags whose keywords it mentions. Headings weigh more than body text.
+ */
+export function suggestHashtags(source: string, limit: number = DEFAULT_SUGGESTION_LIMIT): HashtagCandidate[] {
+  const text = source.replace(PLACEHOLDER_REGEX, ' ');
+  const lower = text.toLocaleLowerCase('de');
+  const words = lower.match(/[\p{L}\p{N}][\p{L}\p{N}-]*/gu) ?? [];
+  const lowercaseWords = new Set(text.match(/(?<![\p{L}\p{N}-])\p{Ll}[\p{L}\p{N}-]*/gu) ?? []);
+  const scores = new Map<string, HashtagCandidate>();
+  // Sentence starts ("Die", "Seit") also appear lowercase elsewhere
+  const isTopicWord = (word: string) => {
+    const key = word.toLocaleLowerCase('de');
+    return !lowercaseWords.has(key) && !IGNORED_WORDS.has(key);
+  };
+
+  const add = (phrase: string, score: number, origin: HashtagCandidate['origin']) => {
+    const tag = toHashtag(phrase);
+    if (!tag) return;
+    const key = tagKey(tag);
+    const current = scores.get(key);
+    if (current) {
+      current.score += score;
+    } else {
+      scores.set(key, { tag, score, origin });
+    }
+  };
+
+  for (const tag of findHashtags(text)) add(tag, 5, 'source');
+
+  for (const line of text.split('\n')) {
+    const isHeading = /^\s*#{1,6}\s/.test(line);
+    const content = line.replace(/^\s*#{1,6}\s/, '').replace(HASHTAG_REGEX, ' ');
+    const capitalized = content.match(/(?<![\p{L}\p{N}-])\p{Lu}[\p{L}\p{N}-]{3,}/gu) ?? [];
+    for (const word of capitalized) {
+      if (isTopicWord(word)) add(word, isHeading ? 3 : 1, 'source');
+    }
+    // Lookahead, so "Müller Logistik GmbH" yields both pairs
+    for (const [, first, second] of content.matchAll(/(?<![\p{L}\p{N}-])(\p{Lu}[\p{L}\p{N}-]+) (?=(\p{Lu}[\p{L}\p{N}-]+))/gu)) {
+      if (isTopicWord(first) && isTopicWord(second)) add(`${first} ${second}`, isHeading ? 3 : 1, 'source');
+    }
+  }
+
+  // A single mention of a noun is no topic; headings and own hashtags are
+  for (const [key, candidate] of scores) {
+    if (candidate.score < 2) scores.delete(key);
+  }
+
+  for (const { tag, keywords } of CURATED_HASHTAGS) {
+    const hits = keywords.reduce((sum, keyword) => sum + matchesKeyword(words, lower, keyword), 0);
+    if (hits > 0) {
+      const key = tagKey(tag);
+      const current = scores.get(key);
+      // The curated spelling wins (#KI, not #Ki)
+      scores.set(key, { tag, score: (current?.score ?? 0) + 1 + hits, origin: current?.origin ?? 'curated' });
+    }
+  }
+
+  return [...scores.values()]
+    .sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag, 'de'))
+    .slice(0, limit);
+}
+
+/** Policy from the platform rules: as many hashtags as the platform allows, nothing pinned or banned */
+export function getDefaultHashtagPolicy(platform: Platform): HashtagPolicy {
+  return { count: PLATFORMS[platform].rules.hashtags.max, pinned: [], banned: [] };
+}
+
+function normalizePolicy(policy: Partial<HashtagPolicy>, fallback: HashtagPolicy): HashtagPolicy {
+  const count = Number(policy.count);
+  const tags = (value: unknown) => (Array.isArray(value) ? uniqueTags(value.map((tag) => toHashtag(String(tag)))) : []);
+  return {
+    count: Number.isInteger(count) ? Math.min(MAX_HASHTAGS, Math.max(0, count)) : fallback.count,
+    pinned: tags(policy.pinned),
+    banned: tags(policy.banned),
+  };
+}
+
+function readPolicies(): Partial<Record<Platform, Partial<HashtagPolicy>>> {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const raw = localStorage.getItem(HASHTAG_POLICY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Whether the user changed the platform's policy */
+export function hasCustomHashtagPolicy(platform: Platform): boolean {
+  return readPolicies()[platform] !== undefined;
+}
+
+/** The user's policy for a platform (kept in localStorage), or the default from its rules */
+export function getHashtagPolicy(platform: Platform): HashtagPolicy {
+  const fallback = getDefaultHashtagPolicy(platform);
+  const stored = readPolicies()[platform];
+  return stored ? normalizePolicy(stored, fallback) : fallback;
+}
+
+/** Persist a platform's policy; `null` restores the default */
+export function setHashtagPolicy(platform: Platform, policy: HashtagPolicy | null): HashtagPolicy {
+  const policies = readPolicies();
+  if (policy) {
+    policies[platform] = normalizePolicy(policy, getDefaultHashtagPolicy(platform));
+  } else {
+    delete policies[platform];
+  }
+  localStorage.setItem(HASHTAG_POLICY_STORAGE_KEY, JSON.stringify(policies));
+  return getHashtagPolicy(platform);
+}
+
+/**
+ * Allowed number of hashtags for the rule check: the user's count, or the platform rules without a policy.
+ * A custom count below the platform minimum lowers the minimum with it.
+ */
+export function getHashtagRange(platform: Platform): { min: number; max: number } {
+  const { hashtags } = PLATFORMS[platform].rules;
+  if (!hasCustomHashtagPolicy(platform)) return hashtags;
+  const { count } = getHashtagPolicy(platform);
+  return { min: Math.min(hashtags.min, count), max: count };
+}
+
+/**
+ * Bring a post's hashtags in line with a policy. Inline hashtags stay part of their sentence but
+ * lose the "#" when they are banned or exceed the count. The block at the end is rebuilt from
+ * pinned tags, the tags the model chose and the candidates, in that order, without banned ones.
+ */
+export function applyHashtagPolicy(post: string, policy: HashtagPolicy, candidates: string[] = []): string {
+  const { text, tags } = splitTrailingHashtags(post);
+  const banned = new Set(policy.banned.map(tagKey));
+
+  let inline = 0;
+  const body = text.replace(HASHTAG_REGEX, (match, lead: string, tag: string) => {
+    if (banned.has(tagKey(tag)) || inline >= policy.count) return `${lead}${tag}`;
+    inline++;
+    return match;
+  });
+  const used = new Set(findHashtags(body).map(tagKey));
+
+  const trailing = uniqueTags([...policy.pinned, ...tags, ...candidates.map(toHashtag)])
+    .filter((tag) => !banned.has(tagKey(tag)) && !used.has(tagKey(tag)))
+    .slice(0, Math.max(0, policy.count - inline));
+
+  return setTrailingHashtags(body, trailing);
+}
+
+/** Apply the user's policy for a platform, with candidates from the source */
+export function applyPlatformHashtags(post: string, platform: Platform, source: string): string {
+  const policy = getHashtagPolicy(platform);
+  const candidates = policy.count > 0 ? suggestHashtags(source).map((candidate) => candidate.tag) : [];
+  return applyHashtagPolicy(post, policy, candidates);
+}
@@ -0,0 +1,74 @@
+/**
+ * Hook workshop: alternative first lines for an existing post, each labeled with its hook formula.
+ * Swapping a hook replaces only the opening; the body of the post stays as it is.
+ * The model returns the alternatives as JSON (see buildHookPrompt).
+ */
+
+import { isHookFormula, type HookFormula } from '@/config/hook-formulas';
+import { parseJsonObject } from '@/libs/postSchema';
+
+export const MIN_HOOKS = 5;
+export const MAX_HOOKS = 8;
+
+/** Longest hook the prompt asks for; the rule check of the swapped post has the final say */
+export const HOOK_MAX_LENGTH = 150;
+
+export interface HookAlternative {
+  formula: HookFormula;
+  hook: string;
+}
+
+// First sentence of a post without line breaks, including closing quotes or brackets
+const FIRST_SENTENCE_REGEX = /^[\s\S]+?[.!?…]["'“”»)\]]*(?=\s|$)/;
+
+/**
+ * Split a post into its hook and the rest. The hook is the first line; a post that is one
+ * single line (short X posts) uses its first sentence. `hook + rest` is the original post.
+ */
+export function splitHook(post: string): { hook: string; rest: string } {
+  const text = post.trim();
+  const lineEnd = text.indexOf('\n');
+  if (lineEnd !== -1) return { hook: text.slice(0, lineEnd).trim(), rest: text.slice(lineEnd) };
+
+  const sentence = text.match(FIRST_SENTENCE_REGEX)?.[0] ?? text;
+  return { hook: sentence.trim(), rest: text.slice(sentence.length) };
+}
+
+/** Put a new first line on a post and keep the rest */
+export function replaceHook(post: string, hook: string): string {
+  return `${hook.replace(/\s+/g, ' ').trim()}${splitHook(post).rest}`;
+}
+
+const hookKey = (hook: string) => hook.toLocaleLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Parse the hooks JSON returned by the model. Hooks with an unknown formula, duplicates and
+ * repeats of the current hook are dropped; throws with a user-facing message if fewer than MIN_HOOKS remain.
+ */
+export function parseHooksResponse(text: string, currentHook = ''): HookAlternative[] {
+  const data = parseJsonObject(text);
+  if (!data || !Array.isArray(data.hooks)) {
+    throw new Error('Hook-Antwort enthält kein gültiges JSON');
+  }
+
+  const seen = new Set([hookKey(currentHook)]);
+  const hooks: HookAlternative[] = [];
+  for (const item of data.hooks.slice(0, MAX_HOOKS * 2)) {
+    if (typeof item !== 'object' || item === null) continue;
+    const { formula, hook } = item as Record<string, unknown>;
+    if (!isHookFormula(formula) || typeof hook !== 'string') continue;
+
+    const line = hook.replace(/\s+/g, ' ').trim();
+    const key = hookKey(line);
+    if (!key || seen.has(key)) continue;
+
+    seen.add(key);
+    hooks.push({ formula, hook: line });
+    if (hooks.length === MAX_HOOKS) break;
+  }
+
+  if (hooks.length < MIN_HOOKS) {
+    throw new Error('Hook-Vorschläge unvollständig. Bitte erneut versuchen.');
+  }
+  return hooks;
+}
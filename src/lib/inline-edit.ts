@@ -0,0 +1,114 @@
+/**
+ * Inline edits: rewrite a selected range of a post and review the change as a word diff
+ * before it replaces the selection. The model only returns the replacement (see buildInlineEditPrompt).
+ */
+
+import { parseJsonObject } from '@/libs/postSchema';
+
+/** Character offsets of the selection in the editor, as `selectionStart`/`selectionEnd` report them */
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+/** JSON field that holds the replacement */
+export const INLINE_EDIT_FIELD = 'text';
+
+// Beyond this many words per side the diff falls back to "all removed, all added"
+const MAX_DIFF_WORDS = 400;
+
+/** Text before, inside and after the selection; leading and trailing whitespace of the selection stays outside */
+export function splitAtSelection(content: string, { start, end }: TextSelection): { before: string; selected: string; after: string } {
+  const raw = content.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  const trailing = raw.length - raw.trimEnd().length;
+  const selectedEnd = Math.max(start + leading, end - trailing);
+  return {
+    before: content.slice(0, start + leading),
+    selected: content.slice(start + leading, selectedEnd),
+    after: content.slice(selectedEnd),
+  };
+}
+
+export function hasSelection(content: string, selection: TextSelection | null): selection is TextSelection {
+  return selection !== null && content.slice(selection.start, selection.end).trim().length > 0;
+}
+
+/** Put the replacement in place of the selection */
+export function applyInlineEdit(content: string, selection: TextSelection, replacement: string): string {
+  const { before, after } = splitAtSelection(content, selection);
+  return `${before}${replacement.trim()}${after}`;
+}
+
+/**
+ * Read the replacement from the model's answer: the JSON field, or the plain text without
+ * the <selection> tags or quotes some models wrap it in.
+ */
+export function parseInlineEditResponse(text: string): string {
+  const field = parseJsonObject(text)?.[INLINE_EDIT_FIELD];
+  const replacement = (typeof field === 'string' ? field : text)
+    .replace(/^\s*<selection>|<\/selection>\s*$/g, '')
+    .trim();
+  if (!replacement) throw new Error('Bearbeitung lieferte keinen Text. Bitte erneut versuchen.');
+  return replacement;
+}
+
+// Words with the whitespace that follows them, so joining the parts gives back the text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+\s*/g) ?? [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff (longest common subsequence) between the selection and its replacement.
+ * Joining the `equal` and `removed` parts gives `before`; `equal` and `added` give `after`.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    if (before) parts.push({ type: 'removed', text: before });
+    if (after) parts.push({ type: 'added', text: after });
+    return parts;
+  }
+
+  // lengths[i][j]: common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i++]);
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+}
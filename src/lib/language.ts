@@ -0,0 +1,51 @@
+/**
+ * Output languages for generated posts and a lightweight source-language detection.
+ * Detection counts frequent function words, so it works offline and needs no dependency.
+ */
+
+export const OUTPUT_LANGUAGES = ['de', 'en', 'fr', 'es', 'it', 'nl'] as const;
+
+export type OutputLanguage = typeof OUTPUT_LANGUAGES[number];
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'de';
+
+export const LANGUAGE_META: Record<OutputLanguage, { label: string; promptName: string; flag: string }> = {
+  de: { label: 'Deutsch', promptName: 'German', flag: '🇩🇪' },
+  en: { label: 'Englisch', promptName: 'English', flag: '🇬🇧' },
+  fr: { label: 'Französisch', promptName: 'French', flag: '🇫🇷' },
+  es: { label: 'Spanisch', promptName: 'Spanish', flag: '🇪🇸' },
+  it: { label: 'Italienisch', promptName: 'Italian', flag: '🇮🇹' },
+  nl: { label: 'Niederländisch', promptName: 'Dutch', flag: '🇳🇱' },
+};
+
+// Frequent words that are (mostly) unique to one language
+const STOPWORDS: Record<OutputLanguage, string[]> = {
+  de: ['der', 'die', 'und', 'ist', 'nicht', 'ein', 'eine', 'mit', 'auch', 'ich', 'sich', 'für', 'auf', 'wir', 'dass', 'oder', 'wie', 'bei'],
+  en: ['the', 'and', 'is', 'are', 'to', 'of', 'that', 'with', 'for', 'you', 'this', 'it', 'not', 'have', 'what', 'your', 'be'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'une', 'des', 'pour', 'que', 'qui', 'dans', 'pas', 'sur', 'avec', 'nous', 'vous', 'du'],
+  es: ['el', 'los', 'las', 'y', 'es', 'una', 'para', 'que', 'por', 'con', 'del', 'pero', 'como', 'más', 'su', 'se', 'lo'],
+  it: ['il', 'gli', 'e', 'è', 'una', 'per', 'che', 'non', 'con', 'del', 'della', 'sono', 'anche', 'come', 'più', 'nel', 'ma'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'van', 'niet', 'dat', 'met', 'voor', 'op', 'ook', 'zijn', 'maar', 'wij', 'je', 'naar'],
+};
+
+// Below this many hits the text is too short or too unusual to tell
+const MIN_HITS = 3;
+
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === 'string' && (OUTPUT_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Guess the language of a source text. Returns null when no language stands out.
+ */
+export function detectLanguage(text: string): OutputLanguage | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = OUTPUT_LANGUAGES.map((language) => {
+    const stopwords = new Set(STOPWORDS[language]);
+    return { language, hits: words.filter((word) => stopwords.has(word)).length };
+  }).sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = scores;
+  if (best.hits < MIN_HITS || best.hits === second.hits) return null;
+  return best.language;
+}
@@ -0,0 +1,74 @@
+/**
+ * Mastodon instance settings.
+ * Every instance sets its own post limit (500 by default), so the limit and the
+ * share target are configured per user and kept in localStorage.
+ */
+
+export interface MastodonInstance {
+  /** Instance host without protocol, e.g. "mastodon.social" */
+  domain: string;
+  /** Maximum post length allowed by the instance */
+  maxChars: number;
+}
+
+export const MASTODON_INSTANCE_STORAGE_KEY = 'mastodonInstance';
+
+export const DEFAULT_MASTODON_INSTANCE: MastodonInstance = {
+  domain: 'mastodon.social',
+  maxChars: 500,
+};
+
+const MIN_MASTODON_CHARS = 100;
+const MAX_MASTODON_CHARS = 100000;
+
+/** Strip protocol, path and whitespace from user input ("https://chaos.social/" → "chaos.social") */
+export function normalizeMastodonDomain(input: string): string {
+  return input
+    .trim()
+    .replace(/^https?:\/\//i, '')
+    .replace(/[/?#].*$/, '')
+    .toLowerCase();
+}
+
+function isValidDomain(domain: string): boolean {
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain);
+}
+
+export function getMastodonInstance(): MastodonInstance {
+  if (typeof localStorage === 'undefined') return DEFAULT_MASTODON_INSTANCE;
+
+  try {
+    const raw = localStorage.getItem(MASTODON_INSTANCE_STORAGE_KEY);
+    if (!raw) return DEFAULT_MASTODON_INSTANCE;
+
+    const parsed = JSON.parse(raw) as Partial<MastodonInstance>;
+    const domain = typeof parsed.domain === 'string' ? normalizeMastodonDomain(parsed.domain) : '';
+    const maxChars = Number(parsed.maxChars);
+
+    return {
+      domain: isValidDomain(domain) ? domain : DEFAULT_MASTODON_INSTANCE.domain,
+      maxChars: Number.isInteger(maxChars) && maxChars >= MIN_MASTODON_CHARS && maxChars <= MAX_MASTODON_CHARS
+        ? maxChars
+        : DEFAULT_MASTODON_INSTANCE.maxChars,
+    };
+  } catch {
+    return DEFAULT_MASTODON_INSTANCE;
+  }
+}
+
+/**
+ * Persist the instance settings. Throws on invalid input so the settings form can show the message.
+ */
+export function setMastodonInstance(instance: MastodonInstance): MastodonInstance {
+  const domain = normalizeMastodonDomain(instance.domain);
+  if (!isValidDomain(domain)) {
+    throw new Error('Ungültige Instanz-Adresse');
+  }
+  if (!Number.isInteger(instance.maxChars) || instance.maxChars < MIN_MASTODON_CHARS || instance.maxChars > MAX_MASTODON_CHARS) {
+    throw new Error(`Zeichenlimit muss zwischen ${MIN_MASTODON_CHARS} und ${MAX_MASTODON_CHARS} liegen`);
+  }
+
+  const next = { domain, maxChars: instance.maxChars };
+  localStorage.setItem(MASTODON_INSTANCE_STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
@@ -0,0 +1,95 @@
+/**
+ * Minimal PDF writer for image-only documents (one full-page JPEG per page).
+ * Used for LinkedIn document posts, which LinkedIn renders page by page like a carousel.
+ */
+
+export interface PdfImagePage {
+  /** JPEG bytes (embedded as-is via DCTDecode) */
+  jpeg: Uint8Array;
+  /** Pixel size of the JPEG */
+  width: number;
+  height: number;
+}
+
+export interface PdfOptions {
+  title?: string;
+  /** Points per image pixel (72 pt = 1 inch) */
+  scale?: number;
+}
+
+/** PDF text string as UTF-16BE hex, so umlauts survive in the document title */
+function pdfTextString(value: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * Build a PDF with one page per image; page size follows the image aspect ratio.
+ */
+export function createImagePdf(pages: PdfImagePage[], { title, scale = 0.5 }: PdfOptions = {}): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Fixed objects: 1 catalog, 2 page tree, 3 info; then page, content and image per page
+  const pageIds = pages.map((_, i) => 4 + i * 3);
+  const objectCount = 3 + pages.length * 3;
+
+  // Header with a binary comment so transfer tools treat the file as binary
+  write('%PDF-1.4\n%âãÏÓ\n');
+
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, `<< /Producer (Social Transformer)${title ? ` /Title ${pdfTextString(title)}` : ''} >>`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const width = formatNumber(page.width * scale);
+    const height = formatNumber(page.height * scale);
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    );
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    );
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+}
@@ -0,0 +1,102 @@
+/**
+ * Local PII redaction for source texts before they are sent to the model.
+ * Personal data is replaced by numbered placeholders ([EMAIL_1], [PHONE_1], …) that map back to
+ * the original values, so a post that keeps a placeholder can be restored after generation.
+ */
+
+export type PiiType = 'email' | 'iban' | 'phone' | 'address' | 'handle';
+
+export interface RedactedEntity {
+  type: PiiType;
+  /** Original text, only kept in the browser */
+  value: string;
+  placeholder: string;
+}
+
+export interface Redaction {
+  /** Text with every match replaced by its placeholder */
+  text: string;
+  entities: RedactedEntity[];
+}
+
+/** UI labels (German) */
+export const PII_LABELS: Record<PiiType, string> = {
+  email: 'E-Mail',
+  iban: 'IBAN',
+  phone: 'Telefonnummer',
+  address: 'Adresse',
+  handle: 'Handle',
+};
+
+const PLACEHOLDER_PREFIX: Record<PiiType, string> = {
+  email: 'EMAIL',
+  iban: 'IBAN',
+  phone: 'PHONE',
+  address: 'ADDRESS',
+  handle: 'HANDLE',
+};
+
+// Suffix of a compound street name ("Hauptstraße") or a separate word ("Berliner Straße")
+const STREET_SUFFIXES = 'straße|strasse|str\\.|weg|gasse|platz|allee|ring|damm|ufer';
+const STREET_WORDS = 'Straße|Strasse|Str\\.|Weg|Gasse|Platz|Allee|Ring|Damm|Ufer';
+
+// Order matters: IBANs and emails are masked before their digits or @ can match phone numbers or handles
+const PII_PATTERNS: Array<{ type: PiiType; regex: RegExp; accept?: (match: string) => boolean }> = [
+  { type: 'email', regex: /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}/g },
+  { type: 'iban', regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  {
+    type: 'phone',
+    // +49/+43/+41 or 0049/0043/0041 with optional (0), or a national number with leading 0.
+    // National area codes need two digits so dates like 01.02.2024 do not match.
+    regex: /(?<![\w+])(?:(?:\+|00)(?:49|43|41)[\s./-]?(?:\(0\)[\s./-]?)?\d{1,5}|0\d{2,5})(?:[\s./-]?\d{2,}){1,4}(?!\w)/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15;
+    },
+  },
+  {
+    type: 'address',
+    // "Hauptstraße 5", "Berliner Str. 12a, 10115 Berlin", "Mariahilfer Gasse 3"
+    regex: new RegExp(
+      `(?<![\\p{L}\\p{N}])[A-ZÄÖÜ][\\p{L}-]*(?:${STREET_SUFFIXES}|\\s(?:${STREET_WORDS}))` +
+        `\\s*\\d{1,4}(?:\\s?[a-z](?!\\p{L}))?(?:,?\\s+(?:[A-Z]-)?\\d{4,5}\\s+[A-ZÄÖÜ][\\p{L}-]+)?`,
+      'gu'
+    ),
+  },
+  { type: 'handle', regex: /(?<![\w@.])@[A-Za-z0-9_](?:[A-Za-z0-9_.]{0,28}[A-Za-z0-9_])?(?![\w@])/g },
+];
+
+const PLACEHOLDER_REGEX = /\[(?:EMAIL|IBAN|PHONE|ADDRESS|HANDLE)_\d+\]/;
+
+/**
+ * Replace personal data with placeholders. The same value always gets the same placeholder;
+ * pass the entities of an earlier redaction to share placeholders across texts (e.g. post and source).
+ */
+export function redactPii(text: string, known: RedactedEntity[] = []): Redaction {
+  const entities = [...known];
+  let redacted = text;
+
+  for (const { type, regex, accept } of PII_PATTERNS) {
+    redacted = redacted.replace(regex, (match) => {
+      if (accept && !accept(match)) return match;
+      const existing = entities.find((entity) => entity.type === type && entity.value === match);
+      if (existing) return existing.placeholder;
+
+      const count = entities.filter((entity) => entity.type === type).length;
+      const entity = { type, value: match, placeholder: `[${PLACEHOLDER_PREFIX[type]}_${count + 1}]` };
+      entities.push(entity);
+      return entity.placeholder;
+    });
+  }
+
+  return { text: redacted, entities };
+}
+
+/** Put the original values back in place of the placeholders */
+export function restorePii(text: string, entities: RedactedEntity[]): string {
+  return entities.reduce((restored, entity) => restored.split(entity.placeholder).join(entity.value), text);
+}
+
+export function hasPiiPlaceholders(text: string): boolean {
+  return PLACEHOLDER_REGEX.test(text);
+}
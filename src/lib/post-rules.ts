@@ -0,0 +1,121 @@
+/**
+ * Platform rule checks for generated posts.
+ * Each violation carries a German message for the UI and an English instruction for the rewrite prompt.
+ */
+
+import type { Platform } from '@/config/platforms';
+import { PLATFORMS, countPostLength, getPlatformLimits } from '@/config/platforms';
+import { getHashtagRange } from '@/lib/hashtags';
+
+export type PostRule = 'too_short' | 'too_long' | 'hashtags' | 'emojis' | 'final_punctuation';
+
+export interface PostViolation {
+  rule: PostRule;
+  /** User-facing description (German) */
+  message: string;
+  /** What the model has to change (used in the repair prompt) */
+  instruction: string;
+}
+
+/** One rewrite round: what was wrong and how the post changed */
+export interface PostRepair {
+  attempt: number;
+  violations: PostViolation[];
+  before: string;
+  after: string;
+}
+
+/** Outcome of the validate-and-repair loop, recorded on the generated post */
+export interface PostCheck {
+  /** Violations left after the last attempt */
+  violations: PostViolation[];
+  repairs: PostRepair[];
+  /** Completion that produced the final post; its guardrail result is stored under this id */
+  generationId?: string;
+  /** Withheld by the blocking guardrail: the post failed the fact check */
+  quarantined?: boolean;
+  /** The blocking guardrail regenerated the post once before its final check */
+  regenerated?: boolean;
+}
+
+const HASHTAG_REGEX = /(^|\s)#[\p{L}\p{N}_]+/gu;
+const EMOJI_REGEX = /\p{Extended_Pictographic}/gu;
+// Closing quotes and brackets may follow the final punctuation
+const FINAL_PUNCTUATION_REGEX = /[.!?…]["'“”»)\]]*$/;
+
+export function countHashtags(post: string): number {
+  return post.match(HASHTAG_REGEX)?.length ?? 0;
+}
+
+export function countEmojis(post: string): number {
+  return post.match(EMOJI_REGEX)?.length ?? 0;
+}
+
+// Trailing hashtags and emojis are not part of the last sentence
+function stripPostTail(post: string): string {
+  return post
+    .replace(/(\s*(#[\p{L}\p{N}_]+|\p{Extended_Pictographic}|\u{FE0F}|\u{200D}))+\s*$/gu, '')
+    .trim();
+}
+
+/**
+ * Check a post against its platform's limits and rules.
+ * Returns an empty list for a post that is within spec.
+ */
+export function findPostViolations(post: string, platform: Platform): PostViolation[] {
+  const { rules } = PLATFORMS[platform];
+  const limits = getPlatformLimits(platform);
+  const violations: PostViolation[] = [];
+
+  const length = countPostLength(platform, post);
+  if (length < limits.min) {
+    violations.push({
+      rule: 'too_short',
+      message: `Post zu kurz (min. ${limits.min} Zeichen)`,
+      instruction: `The post has ${length} characters; expand it to at least ${limits.min} with substance from the source, not filler.`,
+    });
+  }
+  if (length > limits.max) {
+    violations.push({
+      rule: 'too_long',
+      message: `Post zu lang (max. ${limits.max} Zeichen)`,
+      instruction: `The post has ${length} characters; shorten it to at most ${limits.max} by tightening sentences, not by cutting the ending.`,
+    });
+  }
+
+  // The user's hashtag policy replaces the platform's hashtag rule
+  const { min, max } = getHashtagRange(platform);
+  const hashtags = countHashtags(post);
+  if (hashtags < min || hashtags > max) {
+    const expected = max === 0 ? 'keine Hashtags' : min === max ? `${min} Hashtags` : `${min}–${max} Hashtags`;
+    violations.push({
+      rule: 'hashtags',
+      message: `${hashtags} ${hashtags === 1 ? 'Hashtag' : 'Hashtags'}, erlaubt: ${expected}`,
+      instruction: max === 0
+        ? `Remove all ${hashtags} hashtags.`
+        : `Use ${min === max ? min : `${min}-${max}`} relevant hashtags at the very end (currently ${hashtags}).`,
+    });
+  }
+
+  const emojis = countEmojis(post);
+  if (rules.maxEmojis !== undefined && emojis > rules.maxEmojis) {
+    violations.push({
+      rule: 'emojis',
+      message: rules.maxEmojis === 0 ? `${emojis} Emojis, erlaubt: keine` : `${emojis} Emojis, erlaubt: max. ${rules.maxEmojis}`,
+      instruction: rules.maxEmojis === 0
+        ? `Remove all ${emojis} emojis.`
+        : `Use at most ${rules.maxEmojis} emojis (currently ${emojis}).`,
+    });
+  }
+
+  if (rules.finalPunctuation && !FINAL_PUNCTUATION_REGEX.test(stripPostTail(post))) {
+    violations.push({
+      rule: 'final_punctuation',
+      message: 'Letzter Satz endet nicht mit . ! oder ?',
+      instruction: 'The last sentence is incomplete or lacks final punctuation; end with a complete sentence (. ! or ?).',
+    });
+  }
+
+  return violations;
+}
+
@@ -0,0 +1,347 @@
+/**
+ * Offline prompt evaluation. Runs a prompt template against fixture articles through a pluggable
+ * model adapter (deterministic stub or recorded responses) and scores every post the way production
+ * does: validatePost, the platform rules and a local approximation of the guardrail rubric.
+ * Two runs are compared in a Markdown report. CLI: scripts/eval-prompts.ts
+ */
+
+import type { Platform } from '@/config/platforms';
+import { PLATFORMS, countPostLength, getPlatformLimits } from '@/config/platforms';
+import type { PostGoal } from '@/config/post-goals';
+import type { GuardrailLabel, GuardrailResult } from '@/api/guardrail';
+import { buildSinglePostPrompt, normalizeSinglePostResponse, validatePost } from '@/libs/promptBuilder';
+import { getTemplateVersion, type PromptTemplateId } from '@/libs/promptTemplates';
+import { findPostViolations, type PostRule } from '@/lib/post-rules';
+import { redactPii, restorePii } from '@/lib/pii-redaction';
+import { detectLanguage } from '@/lib/language';
+
+export interface EvalFixture {
+  /** File name without extension, e.g. "de-blog-datenschutz" */
+  id: string;
+  content: string;
+}
+
+export interface EvalRequest {
+  prompt: string;
+  platform: Platform;
+}
+
+/** Model adapter; returns the raw completion text */
+export interface EvalModel {
+  name: string;
+  complete(request: EvalRequest): Promise<string>;
+}
+
+/** Recorded completions by requestKey */
+export type EvalRecordings = Record<string, string>;
+
+export interface EvalCase {
+  fixture: string;
+  platform: Platform;
+  post: string;
+  /** Model or adapter error; the case is not scored */
+  error?: string;
+  /** validatePost message, null when the post is valid */
+  validation: string | null;
+  violations: PostRule[];
+  rubric: GuardrailResult;
+  passed: boolean;
+}
+
+export interface EvalRun {
+  /** e.g. "structured@1" */
+  templateVersion: string;
+  model: string;
+  goal?: PostGoal;
+  cases: EvalCase[];
+}
+
+export interface EvalSummary {
+  cases: number;
+  passed: number;
+  valid: number;
+  errors: number;
+  violations: number;
+  labels: Record<GuardrailLabel, number>;
+  factualAccuracy: number;
+  sourceFidelity: number;
+}
+
+export interface EvalOptions {
+  template: PromptTemplateId;
+  fixtures: EvalFixture[];
+  platforms: Platform[];
+  model: EvalModel;
+  goal?: PostGoal;
+}
+
+// FNV-1a, enough to tell prompts apart; recordings go stale whenever the prompt text changes
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Key of a request in the recordings file */
+export function requestKey({ prompt, platform }: EvalRequest): string {
+  return `${platform}:${hashText(prompt)}`;
+}
+
+function sourceOf(prompt: string): string {
+  const marker = 'Source Content: ';
+  return prompt.slice(prompt.lastIndexOf(marker) + marker.length);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .filter((line) => !line.startsWith('#'))
+    .join(' ')
+    .match(/[^.!?]+[.!?]+/g)
+    ?.map((sentence) => sentence.trim()) ?? [];
+}
+
+/**
+ * Deterministic local model: stitches source sentences into a post of the platform's target length.
+ * The prompt picks the starting sentence, so template changes show up as different posts;
+ * a GOAL line adds its first example closing line.
+ */
+export function createStubModel(): EvalModel {
+  return {
+    name: 'stub',
+    async complete({ prompt, platform }) {
+      const { min, max } = getPlatformLimits(platform);
+      const { hashtags } = PLATFORMS[platform].rules;
+      const sentences = splitSentences(sourceOf(prompt));
+      const closing = prompt.match(/GOAL:[^\n]*?\("([^"]+)"/)?.[1];
+      const keywords = [...new Set(sourceOf(prompt).match(/\p{Lu}\p{Ll}{7,}/gu) ?? [])];
+      const tags = keywords.slice(0, hashtags.min).map((word) => ` #${word}`).join('');
+      const target = (min + max) / 2 - (closing ? closing.length + 1 : 0) - tags.length;
+
+      const start = Number.parseInt(hashText(prompt), 16) % Math.max(1, sentences.length);
+      let post = '';
+      for (let i = 0; i < sentences.length; i++) {
+        const next = `${post} ${sentences[(start + i) % sentences.length]}`.trim();
+        if (post && countPostLength(platform, next) > target) break;
+        post = next;
+      }
+
+      return JSON.stringify({ post: `${[post, closing].filter(Boolean).join(' ')}${tags}` });
+    },
+  };
+}
+
+/**
+ * Replay recorded completions. With a `fallback` model, missing requests are sent there
+ * and added to `recordings`, so the caller can save them.
+ */
+export function createRecordedModel(recordings: EvalRecordings, fallback?: EvalModel): EvalModel {
+  return {
+    name: fallback ? `recorded+${fallback.name}` : 'recorded',
+    async complete(request) {
+      const key = requestKey(request);
+      if (key in recordings) return recordings[key];
+      if (!fallback) throw new Error(`No recorded response for ${key}`);
+
+      const response = await fallback.complete(request);
+      recordings[key] = response;
+      return response;
+    },
+  };
+}
+
+// "1.500" and "1,500" count as the same number as "1500"
+const normalizeNumber = (value: string) => value.replace(/[.,](?=\d{3}\b)/g, '');
+
+// Digits inside words and hashtags ("Q3", "#web3") are not claims
+const findNumbers = (text: string) =>
+  new Set((text.match(/(?<![\p{L}\d#])\d+(?:[.,]\d+)*/gu) ?? []).map(normalizeNumber));
+
+const stems = (text: string) =>
+  (text.toLowerCase().match(/\p{L}{6,}/gu) ?? []).map((word) => word.slice(0, 6));
+
+// Mirrors getGuardrailLabel in api/utils/guardrail.ts
+function labelFor(result: Omit<GuardrailResult, 'label'>): GuardrailLabel {
+  const minScore = Math.min(result.factual_accuracy, result.source_fidelity);
+  if (result.pii_detected) return 'fail';
+  return minScore >= 4 ? 'pass' : minScore >= 3 ? 'warn' : 'fail';
+}
+
+/**
+ * Offline stand-in for the guardrail rubric (factual accuracy, source fidelity, PII).
+ * Lexical only: numbers missing from the source lower the accuracy, words that do not come from
+ * the source lower the fidelity. Assumes post and source share a language.
+ */
+export function scoreRubric(post: string, source: string): GuardrailResult {
+  const issues: string[] = [];
+
+  const sourceNumbers = findNumbers(source);
+  const invented = [...findNumbers(post)].filter((value) => !sourceNumbers.has(value));
+  invented.forEach((value) => issues.push(`Zahl "${value}" steht nicht in der Quelle`));
+
+  const sourceStems = new Set(stems(source));
+  const postStems = stems(post);
+  const sharedRatio = postStems.length
+    ? postStems.filter((stem) => sourceStems.has(stem)).length / postStems.length
+    : 1;
+  const sourceFidelity = sharedRatio >= 0.7 ? 5 : sharedRatio >= 0.55 ? 4 : sharedRatio >= 0.4 ? 3 : sharedRatio >= 0.25 ? 2 : 1;
+  if (sourceFidelity < 4) {
+    issues.push(`Nur ${Math.round(sharedRatio * 100)} % der Begriffe stammen aus der Quelle`);
+  }
+
+  const leaked = redactPii(post).entities.filter((entity) => !source.includes(entity.value));
+  leaked.forEach((entity) => issues.push(`Personenbezogene Angabe ohne Quelle: ${entity.placeholder}`));
+
+  const result = {
+    factual_accuracy: Math.max(1, 5 - invented.length),
+    source_fidelity: sourceFidelity,
+    pii_detected: leaked.length > 0,
+    issues,
+  };
+  return { ...result, label: labelFor(result) };
+}
+
+const FAILED_RUBRIC: GuardrailResult = {
+  factual_accuracy: 1,
+  source_fidelity: 1,
+  pii_detected: false,
+  issues: [],
+  label: 'fail',
+};
+
+/**
+ * Generate and score one post per fixture and platform with the given template.
+ * Mirrors the production single-post flow: PII is redacted before prompting and restored afterwards.
+ */
+export async function runPromptEval({ template, fixtures, platforms, model, goal }: EvalOptions): Promise<EvalRun> {
+  const cases: EvalCase[] = [];
+
+  for (const fixture of fixtures) {
+    const redaction = redactPii(fixture.content);
+    const language = detectLanguage(fixture.content) ?? undefined;
+
+    for (const platform of platforms) {
+      const prompt = buildSinglePostPrompt(redaction.text, platform, undefined, undefined, { template, goal, language });
+      let post: string;
+      try {
+        const raw = await model.complete({ prompt, platform });
+        post = restorePii(normalizeSinglePostResponse(raw, platform), redaction.entities);
+      } catch (error) {
+        cases.push({
+          fixture: fixture.id,
+          platform,
+          post: '',
+          error: error instanceof Error ? error.message : String(error),
+          validation: null,
+          violations: [],
+          rubric: FAILED_RUBRIC,
+          passed: false,
+        });
+        continue;
+      }
+
+      let validation: string | null = null;
+      try {
+        validatePost(post, platform);
+      } catch (error) {
+        validation = error instanceof Error ? error.message : String(error);
+      }
+      const violations = findPostViolations(post, platform).map((violation) => violation.rule);
+      const rubric = scoreRubric(post, fixture.content);
+
+      cases.push({
+        fixture: fixture.id,
+        platform,
+        post,
+        validation,
+        violations,
+        rubric,
+        passed: validation === null && violations.length === 0 && rubric.label !== 'fail',
+      });
+    }
+  }
+
+  return { templateVersion: getTemplateVersion(template), model: model.name, goal, cases };
+}
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export function summarizeRun(run: EvalRun): EvalSummary {
+  const scored = run.cases.filter((evalCase) => !evalCase.error);
+  const labels: Record<GuardrailLabel, number> = { pass: 0, warn: 0, fail: 0 };
+  scored.forEach((evalCase) => labels[evalCase.rubric.label]++);
+
+  return {
+    cases: run.cases.length,
+    passed: run.cases.filter((evalCase) => evalCase.passed).length,
+    valid: scored.filter((evalCase) => evalCase.validation === null).length,
+    errors: run.cases.length - scored.length,
+    violations: scored.reduce((sum, evalCase) => sum + evalCase.violations.length, 0),
+    labels,
+    factualAccuracy: average(scored.map((evalCase) => evalCase.rubric.factual_accuracy)),
+    sourceFidelity: average(scored.map((evalCase) => evalCase.rubric.source_fidelity)),
+  };
+}
+
+function describeCase(evalCase: EvalCase | undefined): string {
+  if (!evalCase) return '–';
+  if (evalCase.error) return `⚠️ ${evalCase.error}`;
+  const findings = [
+    ...(evalCase.validation ? [evalCase.validation] : []),
+    ...evalCase.violations,
+    evalCase.rubric.label,
+  ];
+  return `${evalCase.passed ? '✅' : '❌'} ${findings.join(', ')}`;
+}
+
+const formatDelta = (delta: number, digits = 0) =>
+  delta === 0 ? '±0' : `${delta > 0 ? '+' : ''}${delta.toFixed(digits)}`;
+
+/** Markdown report: summary metrics side by side, then every case whose outcome changed */
+export function buildComparisonReport(base: EvalRun, head: EvalRun): string {
+  const before = summarizeRun(base);
+  const after = summarizeRun(head);
+  const metric = (label: string, a: number, b: number, digits = 0) =>
+    `| ${label} | ${a.toFixed(digits)} | ${b.toFixed(digits)} | ${formatDelta(b - a, digits)} |`;
+
+  const key = (evalCase: EvalCase) => `${evalCase.fixture}/${evalCase.platform}`;
+  const baseCases = new Map(base.cases.map((evalCase) => [key(evalCase), evalCase]));
+  const headCases = new Map(head.cases.map((evalCase) => [key(evalCase), evalCase]));
+  const changed = [...new Set([...baseCases.keys(), ...headCases.keys()])]
+    .filter((caseKey) => describeCase(baseCases.get(caseKey)) !== describeCase(headCases.get(caseKey)))
+    .map((caseKey) => {
+      const [fixture, platform] = caseKey.split('/');
+      return `| ${fixture} | ${platform} | ${describeCase(baseCases.get(caseKey))} | ${describeCase(headCases.get(caseKey))} |`;
+    });
+
+  return [
+    `# Prompt evaluation: ${base.templateVersion} → ${head.templateVersion}`,
+    '',
+    `Model: ${base.model === head.model ? head.model : `${base.model} → ${head.model}`}` +
+      (head.goal ? ` · Goal: ${head.goal}` : '') +
+      ` · ${after.cases} cases`,
+    '',
+    `| Metric | ${base.templateVersion} | ${head.templateVersion} | Δ |`,
+    '|---|---|---|---|',
+    metric('Passed', before.passed, after.passed),
+    metric('Valid (validatePost)', before.valid, after.valid),
+    metric('Rule violations', before.violations, after.violations),
+    metric('Guardrail pass', before.labels.pass, after.labels.pass),
+    metric('Guardrail warn', before.labels.warn, after.labels.warn),
+    metric('Guardrail fail', before.labels.fail, after.labels.fail),
+    metric('Ø factual accuracy', before.factualAccuracy, after.factualAccuracy, 2),
+    metric('Ø source fidelity', before.sourceFidelity, after.sourceFidelity, 2),
+    metric('Errors', before.errors, after.errors),
+    '',
+    '## Changed cases',
+    '',
+    ...(changed.length
+      ? ['| Fixture | Platform | Before | After |', '|---|---|---|---|', ...changed]
+      : ['No case changed its outcome.']),
+    '',
+  ].join('\n');
+}
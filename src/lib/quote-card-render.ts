@@ -0,0 +1,125 @@
+import { colors } from '@/design-system/tokens/colors';
+import { typography } from '@/design-system/tokens/typography';
+import {
+  QUOTE_CARD_FORMAT_META,
+  QUOTE_FONT_SCALE_META,
+  type QuoteCardFormat,
+  type QuoteCardLayout,
+  type QuoteFontScale,
+} from '@/config/quote-cards';
+import { FONT_FAMILY, canvasToBlob, fitText } from '@/lib/carousel-render';
+
+const PADDING = 108;
+const QUOTE_WEIGHT = Number(typography.fontWeight.bold);
+const ATTRIBUTION_WEIGHT = Number(typography.fontWeight.semibold);
+const QUOTE_LINE_HEIGHT = Number(typography.lineHeight.snug);
+const MARK_SIZE = 220;
+// The glyph sits low in its line box; the mark only takes this much vertical space
+const MARK_HEIGHT = 120;
+const ATTRIBUTION_SIZE = 36;
+const ATTRIBUTION_GAP = 56;
+
+export interface QuoteCardOptions {
+  quote: string;
+  /** Name or handle shown under the quote */
+  attribution?: string;
+  layout: QuoteCardLayout;
+  format: QuoteCardFormat;
+  fontScale: QuoteFontScale;
+}
+
+interface QuoteCardTheme {
+  text: string;
+  mark: string;
+  attribution: string;
+}
+
+function drawBackground(ctx: CanvasRenderingContext2D, layout: QuoteCardLayout, width: number, height: number): QuoteCardTheme {
+  switch (layout) {
+    case 'gradient': {
+      const gradient = ctx.createLinearGradient(0, 0, width, height);
+      gradient.addColorStop(0, colors.primary.DEFAULT);
+      gradient.addColorStop(1, colors.accent.DEFAULT);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      return { text: colors.primary.foreground, mark: colors.primary.light, attribution: colors.primary.foreground };
+    }
+    case 'minimal':
+      ctx.fillStyle = colors.background.DEFAULT;
+      ctx.fillRect(0, 0, width, height);
+      // Accent bar along the left edge
+      ctx.fillStyle = colors.primary.DEFAULT;
+      ctx.fillRect(0, 0, 24, height);
+      return { text: colors.foreground.DEFAULT, mark: colors.primary.DEFAULT, attribution: colors.foreground.muted };
+    case 'bold':
+      ctx.fillStyle = colors.dark.background;
+      ctx.fillRect(0, 0, width, height);
+      ctx.strokeStyle = colors.accent.DEFAULT;
+      ctx.lineWidth = 12;
+      ctx.strokeRect(PADDING / 2, PADDING / 2, width - PADDING, height - PADDING);
+      return { text: colors.dark.foreground, mark: colors.accent.DEFAULT, attribution: colors.dark['muted-foreground'] };
+  }
+}
+
+/**
+ * Draw a quote card onto a canvas of the format's size. The quote, its mark and the
+ * attribution are centred vertically as one block; long quotes shrink to fit.
+ */
+export function drawQuoteCard(
+  ctx: CanvasRenderingContext2D,
+  { quote, attribution, layout, format, fontScale }: QuoteCardOptions
+) {
+  const { width, height } = QUOTE_CARD_FORMAT_META[format];
+  const { factor } = QUOTE_FONT_SCALE_META[fontScale];
+  const byline = attribution?.trim() ? `— ${attribution.trim()}` : '';
+  const bylineHeight = byline ? ATTRIBUTION_GAP + ATTRIBUTION_SIZE : 0;
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  const theme = drawBackground(ctx, layout, width, height);
+
+  const text = fitText(ctx, quote, {
+    maxWidth: width - PADDING * 2,
+    maxHeight: height - PADDING * 2 - MARK_HEIGHT - bylineHeight,
+    fontSize: Math.round((format === 'portrait' ? 76 : 68) * factor),
+    minFontSize: 32,
+    weight: QUOTE_WEIGHT,
+    lineHeight: QUOTE_LINE_HEIGHT,
+  });
+  const quoteFont = ctx.font;
+  let y = Math.max(PADDING, (height - (MARK_HEIGHT + text.height + bylineHeight)) / 2);
+
+  ctx.fillStyle = theme.mark;
+  ctx.font = `${Number(typography.fontWeight.black)} ${MARK_SIZE}px ${FONT_FAMILY}`;
+  // Pull the glyph up so its visible part fills the MARK_HEIGHT slot
+  ctx.fillText('“', PADDING - 8, y - MARK_SIZE * 0.25);
+  y += MARK_HEIGHT;
+
+  ctx.fillStyle = theme.text;
+  ctx.font = quoteFont;
+  text.lines.forEach((line, i) => ctx.fillText(line, PADDING, y + i * text.lineStep));
+  y += text.height;
+
+  if (byline) {
+    ctx.fillStyle = theme.attribution;
+    ctx.font = `${ATTRIBUTION_WEIGHT} ${ATTRIBUTION_SIZE}px ${FONT_FAMILY}`;
+    ctx.fillText(byline, PADDING, y + ATTRIBUTION_GAP, width - PADDING * 2);
+  }
+}
+
+/** Render a quote card to a PNG blob */
+export async function renderQuoteCard(options: QuoteCardOptions): Promise<Blob> {
+  const { width, height } = QUOTE_CARD_FORMAT_META[options.format];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas wird von diesem Browser nicht unterstützt');
+
+  // Make sure the brand font is ready before measuring text
+  await document.fonts?.ready;
+
+  drawQuoteCard(ctx, options);
+  return canvasToBlob(canvas, 'image/png');
+}
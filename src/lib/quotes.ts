@@ -0,0 +1,84 @@
+/**
+ * Quote extraction: candidate sentences are picked from the source locally, the model only
+ * ranks them by number (see buildQuotesPrompt), so every quote is verbatim from the source.
+ */
+
+import { parseJsonObject } from '@/libs/postSchema';
+
+export const QUOTE_MIN_LENGTH = 40;
+export const QUOTE_MAX_LENGTH = 220;
+/** Sentences sent to the model; keeps the request small for long sources */
+export const MAX_QUOTE_CANDIDATES = 60;
+export const MAX_QUOTES = 5;
+
+// Sentences end at punctuation (and closing quotes) followed by a space, so e-mail addresses stay whole
+const SENTENCE_BREAK_REGEX = /(?<=[.!?…]["'“”»)\]]*)\s+/;
+const LIST_MARKER_REGEX = /^(?:#{1,6}|[-*•>]|\d+[.)])\s+/;
+// Short word before the final period: an abbreviation ("z. B.", "Dr.") cut the sentence
+const ABBREVIATION_END_REGEX = /(?:^|\s)\p{L}{1,3}\.$/u;
+
+const PERSONAL_REGEX = /\b(?:ich|wir|du|ihr|uns|mein|unser|i|we|you|my|our)\b/iu;
+const CONTRAST_REGEX = /\b(?:aber|nicht|kein|keine|nie|niemals|statt|sondern|but|not|never|no|instead)\b/iu;
+
+function scoreSentence(sentence: string): number {
+  let score = 0;
+  if (/\d/.test(sentence)) score += 2;
+  if (PERSONAL_REGEX.test(sentence)) score += 2;
+  if (CONTRAST_REGEX.test(sentence)) score += 2;
+  if (/[!?]["'“”»]?$/.test(sentence)) score += 1;
+  if (sentence.length >= 60 && sentence.length <= 160) score += 1;
+  return score;
+}
+
+function isQuotable(sentence: string): boolean {
+  return (
+    sentence.length >= QUOTE_MIN_LENGTH &&
+    sentence.length <= QUOTE_MAX_LENGTH &&
+    /^["'“„»(]?[\p{Lu}\p{N}]/u.test(sentence) &&
+    !ABBREVIATION_END_REGEX.test(sentence) &&
+    !/:$/.test(sentence) &&
+    !/https?:\/\/|www\./.test(sentence)
+  );
+}
+
+/**
+ * Sentences of the source that could stand alone as a quote, in source order. Longer sources
+ * keep the MAX_QUOTE_CANDIDATES sentences with the most concrete, personal or contrasting wording.
+ */
+export function findQuoteCandidates(source: string): string[] {
+  const sentences = source
+    .split('\n')
+    .map((line) => line.replace(LIST_MARKER_REGEX, ''))
+    .flatMap((line) => line.split(SENTENCE_BREAK_REGEX))
+    .map((sentence) => sentence.trim())
+    .filter(isQuotable);
+  const unique = [...new Set(sentences)];
+  if (unique.length <= MAX_QUOTE_CANDIDATES) return unique;
+
+  const kept = new Set(
+    unique
+      .map((sentence, index) => ({ sentence, index, score: scoreSentence(sentence) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, MAX_QUOTE_CANDIDATES)
+      .map(({ sentence }) => sentence)
+  );
+  return unique.filter((sentence) => kept.has(sentence));
+}
+
+/**
+ * Read the chosen candidate numbers (from 1) and return those sentences, best first.
+ * Throws with a user-facing message if none is valid.
+ */
+export function parseQuotesResponse(text: string, candidates: string[]): string[] {
+  const data = parseJsonObject(text);
+  if (!data || !Array.isArray(data.quotes)) {
+    throw new Error('Zitat-Antwort enthält kein gültiges JSON');
+  }
+
+  const quotes = data.quotes
+    .filter((number): number is number => Number.isInteger(number) && number >= 1 && number <= candidates.length)
+    .map((number) => candidates[number - 1]);
+  const unique = [...new Set(quotes)].slice(0, MAX_QUOTES);
+  if (unique.length === 0) throw new Error('Keine zitierfähigen Sätze gefunden.');
+  return unique;
+}
@@ -0,0 +1,195 @@
+/**
+ * Readability and style analysis of a post: local and deterministic, no API calls.
+ * Scores use Amstad's German adaptation of Flesch Reading Ease for German and the original formula
+ * for English; other languages get the language-neutral metrics only.
+ */
+
+import { PLATFORMS, type Platform, type StyleTargets, type TargetRange } from '@/config/platforms';
+import { BUZZWORDS, FILLER_WORDS } from '@/config/style-words';
+import { countEmojis } from '@/lib/post-rules';
+import { detectLanguage, type OutputLanguage } from '@/lib/language';
+
+export interface StyleAnalysis {
+  /** Language the analysis assumed: the post's language, detected, or German */
+  language: OutputLanguage;
+  words: number;
+  sentences: number;
+  /** 0 (hard) to 100 (easy); null for empty posts and languages without a formula */
+  readability: number | null;
+  /** Average words per sentence */
+  sentenceLength: number;
+  /** Sentences in passive voice */
+  passiveSentences: string[];
+  /** Percent of sentences in passive voice */
+  passiveShare: number;
+  fillerWords: string[];
+  buzzwords: string[];
+  /** Line breaks per 100 words */
+  lineBreaks: number;
+  emojis: number;
+}
+
+export type StyleMetricId = keyof StyleTargets;
+
+export interface StyleMetric {
+  id: StyleMetricId;
+  label: string;
+  /** Display value, e.g. "64 (leicht)" */
+  value: string;
+  target: TargetRange;
+  /** False when outside the platform's target range; metrics without a value are always in range */
+  inRange: boolean;
+  /** Words or sentences that caused the value */
+  hits?: string[];
+}
+
+export const DEFAULT_STYLE_TARGETS: StyleTargets = {
+  readability: { min: 50 },
+  sentenceLength: { max: 18 },
+  passiveShare: { max: 20 },
+  fillerWords: { max: 2 },
+  buzzwords: { max: 0 },
+  lineBreaks: {},
+  emojis: { max: 5 },
+};
+
+const WORD_REGEX = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+// Hashtags, mentions and links are not prose
+const NON_PROSE_REGEX = /(?:https?:\/\/|www\.)\S+|[#@][\p{L}\p{N}_.]+/gu;
+// Sentence ends, and line breaks (list items and short lines read as sentences of their own)
+const SENTENCE_SPLIT_REGEX = /(?<=[.!?…])["'“”»)\]]*\s+|\n+/u;
+
+const PASSIVE_PATTERNS: Partial<Record<OutputLanguage, RegExp>> = {
+  // Form of "werden" plus a participle, also with a separable prefix ("umgestellt");
+  // "wird gewinnen" (future tense) is a known false positive
+  de: /\b(?:wird|werden|wurde|wurden|worden|wirst|werdet|würde|würden)\b.*(?:\b\p{L}*ge\p{L}{2,}(?:t|en)\b|\b\p{L}{3,}iert\b)/iu,
+  en: /\b(?:am|is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?(?:\w+ed|done|made|taken|given|seen|written|built|found|told|shown|known|sold|paid|held|kept|brought|bought|chosen|driven)\b/iu,
+};
+
+function countSyllables(word: string, language: OutputLanguage): number {
+  const groups = word.toLowerCase().match(/[aeiouyäöüéèàâ]+/g)?.length ?? 0;
+  // Silent final "e" in English ("make"), but not in "-le" endings ("simple")
+  const silent = language === 'en' && /[^l]e$/.test(word.toLowerCase()) && groups > 1 ? 1 : 0;
+  return Math.max(1, groups - silent);
+}
+
+function findWords(text: string, list: string[], prefix: boolean): string[] {
+  const lower = ` ${text.toLocaleLowerCase().replace(/\s+/g, ' ')} `;
+  const words = text.match(WORD_REGEX) ?? [];
+  const hits: string[] = [];
+  for (const entry of list) {
+    if (entry.includes(' ')) {
+      const count = lower.split(` ${entry} `).length - 1;
+      for (let i = 0; i < count; i++) hits.push(entry);
+    } else {
+      hits.push(...words.filter((word) => {
+        const key = word.toLocaleLowerCase();
+        return prefix ? key.startsWith(entry) : key === entry;
+      }));
+    }
+  }
+  return hits;
+}
+
+const round = (value: number, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Analyze a post. Without `language` the language is detected from the text; short posts
+ * that give no clear signal are treated as German.
+ */
+export function analyzeStyle(post: string, language?: OutputLanguage): StyleAnalysis {
+  const detected = language ?? detectLanguage(post) ?? 'de';
+  const lists = detected === 'en' || detected === 'de' ? detected : null;
+  const prose = post.replace(NON_PROSE_REGEX, ' ');
+
+  const sentences = prose
+    .split(SENTENCE_SPLIT_REGEX)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[\p{L}\p{N}]/u.test(sentence));
+  const words = prose.match(WORD_REGEX) ?? [];
+  const wordCount = words.length;
+  const sentenceCount = Math.max(1, sentences.length);
+  const sentenceLength = wordCount / sentenceCount;
+
+  let readability: number | null = null;
+  if (wordCount > 0 && (detected === 'de' || detected === 'en')) {
+    const syllables = words.reduce((sum, word) => sum + countSyllables(word, detected), 0) / wordCount;
+    const score = detected === 'de'
+      ? 180 - sentenceLength - 58.5 * syllables
+      : 206.835 - 1.015 * sentenceLength - 84.6 * syllables;
+    readability = round(Math.min(100, Math.max(0, score)));
+  }
+
+  const passive = PASSIVE_PATTERNS[detected];
+  const passiveSentences = passive ? sentences.filter((sentence) => passive.test(sentence)) : [];
+
+  return {
+    language: detected,
+    words: wordCount,
+    sentences: sentences.length,
+    readability,
+    sentenceLength: round(sentenceLength, 1),
+    passiveSentences,
+    passiveShare: sentences.length > 0 ? round((passiveSentences.length / sentences.length) * 100) : 0,
+    fillerWords: lists ? findWords(prose, FILLER_WORDS[lists], false) : [],
+    buzzwords: lists ? findWords(prose, BUZZWORDS[lists], true) : [],
+    lineBreaks: wordCount > 0 ? round(((post.trim().match(/\n/g)?.length ?? 0) / wordCount) * 100, 1) : 0,
+    emojis: countEmojis(post),
+  };
+}
+
+/** Style targets of a platform: the defaults, its own overrides and the emoji limit of its rules */
+export function getStyleTargets(platform: Platform): StyleTargets {
+  const { rules, style } = PLATFORMS[platform];
+  const emojis = rules.maxEmojis !== undefined ? { max: rules.maxEmojis } : DEFAULT_STYLE_TARGETS.emojis;
+  return { ...DEFAULT_STYLE_TARGETS, emojis, ...style };
+}
+
+export function isInRange(value: number, { min, max }: TargetRange): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+export function formatTargetRange({ min, max }: TargetRange): string {
+  if (min !== undefined && max !== undefined) return min === max ? `${min}` : `${min}–${max}`;
+  if (min !== undefined) return `≥ ${min}`;
+  if (max !== undefined) return `≤ ${max}`;
+  return '–';
+}
+
+function readabilityBand(score: number): string {
+  if (score >= 80) return 'sehr leicht';
+  if (score >= 60) return 'leicht';
+  if (score >= 50) return 'mittel';
+  if (score >= 30) return 'schwer';
+  return 'sehr schwer';
+}
+
+/** The analysis as panel rows, each checked against the platform's target range */
+export function evaluateStyle(analysis: StyleAnalysis, platform: Platform): StyleMetric[] {
+  const targets = getStyleTargets(platform);
+  const metric = (id: StyleMetricId, label: string, value: number | null, display: string, hits?: string[]): StyleMetric => ({
+    id,
+    label,
+    value: display,
+    target: targets[id],
+    inRange: value === null || isInRange(value, targets[id]),
+    hits,
+  });
+
+  return [
+    metric(
+      'readability',
+      analysis.language === 'en' ? 'Lesbarkeit (Flesch)' : 'Lesbarkeit (Amstad)',
+      analysis.readability,
+      analysis.readability !== null
+        ? `${analysis.readability} (${readabilityBand(analysis.readability)})`
+        : analysis.words > 0 ? 'nur Deutsch/Englisch' : '–'
+    ),
+    metric('sentenceLength', 'Ø Satzlänge', analysis.sentenceLength, `${analysis.sentenceLength.toLocaleString('de-DE')} Wörter`),
+    metric('passiveShare', 'Passiv', analysis.passiveShare, `${analysis.passiveShare} % der Sätze`, analysis.passiveSentences),
+    metric('fillerWords', 'Füllwörter', analysis.fillerWords.length, `${analysis.fillerWords.length}`, analysis.fillerWords),
+    metric('buzzwords', 'Buzzwords', analysis.buzzwords.length, `${analysis.buzzwords.length}`, analysis.buzzwords),
+    metric('lineBreaks', 'Zeilenumbrüche', analysis.lineBreaks, `${analysis.lineBreaks.toLocaleString('de-DE')} pro 100 Wörter`),
+    metric('emojis', 'Emojis', analysis.emojis, `${analysis.emojis}`),
+  ];
+}
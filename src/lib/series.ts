@@ -0,0 +1,159 @@
+/**
+ * Content series: 5-10 distinct angles found in one source, one post per angle and platform,
+ * planned on suggested publish dates. The model returns angles and posts as JSON
+ * (see buildSeriesAnglesPrompt and buildSeriesPostsPrompt).
+ */
+
+import type { Platform } from '@/config/platforms';
+import { SERIES_CADENCE_META, type SeriesCadence } from '@/config/series';
+import { splitHook } from '@/lib/hook-workshop';
+import { parseJsonObject, repairPostField } from '@/libs/postSchema';
+
+export const MIN_SERIES_ANGLES = 5;
+export const MAX_SERIES_ANGLES = 10;
+export const SERIES_NAME_MAX_LENGTH = 80;
+
+export interface SeriesAngle {
+  /** Short label, e.g. "Was beim Onboarding schiefging" */
+  title: string;
+  /** What the post covers and which part of the source it draws on */
+  focus: string;
+}
+
+export interface SeriesEntry {
+  id: string;
+  angle: SeriesAngle;
+  /** Suggested publish date, YYYY-MM-DD */
+  publishDate: string;
+  posts: Partial<Record<Platform, string>>;
+}
+
+export interface ContentSeries {
+  name: string;
+  entries: SeriesEntry[];
+}
+
+let entryCounter = 0;
+
+export function createSeriesEntry(angle: SeriesAngle, publishDate: string, posts: SeriesEntry['posts'] = {}): SeriesEntry {
+  entryCounter += 1;
+  return { id: `series-${Date.now()}-${entryCounter}`, angle, publishDate, posts };
+}
+
+const textKey = (text: string) => text.toLocaleLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Parse the angles JSON returned by the model. Untitled and duplicate angles are dropped;
+ * throws with a user-facing message if fewer than MIN_SERIES_ANGLES remain.
+ */
+export function parseSeriesAnglesResponse(text: string): SeriesAngle[] {
+  const data = parseJsonObject(text);
+  if (!data || !Array.isArray(data.angles)) {
+    throw new Error('Serien-Antwort enthält kein gültiges JSON');
+  }
+
+  const seen = new Set<string>();
+  const angles: SeriesAngle[] = [];
+  for (const item of data.angles) {
+    if (typeof item !== 'object' || item === null) continue;
+    const { title, focus } = item as Record<string, unknown>;
+    if (typeof title !== 'string' || !textKey(title) || seen.has(textKey(title))) continue;
+
+    seen.add(textKey(title));
+    angles.push({ title: title.trim(), focus: typeof focus === 'string' ? focus.trim() : '' });
+    if (angles.length === MAX_SERIES_ANGLES) break;
+  }
+
+  if (angles.length < MIN_SERIES_ANGLES) {
+    throw new Error('Zu wenige Blickwinkel für eine Serie gefunden. Bitte einen längeren Text verwenden.');
+  }
+  return angles;
+}
+
+/**
+ * Parse one platform's series posts, ordered by angle (the JSON numbers angles from 1).
+ * Throws with a user-facing message unless every angle has a valid post.
+ */
+export function parseSeriesPostsResponse(text: string, platform: Platform, angleCount: number): string[] {
+  const data = parseJsonObject(text);
+  if (!data || !Array.isArray(data.posts)) {
+    throw new Error('Serien-Antwort enthält kein gültiges JSON');
+  }
+
+  const posts: string[] = [];
+  for (const item of data.posts) {
+    if (typeof item !== 'object' || item === null) continue;
+    const { angle, post } = item as Record<string, unknown>;
+    const index = typeof angle === 'number' ? angle - 1 : -1;
+    const content = repairPostField(post, platform);
+    if (index < 0 || index >= angleCount || posts[index] || !content) continue;
+    posts[index] = content;
+  }
+
+  if (Array.from({ length: angleCount }, (_, i) => posts[i]).some((post) => !post)) {
+    throw new Error('Serien-Posts unvollständig. Bitte erneut versuchen.');
+  }
+  return posts;
+}
+
+/** Indexes of posts whose first line repeats the first line of an earlier post */
+export function findRepeatedHooks(posts: string[]): number[] {
+  const seen = new Set<string>();
+  const repeated: number[] = [];
+  posts.forEach((post, i) => {
+    const key = textKey(splitHook(post).hook);
+    if (seen.has(key)) repeated.push(i);
+    seen.add(key);
+  });
+  return repeated;
+}
+
+/** First alternative hook that no post of the series opens with yet */
+export function pickUnusedHook(posts: string[], hooks: string[]): string | null {
+  const used = new Set(posts.map((post) => textKey(splitHook(post).hook)));
+  return hooks.find((hook) => !used.has(textKey(hook))) ?? null;
+}
+
+// Dates are plain calendar days in local time; toISOString would shift them across midnight
+function toDateString(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDateString(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Next Monday after `today`, the default start of a series */
+export function defaultSeriesStart(today = new Date()): string {
+  const date = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  date.setDate(date.getDate() + (((8 - date.getDay()) % 7) || 7));
+  return toDateString(date);
+}
+
+/** The first `count` publishing days of the cadence, from `start` (YYYY-MM-DD) on */
+export function suggestPublishDates(start: string, count: number, cadence: SeriesCadence): string[] {
+  const { weekdays } = SERIES_CADENCE_META[cadence];
+  const date = parseDateString(start);
+  if (Number.isNaN(date.getTime())) return [];
+  const dates: string[] = [];
+  while (dates.length < count) {
+    if (weekdays.includes(date.getDay())) dates.push(toDateString(date));
+    date.setDate(date.getDate() + 1);
+  }
+  return dates;
+}
+
+/** Move an entry to another position; the publish dates stay with their slots */
+export function moveSeriesEntry(entries: SeriesEntry[], from: number, to: number): SeriesEntry[] {
+  if (to < 0 || to >= entries.length || from === to) return entries;
+  const reordered = [...entries];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered.map((entry, i) => ({ ...entry, publishDate: entries[i].publishDate }));
+}
+
+export function formatPublishDate(value: string): string {
+  return parseDateString(value).toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit' });
+}
@@ -0,0 +1,148 @@
+/**
+ * Map-reduce for long sources: the source is split into sections along its markdown headings,
+ * each section is summarized as key points (see buildKeyPointsPrompt), and posts are generated
+ * from the merged key points instead of the raw text.
+ */
+
+import { parseJsonObject } from '@/libs/postSchema';
+
+/** Sources from this length on are digested before generation (about 2,000 words) */
+export const LONG_SOURCE_MIN_CHARS = 12_000;
+
+/** Longest source accepted at all; sections grow to stay within MAX_SECTIONS */
+export const MAX_SOURCE_CHARS = 400_000;
+
+/** Target size of one section; headings split first, long sections are cut at paragraphs */
+export const SECTION_MAX_CHARS = 8_000;
+
+/** One key-point request per section */
+export const MAX_SECTIONS = 12;
+
+export const MIN_KEY_POINTS = 3;
+export const MAX_KEY_POINTS = 6;
+export const KEY_POINT_MAX_LENGTH = 200;
+
+/** JSON field that holds the key points */
+export const KEY_POINTS_FIELD = 'keyPoints';
+
+export interface SourceSection {
+  /** Heading(s) of the section; empty for text before the first heading */
+  title: string;
+  text: string;
+}
+
+export interface SourceDigest {
+  /** Source text the digest was made from */
+  source: string;
+  sections: Array<{ title: string; keyPoints: string[] }>;
+  /** Merged key points, used as the source of every post */
+  text: string;
+}
+
+const HEADING_REGEX = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+export function isLongSource(text: string): boolean {
+  return text.trim().length >= LONG_SOURCE_MIN_CHARS;
+}
+
+function splitAtHeadings(text: string): SourceSection[] {
+  const sections: SourceSection[] = [];
+  let current: { title: string; lines: string[] } = { title: '', lines: [] };
+  const flush = () => {
+    const body = current.lines.join('\n').trim();
+    if (body) sections.push({ title: current.title, text: body });
+  };
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      flush();
+      current = { title: heading[1], lines: [line] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+// Cut at the last paragraph, line, sentence or word break in the second half of the window
+function breakAt(window: string): number {
+  for (const separator of ['\n\n', '\n', '. ', ' ']) {
+    const index = window.lastIndexOf(separator);
+    if (index >= window.length / 2) return index + separator.length;
+  }
+  return window.length;
+}
+
+function chunkText(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    const end = breakAt(rest.slice(0, size));
+    chunks.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+// Long sections are cut into parts, short neighbours share one section
+function packSections(blocks: SourceSection[], size: number): SourceSection[] {
+  const sections: SourceSection[] = [];
+  for (const block of blocks) {
+    const chunks = chunkText(block.text, size);
+    chunks.forEach((chunk, i) => {
+      const title = chunks.length > 1 && block.title ? `${block.title} (Teil ${i + 1})` : block.title;
+      const last = sections[sections.length - 1];
+      if (last && last.text.length + chunk.length + 2 <= size) {
+        last.text = `${last.text}\n\n${chunk}`;
+        last.title = [last.title, title].filter(Boolean).join(' · ');
+      } else {
+        sections.push({ title, text: chunk });
+      }
+    });
+  }
+  return sections;
+}
+
+/**
+ * Split a source into at most MAX_SECTIONS sections along its markdown headings.
+ * Sources without headings (transcripts) are cut at paragraph and line breaks.
+ */
+export function splitSource(text: string): SourceSection[] {
+  const blocks = splitAtHeadings(text);
+  let size = SECTION_MAX_CHARS;
+  let sections = packSections(blocks, size);
+  while (sections.length > MAX_SECTIONS) {
+    size = Math.ceil(size * 1.5);
+    sections = packSections(blocks, size);
+  }
+  return sections;
+}
+
+/** Parse the key points JSON returned by the model; a section without anything worth keeping may return none */
+export function parseKeyPointsResponse(text: string): string[] {
+  const field = parseJsonObject(text)?.[KEY_POINTS_FIELD];
+  if (!Array.isArray(field)) {
+    throw new Error('Kernaussagen-Antwort enthält kein gültiges JSON');
+  }
+
+  const points = field
+    .filter((point): point is string => typeof point === 'string')
+    .map((point) => point.replace(/^\s*(?:[-•*]|\d+[.)])\s+/, '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  return [...new Set(points)].slice(0, MAX_KEY_POINTS);
+}
+
+export const sectionLabel = (title: string, index: number) => title || `Abschnitt ${index + 1}`;
+
+/** Reduce step: the key points of all sections as one markdown source, in source order */
+export function buildDigestText(sections: SourceDigest['sections']): string {
+  return sections
+    .map((section, i) => section.keyPoints.length > 0
+      ? `## ${sectionLabel(section.title, i)}\n${section.keyPoints.map((point) => `- ${point}`).join('\n')}`
+      : '')
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -0,0 +1,51 @@
+/**
+ * Read a Server-Sent Events body and yield the parsed JSON of each `data:` event.
+ * Matches the wire format of our edge functions (`data: {...}\n\n`); malformed events are skipped.
+ */
+export async function* readSseEvents(
+  body: ReadableStream<Uint8Array>,
+  { idleTimeout, onTimeout }: { idleTimeout?: number; onTimeout?: () => void } = {}
+): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  // Abort when the server stops sending, not after a fixed total duration
+  const armTimeout = () => {
+    if (!idleTimeout || !onTimeout) return;
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(onTimeout, idleTimeout);
+  };
+
+  try {
+    armTimeout();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      armTimeout();
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      // Keep the last incomplete chunk in buffer
+      buffer = events.pop() || '';
+
+      for (const eventStr of events) {
+        const dataLine = eventStr.trim();
+        if (!dataLine.startsWith('data: ')) continue;
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(dataLine.slice(6));
+        } catch {
+          // Malformed JSON - skip this event
+          continue;
+        }
+        yield parsed;
+      }
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Truncate text to max length, ensuring it ends with a complete sentence.
+ * Never cuts off mid-sentence or mid-word.
+ */
+export function truncateToCompleteSentence(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  // Find the portion within the limit
+  const truncated = text.slice(0, maxLength);
+
+  // Find the last sentence-ending punctuation (. ! ?)
+  const lastPeriod = truncated.lastIndexOf('.');
+  const lastQuestion = truncated.lastIndexOf('?');
+  const lastExclamation = truncated.lastIndexOf('!');
+
+  // Get the position of the last sentence ending
+  const lastSentenceEnd = Math.max(lastPeriod, lastQuestion, lastExclamation);
+
+  // If we found a sentence ending, use it
+  if (lastSentenceEnd > maxLength * 0.3) { // At least 30% of content preserved
+    return text.slice(0, lastSentenceEnd + 1).trim();
+  }
+
+  // Fallback: find the last space to avoid cutting mid-word
+  const lastSpace = truncated.lastIndexOf(' ');
+  if (lastSpace > maxLength * 0.5) {
+    return text.slice(0, lastSpace).trim() + '...';
+  }
+
+  // Last resort: just cut at limit (shouldn't happen with good AI output)
+  return truncated.trim();
+}
+
+interface GraphemeSegmenter {
+  segment(input: string): Iterable<unknown>;
+}
+
+type SegmenterConstructor = new (locales?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter;
+
+const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+const graphemeSegmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+
+/**
+ * Count user-perceived characters (grapheme clusters), e.g. 👩‍💻 counts as 1.
+ * Falls back to code points where Intl.Segmenter is unavailable.
+ */
+export function countGraphemes(text: string): number {
+  if (!graphemeSegmenter) return Array.from(text).length;
+  return Array.from(graphemeSegmenter.segment(text)).length;
+}
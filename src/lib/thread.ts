@@ -0,0 +1,159 @@
+/**
+ * Helpers for X threads.
+ * A thread is stored as one string (tweets joined by THREAD_SEPARATOR), so saving,
+ * editing state and exports keep working with plain post strings.
+ * Numbering ("1/5") is added on display and share, never stored.
+ */
+
+export const THREAD_SEPARATOR = '\n\n---\n\n';
+export const TWEET_MAX_LENGTH = 280;
+export const MIN_THREAD_TWEETS = 2;
+export const MAX_THREAD_TWEETS = 12;
+
+const SEPARATOR_REGEX = /\n\s*---\s*\n/;
+
+export function isThread(content: string): boolean {
+  return SEPARATOR_REGEX.test(content);
+}
+
+export function splitThread(content: string): string[] {
+  return content
+    .split(SEPARATOR_REGEX)
+    .map((tweet) => tweet.trim())
+    .filter(Boolean);
+}
+
+export function joinThread(tweets: string[]): string {
+  return tweets.map((tweet) => tweet.trim()).join(THREAD_SEPARATOR);
+}
+
+/** Marker appended to each tweet, e.g. " 2/5" */
+export function threadMarker(index: number, total: number): string {
+  return ` ${index + 1}/${total}`;
+}
+
+/** Tweets with numbering, ready to post */
+export function numberThread(tweets: string[]): string[] {
+  return tweets.map((tweet, i) => `${tweet}${threadMarker(i, tweets.length)}`);
+}
+
+/** Length of a tweet including its thread marker */
+export function threadTweetLength(tweet: string, index: number, total: number): number {
+  return tweet.length + threadMarker(index, total).length;
+}
+
+/** Indices of tweets that exceed the limit once numbered */
+export function findOverlongTweets(tweets: string[], maxLength = TWEET_MAX_LENGTH): number[] {
+  return tweets.flatMap((tweet, i) => (threadTweetLength(tweet, i, tweets.length) > maxLength ? [i] : []));
+}
+
+/**
+ * Parse a model response into tweets.
+ * Accepts "1/ ...", "1. ...", "1) ...", "Tweet 1: ..." numbering or "---" separators.
+ */
+export function parseThreadResponse(text: string): string[] {
+  const cleaned = text
+    .trim()
+    .replace(/^\s*(THREAD|X):\s*/i, '');
+
+  if (SEPARATOR_REGEX.test(cleaned)) {
+    return splitThread(cleaned).map(stripTweetNumbering).filter(Boolean);
+  }
+
+  const numbered = cleaned
+    .split(/\n(?=\s*(?:Tweet\s*)?\d+\s*(?:\/\d*|[.):])\s)/i)
+    .map(stripTweetNumbering)
+    .filter(Boolean);
+
+  if (numbered.length >= MIN_THREAD_TWEETS) return numbered;
+
+  // No numbering: treat blank-line separated paragraphs as tweets
+  return cleaned
+    .split(/\n\s*\n/)
+    .map(stripTweetNumbering)
+    .filter(Boolean);
+}
+
+function stripTweetNumbering(tweet: string): string {
+  return tweet
+    .trim()
+    .replace(/^(?:Tweet\s*)?\d+\s*(?:\/\d*|[.):])\s*/i, '')
+    .replace(/\s*\(?\d+\/\d+\)?\s*$/, '')
+    .replace(/\s*🧵\s*$/u, '')
+    .trim();
+}
+
+/** Move a tweet to a new position */
+export function moveTweet(tweets: string[], from: number, to: number): string[] {
+  if (from === to || to < 0 || to >= tweets.length) return tweets;
+  const next = [...tweets];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/** Merge a tweet with the one after it */
+export function mergeWithNext(tweets: string[], index: number): string[] {
+  if (index < 0 || index >= tweets.length - 1) return tweets;
+  const next = [...tweets];
+  next.splice(index, 2, `${tweets[index]} ${tweets[index + 1]}`.trim());
+  return next;
+}
+
+/**
+ * Split a tweet in two. Splits at `at` (e.g. the cursor position) when given,
+ * otherwise at the sentence boundary closest to the middle.
+ */
+export function splitTweet(tweets: string[], index: number, at?: number): string[] {
+  const tweet = tweets[index];
+  if (tweet === undefined) return tweets;
+
+  const position = at !== undefined && at > 0 && at < tweet.length ? at : findSplitPoint(tweet);
+  const first = tweet.slice(0, position).trim();
+  const second = tweet.slice(position).trim();
+  if (!first || !second) return tweets;
+
+  const next = [...tweets];
+  next.splice(index, 1, first, second);
+  return next;
+}
+
+function findSplitPoint(tweet: string): number {
+  const middle = tweet.length / 2;
+  let best = -1;
+
+  for (const match of tweet.matchAll(/[.!?…]\s+/g)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (best === -1 || Math.abs(end - middle) < Math.abs(best - middle)) best = end;
+  }
+  if (best > 0 && best < tweet.length) return best;
+
+  const space = tweet.lastIndexOf(' ', Math.floor(middle));
+  return space > 0 ? space : Math.floor(middle);
+}
+
+/**
+ * Split overlong tweets until every numbered tweet fits the limit.
+ * The numbering grows with the tweet count, so this re-checks after each split.
+ */
+export function fitThread(tweets: string[], maxLength = TWEET_MAX_LENGTH): string[] {
+  let result = tweets;
+  for (let guard = 0; guard < MAX_THREAD_TWEETS * 2; guard++) {
+    const [overlong] = findOverlongTweets(result, maxLength);
+    if (overlong === undefined) break;
+
+    const tweet = result[overlong];
+    const budget = maxLength - threadMarker(overlong, result.length + 1).length;
+    const cut = tweet.lastIndexOf(' ', budget);
+    // Search before `budget` so the punctuation itself still fits
+    const sentenceEnd = Math.max(
+      tweet.lastIndexOf('. ', budget - 1),
+      tweet.lastIndexOf('! ', budget - 1),
+      tweet.lastIndexOf('? ', budget - 1)
+    );
+    const at = sentenceEnd > budget * 0.4 ? sentenceEnd + 1 : cut > 0 ? cut : budget;
+
+    result = splitTweet(result, overlong, at);
+  }
+  return result;
+}
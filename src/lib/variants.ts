@@ -0,0 +1,76 @@
+/**
+ * Post variants: several distinct alternatives for one platform, compared side by side.
+ * The model returns them as JSON (see buildVariantsPrompt); validation reuses the platform post schema.
+ */
+
+import type { Platform } from '@/config/platforms';
+import { parseJsonObject, repairPostField } from '@/libs/postSchema';
+import type { PromptMeta } from '@/libs/promptTemplates';
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 5;
+
+export interface PostVariant {
+  id: string;
+  content: string;
+  /** Hook or structure the variant uses, e.g. "Kontroverse These" */
+  approach: string;
+  starred: boolean;
+  /** Template, goal and language the variant was generated with */
+  prompt?: PromptMeta;
+}
+
+let variantCounter = 0;
+
+export function createVariant(content: string, approach: string): PostVariant {
+  variantCounter += 1;
+  return { id: `variant-${Date.now()}-${variantCounter}`, content, approach, starred: false };
+}
+
+/**
+ * Parse the variants JSON returned by the model.
+ * Invalid or duplicate variants are dropped; throws with a user-facing message if fewer than two remain.
+ */
+export function parseVariantsResponse(text: string, platform: Platform): PostVariant[] {
+  const data = parseJsonObject(text);
+  if (!data || !Array.isArray(data.variants)) {
+    throw new Error('Varianten-Antwort enthält kein gültiges JSON');
+  }
+
+  const seen = new Set<string>();
+  const variants: PostVariant[] = [];
+  for (const item of data.variants.slice(0, MAX_VARIANTS)) {
+    if (typeof item !== 'object' || item === null) continue;
+    const { post, approach } = item as Record<string, unknown>;
+    const content = repairPostField(post, platform);
+    if (!content || seen.has(content)) continue;
+
+    seen.add(content);
+    const label = typeof approach === 'string' && approach.trim() ? approach.trim() : `Variante ${variants.length + 1}`;
+    variants.push(createVariant(content, label));
+  }
+
+  if (variants.length < MIN_VARIANTS) {
+    throw new Error('Varianten unvollständig. Bitte erneut versuchen.');
+  }
+  return variants;
+}
+
+/** Star one variant per platform; starring the starred variant again clears it */
+export function toggleVariantStar(variants: PostVariant[], id: string): PostVariant[] {
+  return variants.map((variant) => ({ ...variant, starred: variant.id === id ? !variant.starred : false }));
+}
+
+/**
+ * Split a variant into the parts that can be combined when merging:
+ * paragraphs for long-form posts, sentences for single-paragraph posts.
+ */
+export function splitVariantParts(content: string): { parts: string[]; separator: string } {
+  const paragraphs = content.split(/\n\s*\n/).map((part) => part.trim()).filter(Boolean);
+  if (paragraphs.length > 1) {
+    return { parts: paragraphs, separator: '\n\n' };
+  }
+
+  const sentences = content.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [content];
+  return { parts: sentences.map((part) => part.trim()).filter(Boolean), separator: ' ' };
+}
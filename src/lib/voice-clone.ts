@@ -0,0 +1,91 @@
+/**
+ * Voice cloning: derive a personal VoiceTone from the user's own posts.
+ * The model analyzes the samples and returns a JSON profile; parsing and anonymization happen here.
+ */
+
+import type { VoiceTone } from '@/config/voice-tones';
+import { parseJsonObject } from '@/libs/postSchema';
+
+export const MIN_VOICE_SAMPLES = 3;
+export const MAX_VOICE_SAMPLES = 10;
+/** Shorter samples carry too little style signal */
+export const MIN_SAMPLE_LENGTH = 80;
+export const MAX_VOICE_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 600;
+
+/** Everything the model derives; id, colors and storage fields are added on save */
+export type VoiceProfile = Pick<VoiceTone, 'name' | 'emoji' | 'description' | 'characteristics' | 'promptModifier'> & {
+  examples: string[];
+};
+
+/**
+ * Split pasted posts into samples. Posts are separated by a line containing only `---`.
+ */
+export function splitWritingSamples(text: string): string[] {
+  return text
+    .split(/^\s*-{3,}\s*$/m)
+    .map((sample) => sample.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check the sample set before spending a generation on it.
+ * Throws with a user-facing message.
+ */
+export function validateWritingSamples(samples: string[]): void {
+  if (samples.length < MIN_VOICE_SAMPLES) {
+    throw new Error(`Mindestens ${MIN_VOICE_SAMPLES} Posts nötig (aktuell ${samples.length})`);
+  }
+  if (samples.length > MAX_VOICE_SAMPLES) {
+    throw new Error(`Maximal ${MAX_VOICE_SAMPLES} Posts (aktuell ${samples.length})`);
+  }
+  const short = samples.findIndex((sample) => sample.length < MIN_SAMPLE_LENGTH);
+  if (short !== -1) {
+    throw new Error(`Post ${short + 1} ist zu kurz (min. ${MIN_SAMPLE_LENGTH} Zeichen)`);
+  }
+}
+
+/**
+ * Remove obvious personal data the model may have kept in its examples.
+ */
+export function anonymizeSample(text: string): string {
+  return text
+    .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, '[E-Mail]')
+    .replace(/https?:\/\/\S+/g, '[Link]')
+    .replace(/(^|\s)@[\w.]+/g, '$1@[Name]');
+}
+
+function asTrimmedString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(asTrimmedString).filter(Boolean) : [];
+}
+
+/**
+ * Parse and validate the voice profile JSON returned by the model (voiceProfileSchema).
+ */
+export function parseVoiceProfileResponse(response: string): VoiceProfile {
+  const data = parseJsonObject(response);
+  if (!data) {
+    throw new Error('Stimmprofil-Antwort enthält kein gültiges JSON');
+  }
+
+  const profile: VoiceProfile = {
+    name: asTrimmedString(data.name).slice(0, 40),
+    emoji: asTrimmedString(data.emoji) || '✍️',
+    description: asTrimmedString(data.description),
+    characteristics: asStringList(data.characteristics).slice(0, 6),
+    promptModifier: asTrimmedString(data.promptModifier),
+    examples: asStringList(data.examples)
+      .slice(0, MAX_VOICE_EXAMPLES)
+      .map((example) => anonymizeSample(example).slice(0, MAX_EXAMPLE_LENGTH)),
+  };
+
+  if (!profile.name || !profile.promptModifier || profile.characteristics.length === 0) {
+    throw new Error('Stimmprofil unvollständig. Bitte erneut versuchen.');
+  }
+
+  return profile;
+}
@@ -1,9 +1,13 @@
 // Enhanced API client for Social Transformer
 // Based on Ship Fast patterns, adapted for Appwrite auth and German UI
 
-import { createJWT, signOut } from '../api/appwrite';
+import { createJWT, getCachedGuardrailPolicy, signOut } from '../api/appwrite';
 import { toast } from 'sonner';
-import { OPENROUTER_CHAT_ENDPOINT } from '@/config/ai';
+import { BLOCKING_GUARDRAIL_TIMEOUT_MS, OPENROUTER_CHAT_ENDPOINT } from '@/config/ai';
+import { readSseEvents } from '@/lib/sse';
+import type { GuardrailResult } from '../api/guardrail';
+import type { OutputLanguage } from '@/lib/language';
+import type { Platform } from '@/config/platforms';
 
 export interface ApiError {
   message: string;
@@ -186,6 +190,10 @@ export class ApiClient {
         break;
 
       case 429:
+        if (errData?.code === 'MONTHLY_BUDGET_REACHED') {
+          toast.error(MONTHLY_BUDGET_MESSAGE);
+          break;
+        }
         // Rate limited
         toast.error('Zu viele Anfragen. Bitte warte einen Moment und versuche es erneut.');
         break;
@@ -295,6 +303,9 @@ export const createCheckoutSession = async (data: {
 
 export default apiClient;
 
+/** Shown when the proxy answers MONTHLY_BUDGET_REACHED (api/utils/usage.ts) */
+export const MONTHLY_BUDGET_MESSAGE = 'Monatliches Kostenlimit erreicht. Details unter Einstellungen → Verbrauch.';
+
 // === OpenRouter helper with timeout ===
 export interface OpenRouterMessageRequestMessage {
   role: 'user' | 'assistant' | 'system';
@@ -302,11 +313,34 @@ export interface OpenRouterMessageRequestMessage {
 }
 
 export interface OpenRouterMessageRequestBody {
-  model: string;
+  /** Premium accounts only, and only a model their tier is routed to (see api/utils/modelRouting.ts); normally left out */
+  model?: string;
+  /** Target platform of the post; the server picks the model for it (see api/utils/modelRouting.ts) */
+  platform?: Platform;
   max_tokens: number;
   temperature?: number;
   messages: OpenRouterMessageRequestMessage[];
   sourceText?: string;
+  /** Output language of the post; the guardrail does not count a translation as drift from the source */
+  language?: OutputLanguage;
+  /** Structured output, forwarded to OpenRouter as-is */
+  response_format?: OpenRouterResponseFormat;
+  /** How the call counts against the free tier; defaults to `generation` */
+  kind?: RequestKind;
+  /** Id of the generation a `repair` rewrites or an `auxiliary` call belongs to */
+  generationId?: string;
+}
+
+/** Mirrors RequestKind in api/utils/freeTier.ts: only `generation` uses up one of the day's free posts */
+export type RequestKind = 'generation' | 'repair' | 'auxiliary';
+
+export interface OpenRouterResponseFormat {
+  type: 'json_schema';
+  json_schema: {
+    name: string;
+    strict: boolean;
+    schema: Record<string, unknown>;
+  };
 }
 
 export interface OpenRouterContentBlock {
@@ -321,16 +355,77 @@ export interface OpenRouterMessageResponse {
   content: OpenRouterContentBlock[];
   stop_reason?: string | null;
   model?: string;
+  /** Set when the account's guardrail policy is `blocking`: the check already ran on this text */
+  guardrail?: GuardrailResult & {
+    quarantined: boolean;
+    /** The post was regenerated after a failed check; a quarantined post may also have run out of time first */
+    regenerated?: boolean;
+  };
+  /** Model the server routed the request to, and the models it skipped on the way */
+  routing?: ModelRouting;
+}
+
+/** Mirrors ModelRouting in api/utils/modelRouting.ts */
+export interface ModelRouting {
+  /** e.g. "linkedin:premium" or "default:free" */
+  route: string;
+  model: string;
+  hops: Array<{ model: string; reason: 'rate_limited' | 'server_error' | 'timeout' | 'network_error'; status?: number }>;
 }
 
+/** Events of a streamed completion: text chunks, then the final message */
+export type OpenRouterStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; message: OpenRouterMessageResponse };
+
+export interface OpenRouterMessageOptions {
+  /** Raised to BLOCKING_GUARDRAIL_TIMEOUT_MS when the server checks the post before answering */
+  timeout?: number;
+  /** Stream text deltas via SSE instead of waiting for the full completion */
+  stream?: boolean;
+}
+
+const ROUTE_NOT_FOUND_MESSAGE = 'OpenRouter API-Route nicht gefunden. Starte `npm run dev:full` oder `npm run dev:api`.';
+
 /**
  * Call OpenRouter via our Edge Function with timeout and basic headers.
  * Uses apiClient.post under the hood to leverage timeout/error handling.
+ *
+ * With `{ stream: true }` it returns an async iterator of deltas instead, ending with
+ * a `done` event that carries the same message shape as the non-streaming response.
+ */
+export function generateOpenRouterMessage(
+  body: OpenRouterMessageRequestBody,
+  opts: OpenRouterMessageOptions & { stream: true }
+): AsyncIterableIterator<OpenRouterStreamEvent>;
+export function generateOpenRouterMessage(
+  body: OpenRouterMessageRequestBody,
+  opts?: OpenRouterMessageOptions & { stream?: false }
+): Promise<OpenRouterMessageResponse>;
+export function generateOpenRouterMessage(
+  body: OpenRouterMessageRequestBody,
+  opts: OpenRouterMessageOptions = {}
+): Promise<OpenRouterMessageResponse> | AsyncIterableIterator<OpenRouterStreamEvent> {
+  if (opts.stream) {
+    return streamOpenRouterMessage(body, opts.timeout ?? 25000);
+  }
+  return requestOpenRouterMessage(body, opts.timeout ?? 25000);
+}
+
+/**
+ * With the `blocking` policy the server checks (and may regenerate) every post with a source
+ * before it answers, so those requests get the longer timeout.
  */
-export async function generateOpenRouterMessage(
+async function timeoutFor(body: OpenRouterMessageRequestBody, timeout: number): Promise<number> {
+  if (!body.sourceText || timeout >= BLOCKING_GUARDRAIL_TIMEOUT_MS) return timeout;
+  return (await getCachedGuardrailPolicy()) === 'blocking' ? BLOCKING_GUARDRAIL_TIMEOUT_MS : timeout;
+}
+
+async function requestOpenRouterMessage(
   body: OpenRouterMessageRequestBody,
-  opts: { timeout?: number } = {}
+  requestedTimeout: number
 ): Promise<OpenRouterMessageResponse> {
+  const timeout = await timeoutFor(body, requestedTimeout);
   try {
     return await post<OpenRouterMessageResponse>(
       OPENROUTER_CHAT_ENDPOINT,
@@ -339,20 +434,98 @@ export async function generateOpenRouterMessage(
         headers: {
           'anthropic-version': '2023-06-01',
         },
-        timeout: opts.timeout ?? 25000,
+        timeout,
       }
     );
   } catch (error) {
     const apiError = error as ApiError | undefined;
 
     if (apiError?.status === 404) {
-      throw new Error('OpenRouter API-Route nicht gefunden. Starte `npm run dev:full` oder `npm run dev:api`.');
+      throw new Error(ROUTE_NOT_FOUND_MESSAGE);
     }
 
     throw error;
   }
 }
 
+/**
+ * SSE variant: `timeout` applies while waiting for the response and between chunks.
+ * Errors are thrown as ApiError; callers show their own messages (no toasts here).
+ */
+async function* streamOpenRouterMessage(
+  body: OpenRouterMessageRequestBody,
+  requestedTimeout: number
+): AsyncIterableIterator<OpenRouterStreamEvent> {
+  // Blocking checks send no deltas: the checked message is the only event
+  const timeout = await timeoutFor(body, requestedTimeout);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'text/event-stream',
+    'anthropic-version': '2023-06-01',
+  };
+
+  const jwt = await createJWT();
+  if (jwt) {
+    headers['Authorization'] = `Bearer ${jwt}`;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  let response: Response;
+  try {
+    response = await fetch(OPENROUTER_CHAT_ENDPOINT, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new Error(ROUTE_NOT_FOUND_MESSAGE);
+    }
+    const errorData = await response.json().catch(() => null) as Record<string, string> | null;
+    const apiError: ApiError = {
+      message: errorData?.message || errorData?.error || `HTTP ${response.status}`,
+      status: response.status,
+      code: errorData?.code,
+    };
+    throw apiError;
+  }
+
+  if (!response.body) {
+    throw new Error('No response body for streaming');
+  }
+
+  const events = readSseEvents(response.body, {
+    idleTimeout: timeout,
+    onTimeout: () => controller.abort(),
+  });
+
+  for await (const event of events) {
+    const data = event as { type?: string; text?: unknown; message?: unknown; code?: string };
+
+    if (data.type === 'delta' && typeof data.text === 'string') {
+      yield { type: 'delta', text: data.text };
+    } else if (data.type === 'done' && data.message) {
+      yield { type: 'done', message: data.message as OpenRouterMessageResponse };
+      return;
+    } else if (data.type === 'error') {
+      const apiError: ApiError = {
+        message: typeof data.message === 'string' ? data.message : 'AI stream interrupted',
+        code: data.code,
+      };
+      throw apiError;
+    }
+  }
+
+  throw new Error('Stream ended without complete result');
+}
+
 // Backward-compatible alias during migration.
 export const generateClaudeMessage = generateOpenRouterMessage
 
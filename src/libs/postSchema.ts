@@ -0,0 +1,220 @@
+import { z } from "zod";
+import type { Platform } from "@/config/platforms";
+import { PLATFORMS, countPostLength, createPlatformRecord, getPlatformLimits } from "@/config/platforms";
+import type { OpenRouterResponseFormat } from "@/libs/api-client";
+import { truncateToCompleteSentence } from "@/lib/text";
+import { HOOK_FORMULAS } from "@/config/hook-formulas";
+import { INLINE_EDIT_FIELD } from "@/lib/inline-edit";
+import { KEY_POINTS_FIELD } from "@/lib/source-digest";
+import type { CarouselFormat } from "@/lib/carousel";
+
+/**
+ * Structured output for post generation.
+ * Completions are requested as JSON (`response_format: json_schema`) and validated per field with zod,
+ * so a post that contains "X:" or "LINKEDIN:" can no longer break parsing.
+ */
+
+/** JSON field that holds the post in single-platform completions */
+export const SINGLE_POST_FIELD = "post";
+
+/**
+ * Zod schema for one platform's post, built from the current (possibly user-configured) limits.
+ * Length rules are refinements: they are checked here, not sent to the model.
+ */
+export function platformPostSchema(platform: Platform) {
+  const limits = getPlatformLimits(platform);
+
+  return z
+    .string()
+    .trim()
+    .refine((post) => countPostLength(platform, post) >= limits.min, `Post zu kurz (min. ${limits.min} Zeichen)`)
+    .refine((post) => countPostLength(platform, post) <= limits.max, `Post zu lang (max. ${limits.max} Zeichen)`);
+}
+
+/** One field per requested platform, keyed by platform id (e.g. `{"linkedin": "...", "x": "..."}`) */
+export function batchedPostsSchema(platforms: Platform[]) {
+  return z.object(
+    Object.fromEntries(platforms.map((platform) => [platform, platformPostSchema(platform)]))
+  );
+}
+
+export function singlePostSchema(platform: Platform) {
+  return z.object({ [SINGLE_POST_FIELD]: platformPostSchema(platform) });
+}
+
+/** Variants mode: alternatives for one platform, each labeled with its hook or structure */
+export function variantsSchema(platform: Platform) {
+  return z.object({
+    variants: z.array(z.object({ approach: z.string(), post: platformPostSchema(platform) })),
+  });
+}
+
+/** Slide formats; LinkedIn documents have no caption (the post is the caption). An empty emoji means none. */
+export function carouselSchema(format: CarouselFormat) {
+  const slides = z.array(z.object({ headline: z.string(), body: z.string(), emoji: z.string() }));
+  return format === "instagram" ? z.object({ slides, caption: z.string() }) : z.object({ slides });
+}
+
+/** Voice cloning: the profile derived from the user's own posts */
+export function voiceProfileSchema() {
+  return z.object({
+    name: z.string(),
+    emoji: z.string(),
+    description: z.string(),
+    characteristics: z.array(z.string()),
+    promptModifier: z.string(),
+    examples: z.array(z.string()),
+  });
+}
+
+/** Hook workshop: alternative first lines, each labeled with its hook formula */
+export function hooksSchema() {
+  return z.object({
+    hooks: z.array(z.object({ formula: z.enum(HOOK_FORMULAS), hook: z.string() })),
+  });
+}
+
+/** Inline edits: only the replacement for the selected passage */
+export function inlineEditSchema() {
+  return z.object({ [INLINE_EDIT_FIELD]: z.string() });
+}
+
+export function keyPointsSchema() {
+  return z.object({ [KEY_POINTS_FIELD]: z.array(z.string()) });
+}
+
+export function seriesAnglesSchema() {
+  return z.object({
+    angles: z.array(z.object({ title: z.string(), focus: z.string() })),
+  });
+}
+
+/** Numbers (from 1) of the chosen quote candidates, best first */
+export function quotesSchema() {
+  return z.object({ quotes: z.array(z.number().int()) });
+}
+
+/** Angles are numbered from 1 in the prompt */
+export function seriesPostsSchema(platform: Platform) {
+  return z.object({
+    posts: z.array(z.object({ angle: z.number().int(), post: platformPostSchema(platform) })),
+  });
+}
+
+/**
+ * Turn a zod schema into an OpenRouter `response_format` (same shape as api/utils/guardrail.ts).
+ */
+export function toResponseFormat(name: string, schema: z.ZodType): OpenRouterResponseFormat {
+  const jsonSchema: Record<string, unknown> = z.toJSONSchema(schema);
+  delete jsonSchema.$schema;
+
+  return {
+    type: "json_schema",
+    json_schema: { name, strict: true, schema: jsonSchema },
+  };
+}
+
+/**
+ * Parse the JSON object of a structured completion.
+ * Tolerates code fences and text around the object; returns null if there is no valid JSON object.
+ */
+export function parseJsonObject(text: string): Record<string, unknown> | null {
+  const cleaned = text
+    .replace(/```json\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim();
+
+  const start = cleaned.indexOf("{");
+  const end = cleaned.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const data: unknown = JSON.parse(cleaned.slice(start, end + 1));
+    return typeof data === "object" && data !== null && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate one post field against its platform schema.
+ * Overlong posts are repaired by cutting at the last complete sentence;
+ * missing, empty or too short posts cannot be repaired and return null (retry that field).
+ */
+export function repairPostField(value: unknown, platform: Platform): string | null {
+  if (typeof value !== "string") return null;
+
+  const schema = platformPostSchema(platform);
+  const { sanitize } = PLATFORMS[platform];
+  const post = sanitize ? sanitize(value.trim()) : value.trim();
+
+  const result = schema.safeParse(post);
+  if (result.success) return result.data;
+
+  const { max } = getPlatformLimits(platform);
+  if (countPostLength(platform, post) > max) {
+    const repaired = schema.safeParse(truncateToCompleteSentence(post, max));
+    if (repaired.success) return repaired.data;
+  }
+
+  return null;
+}
+
+export interface StructuredPostsResult {
+  posts: Record<Platform, string[]>;
+  /** Requested platforms whose field was missing or invalid; regenerate only these */
+  failed: Platform[];
+}
+
+/**
+ * Validate every requested platform field of a batched completion independently.
+ */
+export function parseStructuredPosts(
+  data: Record<string, unknown>,
+  platforms: Platform[]
+): StructuredPostsResult {
+  const posts = createPlatformRecord<string[]>(() => []);
+  const failed: Platform[] = [];
+
+  for (const platform of platforms) {
+    const post = repairPostField(data[platform], platform);
+    if (post) {
+      posts[platform] = [post];
+    } else {
+      failed.push(platform);
+    }
+  }
+
+  return { posts, failed };
+}
+
+/**
+ * Read a string field from a JSON object that is still streaming in, e.g. `{"post": "Hallo Wel`.
+ * Returns the decoded text received so far, or null if the field has not started yet.
+ */
+export function readPartialJsonField(text: string, field: string): string | null {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+  if (!match) return null;
+
+  const rest = text.slice(match.index + match[0].length);
+  let end = 0;
+  while (end < rest.length && rest[end] !== '"') {
+    if (rest[end] !== "\\") {
+      end += 1;
+      continue;
+    }
+    // Escape sequences are consumed whole so \" does not end the string
+    const length = rest[end + 1] === "u" ? 6 : 2;
+    // Stop before an escape sequence that is cut off at the end of the chunk
+    if (end + length > rest.length) break;
+    end += length;
+  }
+
+  try {
+    return JSON.parse(`"${rest.slice(0, end)}"`) as string;
+  } catch {
+    return null;
+  }
+}
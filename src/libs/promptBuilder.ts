@@ -1,417 +1,589 @@
 import type { Platform } from "@/config/platforms";
+import {
+  ALL_PLATFORMS,
+  PLATFORMS,
+  getPlatformPrompt,
+} from "@/config/platforms";
+import {
+  SINGLE_POST_FIELD,
+  parseJsonObject,
+  parseStructuredPosts,
+  platformPostSchema,
+} from "@/libs/postSchema";
+import type { StructuredPostsResult } from "@/libs/postSchema";
+import { truncateToCompleteSentence } from "@/lib/text";
+import {
+  MAX_THREAD_TWEETS,
+  MIN_THREAD_TWEETS,
+  TWEET_MAX_LENGTH,
+  findOverlongTweets,
+  fitThread,
+  joinThread,
+  parseThreadResponse,
+  splitThread,
+} from "@/lib/thread";
+import { X_THREAD_PROMPT } from "@/config/platforms/x";
+import { INSTAGRAM_CAROUSEL_PROMPT } from "@/config/platforms/instagram";
+import { LINKEDIN_DOCUMENT_PROMPT } from "@/config/platforms/linkedin";
+import type { CarouselFormat } from "@/lib/carousel";
 import type { VoiceTone } from "@/config/voice-tones";
+import type { PostViolation } from "@/lib/post-rules";
+import { MAX_VOICE_EXAMPLES } from "@/lib/voice-clone";
 import { DEFAULT_VOICE_TONE } from "@/config/voice-tones";
-
-/**
- * Truncate text to max length, ensuring it ends with a complete sentence.
- * Never cuts off mid-sentence or mid-word.
- */
-export function truncateToCompleteSentence(text: string, maxLength: number): string {
-  if (text.length <= maxLength) return text;
-
-  // Find the portion within the limit
-  const truncated = text.slice(0, maxLength);
-
-  // Find the last sentence-ending punctuation (. ! ?)
-  const lastPeriod = truncated.lastIndexOf('.');
-  const lastQuestion = truncated.lastIndexOf('?');
-  const lastExclamation = truncated.lastIndexOf('!');
-
-  // Get the position of the last sentence ending
-  const lastSentenceEnd = Math.max(lastPeriod, lastQuestion, lastExclamation);
-
-  // If we found a sentence ending, use it
-  if (lastSentenceEnd > maxLength * 0.3) { // At least 30% of content preserved
-    return text.slice(0, lastSentenceEnd + 1).trim();
-  }
-
-  // Fallback: find the last space to avoid cutting mid-word
-  const lastSpace = truncated.lastIndexOf(' ');
-  if (lastSpace > maxLength * 0.5) {
-    return text.slice(0, lastSpace).trim() + '...';
-  }
-
-  // Last resort: just cut at limit (shouldn't happen with good AI output)
-  return truncated.trim();
+import { hasPiiPlaceholders } from "@/lib/pii-redaction";
+import { LANGUAGE_META } from "@/lib/language";
+import type { OutputLanguage } from "@/lib/language";
+import { POST_GOAL_META } from "@/config/post-goals";
+import type { PostGoal } from "@/config/post-goals";
+import { HOOK_FORMULAS, HOOK_FORMULA_META } from "@/config/hook-formulas";
+import { HOOK_MAX_LENGTH } from "@/lib/hook-workshop";
+import { INLINE_EDIT_ACTION_META } from "@/config/inline-edits";
+import type { InlineEditAction } from "@/config/inline-edits";
+import { INLINE_EDIT_FIELD } from "@/lib/inline-edit";
+import { KEY_POINTS_FIELD, KEY_POINT_MAX_LENGTH, MAX_KEY_POINTS, MIN_KEY_POINTS } from "@/lib/source-digest";
+import type { SourceSection } from "@/lib/source-digest";
+import { MAX_SERIES_ANGLES, MIN_SERIES_ANGLES } from "@/lib/series";
+import type { SeriesAngle } from "@/lib/series";
+import { MAX_QUOTES } from "@/lib/quotes";
+import {
+  AUDIENCE_MAX_LENGTH,
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_TEMPLATES,
+  SYSTEM_PROMPT,
+  renderPromptTemplate,
+} from "@/libs/promptTemplates";
+import type { PromptOptions } from "@/libs/promptTemplates";
+
+export { truncateToCompleteSentence };
+
+// Sources are redacted before sending (src/lib/pii-redaction.ts); placeholders are restored afterwards
+function buildPlaceholderNote(content: string): string {
+  return hasPiiPlaceholders(content)
+    ? "\n\nPLACEHOLDERS: Tokens like [EMAIL_1] or [PHONE_1] stand for redacted personal data. Never guess their values; leave them out unless the post needs them, and then copy them unchanged."
+    : "";
 }
 
 /**
  * Build batched prompt for multiple platforms in single API call.
  * Reduces API costs by ~3x compared to N separate calls.
+ * Goes through the selected template like single posts, so template, goal and audience apply to every platform.
  */
 export function buildBatchedPostPrompt(
   content: string,
   platforms: Platform[],
-  voiceTone?: VoiceTone
+  voiceTone?: VoiceTone,
+  options: PromptOptions = {}
 ): string {
   const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
 
-  const platformRequirements = platforms.map(platform => {
-    switch (platform) {
-      case 'linkedin':
-        return `
----LINKEDIN---
+  const platformRequirements = platforms
+    .map(platform => getPlatformPrompt(platform).batched)
+    .join('\n');
 
-⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
-1. EXACTLY 500-900 characters (optimal engagement length)
-2. MUST end with complete sentence (. ! or ?)
-3. NO hashtags (LinkedIn algorithm penalizes them)
-4. Maximum 1-2 emojis total, only if adding value
+  const fieldList = platforms.map(p => `"${p}"`).join(', ');
 
-❌ ANTI-PATTERNS (NEVER DO):
-- Incomplete sentences or cut-off thoughts
-- "Agree?" or "Thoughts?" without context
-- Motivational fluff without substance ("Chase your dreams!")
-- Wall of text without line breaks
-- Starting with "I" (narcissistic opener)
+  const mode = `
 
-✅ PROVEN LINKEDIN STRUCTURE:
-Line 1: Hook (surprising fact, contrarian view, or bold claim)
-Line 2-3: Context/Story (the "why this matters")
-Line 4-6: Key insight with specific example
-Line 7: Actionable takeaway
-Line 8: Engagement question (optional)
+CRITICAL:
+- Generate content for ALL requested platforms listed above
+- Return ONE JSON object with one string field per platform (${fieldList})
+- Each field contains ONLY the post content, no labels or meta-commentary
+- Each platform gets exactly ONE post`;
+
+  return buildTemplatePrompt(
+    content,
+    `TASK: Generate social media posts for the following platforms based on this content.\n\n${platformRequirements}`,
+    mode,
+    selectedTone,
+    undefined,
+    options
+  );
+}
 
-EXAMPLE STRUCTURE:
-"Nobody talks about the real reason startups fail.
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-It's not funding. It's not the product.
+/**
+ * Parse a batched JSON response into platform-specific posts.
+ * Every platform field is validated (and repaired if possible) on its own; fields that fail are
+ * listed in `failed` so only those need a retry. Returns null if the response is not JSON at all.
+ */
+export function parseBatchedResponse(
+  text: string,
+  platforms: Platform[]
+): StructuredPostsResult | null {
+  const data = parseJsonObject(text);
+  if (!data) {
+    console.warn('Batched parsing failed: response is not a JSON object');
+    return null; // Signal fallback to parallel calls
+  }
 
-It's founders who can't admit when they're wrong.
+  const result = parseStructuredPosts(data, platforms);
+  if (result.failed.length > 0) {
+    console.warn(`Batched parsing: invalid content for ${result.failed.join(', ')}`);
+  }
+  return result;
+}
 
-I watched 3 companies die this year because the CEO ignored customer feedback for 6 months.
+export function buildSinglePostPrompt(
+  content: string,
+  platform: Platform,
+  regenerationSeed?: number,
+  voiceTone?: VoiceTone,
+  options: PromptOptions = {}
+): string {
+  // Use provided voice tone or default
+  const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
 
-The fix? Weekly "What are we wrong about?" meetings.
+  return buildTemplatePrompt(content, getPlatformPrompt(platform).single, "", selectedTone, regenerationSeed, options);
+}
 
-What blind spots have you discovered too late?"
+// Distinct angles for variants mode, so alternatives differ in more than wording
+const VARIANT_APPROACHES = [
+  "Contrarian take that challenges a common belief",
+  "Personal story or concrete scene",
+  "Number- or data-led hook",
+  "Question that names the reader's problem",
+  "Step-by-step or list structure",
+];
 
-OUTPUT: Start with "LINKEDIN:" prefix, then the post.`;
+/**
+ * Build the prompt for variants mode: 2-5 alternatives for one platform in a single request.
+ * Parse the response with parseVariantsResponse (src/lib/variants.ts).
+ */
+export function buildVariantsPrompt(
+  content: string,
+  platform: Platform,
+  count: number,
+  regenerationSeed?: number,
+  voiceTone?: VoiceTone,
+  options: PromptOptions = {}
+): string {
+  const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
+  const approaches = VARIANT_APPROACHES.map(approach => `- ${approach}`).join("\n");
 
-      case 'x':
-        return `
----X (TWITTER)---
+  const mode = `
 
-⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
-1. EXACTLY 200-275 characters (leave buffer for platform)
-2. MUST end with complete sentence (. ! or ?)
-3. NO hashtags, NO emojis, NO links
-4. ONE standalone thought (not a thread teaser)
+VARIANTS:
+- Write ${count} distinct alternatives of this post, all following the constraints above
+- Each variant uses a DIFFERENT hook or structure, for example:
+${approaches}
+- Return ONE JSON object: {"variants": [{"approach": "short label of the hook/structure, in the language of the post", "post": "..."}]}
+- This replaces the single "post" field described above`;
 
-❌ ANTI-PATTERNS (NEVER DO):
-- "That's" or any incomplete sentence at the end
-- Generic advice like "Work hard" or "Stay focused"
-- Corporate speak like "leverage", "synergy", "optimize"
-- Clickbait without substance
+  return buildTemplatePrompt(content, getPlatformPrompt(platform).single, mode, selectedTone, regenerationSeed, options);
+}
 
-✅ GOOD TWEET STRUCTURE:
-[Surprising insight or contrarian take] + [One concrete example or specific detail] + [Thought-provoking ending]
+/**
+ * Build the prompt for X thread mode: an ordered list of tweets instead of one post.
+ * Parse the response with parseThreadResponse (src/lib/thread.ts).
+ */
+export function buildThreadPrompt(
+  content: string,
+  regenerationSeed?: number,
+  voiceTone?: VoiceTone,
+  options: PromptOptions = {}
+): string {
+  const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
 
-EXAMPLE OF PERFECT TWEET:
-"Most founders fail because they solve problems nobody has. The trick: find what annoys YOU daily, then discover 1000 others feel the same. Your frustration is your business plan."
+  return buildTemplatePrompt(content, X_THREAD_PROMPT, "", selectedTone, regenerationSeed, options);
+}
 
-VOICE: Conversational, authentic, like texting a smart friend.
+const CAROUSEL_PROMPTS: Record<CarouselFormat, string> = {
+  instagram: INSTAGRAM_CAROUSEL_PROMPT,
+  linkedin: LINKEDIN_DOCUMENT_PROMPT,
+};
 
-OUTPUT: Start with "X:" prefix, then the tweet.`;
+/**
+ * Build the prompt for slide formats (Instagram carousel, LinkedIn document): JSON slides plus caption.
+ * Request with carouselSchema and parse the response with parseCarouselResponse (src/lib/carousel.ts).
+ */
+export function buildCarouselPrompt(
+  content: string,
+  regenerationSeed?: number,
+  voiceTone?: VoiceTone,
+  format: CarouselFormat = "instagram",
+  language?: OutputLanguage
+): string {
+  const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
 
-      case 'instagram':
-        return `
----INSTAGRAM---
+  return `${buildSystemPrompt(selectedTone, language)}
 
-⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
-1. EXACTLY 400-1200 characters (sweet spot for engagement)
-2. MUST end with complete sentence before hashtags (. ! or ?)
-3. First 125 characters = preview text (must hook reader!)
-4. EXACTLY 3-5 hashtags at the very end, separated by spaces
+${CAROUSEL_PROMPTS[format]}${buildRegenerationPrompt(selectedTone, regenerationSeed)}${buildPlaceholderNote(content)}
 
-❌ ANTI-PATTERNS (NEVER DO):
-- Incomplete sentences or cut-off thoughts
-- More than 5 hashtags (looks spammy)
-- No line breaks (wall of text = no engagement)
-- Starting with hashtags
-- Generic CTAs like "Link in bio"
+Source Content: ${content}`;
+}
 
-✅ INSTAGRAM CAPTION STRUCTURE:
-Line 1: Strong hook (question, bold statement, or story opener)
-Line 2-4: Story/insight with emotional connection
-Line 5: Clear actionable takeaway or CTA
-Line 6: 3-5 relevant hashtags
+/**
+ * Build a targeted rewrite request for a post that breaks its platform rules.
+ * Quotes the violations so the model fixes exactly those and keeps the rest.
+ */
+export function buildRepairPrompt(
+  post: string,
+  platform: Platform,
+  violations: PostViolation[],
+  voiceTone?: VoiceTone,
+  language?: OutputLanguage
+): string {
+  const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
+  const violationList = violations.map(violation => `- ${violation.instruction}`).join("\n");
 
-EXAMPLE CAPTION:
-"The advice that changed everything for me 👇
+  return `${buildSystemPrompt(selectedTone, language)}
 
-Three years ago, someone told me: 'Stop planning. Start doing.'
+TASK: Revise the ${PLATFORMS[platform].meta.label} post below. It breaks these rules:
+${violationList}
 
-I had 47 business ideas in my notes app. Zero launched.
+Fix EVERY violation listed above. Keep the message, language, voice and structure; change as little as possible.
 
-That week, I picked the simplest one and shipped it in 48 hours. It flopped. But the NEXT one? That became my full-time income.
+${getPlatformPrompt(platform).single}
 
-Save this for when perfectionism hits. 💡
+<post>
+${post}
+</post>`;
+}
 
-#entrepreneurlife #startupjourney #businesstips"
+/**
+ * Build a rewrite request that addresses the guardrail's findings (invented facts, drift from the source, PII).
+ * Unlike buildRepairPrompt it quotes the source, since the fixes have to come from there.
+ */
+export function buildIssueFixPrompt(
+  post: string,
+  platform: Platform,
+  issues: string[],
+  sourceContent: string,
+  voiceTone?: VoiceTone,
+  language?: OutputLanguage
+): string {
+  const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
+  const issueList = issues.map(issue => `- ${issue}`).join("\n");
 
-OUTPUT: Start with "INSTAGRAM:" prefix, then the caption.`;
+  return `${buildSystemPrompt(selectedTone, language)}
 
-      default:
-        return '';
-    }
-  }).join('\n');
+TASK: Revise the ${PLATFORMS[platform].meta.label} post below. A fact check against the source found these issues:
+${issueList}
 
-  return `You are an expert social media ghostwriter specialized in creating premium, engaging content for European solopreneurs and small companies.
+Fix EVERY issue: correct or remove claims the source does not support, stay on the source's topics and remove personal data (email addresses, phone numbers, addresses). Keep the message, language, voice and structure; change as little as possible.
 
-VOICE & PERSONALITY:
-${selectedTone.promptModifier}
+${getPlatformPrompt(platform).single}
 
-QUALITY STANDARDS:
-- Professional, research-backed content like industry leaders
-- Specific examples, company names, and real insights when relevant
-- Engaging hooks that immediately capture attention
-- Clear value proposition and actionable takeaways
-- Authentic voice that builds trust and authority
+<source>
+${sourceContent}
+</source>
 
-TASK: Generate social media posts for the following platforms based on this content.
+<post>
+${post}
+</post>`;
+}
 
-${platformRequirements}
+/**
+ * Build the hook workshop prompt: `count` alternative first lines for an existing post, one JSON entry per hook.
+ * Parse the response with parseHooksResponse (src/lib/hook-workshop.ts).
+ */
+export function buildHookPrompt(
+  post: string,
+  currentHook: string,
+  platform: Platform,
+  count: number,
+  voiceTone?: VoiceTone,
+  language?: OutputLanguage
+): string {
+  const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
+  const formulas = HOOK_FORMULAS
+    .map(formula => `- ${formula} (${HOOK_FORMULA_META[formula].name}): "${HOOK_FORMULA_META[formula].pattern}"`)
+    .join("\n");
 
-CRITICAL:
-- Generate content for ALL requested platforms listed above
-- Each platform must start with its prefix (LINKEDIN:, X:, INSTAGRAM:)
-- Return ONLY the post content, no meta-commentary
-- Each platform gets exactly ONE post
-- LANGUAGE MATCHING: Write in the SAME language as the source content (German→German, English→English)
+  return `${buildSystemPrompt(selectedTone, language)}
 
-Source Content: ${content}`;
+TASK: Write ${count} alternative first lines for the ${PLATFORMS[platform].meta.label} post below. The first line decides whether anyone clicks "see more"; the rest of the post stays unchanged and has to follow naturally.
+
+HOOK FORMULAS:
+${formulas}
+
+RULES:
+- Use every formula at least once before repeating one; label each hook with the formula id it uses
+- One line per hook, at most ${HOOK_MAX_LENGTH} characters, in the language and voice of the post
+- Only claims the post itself makes: no new numbers, names or promises
+- Different from the current first line: "${currentHook}"
+- Return ONE JSON object: {"hooks": [{"formula": "formula id", "hook": "..."}]}${buildPlaceholderNote(post)}
+
+<post>
+${post}
+</post>`;
 }
 
 /**
- * Parse batched multi-platform response into platform-specific posts.
- * Returns Record with posts for each platform, or null if parsing fails.
+ * Build an inline edit request: rewrite only the selected passage of a post, in context.
+ * `language` is the language of the post; for "translate" it is the target language.
+ * Parse the response with parseInlineEditResponse (src/lib/inline-edit.ts).
  */
-export function parseBatchedResponse(
-  text: string,
-  platforms: Platform[]
-): Record<Platform, string[]> | null {
-  const result: Record<Platform, string[]> = { linkedin: [], x: [], instagram: [] };
-
-  try {
-    // LinkedIn parsing
-    if (platforms.includes('linkedin')) {
-      const linkedinMatch = text.match(/LINKEDIN:\s*([\s\S]*?)(?=(?:X:|INSTAGRAM:|$))/i);
-      if (linkedinMatch && linkedinMatch[1]) {
-        const postContent = linkedinMatch[1].trim();
-        if (postContent) {
-          result.linkedin = [postContent];
-        }
-      }
-    }
-
-    // X/Twitter parsing
-    if (platforms.includes('x')) {
-      const xMatch = text.match(/X:\s*([\s\S]*?)(?=(?:LINKEDIN:|INSTAGRAM:|$))/i);
-      if (xMatch && xMatch[1]) {
-        // Use smart truncation to ensure complete sentences within 280 chars
-        const tweetContent = truncateToCompleteSentence(xMatch[1].trim(), 280);
-        if (tweetContent) {
-          result.x = [tweetContent];
-        }
-      }
-    }
-
-    // Instagram parsing
-    if (platforms.includes('instagram')) {
-      const instagramMatch = text.match(/INSTAGRAM:\s*([\s\S]*?)(?=(?:LINKEDIN:|X:|$))/i);
-      if (instagramMatch && instagramMatch[1]) {
-        const postContent = instagramMatch[1].trim();
-        if (postContent) {
-          result.instagram = [postContent];
-        }
-      }
-    }
-
-    // Verify all requested platforms have content
-    for (const platform of platforms) {
-      if (!result[platform] || result[platform].length === 0) {
-        console.warn(`Batched parsing failed: missing content for ${platform}`);
-        return null; // Signal fallback to parallel calls
-      }
-    }
-
-    return result;
-  } catch (error) {
-    console.error('Batched parsing error:', error);
-    return null; // Signal fallback to parallel calls
-  }
-}
-
-export function buildSinglePostPrompt(
-  content: string,
+export function buildInlineEditPrompt(
+  parts: { before: string; selected: string; after: string },
+  action: InlineEditAction,
   platform: Platform,
-  regenerationSeed?: number,
-  voiceTone?: VoiceTone
+  voiceTone?: VoiceTone,
+  language?: OutputLanguage
 ): string {
-  // Use provided voice tone or default
   const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
+  const target = action === "translate" && language ? ` Target language: ${LANGUAGE_META[language].promptName}.` : "";
 
-  const regenerationPrompt = regenerationSeed
-    ? `\n\nVariation ${regenerationSeed}: Create a different approach or focus for diversity while maintaining the ${selectedTone.name} voice.`
-    : "";
-
-  // Build enhanced prompts that combine platform requirements with voice tone personality
-  const baseSystemPrompt = `You are an expert social media ghostwriter specialized in creating premium, engaging content for European solopreneurs and small companies.
+  return `${buildSystemPrompt(selectedTone, language)}
 
-VOICE & PERSONALITY:
-${selectedTone.promptModifier}
+TASK: Rewrite ONLY the selected passage of the ${PLATFORMS[platform].meta.label} post below. ${INLINE_EDIT_ACTION_META[action].instruction}${target}
 
-QUALITY STANDARDS:
-- Professional, research-backed content like industry leaders
-- Specific examples, company names, and real insights when relevant
-- Engaging hooks that immediately capture attention
-- Clear value proposition and actionable takeaways
-- Authentic voice that builds trust and authority
-- LANGUAGE: Write in the SAME language as the source content (German→German, English→English)`;
+RULES:
+- Return only the replacement for the selection, never the whole post
+- It has to fit between the text before and after it: grammar, line breaks, no repeated sentences
+- Keep facts, names and numbers; add none the post does not contain
+- Return ONE JSON object: {"${INLINE_EDIT_FIELD}": "..."}${buildPlaceholderNote(parts.before + parts.selected + parts.after)}
 
-  switch (platform) {
-    case "linkedin":
-      return `${baseSystemPrompt}
+<before_selection>
+${parts.before}
+</before_selection>
 
-⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
-1. EXACTLY 500-900 characters (optimal engagement length)
-2. MUST end with complete sentence (. ! or ?)
-3. NO hashtags (LinkedIn algorithm penalizes them)
-4. Maximum 1-2 emojis total, only if adding value
+<selection>
+${parts.selected}
+</selection>
 
-OUTPUT FORMAT:
-- Return ONLY the post text (no labels, no explanations)
-- Start with "LINKEDIN:" prefix
+<after_selection>
+${parts.after}
+</after_selection>`;
+}
 
-❌ ANTI-PATTERNS (NEVER DO):
-- Incomplete sentences or cut-off thoughts
-- "Agree?" or "Thoughts?" without context
-- Motivational fluff without substance
-- Wall of text without line breaks
-- Starting with "I"
+/**
+ * Quote cards: rank sentences taken verbatim from the source. The model answers with numbers
+ * only, so it cannot reword a quote.
+ */
+export function buildQuotesPrompt(candidates: string[], count: number = MAX_QUOTES): string {
+  const list = candidates.map((sentence, i) => `${i + 1}. ${sentence}`).join("\n");
 
-✅ PROVEN LINKEDIN STRUCTURE:
-Line 1: Hook (surprising fact, contrarian view, bold claim)
-Line 2-3: Context/Story
-Line 4-6: Key insight with specific example
-Line 7: Actionable takeaway
-Line 8: Engagement question (optional)
+  return `You are choosing quotes for branded quote-card images on Instagram and LinkedIn.
 
-EXAMPLE:
-"Nobody talks about the real reason startups fail.
+TASK: From the numbered sentences below, all taken verbatim from one source, pick the ${count} most quotable ones.
 
-It's not funding. It's not the product.
+A GOOD QUOTE:
+- Makes sense on its own, without the article around it (no "this", "that" or "as mentioned above" pointing elsewhere)
+- States a clear insight, opinion, lesson or striking number
+- Is worth sharing: concrete, surprising or memorable; no greetings, no marketing filler
 
-It's founders who can't admit when they're wrong.
+Return ONE JSON object with the sentence numbers, best first: {"quotes": [3, 12, 7]}${buildPlaceholderNote(list)}
 
-I watched 3 companies die this year because the CEO ignored customer feedback for 6 months.
+SENTENCES:
+${list}`;
+}
 
-The fix? Weekly 'What are we wrong about?' meetings."${regenerationPrompt}
+/**
+ * Content series, step 1: distinct angles in one source, each enough for a post of its own.
+ */
+export function buildSeriesAnglesPrompt(content: string, count: number, language?: OutputLanguage): string {
+  return `You are planning a content series: several social media posts from ONE source, published over the coming weeks.
+
+TASK: Find ${count} distinct angles in the source below (at least ${MIN_SERIES_ANGLES}, at most ${MAX_SERIES_ANGLES}; fewer if the source does not carry more).
+
+RULES:
+- Each angle stands on its own: a separate insight, story, number, mistake, how-to or opinion from the source
+- No two angles make the same point; together they cover the source, the strongest angle first
+- Only what the source says: no outside facts
+- "title": a short label (max. 8 words); "focus": 1-2 sentences on what the post says and which part of the source it uses
+- ${buildLanguageRule(language)}
+- Return ONE JSON object: {"angles": [{"title": "...", "focus": "..."}]}${buildPlaceholderNote(content)}
+
+<source>
+${content}
+</source>`;
+}
 
-Source Content: ${content}`;
+/**
+ * Content series, step 2: one post per angle for one platform, in a single request so
+ * the posts can differ from each other (see findRepeatedHooks for the check).
+ */
+export function buildSeriesPostsPrompt(
+  content: string,
+  angles: SeriesAngle[],
+  platform: Platform,
+  voiceTone?: VoiceTone,
+  options: PromptOptions = {}
+): string {
+  const selectedTone = voiceTone || DEFAULT_VOICE_TONE;
+  const angleList = angles
+    .map((angle, i) => `${i + 1}. ${angle.title}${angle.focus ? ` – ${angle.focus}` : ""}`)
+    .join("\n");
 
-    case "x":
-      return `${baseSystemPrompt}
+  const mode = `
 
-⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
-1. EXACTLY 200-275 characters (leave buffer for platform)
-2. MUST end with complete sentence (. ! or ?)
-3. NO hashtags, NO emojis, NO links
-4. ONE standalone thought (not a thread teaser)
+SERIES:
+- Write ${angles.length} posts, one per angle below, all following the constraints above
+- Each post covers ONLY its angle; do not repeat points that belong to another angle
+- Every post opens with a DIFFERENT first line: no repeated hook, hook pattern or opening words
+- The posts are published days apart: each one must work on its own, without "Teil 2" or references to the others
+- Return ONE JSON object: {"posts": [{"angle": angle number, "post": "..."}]}
+- This replaces the single "post" field described above
 
-OUTPUT FORMAT:
-- Return ONLY the tweet text
-- Start with "X:" prefix
+ANGLES:
+${angleList}`;
 
-❌ ANTI-PATTERNS (NEVER DO):
-- "That's" or any incomplete sentence at the end
-- Generic advice like "Work hard" or "Stay focused"
-- Corporate speak like "leverage", "synergy", "optimize"
-- Clickbait without substance
+  return buildTemplatePrompt(content, getPlatformPrompt(platform).single, mode, selectedTone, undefined, options);
+}
 
-✅ GOOD TWEET STRUCTURE:
-[Surprising insight or contrarian take] + [One concrete example] + [Thought-provoking ending]
+/**
+ * Build the prompt that derives a personal voice profile from the user's own posts.
+ * Parse the response with parseVoiceProfileResponse (src/lib/voice-clone.ts).
+ */
+export function buildVoiceClonePrompt(samples: string[]): string {
+  const posts = samples
+    .map((sample, i) => `<post_${i + 1}>\n${sample}\n</post_${i + 1}>`)
+    .join("\n\n");
 
-EXAMPLE:
-"Most founders fail because they solve problems nobody has. The trick: find what annoys YOU daily, then discover 1000 others feel the same. Your frustration is your business plan."
+  return `You are a writing-style analyst. Study the posts below, all written by the same person, and describe their voice so another writer can imitate it.
 
-VOICE: Conversational, authentic, like texting a smart friend.${regenerationPrompt}
+ANALYZE:
+- Sentence length and rhythm, use of line breaks
+- Perspective (I/we/you), formality, humor, emotional register
+- Typical hooks, structures, closings and calls to action
+- Recurring phrases, punctuation and emoji habits
 
-Source Content: ${content}`;
+OUTPUT FORMAT:
+Return ONLY valid JSON, no commentary, no markdown:
+{
+  "name": "2-4 word name for this voice, in the language of the posts",
+  "emoji": "one emoji that fits the voice",
+  "description": "one sentence describing the voice, in the language of the posts",
+  "characteristics": ["3-6 short traits"],
+  "promptModifier": "Write in ... style with:\\n- 5-8 concrete, imitable instructions",
+  "examples": ["${MAX_VOICE_EXAMPLES} short excerpts (max 400 characters) that best show the voice"]
+}
 
-    case "instagram":
-      return `${baseSystemPrompt}
+ANONYMIZE the examples: replace names of people and companies, emails, links and @handles with neutral placeholders like [Name] or [Firma].
 
-⚠️ HARD CONSTRAINTS (VIOLATION = FAILURE):
-1. EXACTLY 400-1200 characters (sweet spot for engagement)
-2. MUST end with complete sentence before hashtags (. ! or ?)
-3. First 125 characters = preview text (must hook reader!)
-4. EXACTLY 3-5 hashtags at the very end, separated by spaces
+${posts}`;
+}
 
-OUTPUT FORMAT:
-- Return ONLY the caption text
-- Start with "INSTAGRAM:" prefix
+/**
+ * Map step for long sources: key points of one section. Posts are later written from the key points
+ * of all sections alone, so the prompt asks for every fact a post could use.
+ */
+export function buildKeyPointsPrompt(section: SourceSection, index: number, total: number): string {
+  const title = section.title ? ` ("${section.title}")` : "";
 
-❌ ANTI-PATTERNS (NEVER DO):
-- Incomplete sentences or cut-off thoughts
-- More than 5 hashtags (looks spammy)
-- No line breaks (wall of text = no engagement)
-- Starting with hashtags
-- Generic CTAs like "Link in bio"
+  return `You are preparing a long source (article, essay or transcript) for social media posts. It was split into ${total} sections; the posts will be written from the key points of all sections only, so whatever you leave out is lost.
 
-✅ INSTAGRAM CAPTION STRUCTURE:
-Line 1: Strong hook (question, bold statement, story opener)
-Line 2-4: Story/insight with emotional connection
-Line 5: Clear actionable takeaway or CTA
-Line 6: 3-5 relevant hashtags
+TASK: Extract the key points of section ${index + 1} of ${total}${title}.
 
-EXAMPLE:
-"The advice that changed everything for me 👇
+RULES:
+- ${MIN_KEY_POINTS}-${MAX_KEY_POINTS} key points in the order of the section; fewer only if the section has nothing more to say
+- One sentence each, at most ${KEY_POINT_MAX_LENGTH} characters, understandable without the section
+- Only what this section says: no interpretation, no outside knowledge
+- Keep numbers, names, dates and short quotes exactly as written
+- Skip greetings, ads, small talk and repetitions
+- Write in the language of the section
+- Return ONE JSON object: {"${KEY_POINTS_FIELD}": ["..."]}${buildPlaceholderNote(section.text)}
 
-Three years ago, someone told me: 'Stop planning. Start doing.'
+<section>
+${section.text}
+</section>`;
+}
 
-I had 47 business ideas in my notes app. Zero launched.
+// Render the selected template (src/libs/promptTemplates.ts) with platform requirements and voice tone personality
+function buildTemplatePrompt(
+  content: string,
+  platformPrompt: string,
+  mode: string,
+  selectedTone: VoiceTone,
+  regenerationSeed: number | undefined,
+  { template = DEFAULT_PROMPT_TEMPLATE, goal, audience, language }: PromptOptions
+): string {
+  return renderPromptTemplate(PROMPT_TEMPLATES[template].body, {
+    tone: buildToneSection(selectedTone),
+    language: buildLanguageRule(language),
+    platform: platformPrompt,
+    mode,
+    goal: buildGoalSection(goal),
+    audience: buildAudienceSection(audience),
+    regeneration: buildRegenerationPrompt(selectedTone, regenerationSeed),
+    placeholders: buildPlaceholderNote(content),
+    content,
+  });
+}
 
-That week, I picked the simplest one and shipped it in 48 hours. It flopped. But the NEXT one? That became my full-time income.
+function buildSystemPrompt(selectedTone: VoiceTone, language?: OutputLanguage): string {
+  return renderPromptTemplate(SYSTEM_PROMPT, {
+    tone: buildToneSection(selectedTone),
+    language: buildLanguageRule(language),
+  });
+}
 
-Save this for when perfectionism hits. 💡
+function buildToneSection(selectedTone: VoiceTone): string {
+  return `${selectedTone.promptModifier}${buildVoiceExamples(selectedTone)}`;
+}
 
-#entrepreneurlife #startupjourney #businesstips"${regenerationPrompt}
+function buildGoalSection(goal?: PostGoal): string {
+  return goal ? `\n\nGOAL: ${POST_GOAL_META[goal].instruction}` : "";
+}
 
-Source Content: ${content}`;
+function buildAudienceSection(audience?: string): string {
+  const target = audience?.trim().slice(0, AUDIENCE_MAX_LENGTH);
+  return target
+    ? `\n\nAUDIENCE: Write for ${target}. Choose examples, wording and level of detail that fit them.`
+    : "";
+}
 
-    default: {
-      // Exhaustive check
-      const _exhaustive: never = platform;
-      throw new Error(`Unknown platform: ${_exhaustive}`);
-    }
+// Without an explicit output language the post follows the source language
+function buildLanguageRule(language?: OutputLanguage): string {
+  if (!language) {
+    return "LANGUAGE: Write in the SAME language as the source content (German→German, English→English)";
   }
+  return `LANGUAGE: Write in ${LANGUAGE_META[language].promptName}, whatever the language of the source content. Translate facts faithfully; keep names, brands and numbers unchanged`;
 }
 
-export function validatePost(post: string, platform: Platform): void {
-  // Validation limits aligned with prompt constraints
-  const limits: Record<Platform, { min: number; max: number }> = {
-    linkedin: { min: 400, max: 950 },  // Target: 500-900, with buffer
-    x: { min: 100, max: 280 },          // Target: 200-275, with buffer
-    instagram: { min: 300, max: 1500 }, // Target: 400-1200, with buffer for hashtags
-  };
+// Cloned voice tones carry samples of the user's own writing as style reference
+function buildVoiceExamples(selectedTone: VoiceTone): string {
+  if (!selectedTone.examples?.length) return "";
+  const examples = selectedTone.examples
+    .map((example, i) => `<example_${i + 1}>\n${example}\n</example_${i + 1}>`)
+    .join("\n");
+  return `\n\nSTYLE EXAMPLES (match rhythm, wording and structure; never copy their content):\n${examples}`;
+}
 
-  const limit = limits[platform];
+function buildRegenerationPrompt(selectedTone: VoiceTone, regenerationSeed?: number): string {
+  return regenerationSeed
+    ? `\n\nVariation ${regenerationSeed}: Create a different approach or focus for diversity while maintaining the ${selectedTone.name} voice.`
+    : "";
+}
 
-  if (post.length < limit.min) {
-    throw new Error(`Post zu kurz (min. ${limit.min} Zeichen)`);
+export function validatePost(post: string, platform: Platform): void {
+  // Same schema as the structured output (limits from PLATFORMS[platform].limits)
+  const result = platformPostSchema(platform).safeParse(post);
+  if (!result.success) {
+    throw new Error(result.error.issues[0].message);
   }
-  if (post.length > limit.max) {
-    throw new Error(`Post zu lang (max. ${limit.max} Zeichen)`);
+}
+
+/**
+ * Extract the post that follows a "PREFIX:" label, falling back to the whole text.
+ * Default parser for single-platform completions.
+ */
+export function extractPrefixedPost(text: string, prefix: string): string {
+  const match = text.match(new RegExp(`${escapeRegExp(prefix)}:\\s*([\\s\\S]*?)$`, 'i'));
+  if (match && match[1] && match[1].trim()) {
+    return match[1].trim();
   }
+  return text.replace(new RegExp(`^\\s*${escapeRegExp(prefix)}:\\s*`, 'i'), '').trim();
 }
 
 // Normalize model output to exactly one post
 export function normalizeSinglePostResponse(text: string, platform: Platform): string {
+  // Structured output carries the post in a JSON field and needs no label cleanup
+  const field = parseJsonObject(text)?.[SINGLE_POST_FIELD];
+  if (typeof field === "string") {
+    const { sanitize } = PLATFORMS[platform];
+    return sanitize ? sanitize(field.trim()) : field.trim();
+  }
+
   let t = text.trim();
 
   // Remove common labels/prefixes that sometimes slip in
-  t = t.replace(/^\s*(LINKEDIN:|INSTAGRAM:|TWEET:|X:)/i, '').trim();
+  const knownPrefixes = [...ALL_PLATFORMS.map(p => PLATFORMS[p].outputPrefix), 'TWEET']
+    .map(prefix => `${escapeRegExp(prefix)}:`)
+    .join('|');
+  t = t.replace(new RegExp(`^\\s*(${knownPrefixes})`, 'i'), '').trim();
 
   // Remove leading numbering/labels like "1)", "1.", "- ", "• ", "Tweet 1:" etc.
   t = t
@@ -421,13 +593,14 @@ export function normalizeSinglePostResponse(text: string, platform: Platform): s
     .replace(/^\s*\(?\d+\/\d+\)?\s+/, '')
     .trim();
 
-  if (platform === 'x') {
-    // For X/Twitter, respect the 280 character limit with smart truncation
-    // Ensures we end with a complete sentence, never cut off mid-word
-    return truncateToCompleteSentence(t, 280);
+  const { sanitize } = PLATFORMS[platform];
+  if (sanitize) {
+    // Short-form platforms (e.g. X) enforce their hard limit directly,
+    // ending with a complete sentence instead of cutting mid-word
+    return sanitize(t);
   }
 
-  // For LinkedIn and Instagram, preserve the full formatted content
+  // For long-form platforms, preserve the full formatted content
   // The prompts specifically ask for line breaks and formatting
   // Don't truncate at double line breaks - that's intended formatting!
 
@@ -442,3 +615,24 @@ export function normalizeSinglePostResponse(text: string, platform: Platform): s
   // Return the full content, validatePost will check the length limits
   return t.trim();
 }
+
+/**
+ * Normalize a thread-mode response into a stored thread (tweets joined by THREAD_SEPARATOR).
+ * Overlong tweets are split so every numbered tweet fits the 280 limit.
+ */
+export function normalizeThreadResponse(text: string): string {
+  const tweets = fitThread(parseThreadResponse(text)).slice(0, MAX_THREAD_TWEETS);
+  return joinThread(tweets);
+}
+
+export function validateThread(thread: string): void {
+  const tweets = splitThread(thread);
+
+  if (tweets.length < MIN_THREAD_TWEETS) {
+    throw new Error(`Thread zu kurz (min. ${MIN_THREAD_TWEETS} Tweets)`);
+  }
+  const [overlong] = findOverlongTweets(tweets);
+  if (overlong !== undefined) {
+    throw new Error(`Tweet ${overlong + 1} zu lang (max. ${TWEET_MAX_LENGTH} Zeichen)`);
+  }
+}
@@ -0,0 +1,170 @@
+import type { PostGoal } from "@/config/post-goals";
+import { HOOK_FORMULAS, HOOK_FORMULA_META } from "@/config/hook-formulas";
+import type { OutputLanguage } from "@/lib/language";
+import type { VoiceTone } from "@/config/voice-tones";
+
+/**
+ * Prompt template engine: named, versioned prompt texts with {{variable}} slots.
+ * promptBuilder fills the variables, so single posts, variants and threads all go through the template
+ * the user picked. Bump a template's `version` whenever its text changes; saved posts record it.
+ */
+
+export interface PromptVariables {
+  /** Voice tone instructions, including style examples of cloned voices */
+  tone: string;
+  /** Output-language rule */
+  language: string;
+  /** Platform requirements, or the X thread format */
+  platform: string;
+  /** Mode-specific instructions (e.g. variants); empty for a single post */
+  mode: string;
+  /** Goal instruction; empty without a goal */
+  goal: string;
+  /** Target audience; empty without one */
+  audience: string;
+  regeneration: string;
+  /** Note on redacted personal data; empty without placeholders */
+  placeholders: string;
+  content: string;
+}
+
+export interface PromptTemplate {
+  label: string;
+  description: string;
+  /** Increase whenever `body` changes */
+  version: number;
+  /** Prompt text; every {{name}} must be a key of PromptVariables */
+  body: string;
+}
+
+// Shared opening of every template, also used for the repair and carousel prompts
+export const SYSTEM_PROMPT = `You are an expert social media ghostwriter specialized in creating premium, engaging content for European solopreneurs and small companies.
+
+VOICE & PERSONALITY:
+{{tone}}
+
+QUALITY STANDARDS:
+- Professional, research-backed content like industry leaders
+- Specific examples, company names, and real insights when relevant
+- Engaging hooks that immediately capture attention
+- Clear value proposition and actionable takeaways
+- Authentic voice that builds trust and authority
+- {{language}}`;
+
+// Renders the same lines the template used to spell out, so the text of `structured` (and its version) is unchanged
+const HOOK_FORMULA_LIST = HOOK_FORMULAS
+  .map(formula => `- ${HOOK_FORMULA_META[formula].name}: "${HOOK_FORMULA_META[formula].pattern}"`)
+  .join("\n");
+
+/**
+ * Template registry. Order here is the display order in the generator.
+ * `structured` carries the hook formulas and storytelling frameworks of the former promptBuilder.v2.
+ */
+export const PROMPT_TEMPLATES = {
+  standard: {
+    label: "Standard",
+    description: "Plattformgerechter Post in deiner Tonalität",
+    version: 1,
+    body: `${SYSTEM_PROMPT}
+
+{{platform}}{{mode}}{{goal}}{{audience}}{{regeneration}}{{placeholders}}
+
+Source Content: {{content}}`,
+  },
+  structured: {
+    label: "Hook & Storytelling",
+    description: "Bewährte Hook-Formel und Erzählstruktur, ausgerichtet auf das Ziel",
+    version: 1,
+    body: `${SYSTEM_PROMPT}
+
+{{platform}}{{mode}}
+
+STRUCTURE:
+Pick exactly ONE hook formula and ONE storytelling framework that fit the source. Never name them in the post.
+
+HOOK FORMULAS:
+${HOOK_FORMULA_LIST}
+
+STORYTELLING FRAMEWORKS:
+- PAS: Problem → Agitate → Solution
+- STAR: Situation → Task → Action → Result
+- Before/After: starting point → transformation → result
+- 3-Point List: main point → three supporting points → summary
+- Story Arc: setup → conflict → resolution → lesson
+- Question-Answer: provocative question → concise answer (short-form platforms)
+
+NEVER:
+- Corporate buzzwords ("synergies", "paradigm shift", "leverage", "disruptive") or their translations
+- Generic phrases, platitudes or overly promotional language
+
+ALWAYS:
+- Specific examples instead of generalities
+- Start directly with the hook{{goal}}{{audience}}{{regeneration}}{{placeholders}}
+
+Source Content: {{content}}`,
+  },
+} satisfies Record<string, PromptTemplate>;
+
+export type PromptTemplateId = keyof typeof PROMPT_TEMPLATES;
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplateId = "standard";
+
+/** Longest target-audience description passed to the prompt */
+export const AUDIENCE_MAX_LENGTH = 120;
+
+/** Per-generation settings picked in the generator */
+export interface PromptOptions {
+  template?: PromptTemplateId;
+  goal?: PostGoal;
+  /** Free-text target audience, e.g. "HR-Leads in KMU" */
+  audience?: string;
+  /** Without a language the post follows the language of the source */
+  language?: OutputLanguage;
+}
+
+/** How a post was prompted; kept with generated and saved posts */
+export interface PromptMeta {
+  /** Template id and version, e.g. "structured@1" */
+  templateVersion: string;
+  goal?: PostGoal;
+  language?: OutputLanguage;
+  /** Voice the post was written in, so rewrites keep it; not saved with the post */
+  voiceTone?: VoiceTone;
+}
+
+export function isPromptTemplateId(value: unknown): value is PromptTemplateId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATES, value);
+}
+
+export function getTemplateVersion(template: PromptTemplateId = DEFAULT_PROMPT_TEMPLATE): string {
+  return `${template}@${PROMPT_TEMPLATES[template].version}`;
+}
+
+/**
+ * Fill the {{name}} slots of a template. Values are inserted as-is and not scanned again,
+ * so source texts containing braces are safe. Throws on slots without a value.
+ */
+export function renderPromptTemplate(body: string, variables: Partial<Record<keyof PromptVariables, string>>): string {
+  return body.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    const value = variables[name as keyof PromptVariables];
+    if (value === undefined) {
+      throw new Error(`Prompt template variable without value: ${name}`);
+    }
+    return value;
+  });
+}
+
+export const PROMPT_TEMPLATE_STORAGE_KEY = "promptTemplate";
+
+/** Template the user picked last (kept in localStorage) */
+export function getPreferredPromptTemplate(): PromptTemplateId {
+  if (typeof localStorage === "undefined") return DEFAULT_PROMPT_TEMPLATE;
+  const stored = localStorage.getItem(PROMPT_TEMPLATE_STORAGE_KEY);
+  return isPromptTemplateId(stored) ? stored : DEFAULT_PROMPT_TEMPLATE;
+}
+
+export function setPreferredPromptTemplate(template: PromptTemplateId): void {
+  localStorage.setItem(PROMPT_TEMPLATE_STORAGE_KEY, template);
+}
@@ -13,6 +13,7 @@ import {
 // Existing components and hooks
 import { SavedPosts } from "@/components/common/SavedPosts";
 import { PlatformPreviewCard } from "@/components/common/PlatformPreviewCard";
+import { VariantComparisonGrid } from "@/components/common/VariantComparisonGrid";
 import { AccountButton } from "@/components/common/AccountButton";
 import { Auth } from "@/components/common/Auth";
 import PlatformGenerators from "@/components/common/PlatformGenerators";
@@ -32,9 +33,14 @@ import { perfMonitor, PERF_MARKS, PERF_MEASURES } from "@/utils/performance";
 
 // Types
 import type { Platform } from "@/config/platforms";
-import { PLATFORM_LABEL, PLATFORM_META } from "@/config/platforms";
+import { ALL_PLATFORMS, PLATFORM_LABEL, PLATFORM_META } from "@/config/platforms";
 import { savePost } from "@/api/appwrite";
 import { createLinkedInShareUrl } from "@/api/linkedin";
+import { fixPostIssues } from "@/api/claude";
+import { findPostViolations } from "@/lib/post-rules";
+import type { PromptMeta } from "@/libs/promptTemplates";
+import type { HookFormula } from "@/config/hook-formulas";
+import type { SourceDigest } from "@/lib/source-digest";
 
 import { useSaveAnimation } from "@/hooks/useSaveAnimation";
 import { FlyingSaveCard } from "@/components/animations/FlyingSaveCard";
@@ -52,6 +58,10 @@ export default function GeneratorV2() {
   const [refreshKey, setRefreshKey] = useState(0);
   const [mobileTab, setMobileTab] = useState<MobileTab>('input');
   const [extractorTab, setExtractorTab] = useState<'url' | 'text'>('url');
+  // Post whose guardrail issues are being fixed (`${platform}-${index}`)
+  const [fixingPost, setFixingPost] = useState<string | null>(null);
+  // Key points of a long source; its posts were generated and are fact-checked against them
+  const [sourceDigest, setSourceDigest] = useState<SourceDigest | null>(null);
   const prevPostCountRef = useRef(0);
 
   // Custom hooks
@@ -160,7 +170,7 @@ export default function GeneratorV2() {
   }, [extractContent, actions]);
 
   // Save post handler with fly-to animation
-  const handleSavePost = useCallback(async (content: string, platform: Platform, sourceElement?: HTMLElement | null) => {
+  const handleSavePost = useCallback(async (content: string, platform: Platform, sourceElement?: HTMLElement | null, prompt?: PromptMeta, hookFormula?: HookFormula) => {
     if (!userEmail) {
       setLoginOpen(true);
       toast.error("Login erforderlich - Bitte logge dich ein, um Beiträge zu speichern.");
@@ -172,7 +182,7 @@ export default function GeneratorV2() {
       ? saveAnimation.startAnimation(sourceElement, content, platform)
       : false;
 
-    const savePromise = savePost(content, platform).then(() => {
+    const savePromise = savePost(content, platform, prompt, hookFormula).then(() => {
       setRefreshKey((prev) => prev + 1);
     });
 
@@ -235,6 +245,53 @@ export default function GeneratorV2() {
     }
   }, []);
 
+  const groundingSource = sourceDigest?.source === state.inputText ? sourceDigest.text : state.inputText;
+
+  // Rewrite a post with the guardrail's issues as feedback; an edit, so no credit is used
+  const handleFixIssues = useCallback(async (platform: Platform, index: number, post: GeneratedPost, issues: string[]) => {
+    setFixingPost(`${platform}-${index}`);
+    try {
+      const { post: fixed, ...check } = await fixPostIssues(post.content, platform, issues, groundingSource, post.prompt?.voiceTone, post.prompt?.language, post.generationId);
+      actions.replacePost(platform, index, {
+        ...post,
+        content: fixed,
+        isEdited: false,
+        characterCount: fixed.length,
+        violations: check.violations,
+        repairs: check.repairs,
+        generationId: check.generationId,
+        quarantined: check.quarantined,
+        regenerated: check.regenerated,
+      });
+      toast.success("Post überarbeitet – Faktencheck läuft erneut");
+    } catch {
+      toast.error("Überarbeitung fehlgeschlagen. Bitte erneut versuchen.");
+    } finally {
+      setFixingPost(null);
+    }
+  }, [groundingSource, actions]);
+
+  // Hashtag edits keep the generation data; only the hashtag rule is re-checked
+  const handleHashtagsChange = useCallback((platform: Platform, index: number, post: GeneratedPost, content: string) => {
+    actions.replacePost(platform, index, {
+      ...post,
+      content,
+      characterCount: content.length,
+      violations: findPostViolations(content, platform),
+    });
+  }, [actions]);
+
+  // A swapped hook keeps the body and the generation data; the rules are re-checked for the new length
+  const handleApplyHook = useCallback((platform: Platform, index: number, post: GeneratedPost, content: string, hookFormula: HookFormula) => {
+    actions.replacePost(platform, index, {
+      ...post,
+      content,
+      characterCount: content.length,
+      violations: findPostViolations(content, platform),
+      hookFormula,
+    });
+  }, [actions]);
+
   const handleSaveEdit = () => {
     actions.saveEdit();
   };
@@ -256,7 +313,7 @@ export default function GeneratorV2() {
           <CardContent className="pt-6">
             <PlatformGenerators
               content={state.inputText}
-              onPostGenerated={(platform, post) => {
+              onPostGenerated={(platform, post, check, prompt) => {
                 perfMonitor.mark(PERF_MARKS.GENERATION_END);
                 const generatedPost: GeneratedPost = {
                   content: post,
@@ -264,11 +321,26 @@ export default function GeneratorV2() {
                   isEdited: false,
                   regenerationCount: 0,
                   createdAt: new Date(),
-                  characterCount: post.length
+                  characterCount: post.length,
+                  violations: check?.violations,
+                  repairs: check?.repairs,
+                  generationId: check?.generationId,
+                  quarantined: check?.quarantined,
+                  regenerated: check?.regenerated,
+                  prompt,
                 };
                 actions.completeGeneration(platform, generatedPost);
-                toast.success(`${PLATFORM_LABEL[platform]} Post generiert!`);
+                if (check?.quarantined) {
+                  toast.warning(`${PLATFORM_LABEL[platform]} Post zurückgehalten: Faktencheck nicht bestanden`);
+                } else {
+                  toast.success(`${PLATFORM_LABEL[platform]} Post generiert!`);
+                }
               }}
+              onPostStreaming={actions.streamGeneration}
+              onGenerationFailed={actions.failGeneration}
+              onVariantsGenerated={actions.setVariants}
+              onSourceDigest={setSourceDigest}
+              onSeriesSaved={() => setRefreshKey((prev) => prev + 1)}
             />
           </CardContent>
         </Card>
@@ -278,7 +350,9 @@ export default function GeneratorV2() {
 
   // Output Area with PlatformPreviewCards
   const OutputArea = useMemo(() => {
-    const hasContent = Object.values(state.postsByPlatform).some(posts => posts.length > 0);
+    const hasContent = Object.values(state.postsByPlatform).some(posts => posts.length > 0)
+      || Object.keys(state.streamingPosts).length > 0
+      || Object.keys(state.variantsByPlatform).length > 0;
     const isLoading = state.isExtracting || computed.isGeneratingAny;
 
     return (
@@ -298,9 +372,11 @@ export default function GeneratorV2() {
 
         {/* Main Content Area */}
         <div className={`space-y-6 transition-opacity duration-300 ${isLoading ? 'opacity-30' : 'opacity-100'}`}>
-          {(["linkedin", "x", "instagram"] as Platform[]).map((platform) => {
+          {ALL_PLATFORMS.map((platform) => {
             const items = state.postsByPlatform[platform] || [];
-            if (items.length === 0) return null;
+            const streamingText = state.streamingPosts[platform];
+            const variants = state.variantsByPlatform[platform];
+            if (items.length === 0 && streamingText === undefined && !variants) return null;
 
             const meta = PLATFORM_META[platform];
 
@@ -315,6 +391,21 @@ export default function GeneratorV2() {
                   </span>
                 </div>
 
+                {/* Variants waiting for a pick */}
+                {variants && (
+                  <VariantComparisonGrid
+                    platform={platform}
+                    variants={variants}
+                    onStar={(id) => actions.starVariant(platform, id)}
+                    onDiscard={(id) => actions.discardVariant(platform, id)}
+                    onMerge={(variant) => actions.addVariant(platform, variant)}
+                    onPick={(id) => {
+                      actions.pickVariant(platform, id);
+                      toast.success(`${PLATFORM_LABEL[platform]} Variante übernommen!`);
+                    }}
+                  />
+                )}
+
                 {/* Preview cards */}
                 {items.map((post, index) => {
                   const postContent = typeof post === 'string' ? post : post.content;
@@ -334,12 +425,33 @@ export default function GeneratorV2() {
                       onSaveEdit={handleSaveEdit}
                       onSave={(e) => {
                         const card = (e.currentTarget as HTMLElement).closest('[data-post-card]') as HTMLElement | null;
-                        handleSavePost(postContent, platform, card);
+                        handleSavePost(postContent, platform, card, typeof post === 'string' ? undefined : post.prompt, typeof post === 'string' ? undefined : post.hookFormula);
                       }}
                       onShare={platform === 'linkedin' ? () => handleLinkedInShare(postContent) : undefined}
+                      violations={typeof post === 'string' || post.isEdited ? undefined : post.violations}
+                      repairs={typeof post === 'string' ? undefined : post.repairs}
+                      generationId={typeof post === 'string' || post.isEdited ? undefined : post.generationId}
+                      onFixIssues={typeof post === 'string' ? undefined : (issues) => handleFixIssues(platform, index, post, issues)}
+                      isFixing={fixingPost === `${platform}-${index}`}
+                      quarantined={typeof post !== 'string' && post.quarantined}
+                      regenerated={typeof post !== 'string' && post.regenerated}
+                      source={groundingSource}
+                      onHashtagsChange={typeof post === 'string' ? undefined : (content) => handleHashtagsChange(platform, index, post, content)}
+                      language={typeof post === 'string' ? undefined : post.prompt?.language}
+                      onApplyHook={typeof post === 'string' ? undefined : (content, formula) => handleApplyHook(platform, index, post, content, formula)}
                     />
                   );
                 })}
+
+                {/* Post that is still streaming in */}
+                {streamingText !== undefined && (
+                  <PlatformPreviewCard
+                    platform={platform}
+                    content={streamingText}
+                    index={items.length}
+                    isStreaming
+                  />
+                )}
               </div>
             );
           })}
@@ -349,7 +461,7 @@ export default function GeneratorV2() {
             <div className="text-center py-16 text-muted-foreground">
               <div className="max-w-md mx-auto space-y-4">
                 <div className="flex justify-center gap-3">
-                  {(["linkedin", "x", "instagram"] as Platform[]).map((p) => (
+                  {ALL_PLATFORMS.map((p) => (
                     <div
                       key={p}
                       className="w-12 h-12 rounded-lg flex items-center justify-center text-xl"
@@ -367,9 +479,9 @@ export default function GeneratorV2() {
         </div>
       </div>
     );
-  }, [state.isExtracting, state.extractionProgress, state.extractionStage, state.generationProgress, state.postsByPlatform, state.editingPost,
+  }, [state.isExtracting, state.extractionProgress, state.extractionStage, state.generationProgress, state.postsByPlatform, state.streamingPosts, state.variantsByPlatform, state.editingPost,
       computed.isGeneratingAny, computed.isEditing, computed.editingPlatform, computed.editingIndex,
-      handleSaveEdit, handleSavePost, handleLinkedInShare, actions]);
+      groundingSource, handleSaveEdit, handleSavePost, handleLinkedInShare, handleFixIssues, handleHashtagsChange, handleApplyHook, fixingPost, actions]);
 
   // If feature flag is disabled, show maintenance notice
   if (!newUxEnabled) {
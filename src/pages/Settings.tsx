@@ -1,6 +1,10 @@
 import { useState, useMemo } from "react";
 import { useSubscription, Subscription } from "@/hooks/useSubscription";
 import { UpgradeButton } from "@/components/common/UpgradeButton";
+import { MastodonInstanceSettings } from "@/components/common/MastodonInstanceSettings";
+import { GuardrailPolicySettings } from "@/components/common/GuardrailPolicySettings";
+import { UsageSettings } from "@/components/common/UsageSettings";
+import { HashtagPolicySettings } from "@/components/common/HashtagPolicySettings";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -22,7 +26,11 @@ import {
   Shield,
   FileHeart,
   Crown,
-  Sparkles
+  Sparkles,
+  Share2,
+  ShieldCheck,
+  Gauge,
+  Hash
 } from "lucide-react";
 
 // Helper function for subscription status display
@@ -426,6 +434,88 @@ export default function Settings() {
             </Card>
           </section>
 
+          {/* Platform Settings Card */}
+          <section aria-labelledby="platform-settings-heading" className="col-span-1">
+            <Card className="bg-card/50 backdrop-blur-sm border-0 shadow-lg hover:shadow-xl transition-shadow">
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-[#6364FF]/10">
+                    <Share2 className="h-5 w-5 text-[#6364FF]" />
+                  </div>
+                  <div>
+                    <CardTitle id="platform-settings-heading" className="text-lg">Mastodon</CardTitle>
+                    <CardDescription className="text-xs">Instanz und Zeichenlimit</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <MastodonInstanceSettings />
+              </CardContent>
+            </Card>
+          </section>
+
+          {/* Guardrail Settings Card */}
+          <section aria-labelledby="guardrail-settings-heading" className="col-span-1">
+            <Card className="bg-card/50 backdrop-blur-sm border-0 shadow-lg hover:shadow-xl transition-shadow">
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <ShieldCheck className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle id="guardrail-settings-heading" className="text-lg">Faktencheck</CardTitle>
+                    <CardDescription className="text-xs">Prüfung gegen den Quelltext</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <GuardrailPolicySettings />
+              </CardContent>
+            </Card>
+          </section>
+
+          {/* Hashtag Settings Card */}
+          <section aria-labelledby="hashtag-settings-heading" className="col-span-1">
+            <Card className="bg-card/50 backdrop-blur-sm border-0 shadow-lg hover:shadow-xl transition-shadow">
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-purple-500/10">
+                    <Hash className="h-5 w-5 text-purple-600" />
+                  </div>
+                  <div>
+                    <CardTitle id="hashtag-settings-heading" className="text-lg">Hashtags</CardTitle>
+                    <CardDescription className="text-xs">Anzahl, feste und gesperrte Hashtags je Plattform</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <HashtagPolicySettings />
+              </CardContent>
+            </Card>
+          </section>
+
+          {/* Usage Card (Pro only) */}
+          {isPro && (
+            <section aria-labelledby="usage-heading" className="col-span-1">
+              <Card className="bg-card/50 backdrop-blur-sm border-0 shadow-lg hover:shadow-xl transition-shadow">
+                <CardHeader className="pb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-primary/10">
+                      <Gauge className="h-5 w-5 text-primary" />
+                    </div>
+                    <div>
+                      <CardTitle id="usage-heading" className="text-lg">Verbrauch</CardTitle>
+                      <CardDescription className="text-xs">Tokens und Kosten in diesem Monat</CardDescription>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <UsageSettings />
+                </CardContent>
+              </Card>
+            </section>
+          )}
+
           {/* Support Card - Full Width */}
           <section aria-labelledby="support-heading" className="col-span-1 md:col-span-2 lg:col-span-3">
           <Card className="bg-card/50 backdrop-blur-sm border-0 shadow-lg hover:shadow-xl transition-shadow col-span-1 md:col-span-2 lg:col-span-3">
@@ -0,0 +1,74 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  FREE_FOLLOW_UPS_PER_DAY,
+  FREE_GENERATIONS_PER_DAY,
+  FREE_UNLINKED_AUXILIARY_PER_DAY,
+  checkFreeTier,
+  isRequestKind,
+} from '../../../api/utils/freeTier';
+
+/**
+ * Tests for the free-tier request kinds: only primary generations count against the daily limit
+ */
+
+type Databases = Parameters<typeof checkFreeTier>[0];
+
+/** Answers listDocuments per collection and query; `ownCompletion` decides the generation-id lookup */
+const withDocuments = ({ generations = 0, followUps = 0, unlinked = 0, ownCompletion = false }) => {
+  const listDocuments = vi.fn(async (_db: string, collection: string, queries: string[]) => {
+    const count = collection === 'generation_usage'
+      ? generations
+      : queries.some((query) => query.includes('"generation_id"'))
+        ? Number(ownCompletion)
+        : queries.some((query) => query.includes('isNull')) ? unlinked : followUps;
+    return { total: count, documents: Array.from({ length: count }, (_, i) => ({ $id: `doc-${i}` })) };
+  });
+  return { databases: { listDocuments } as unknown as Databases, listDocuments };
+};
+
+describe('free tier', () => {
+  test('should accept only the known request kinds', () => {
+    expect(isRequestKind('generation')).toBe(true);
+    expect(isRequestKind('auxiliary')).toBe(true);
+    expect(isRequestKind('bonus')).toBe(false);
+    expect(isRequestKind(undefined)).toBe(false);
+  });
+
+  test('should count generations against the daily limit', async () => {
+    await expect(checkFreeTier(withDocuments({ generations: 1 }).databases, 'user-1', { kind: 'generation' }))
+      .resolves.toEqual({ billable: true, limited: null, linked: false });
+    await expect(checkFreeTier(withDocuments({ generations: FREE_GENERATIONS_PER_DAY }).databases, 'user-1', { kind: 'generation' }))
+      .resolves.toEqual({ billable: true, limited: 'generations', linked: false });
+  });
+
+  test('should not bill follow-up calls of the user\'s own completion', async () => {
+    const full = { generations: FREE_GENERATIONS_PER_DAY, ownCompletion: true };
+
+    await expect(checkFreeTier(withDocuments(full).databases, 'user-1', { kind: 'repair', generationId: 'gen-1' }))
+      .resolves.toEqual({ billable: false, limited: null, linked: true });
+    await expect(checkFreeTier(withDocuments(full).databases, 'user-1', { kind: 'auxiliary', generationId: 'gen-1' }))
+      .resolves.toEqual({ billable: false, limited: null, linked: true });
+    await expect(checkFreeTier(withDocuments({ ...full, followUps: FREE_FOLLOW_UPS_PER_DAY }).databases, 'user-1', { kind: 'auxiliary', generationId: 'gen-1' }))
+      .resolves.toEqual({ billable: false, limited: 'follow_ups', linked: true });
+  });
+
+  test('should cap auxiliary calls without a known completion far below the follow-up allowance', async () => {
+    expect(FREE_UNLINKED_AUXILIARY_PER_DAY).toBeLessThan(FREE_FOLLOW_UPS_PER_DAY);
+
+    await expect(checkFreeTier(withDocuments({ generations: FREE_GENERATIONS_PER_DAY }).databases, 'user-1', { kind: 'auxiliary' }))
+      .resolves.toEqual({ billable: false, limited: null, linked: false });
+    await expect(checkFreeTier(withDocuments({ unlinked: FREE_UNLINKED_AUXILIARY_PER_DAY }).databases, 'user-1', { kind: 'auxiliary', generationId: 'someone-elses' }))
+      .resolves.toEqual({ billable: false, limited: 'auxiliary', linked: false });
+  });
+
+  test('should bill repairs without a known completion as generations', async () => {
+    const { databases, listDocuments } = withDocuments({ generations: FREE_GENERATIONS_PER_DAY });
+
+    await expect(checkFreeTier(databases, 'user-1', { kind: 'repair' }))
+      .resolves.toEqual({ billable: true, limited: 'generations', linked: false });
+    expect(listDocuments).toHaveBeenCalledTimes(1);
+
+    await expect(checkFreeTier(databases, 'user-1', { kind: 'repair', generationId: 'someone-elses' }))
+      .resolves.toEqual({ billable: true, limited: 'generations', linked: false });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { getGuardrailResult } from '@/api/guardrail';
+import { fixPostIssues } from '@/api/claude';
+import { generateOpenRouterMessage } from '@/libs/api-client';
+
+vi.mock('@/api/appwrite', () => ({
+  createJWT: vi.fn().mockResolvedValue('jwt-token'),
+}));
+
+vi.mock('@/libs/api-client', () => ({
+  generateOpenRouterMessage: vi.fn(),
+}));
+
+/**
+ * Tests for guardrail results shown to users and the "fix these issues" rewrite
+ */
+
+const sentences = (n: number) => 'Ein Satz mit einem konkreten Beispiel. '.repeat(n).trim();
+
+describe('guardrail results', () => {
+  beforeEach(() => {
+    vi.mocked(generateOpenRouterMessage).mockReset();
+    global.fetch = vi.fn();
+  });
+
+  test('should report pending until the check was stored', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({ status: 'pending' }), { status: 202 }));
+
+    await expect(getGuardrailResult('gen-1')).resolves.toEqual({ status: 'pending' });
+
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe('/api/guardrail?generation_id=gen-1');
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer jwt-token');
+  });
+
+  test('should return the stored scores and label', async () => {
+    const result = { factual_accuracy: 3, source_fidelity: 5, pii_detected: false, issues: ['Zahl übertrieben'], label: 'warn' };
+    vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({ status: 'complete', result }), { status: 200 }));
+
+    await expect(getGuardrailResult('gen-1')).resolves.toEqual({ status: 'complete', result });
+  });
+
+  test('should rewrite with the issues and the source, and return the new generation id', async () => {
+    const fixed = sentences(12);
+    vi.mocked(generateOpenRouterMessage).mockResolvedValueOnce({
+      id: 'gen-2',
+      content: [{ text: JSON.stringify({ post: fixed }) }],
+    });
+
+    const result = await fixPostIssues(sentences(12), 'linkedin', ['Die Zahl 90 % steht nicht in der Quelle'], 'Quelltext');
+
+    expect(result).toMatchObject({ post: fixed, violations: [], repairs: [], generationId: 'gen-2' });
+    const [request] = vi.mocked(generateOpenRouterMessage).mock.calls[0];
+    expect(request.messages[0].content).toContain('- Die Zahl 90 % steht nicht in der Quelle');
+    expect(request.messages[0].content).toContain('<source>\nQuelltext\n</source>');
+    expect(request.sourceText).toBe('Quelltext');
+  });
+
+  test('should pass on the quarantine flag of a blocked response', async () => {
+    vi.mocked(generateOpenRouterMessage).mockResolvedValueOnce({
+      id: 'gen-3',
+      content: [{ text: JSON.stringify({ post: sentences(12) }) }],
+      guardrail: { factual_accuracy: 1, source_fidelity: 2, pii_detected: false, issues: ['Erfunden'], label: 'fail', quarantined: true },
+    });
+
+    const result = await fixPostIssues(sentences(12), 'linkedin', ['Erfunden'], 'Quelltext');
+
+    expect(result).toMatchObject({ generationId: 'gen-3', quarantined: true });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, test, expect, vi } from 'vitest';
+import { MODEL_ROUTES, loadModelRoutes, resolveModelRoute, shouldFallBack } from '../../../api/utils/modelRouting';
+
+/**
+ * Tests for the chat proxy's model routing table and fallback chain
+ */
+
+describe('model routing', () => {
+  test('should route by platform and tier, falling back to the default route', () => {
+    const table = loadModelRoutes({});
+
+    expect(resolveModelRoute(table, { platform: 'linkedin', isPremium: true })).toEqual({
+      key: 'linkedin:premium',
+      models: [MODEL_ROUTES.platforms.linkedin.premium, ...MODEL_ROUTES.fallbacks],
+    });
+    expect(resolveModelRoute(table, { platform: 'x', isPremium: false }).models[0]).toBe(MODEL_ROUTES.platforms.x.free);
+    expect(resolveModelRoute(table, { isPremium: false }).key).toBe('default:free');
+    expect(resolveModelRoute(table, { platform: 'myspace', isPremium: true }).key).toBe('default:premium');
+  });
+
+  test('should drop duplicate models and cap the chain', () => {
+    const table = { ...loadModelRoutes({}), fallbacks: ['a/one', 'a/two', 'a/three'] };
+
+    expect(resolveModelRoute(table, { isPremium: true, requestedModel: 'a/two' }).models).toEqual(['a/two', 'a/one', 'a/three']);
+    expect(resolveModelRoute(table, { isPremium: true, requestedModel: 'claude-sonnet-4-20250514' }).models[0]).toBe('anthropic/claude-sonnet-4');
+  });
+
+  test('should only honour a requested model the premium tier is routed to', () => {
+    const table = loadModelRoutes({});
+
+    expect(resolveModelRoute(table, { isPremium: false, requestedModel: 'anthropic/claude-sonnet-4' }).models[0]).toBe(MODEL_ROUTES.default.free);
+    expect(resolveModelRoute(table, { isPremium: true, requestedModel: 'anthropic/claude-opus-4' }).models[0]).toBe(MODEL_ROUTES.default.premium);
+    expect(resolveModelRoute(table, { platform: 'x', isPremium: true, requestedModel: 'anthropic/claude-sonnet-4' }).models[0]).toBe('anthropic/claude-sonnet-4');
+  });
+
+  test('should apply environment overrides and ignore invalid JSON', () => {
+    const table = loadModelRoutes({
+      OPENROUTER_MODEL: 'openrouter/auto',
+      OPENROUTER_MODEL_ROUTES: JSON.stringify({ platforms: { mastodon: { premium: 'b/strong' } }, fallbacks: ['b/backup'] }),
+    });
+
+    expect(table.default).toEqual({ free: 'openrouter/auto', premium: 'openrouter/auto' });
+    expect(table.platforms.mastodon).toEqual({ free: 'openrouter/auto', premium: 'b/strong' });
+    // The pinned model replaces the platform routes of the table too
+    expect(table.platforms.x).toEqual({ free: 'openrouter/auto', premium: 'openrouter/auto' });
+    expect(resolveModelRoute(table, { platform: 'linkedin', isPremium: true }).models[0]).toBe('openrouter/auto');
+    expect(table.fallbacks).toEqual(['b/backup']);
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(loadModelRoutes({ OPENROUTER_MODEL_ROUTES: '{nope' })).toEqual(loadModelRoutes({}));
+    error.mockRestore();
+  });
+
+  test('should only fall back on rate limits and upstream errors', () => {
+    expect(shouldFallBack(429)).toBe(true);
+    expect(shouldFallBack(502)).toBe(true);
+    expect(shouldFallBack(400)).toBe(false);
+    expect(shouldFallBack(401)).toBe(false);
+  });
+});
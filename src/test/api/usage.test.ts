@@ -0,0 +1,100 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_MODEL_PRICE,
+  checkMonthlyBudget,
+  computeCost,
+  getModelPrice,
+  getMonthStart,
+  getMonthlyCostLimit,
+  getMonthlyTotalId,
+  recordUsage,
+  summarizeUsage,
+} from '../../../api/utils/usage';
+
+/**
+ * Tests for token cost accounting and the monthly cost ceiling
+ */
+
+type Databases = Parameters<typeof getMonthlyCostLimit>[0];
+
+const withBudget = (budget: Record<string, unknown> | null) => ({
+  getDocument: vi.fn(budget ? async () => budget : async () => { throw new Error('Document not found'); }),
+}) as unknown as Databases;
+
+describe('usage accounting', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test('should price calls by the longest matching model prefix', () => {
+    expect(getModelPrice('anthropic/claude-haiku-4-5-20251001')).toEqual({ input: 1, output: 5 });
+    expect(getModelPrice('openai/gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPrice('openrouter/auto')).toBe(DEFAULT_MODEL_PRICE);
+
+    expect(computeCost('openai/gpt-4o-mini', { prompt_tokens: 1_000_000, completion_tokens: 500_000 })).toBeCloseTo(0.45);
+    expect(computeCost('openai/gpt-4o-mini', undefined)).toBe(0);
+  });
+
+  test('should sum the month by model and call type', () => {
+    const summary = summarizeUsage([
+      { kind: 'completion', model: 'a/cheap', prompt_tokens: 100, completion_tokens: 50, cost_usd: 0.01 },
+      { kind: 'guardrail', model: 'b/check', prompt_tokens: 300, completion_tokens: 20, cost_usd: 0.02 },
+      { kind: 'completion', model: 'a/cheap', prompt_tokens: 100, completion_tokens: 50, cost_usd: 0.01 },
+    ], getMonthStart(new Date('2026-10-19T12:00:00Z')), 20);
+
+    expect(summary).toMatchObject({ month: '2026-10', calls: 3, prompt_tokens: 500, completion_tokens: 120, limit_usd: 20 });
+    expect(summary.cost_usd).toBeCloseTo(0.04);
+    expect(summary.by_model.map((row) => row.model)).toEqual(['a/cheap', 'b/check']);
+    expect(summary.by_model[0]).toMatchObject({ calls: 2, tokens: 300 });
+    expect(summary.by_kind.guardrail.calls).toBe(1);
+    expect(summary.by_kind.regeneration.calls).toBe(0);
+  });
+
+  test('should prefer the account budget over the default ceiling', async () => {
+    vi.stubEnv('MONTHLY_COST_LIMIT_USD', '5');
+
+    await expect(getMonthlyCostLimit(withBudget(null), 'user-1')).resolves.toBe(5);
+    await expect(getMonthlyCostLimit(withBudget({ monthly_limit_usd: 50 }), 'user-1')).resolves.toBe(50);
+    await expect(getMonthlyCostLimit(withBudget({ monthly_limit_usd: 0 }), 'user-1')).resolves.toBeNull();
+  });
+
+  test('should have no ceiling unless one is configured', async () => {
+    vi.stubEnv('MONTHLY_COST_LIMIT_USD', '');
+
+    await expect(getMonthlyCostLimit(withBudget(null), 'user-1')).resolves.toBeNull();
+    await expect(checkMonthlyBudget(withBudget(null), 'user-1')).resolves.toEqual({ spentUsd: 0, limitUsd: null, exceeded: false });
+  });
+
+  test('should check the ceiling against the running monthly total', async () => {
+    vi.stubEnv('MONTHLY_COST_LIMIT_USD', '5');
+    const getDocument = vi.fn(async (_db: string, collection: string) => {
+      if (collection === 'usage_totals') return { cost_usd: 5.2 };
+      throw Object.assign(new Error('Document not found'), { code: 404 });
+    });
+
+    await expect(checkMonthlyBudget({ getDocument } as unknown as Databases, 'user-1'))
+      .resolves.toEqual({ spentUsd: 5.2, limitUsd: 5, exceeded: true });
+    expect(getDocument).toHaveBeenCalledWith(expect.any(String), 'usage_totals', getMonthlyTotalId('user-1'));
+  });
+
+  test('should start the monthly total with the first call of the month', async () => {
+    const notFound = Object.assign(new Error('Document not found'), { code: 404 });
+    const databases = {
+      createDocument: vi.fn(async () => ({})),
+      incrementDocumentAttribute: vi.fn().mockRejectedValueOnce(notFound).mockResolvedValue({}),
+    };
+    const record = () => recordUsage(databases as unknown as Databases, {
+      userId: 'user-1',
+      kind: 'completion',
+      model: 'openai/gpt-4o-mini',
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 0 },
+    });
+
+    await record();
+    expect(databases.createDocument).toHaveBeenLastCalledWith(expect.any(String), 'usage_totals', getMonthlyTotalId('user-1'), expect.objectContaining({ cost_usd: 0.15 }));
+
+    await record();
+    expect(databases.incrementDocumentAttribute).toHaveBeenLastCalledWith(expect.any(String), 'usage_totals', getMonthlyTotalId('user-1'), 'cost_usd', 0.15);
+    expect(databases.createDocument).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,13 +1,17 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
+import { toast } from 'sonner';
 import { useContentGeneration } from '@/hooks/useContentGeneration';
 
+vi.mock('sonner', () => ({
+  toast: { error: vi.fn(), success: vi.fn(), warning: vi.fn() },
+}));
+
 // Mock the Claude API
 vi.mock('@/api/claude', () => ({
-  linkedInPostsFromNewsletter: vi.fn(),
-  xTweetsFromBlog: vi.fn(),
-  instagramPostsFromBlog: vi.fn(),
+  postsFromContent: vi.fn(),
   batchedPostsFromContent: vi.fn(),
+  repairPost: vi.fn(async (post: string) => ({ post, violations: [], repairs: [] })),
 }));
 
 // Mock the subscription hook
@@ -26,6 +30,7 @@ vi.mock('@/libs/promptBuilder', () => ({
 }));
 
 vi.mock('@/libs/api-client', () => ({
+  MONTHLY_BUDGET_MESSAGE: 'Monatliches Kostenlimit erreicht.',
   generateOpenRouterMessage: vi.fn(),
   generateClaudeMessage: vi.fn(),
 }));
@@ -42,6 +47,9 @@ describe('useContentGeneration', () => {
       linkedin: [],
       x: [],
       instagram: [],
+      threads: [],
+      bluesky: [],
+      mastodon: [],
     });
     expect(result.current.isLoading).toBe(false);
     expect(result.current.generatedPosts).toEqual({});
@@ -68,8 +76,8 @@ describe('useContentGeneration', () => {
   });
 
   test('should generate content for single platform', async () => {
-    const { linkedInPostsFromNewsletter } = await import('@/api/claude');
-    vi.mocked(linkedInPostsFromNewsletter).mockResolvedValue(['Generated LinkedIn post']);
+    const { postsFromContent } = await import('@/api/claude');
+    vi.mocked(postsFromContent).mockResolvedValue(['Generated LinkedIn post']);
     
     const { result } = renderHook(() => useContentGeneration());
     
@@ -92,6 +100,9 @@ describe('useContentGeneration', () => {
       linkedin: ['LinkedIn post'],
       x: ['X tweet'],
       instagram: [],
+      threads: [],
+      bluesky: [],
+      mastodon: [],
     });
 
     const { result } = renderHook(() => useContentGeneration());
@@ -109,8 +120,8 @@ describe('useContentGeneration', () => {
   });
 
   test('should handle API errors gracefully', async () => {
-    const { linkedInPostsFromNewsletter } = await import('@/api/claude');
-    vi.mocked(linkedInPostsFromNewsletter).mockRejectedValue(new Error('API Error'));
+    const { postsFromContent } = await import('@/api/claude');
+    vi.mocked(postsFromContent).mockRejectedValue(new Error('API Error'));
     
     const { result } = renderHook(() => useContentGeneration());
     
@@ -134,6 +145,9 @@ describe('useContentGeneration', () => {
         linkedin: ['Original post'],
         x: [],
         instagram: [],
+        threads: [],
+        bluesky: [],
+        mastodon: [],
       });
     });
     
@@ -154,6 +168,9 @@ describe('useContentGeneration', () => {
         linkedin: ['Post 1'],
         x: ['Tweet 1'],
         instagram: ['Insta 1'],
+        threads: [],
+        bluesky: [],
+        mastodon: [],
       });
     });
     
@@ -166,6 +183,9 @@ describe('useContentGeneration', () => {
       linkedin: [],
       x: [],
       instagram: [],
+      threads: [],
+      bluesky: [],
+      mastodon: [],
     });
   });
 
@@ -192,6 +212,53 @@ describe('useContentGeneration', () => {
     });
   });
 
+  test('should stream single post deltas and use the final message', async () => {
+    const { generateOpenRouterMessage } = await import('@/libs/api-client');
+    async function* events() {
+      yield { type: 'delta' as const, text: 'LINKEDIN: Gene' };
+      yield { type: 'delta' as const, text: 'rated post' };
+      yield { type: 'done' as const, message: { content: [{ text: 'Generated post' }] } };
+    }
+    // Streaming overload returns an async iterator instead of a promise
+    vi.mocked(generateOpenRouterMessage).mockReturnValue(events() as never);
+    const onStream = vi.fn();
+
+    const { result } = renderHook(() => useContentGeneration());
+
+    await act(async () => {
+      const post = await result.current.generateSinglePost('Test content', 'linkedin', false, undefined, { onStream });
+      expect(post).toBe('Generated post');
+    });
+
+    expect(generateOpenRouterMessage).toHaveBeenCalledWith(expect.anything(), { timeout: 25000, stream: true });
+    expect(onStream.mock.calls).toEqual([['Gene'], ['Generated post']]);
+  });
+
+  test('should request structured output and stream its post field', async () => {
+    const { generateOpenRouterMessage } = await import('@/libs/api-client');
+    async function* events() {
+      yield { type: 'delta' as const, text: '{"post": "X: ' };
+      yield { type: 'delta' as const, text: 'kein Label\\n' };
+      yield { type: 'done' as const, message: { content: [{ text: '{"post": "X: kein Label\\nZweite Zeile"}' }] } };
+    }
+    vi.mocked(generateOpenRouterMessage).mockReturnValue(events() as never);
+    const onStream = vi.fn();
+
+    const { result } = renderHook(() => useContentGeneration());
+
+    await act(async () => {
+      await result.current.generateSinglePost('Test content', 'linkedin', false, undefined, { onStream });
+    });
+
+    expect(generateOpenRouterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        response_format: expect.objectContaining({ type: 'json_schema' }),
+      }),
+      { timeout: 25000, stream: true }
+    );
+    expect(onStream.mock.calls).toEqual([['X: '], ['X: kein Label\n']]);
+  });
+
   test('should handle single post generation errors', async () => {
     const { generateOpenRouterMessage } = await import('@/libs/api-client');
     vi.mocked(generateOpenRouterMessage).mockRejectedValue(new Error('Generation failed'));
@@ -205,6 +272,22 @@ describe('useContentGeneration', () => {
     });
   });
 
+  test('should not report the monthly cost ceiling as the free daily limit', async () => {
+    const { generateOpenRouterMessage } = await import('@/libs/api-client');
+    vi.mocked(generateOpenRouterMessage).mockRejectedValue({
+      message: 'Monatliches Kostenlimit erreicht. Das Limit setzt sich zum Monatsanfang zurueck.',
+      status: 429,
+      code: 'MONTHLY_BUDGET_REACHED',
+    });
+
+    const { result } = renderHook(() => useContentGeneration());
+
+    await act(async () => {
+      await expect(result.current.generateSinglePost('Test content', 'linkedin')).rejects.toThrow('Kostenlimit');
+    });
+    expect(toast.error).toHaveBeenCalledWith('Monatliches Kostenlimit erreicht.');
+  });
+
   test('should check platform generation status', () => {
     const { result } = renderHook(() => useContentGeneration());
     
@@ -0,0 +1,102 @@
+import { describe, test, expect } from 'vitest';
+import { parseCarouselResponse, CAROUSEL_MAX_SLIDES, SLIDE_HEADLINE_MAX } from '@/lib/carousel';
+import { crc32, createZip } from '@/lib/zip';
+import { createImagePdf } from '@/lib/pdf';
+
+/**
+ * Tests for carousel response parsing and the ZIP/PDF writers used for the downloads
+ */
+
+// jsdom's Blob has no arrayBuffer()
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const slide = (n: number) => ({ headline: `Punkt ${n}`, body: `Erklärung ${n}.`, emoji: '💡' });
+
+describe('parseCarouselResponse', () => {
+  test('should parse slides and caption, tolerating code fences and surrounding text', () => {
+    const json = JSON.stringify({ slides: [1, 2, 3, 4, 5].map(slide), caption: ' Caption #tipps ' });
+    const result = parseCarouselResponse(`Hier ist dein Karussell:\n\`\`\`json\n${json}\n\`\`\``);
+
+    expect(result.slides).toHaveLength(5);
+    expect(result.slides[0]).toEqual({ headline: 'Punkt 1', body: 'Erklärung 1.', emoji: '💡' });
+    expect(result.caption).toBe('Caption #tipps');
+  });
+
+  test('should drop slides without headline and cap length', () => {
+    const slides = [
+      { headline: '', body: 'leer' },
+      ...Array.from({ length: 12 }, (_, i) => slide(i + 1)),
+    ];
+    slides[1] = { headline: 'x'.repeat(100), body: '', emoji: '' };
+
+    const result = parseCarouselResponse(JSON.stringify({ slides, caption: '' }));
+
+    expect(result.slides).toHaveLength(CAROUSEL_MAX_SLIDES);
+    expect(result.slides[0].headline).toHaveLength(SLIDE_HEADLINE_MAX);
+    expect(result.slides[0]).not.toHaveProperty('emoji');
+  });
+
+  test('should reject carousels with too few slides or invalid JSON', () => {
+    expect(() => parseCarouselResponse(JSON.stringify({ slides: [slide(1)] }))).toThrow('Karussell zu kurz');
+    expect(() => parseCarouselResponse('{ slides: kaputt }')).toThrow('kein gültiges JSON');
+    expect(() => parseCarouselResponse('Keine Slides')).toThrow('kein gültiges JSON');
+  });
+});
+
+describe('createZip', () => {
+  test('should compute the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  test('should write local headers, central directory and end record', async () => {
+    const data = new TextEncoder().encode('Hallo');
+    const zip = createZip([{ name: 'caption.txt', data }], new Date(2024, 0, 1));
+    const bytes = await readBlob(zip);
+    const view = new DataView(bytes.buffer);
+
+    expect(zip.type).toBe('application/zip');
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    // 30 byte header + 11 byte name + 5 byte data, then the central directory
+    expect(view.getUint32(46, true)).toBe(0x02014b50);
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    expect(view.getUint32(end + 16, true)).toBe(46);
+  });
+});
+
+describe('createImagePdf', () => {
+  test('should write one page per image with a valid cross-reference table', async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+    const pdf = createImagePdf(
+      [
+        { jpeg, width: 1080, height: 1350 },
+        { jpeg, width: 1080, height: 1350 },
+      ],
+      { title: 'Größer denken' }
+    );
+    const text = new TextDecoder('latin1').decode(await readBlob(pdf));
+
+    expect(pdf.type).toBe('application/pdf');
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/Count 2');
+    expect(text).toContain('/MediaBox [0 0 540 675]');
+    // Title as UTF-16BE hex: "Gr" + "ö"
+    expect(text).toContain('/Title <FEFF0047007200F6');
+
+    // Every xref entry points at the start of its object
+    const xrefStart = Number(text.match(/startxref\n(\d+)/)?.[1]);
+    const entries = text.slice(xrefStart).split('\n').slice(3, 12);
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
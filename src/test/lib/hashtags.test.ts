@@ -0,0 +1,76 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import {
+  HASHTAG_POLICY_STORAGE_KEY,
+  applyHashtagPolicy,
+  getHashtagPolicy,
+  getHashtagRange,
+  setHashtagPolicy,
+  splitTrailingHashtags,
+  suggestHashtags,
+  toHashtag,
+} from '@/lib/hashtags';
+import { findPostViolations } from '@/lib/post-rules';
+
+/**
+ * Tests for hashtag suggestions and the per-platform hashtag policy
+ */
+
+const source = `# Die Vier-Tage-Woche im Mittelstand
+
+Seit sechs Monaten testet die Müller Logistik GmbH die Vier-Tage-Woche. Die Müller Logistik GmbH
+hat dafür die Arbeitszeit neu verteilt; Homeoffice bleibt möglich. #NewWork`;
+
+describe('hashtags', () => {
+  afterEach(() => {
+    localStorage.removeItem(HASHTAG_POLICY_STORAGE_KEY);
+  });
+
+  test('should turn phrases into CamelCase tags', () => {
+    expect(toHashtag('Vier-Tage-Woche')).toBe('VierTageWoche');
+    expect(toHashtag('#open source')).toBe('OpenSource');
+    expect(toHashtag('2026')).toBe('');
+  });
+
+  test('should rank source hashtags, repeated names and curated tags', () => {
+    const tags = suggestHashtags(source).map((candidate) => candidate.tag);
+
+    expect(tags[0]).toBe('NewWork');
+    expect(tags).toEqual(expect.arrayContaining(['Mittelstand', 'VierTageWoche', 'MüllerLogistik', 'RemoteWork']));
+    expect(tags).not.toContain('Monaten');
+    expect(suggestHashtags(source).find((candidate) => candidate.tag === 'RemoteWork')?.origin).toBe('curated');
+  });
+
+  test('should rebuild the hashtag block from pinned, model and candidate tags', () => {
+    const post = 'Wir testen die #VierTageWoche.\n\n#Motivation #Mittelstand';
+    const result = applyHashtagPolicy(post, { count: 3, pinned: ['Logistik'], banned: ['motivation'] }, ['NewWork', 'Mittelstand']);
+
+    expect(result).toBe('Wir testen die #VierTageWoche.\n\n#Logistik #Mittelstand');
+    expect(splitTrailingHashtags(result).tags).toEqual(['Logistik', 'Mittelstand']);
+  });
+
+  test('should drop the "#" of banned or surplus inline hashtags', () => {
+    const post = 'Die #VierTageWoche kommt in den #Mittelstand.\n\n#NewWork';
+
+    expect(applyHashtagPolicy(post, { count: 1, pinned: [], banned: ['VierTageWoche'] })).toBe(
+      'Die VierTageWoche kommt in den #Mittelstand.'
+    );
+    expect(applyHashtagPolicy(post, { count: 0, pinned: [], banned: [] })).toBe('Die VierTageWoche kommt in den Mittelstand.');
+  });
+
+  test('should store policies per platform and check posts against them', () => {
+    expect(getHashtagPolicy('instagram')).toEqual({ count: 5, pinned: [], banned: [] });
+    expect(getHashtagRange('linkedin')).toEqual({ min: 0, max: 0 });
+
+    const saved = setHashtagPolicy('linkedin', { count: 40, pinned: ['#Marke', 'marke'], banned: ['#Hustle'] });
+    expect(saved).toEqual({ count: 10, pinned: ['Marke'], banned: ['Hustle'] });
+    setHashtagPolicy('linkedin', { ...saved, count: 2 });
+    expect(getHashtagRange('linkedin')).toEqual({ min: 0, max: 2 });
+
+    const post = `${'Ein Satz mit einem konkreten Beispiel. '.repeat(12).trim()}\n\n#Marke #Mittelstand`;
+    expect(findPostViolations(post, 'linkedin')).toEqual([]);
+    expect(getHashtagPolicy('instagram').count).toBe(5);
+
+    setHashtagPolicy('linkedin', null);
+    expect(findPostViolations(post, 'linkedin').map((v) => v.rule)).toEqual(['hashtags']);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'vitest';
+import { HOOK_FORMULAS } from '@/config/hook-formulas';
+import { parseHooksResponse, replaceHook, splitHook } from '@/lib/hook-workshop';
+import { buildHookPrompt } from '@/libs/promptBuilder';
+import { PROMPT_TEMPLATES } from '@/libs/promptTemplates';
+
+/**
+ * Tests for the hook workshop (alternative first lines)
+ */
+
+const post = 'Die meisten Teams messen das Falsche.\n\nWir haben drei Monate lang nur Durchlaufzeiten verfolgt.\nDas Ergebnis hat uns überrascht.';
+
+describe('hook workshop', () => {
+  test('should split off the first line, or the first sentence of a one-line post', () => {
+    expect(splitHook(post)).toEqual({
+      hook: 'Die meisten Teams messen das Falsche.',
+      rest: '\n\nWir haben drei Monate lang nur Durchlaufzeiten verfolgt.\nDas Ergebnis hat uns überrascht.',
+    });
+    expect(splitHook('„Nie wieder Meetings!" Das sagte unser CTO. Er meinte es ernst.')).toEqual({
+      hook: '„Nie wieder Meetings!"',
+      rest: ' Das sagte unser CTO. Er meinte es ernst.',
+    });
+    expect(splitHook('Nur ein Satz ohne Punkt')).toEqual({ hook: 'Nur ein Satz ohne Punkt', rest: '' });
+  });
+
+  test('should swap the hook and keep the body', () => {
+    const swapped = replaceHook(post, 'Wer misst\neigentlich, was zählt?');
+
+    expect(swapped.startsWith('Wer misst eigentlich, was zählt?\n\nWir haben')).toBe(true);
+    expect(splitHook(swapped).rest).toBe(splitHook(post).rest);
+  });
+
+  test('should parse labeled hooks and drop unknown formulas, duplicates and the current hook', () => {
+    const hooks = HOOK_FORMULAS.slice(0, 5).map((formula, i) => ({ formula, hook: `Hook Nummer ${i + 1}` }));
+    const response = JSON.stringify({
+      hooks: [
+        { formula: 'question', hook: 'Die meisten Teams messen das Falsche.' },
+        { formula: 'clickbait', hook: 'Du wirst nicht glauben, was passiert' },
+        ...hooks,
+        { formula: 'question', hook: 'hook nummer 1!' },
+      ],
+    });
+
+    expect(parseHooksResponse(response, 'Die meisten Teams messen das Falsche.')).toEqual(hooks);
+    expect(() => parseHooksResponse(JSON.stringify({ hooks: hooks.slice(0, 3) }))).toThrow('Hook-Vorschläge unvollständig');
+    expect(() => parseHooksResponse('keine Hooks')).toThrow('kein gültiges JSON');
+  });
+
+  test('should list every formula id in the prompt and keep the structured template unchanged', () => {
+    const prompt = buildHookPrompt(post, splitHook(post).hook, 'linkedin', 8);
+
+    expect(prompt).toContain('Write 8 alternative first lines');
+    for (const formula of HOOK_FORMULAS) expect(prompt).toContain(`- ${formula} (`);
+    expect(PROMPT_TEMPLATES.structured.body).toContain('- Question Hook: "Who else knows this problem?"');
+  });
+});
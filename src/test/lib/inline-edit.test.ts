@@ -0,0 +1,62 @@
+import { describe, test, expect, vi } from 'vitest';
+import { applyInlineEdit, diffWords, parseInlineEditResponse, splitAtSelection } from '@/lib/inline-edit';
+import { inlineEditSelection } from '@/api/claude';
+import { generateOpenRouterMessage } from '@/libs/api-client';
+
+vi.mock('@/libs/api-client', () => ({
+  generateOpenRouterMessage: vi.fn(),
+}));
+
+/**
+ * Tests for inline edit actions on a selection in the post editor
+ */
+
+const post = 'Wir haben das Onboarding umgebaut. Neue Leute sind jetzt nach zwei Wochen produktiv. Fragen an anna@example.com.';
+
+describe('inline edits', () => {
+  test('should keep whitespace around the selection outside of it', () => {
+    const start = post.indexOf(' Neue');
+    const end = post.indexOf('Fragen');
+
+    expect(splitAtSelection(post, { start, end })).toEqual({
+      before: 'Wir haben das Onboarding umgebaut. ',
+      selected: 'Neue Leute sind jetzt nach zwei Wochen produktiv.',
+      after: ' Fragen an anna@example.com.',
+    });
+    expect(applyInlineEdit(post, { start, end }, '  Neue sind nach 2 Wochen produktiv.\n')).toBe(
+      'Wir haben das Onboarding umgebaut. Neue sind nach 2 Wochen produktiv. Fragen an anna@example.com.'
+    );
+  });
+
+  test('should diff by words and rebuild both sides from the parts', () => {
+    const before = 'Neue Leute sind jetzt nach zwei Wochen produktiv.';
+    const after = 'Neue Kolleginnen sind nach zwei Wochen voll produktiv.';
+    const parts = diffWords(before, after);
+
+    expect(parts).toContainEqual({ type: 'removed', text: 'Leute ' });
+    expect(parts).toContainEqual({ type: 'added', text: 'Kolleginnen ' });
+    expect(parts.filter((p) => p.type !== 'added').map((p) => p.text).join('')).toBe(before);
+    expect(parts.filter((p) => p.type !== 'removed').map((p) => p.text).join('')).toBe(after);
+  });
+
+  test('should read the replacement from JSON or plain text', () => {
+    expect(parseInlineEditResponse('{"text": " Kürzer. "}')).toBe('Kürzer.');
+    expect(parseInlineEditResponse('<selection>Kürzer.</selection>')).toBe('Kürzer.');
+    expect(() => parseInlineEditResponse('{"text": ""}')).toThrow('Bearbeitung lieferte keinen Text');
+  });
+
+  test('should send only placeholders and the selection in context', async () => {
+    vi.mocked(generateOpenRouterMessage).mockResolvedValueOnce({
+      content: [{ text: JSON.stringify({ text: 'Schreibt an [EMAIL_1]!' }) }],
+    });
+    const start = post.indexOf('Fragen');
+
+    const replacement = await inlineEditSelection(post, { start, end: post.length }, 'punchier', 'linkedin');
+
+    expect(replacement).toBe('Schreibt an anna@example.com!');
+    const [request] = vi.mocked(generateOpenRouterMessage).mock.calls[0];
+    expect(request.messages[0].content).toContain('<selection>\nFragen an [EMAIL_1].\n</selection>');
+    expect(request.messages[0].content).not.toContain('anna@example.com');
+    expect(request.kind).toBe('auxiliary');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'vitest';
+import { detectLanguage } from '@/lib/language';
+import { buildSinglePostPrompt } from '@/libs/promptBuilder';
+
+/**
+ * Tests for source-language detection and the output-language rule in prompts
+ */
+
+describe('output language', () => {
+  test('should detect the language of a source text', () => {
+    expect(detectLanguage('Wir haben die neue Version veröffentlicht und sie ist schneller als je zuvor, auch auf dem Handy.')).toBe('de');
+    expect(detectLanguage('We shipped the new version and it is faster than ever, so you can try it with your team.')).toBe('en');
+    expect(detectLanguage('Nous avons publié la nouvelle version et elle est plus rapide pour vous et pour les équipes.')).toBe('fr');
+    expect(detectLanguage('Hemos publicado la nueva versión y es más rápida para los equipos que trabajan con datos.')).toBe('es');
+  });
+
+  test('should return null for texts that are too short to tell', () => {
+    expect(detectLanguage('Launch 2024 🚀')).toBeNull();
+    expect(detectLanguage('')).toBeNull();
+  });
+
+  test('should ask for the chosen language regardless of the source', () => {
+    const source = 'Wir haben die neue Version veröffentlicht.';
+
+    expect(buildSinglePostPrompt(source, 'linkedin')).toContain('SAME language as the source');
+
+    const prompt = buildSinglePostPrompt(source, 'linkedin', undefined, undefined, { language: 'en' });
+    expect(prompt).toContain('Write in English, whatever the language of the source content');
+    expect(prompt).not.toContain('SAME language as the source');
+  });
+});
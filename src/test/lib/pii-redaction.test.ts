@@ -0,0 +1,66 @@
+import { describe, test, expect, vi } from 'vitest';
+import { hasPiiPlaceholders, redactPii, restorePii } from '@/lib/pii-redaction';
+import { postsFromContent } from '@/api/claude';
+import { generateOpenRouterMessage } from '@/libs/api-client';
+
+vi.mock('@/libs/api-client', () => ({
+  generateOpenRouterMessage: vi.fn(),
+}));
+
+/**
+ * Tests for the local PII redaction that runs before source texts are sent to the model
+ */
+
+describe('PII redaction', () => {
+  test('should mask emails, DACH phone numbers, IBANs, street addresses and handles', () => {
+    const source = [
+      'Schreib an anna.schmidt@example.de oder ruf an: +49 (0) 30 1234567.',
+      'Wien: 0043 1 5123456, Büro: 089/12345678.',
+      'Spenden an DE89 3704 0044 0532 0130 00.',
+      'Besuch uns in der Berliner Str. 12a, 10115 Berlin oder in der Hauptstraße 5.',
+      'Folge @anna_schmidt für mehr.',
+    ].join('\n');
+
+    const { text, entities } = redactPii(source);
+
+    expect(entities.map((e) => e.type)).toEqual(['email', 'iban', 'phone', 'phone', 'phone', 'address', 'address', 'handle']);
+    expect(text).toContain('Schreib an [EMAIL_1] oder ruf an: [PHONE_1].');
+    expect(text).toContain('Wien: [PHONE_2], Büro: [PHONE_3].');
+    expect(text).toContain('Spenden an [IBAN_1].');
+    expect(text).toContain('in der [ADDRESS_1] oder in der [ADDRESS_2].');
+    expect(text).toContain('Folge [HANDLE_1] für mehr.');
+    expect(hasPiiPlaceholders(text)).toBe(true);
+  });
+
+  test('should leave dates, years, prices and plain numbers alone', () => {
+    const source = 'Am 01.02.2024 kamen 1500 Leute, Tickets ab 0,99 €. Seit 2019 wächst der Umsatz um 12 %.';
+
+    expect(redactPii(source)).toEqual({ text: source, entities: [] });
+  });
+
+  test('should reuse placeholders and restore the original values', () => {
+    const source = 'Mail an info@firma.at. Nochmal: info@firma.at';
+    const redaction = redactPii(source);
+
+    expect(redaction.text).toBe('Mail an [EMAIL_1]. Nochmal: [EMAIL_1]');
+    expect(restorePii(redaction.text, redaction.entities)).toBe(source);
+
+    // Shared placeholders across texts, e.g. a post and its source
+    const post = redactPii('Fragen an info@firma.at oder @firma', redaction.entities);
+    expect(post.text).toBe('Fragen an [EMAIL_1] oder [HANDLE_1]');
+    expect(post.entities).toHaveLength(2);
+  });
+
+  test('should send only placeholders to the model and restore them in the post', async () => {
+    const post = 'Neue Sprechstunde ab Montag. Anmeldung unter [PHONE_1], alle Details im Newsletter.';
+    vi.mocked(generateOpenRouterMessage).mockResolvedValueOnce({ content: [{ text: JSON.stringify({ post }) }] });
+
+    const [result] = await postsFromContent('Sprechstunde ab Montag, Anmeldung unter 030 1234567 bei max@praxis.de.', 'threads');
+
+    const [request] = vi.mocked(generateOpenRouterMessage).mock.calls[0];
+    expect(request.messages[0].content).toContain('Anmeldung unter [PHONE_1] bei [EMAIL_1].');
+    expect(request.messages[0].content).toContain('PLACEHOLDERS:');
+    expect(JSON.stringify(request)).not.toContain('max@praxis.de');
+    expect(result).toBe('Neue Sprechstunde ab Montag. Anmeldung unter 030 1234567, alle Details im Newsletter.');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { findPostViolations } from '@/lib/post-rules';
+import { repairPost } from '@/api/claude';
+import { generateOpenRouterMessage } from '@/libs/api-client';
+
+vi.mock('@/libs/api-client', () => ({
+  generateOpenRouterMessage: vi.fn(),
+}));
+
+/**
+ * Tests for platform rule checks and the validate-and-repair loop
+ */
+
+const sentences = (n: number) => 'Ein Satz mit einem konkreten Beispiel. '.repeat(n).trim();
+const reply = (post: string) => ({ content: [{ text: JSON.stringify({ post }) }] });
+
+describe('post rules', () => {
+  beforeEach(() => {
+    vi.mocked(generateOpenRouterMessage).mockReset();
+  });
+
+  test('should accept a post within spec', () => {
+    expect(findPostViolations(sentences(12), 'linkedin')).toEqual([]);
+  });
+
+  test('should report each broken rule', () => {
+    const linkedin = findPostViolations(`${sentences(12)} Mehr dazu! 🚀🔥🎯 #Growth`, 'linkedin');
+    expect(linkedin.map((v) => v.rule)).toEqual(['hashtags', 'emojis']);
+    expect(linkedin[0].message).toBe('1 Hashtag, erlaubt: keine Hashtags');
+
+    const x = findPostViolations(`${sentences(4)} Und dann`, 'x');
+    expect(x.map((v) => v.rule)).toEqual(['final_punctuation']);
+
+    expect(findPostViolations(sentences(3), 'linkedin').map((v) => v.rule)).toEqual(['too_short']);
+  });
+
+  test('should check the Instagram hashtag count and ignore hashtags after the last sentence', () => {
+    const caption = sentences(10);
+
+    expect(findPostViolations(`${caption}\n\n#a #b #c`, 'instagram')).toEqual([]);
+    const [violation] = findPostViolations(`${caption}\n\n#a`, 'instagram');
+    expect(violation.rule).toBe('hashtags');
+    expect(violation.instruction).toContain('3-5 relevant hashtags');
+  });
+
+  test('should rewrite until the post is within spec and record every round', async () => {
+    const draft = `${sentences(12)} #Growth #Hustle`;
+    const fixed = sentences(12);
+    vi.mocked(generateOpenRouterMessage).mockResolvedValueOnce(reply(fixed));
+
+    const result = await repairPost(draft, 'linkedin', { maxAttempts: 2 });
+
+    expect(result.post).toBe(fixed);
+    expect(result.violations).toEqual([]);
+    expect(result.repairs).toHaveLength(1);
+    expect(result.repairs[0]).toMatchObject({ attempt: 1, before: draft, after: fixed });
+    expect(result.repairs[0].violations[0].rule).toBe('hashtags');
+
+    const [request] = vi.mocked(generateOpenRouterMessage).mock.calls[0];
+    expect(request.messages[0].content).toContain('Remove all 2 hashtags.');
+  });
+
+  test('should stop after the configured attempts and report what is left', async () => {
+    vi.mocked(generateOpenRouterMessage).mockResolvedValue(reply(sentences(2)));
+
+    const result = await repairPost(sentences(2), 'linkedin', { maxAttempts: 2 });
+
+    expect(generateOpenRouterMessage).toHaveBeenCalledTimes(2);
+    expect(result.repairs).toHaveLength(2);
+    expect(result.violations.map((v) => v.rule)).toEqual(['too_short']);
+  });
+
+  test('should not call the model for posts within spec', async () => {
+    const result = await repairPost(sentences(12), 'linkedin', { maxAttempts: 2 });
+
+    expect(generateOpenRouterMessage).not.toHaveBeenCalled();
+    expect(result.repairs).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'vitest';
+import {
+  buildComparisonReport,
+  createRecordedModel,
+  createStubModel,
+  requestKey,
+  runPromptEval,
+  scoreRubric,
+  type EvalFixture,
+} from '@/lib/prompt-eval';
+import type { Platform } from '@/config/platforms';
+
+/**
+ * Tests for the offline prompt evaluation harness
+ */
+
+const fixture: EvalFixture = {
+  id: 'de-test',
+  content: [
+    '# Pilotprojekt',
+    'Im Januar haben wir die Vier-Tage-Woche eingeführt und sind dabei geblieben.',
+    'Die Zahl der abgeschlossenen Projekte ist von 41 auf 44 gestiegen.',
+    'Krankheitstage sind um 30 Prozent zurückgegangen, weil das Team sich besser erholt.',
+    'Meetings waren der größte Zeitfresser, deshalb haben wir sie radikal gekürzt.',
+    'Statusrunden haben wir durch ein geteiltes Dokument ersetzt, das alle pflegen.',
+    'Kundinnen und Kunden erreichen uns am Freitag über eine rotierende Bereitschaft.',
+    'Die Vier-Tage-Woche ist kein Geschenk, sondern ein Organisationsprojekt für das ganze Team.',
+    'Sie funktioniert nur, wenn das Team selbst entscheidet, welche Arbeit wegfallen darf.',
+  ].join('\n'),
+};
+
+describe('prompt evaluation', () => {
+  test('should score stub posts deterministically per template', async () => {
+    const platforms: Platform[] = ['linkedin', 'threads'];
+    const options = { template: 'standard' as const, fixtures: [fixture], platforms, model: createStubModel() };
+
+    const first = await runPromptEval(options);
+    const second = await runPromptEval(options);
+
+    expect(first.templateVersion).toBe('standard@1');
+    expect(first.cases).toHaveLength(2);
+    expect(first.cases.map((c) => c.post)).toEqual(second.cases.map((c) => c.post));
+    for (const evalCase of first.cases) {
+      expect(evalCase.validation).toBeNull();
+      expect(evalCase.rubric.label).toBe('pass');
+      expect(evalCase.passed).toBe(true);
+    }
+  });
+
+  test('should flag invented numbers, drift and personal data in the rubric', () => {
+    expect(scoreRubric('Projekte sind von 41 auf 44 gestiegen, #web3 inklusive.', fixture.content).label).toBe('pass');
+
+    const invented = scoreRubric('Die Projekte sind um 75 Prozent gestiegen.', fixture.content);
+    expect(invented.factual_accuracy).toBe(4);
+    expect(invented.issues).toContain('Zahl "75" steht nicht in der Quelle');
+
+    const drift = scoreRubric('Blockchain revolutioniert Lieferketten nachhaltig weltweit.', fixture.content);
+    expect(drift.source_fidelity).toBe(1);
+    expect(drift.label).toBe('fail');
+
+    const pii = scoreRubric('Schreibt mir an chef@firma.de, wenn euch Meetings nerven.', fixture.content);
+    expect(pii.pii_detected).toBe(true);
+    expect(pii.label).toBe('fail');
+  });
+
+  test('should replay recordings and record missing responses through the fallback', async () => {
+    const request = { prompt: 'Prompt', platform: 'x' as const };
+    const recordings = { [requestKey(request)]: 'recorded' };
+
+    await expect(createRecordedModel(recordings).complete(request)).resolves.toBe('recorded');
+    await expect(createRecordedModel({}).complete(request)).rejects.toThrow('No recorded response');
+
+    const empty: Record<string, string> = {};
+    const live = { name: 'live', complete: async () => 'live answer' };
+    await createRecordedModel(empty, live).complete(request);
+    expect(empty).toEqual({ [requestKey(request)]: 'live answer' });
+  });
+
+  test('should report summary deltas and the cases whose outcome changed', async () => {
+    const base = await runPromptEval({ template: 'standard', fixtures: [fixture], platforms: ['linkedin'], model: createStubModel() });
+    const failing = { name: 'broken', complete: async () => JSON.stringify({ post: 'Zu kurz.' }) };
+    const head = await runPromptEval({ template: 'structured', fixtures: [fixture], platforms: ['linkedin'], model: failing });
+
+    const report = buildComparisonReport(base, head);
+
+    expect(report).toContain('# Prompt evaluation: standard@1 → structured@1');
+    expect(report).toContain('| Passed | 1 | 0 | -1 |');
+    expect(report).toMatch(/\| de-test \| linkedin \| ✅ pass \| ❌ Post zu kurz/);
+  });
+});
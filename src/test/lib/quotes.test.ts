@@ -0,0 +1,64 @@
+import { describe, test, expect, vi } from 'vitest';
+import { findQuoteCandidates, parseQuotesResponse } from '@/lib/quotes';
+import { quotesFromContent } from '@/api/claude';
+import { generateOpenRouterMessage } from '@/libs/api-client';
+
+vi.mock('@/libs/api-client', () => ({
+  generateOpenRouterMessage: vi.fn(),
+}));
+
+/**
+ * Tests for quote extraction (verbatim sentences of the source for quote cards)
+ */
+
+const source = [
+  '# Was wir aus 100 Kundengesprächen gelernt haben',
+  'Kurz vorweg.',
+  'Wir haben nicht zu wenig Features gebaut, sondern die falschen.',
+  '- Gute Produkte entstehen im Gespräch mit Kunden, nicht im Meeting.',
+  'Mehr dazu unter https://example.com/blog/kundengespraeche-und-lernen.',
+  'Das gilt z. B. für Preise.',
+  'Jede Woche ohne Feedback kostet uns mehr als jeder Fehlstart im Markt!',
+  'Schreib mir gern an anna@example.com, wenn du Fragen zu unserem Vorgehen hast.',
+  'Am Ende zählt nur, ob Kunden wiederkommen und uns weiterempfehlen.',
+  'Wer zuhört, baut bessere Produkte als wer nur Roadmaps pflegt.',
+].join('\n');
+
+const reply = (data: unknown) => ({ content: [{ text: JSON.stringify(data) }] });
+
+describe('quote extraction', () => {
+  test('should find standalone sentences and skip fragments, links and list markers', () => {
+    expect(findQuoteCandidates(source)).toEqual([
+      'Was wir aus 100 Kundengesprächen gelernt haben',
+      'Wir haben nicht zu wenig Features gebaut, sondern die falschen.',
+      'Gute Produkte entstehen im Gespräch mit Kunden, nicht im Meeting.',
+      'Jede Woche ohne Feedback kostet uns mehr als jeder Fehlstart im Markt!',
+      'Schreib mir gern an anna@example.com, wenn du Fragen zu unserem Vorgehen hast.',
+      'Am Ende zählt nur, ob Kunden wiederkommen und uns weiterempfehlen.',
+      'Wer zuhört, baut bessere Produkte als wer nur Roadmaps pflegt.',
+    ]);
+  });
+
+  test('should map chosen numbers to the verbatim candidates', () => {
+    const candidates = ['Erster Satz.', 'Zweiter Satz.', 'Dritter Satz.'];
+
+    expect(parseQuotesResponse(JSON.stringify({ quotes: [3, 1, 3, 7, 0] }), candidates)).toEqual(['Dritter Satz.', 'Erster Satz.']);
+    expect(() => parseQuotesResponse(JSON.stringify({ quotes: [9] }), candidates)).toThrow('Keine zitierfähigen Sätze');
+    expect(() => parseQuotesResponse('keine Zitate', candidates)).toThrow('kein gültiges JSON');
+  });
+
+  test('should rank redacted candidates and return the original sentences', async () => {
+    vi.mocked(generateOpenRouterMessage).mockResolvedValueOnce(reply({ quotes: [5, 2] }));
+
+    const quotes = await quotesFromContent(source);
+
+    expect(quotes).toEqual([
+      'Schreib mir gern an anna@example.com, wenn du Fragen zu unserem Vorgehen hast.',
+      'Wir haben nicht zu wenig Features gebaut, sondern die falschen.',
+    ]);
+    const [request] = vi.mocked(generateOpenRouterMessage).mock.calls[0];
+    expect(request.messages[0].content).toContain('7. Wer zuhört');
+    expect(request.messages[0].content).not.toContain('anna@example.com');
+    expect(request.kind).toBe('auxiliary');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'vitest';
+import { analyzeStyle, evaluateStyle, formatTargetRange, getStyleTargets } from '@/lib/readability';
+
+/**
+ * Tests for the local readability and style analysis
+ */
+
+describe('readability', () => {
+  test('should score German posts and find passive voice, filler words and buzzwords', () => {
+    const analysis = analyzeStyle(
+      'Eigentlich ist das echt ein Paradigmenwechsel. Der Prozess wurde komplett umgestellt. Jetzt geht alles schneller.'
+    );
+
+    expect(analysis.language).toBe('de');
+    expect(analysis.sentences).toBe(3);
+    expect(analysis.readability).toBeGreaterThan(0);
+    expect(analysis.passiveSentences).toEqual(['Der Prozess wurde komplett umgestellt.']);
+    expect(analysis.passiveShare).toBe(33);
+    expect(analysis.fillerWords).toEqual(['Eigentlich', 'echt']);
+    expect(analysis.buzzwords).toEqual(['Paradigmenwechsel']);
+  });
+
+  test('should rate short English sentences as easier than long German compounds', () => {
+    const english = analyzeStyle('We shipped it. The report was written in a day. Ask me how.', 'en');
+    const german = analyzeStyle('Die Digitalisierungsstrategie erfordert unternehmensübergreifende Kommunikationsprozesse.', 'de');
+
+    expect(english.readability).toBeGreaterThan(german.readability ?? 100);
+    expect(english.passiveSentences).toEqual(['The report was written in a day.']);
+  });
+
+  test('should ignore hashtags and links and count line breaks per 100 words', () => {
+    const analysis = analyzeStyle('Neues Release ist da\nJetzt testen\nhttps://example.com #Release', 'de');
+
+    expect(analysis.words).toBe(6);
+    expect(analysis.sentences).toBe(2);
+    expect(analysis.lineBreaks).toBe(33.3);
+  });
+
+  test('should apply platform targets over the defaults', () => {
+    expect(getStyleTargets('linkedin').lineBreaks).toEqual({ min: 6 });
+    expect(getStyleTargets('linkedin').emojis).toEqual({ max: 2 });
+    expect(getStyleTargets('x').emojis).toEqual({ max: 0 });
+    expect(getStyleTargets('mastodon').sentenceLength).toEqual({ max: 18 });
+
+    const metrics = evaluateStyle(analyzeStyle('Kurz und klar 🚀', 'de'), 'x');
+    expect(metrics.find((m) => m.id === 'emojis')?.inRange).toBe(false);
+    expect(formatTargetRange({ min: 1, max: 8 })).toBe('1–8');
+    expect(formatTargetRange({ max: 0 })).toBe('≤ 0');
+  });
+});
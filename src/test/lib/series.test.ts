@@ -0,0 +1,83 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  createSeriesEntry,
+  defaultSeriesStart,
+  findRepeatedHooks,
+  moveSeriesEntry,
+  parseSeriesAnglesResponse,
+  parseSeriesPostsResponse,
+  suggestPublishDates,
+} from '@/lib/series';
+import { seriesFromContent } from '@/api/claude';
+import { generateOpenRouterMessage } from '@/libs/api-client';
+
+vi.mock('@/libs/api-client', () => ({
+  generateOpenRouterMessage: vi.fn(),
+}));
+
+/**
+ * Tests for content series (one source, several angles, planned publish dates)
+ */
+
+const angles = Array.from({ length: 5 }, (_, i) => ({ title: `Blickwinkel ${i + 1}`, focus: `Fokus ${i + 1}` }));
+const tweet = (hook: string, i: number) =>
+  `${hook}\nWir haben das Onboarding in drei Schritten umgebaut und dabei viel gelernt. Teil ${i + 1} unserer Erkenntnisse aus dem letzten Quartal.`;
+
+const reply = (data: unknown) => ({ content: [{ text: JSON.stringify(data) }] });
+
+describe('content series', () => {
+  test('should parse angles and drop duplicates', () => {
+    const response = JSON.stringify({ angles: [...angles, { title: 'blickwinkel 1!', focus: '' }, { focus: 'ohne Titel' }] });
+
+    expect(parseSeriesAnglesResponse(response)).toEqual(angles);
+    expect(() => parseSeriesAnglesResponse(JSON.stringify({ angles: angles.slice(0, 3) }))).toThrow('Zu wenige Blickwinkel');
+    expect(() => parseSeriesAnglesResponse('keine Serie')).toThrow('kein gültiges JSON');
+  });
+
+  test('should order posts by angle and require one per angle', () => {
+    const posts = angles.map((_, i) => ({ angle: angles.length - i, post: tweet(`Hook ${angles.length - i}.`, i) }));
+
+    const parsed = parseSeriesPostsResponse(JSON.stringify({ posts }), 'x', angles.length);
+    expect(parsed.map((post) => post.split('\n')[0])).toEqual(['Hook 1.', 'Hook 2.', 'Hook 3.', 'Hook 4.', 'Hook 5.']);
+    expect(() => parseSeriesPostsResponse(JSON.stringify({ posts: posts.slice(1) }), 'x', angles.length)).toThrow('Serien-Posts unvollständig');
+    expect(findRepeatedHooks(['Gleicher Start.\nA', 'Anderer Start.\nB', 'gleicher start!\nC'])).toEqual([2]);
+  });
+
+  test('should suggest publish dates by cadence and keep them with their slots when reordering', () => {
+    // 2026-10-19 is a Monday
+    expect(defaultSeriesStart(new Date(2026, 9, 19, 15))).toBe('2026-10-26');
+    expect(defaultSeriesStart(new Date(2026, 9, 18))).toBe('2026-10-19');
+    expect(suggestPublishDates('2026-10-19', 3, 'twice_weekly')).toEqual(['2026-10-20', '2026-10-22', '2026-10-27']);
+    expect(suggestPublishDates('2026-10-23', 2, 'weekdays')).toEqual(['2026-10-23', '2026-10-26']);
+
+    const entries = angles.slice(0, 3).map((angle, i) => createSeriesEntry(angle, `2026-10-2${i}`));
+    const moved = moveSeriesEntry(entries, 2, 0);
+    expect(moved.map((entry) => entry.angle.title)).toEqual(['Blickwinkel 3', 'Blickwinkel 1', 'Blickwinkel 2']);
+    expect(moved.map((entry) => entry.publishDate)).toEqual(['2026-10-20', '2026-10-21', '2026-10-22']);
+  });
+
+  test('should replace a repeated hook with an unused one from the hook workshop', async () => {
+    const hooks = ['Hook 1.', 'Ganz neuer Einstieg?', 'Noch ein Einstieg.', 'Vierter Einstieg.', 'Fünfter Einstieg.', 'Sechster Einstieg.'];
+    vi.mocked(generateOpenRouterMessage)
+      .mockResolvedValueOnce({ id: 'gen-angles', ...reply({ angles }) })
+      .mockResolvedValueOnce(reply({
+        posts: angles.map((_, i) => ({ angle: i + 1, post: tweet(i === 3 ? 'Hook 1.' : `Hook ${i + 1}.`, i) })),
+      }))
+      .mockResolvedValueOnce(reply({ hooks: hooks.map((hook) => ({ formula: 'question', hook })) }));
+
+    const series = await seriesFromContent('Quelle über das Onboarding mit anna@example.com.', ['x'], 5);
+
+    expect(series.angles).toEqual(angles);
+    expect(series.posts.x?.map((post) => post.split('\n')[0])).toEqual(['Hook 1.', 'Hook 2.', 'Hook 3.', 'Ganz neuer Einstieg?', 'Hook 5.']);
+    const [anglesRequest] = vi.mocked(generateOpenRouterMessage).mock.calls[0];
+    expect(anglesRequest.messages[0].content).toContain('Find 5 distinct angles');
+    expect(anglesRequest.messages[0].content).not.toContain('anna@example.com');
+    expect(anglesRequest.kind).toBe('generation');
+    // Posts and hooks belong to the angles request and do not count as generations of their own
+    const followUps = vi.mocked(generateOpenRouterMessage).mock.calls.slice(1).map(([request]) => request);
+    expect(followUps.map(({ kind, generationId }) => ({ kind, generationId }))).toEqual([
+      { kind: 'auxiliary', generationId: 'gen-angles' },
+      { kind: 'auxiliary', generationId: 'gen-angles' },
+    ]);
+  });
+});
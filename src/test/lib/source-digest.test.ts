@@ -0,0 +1,82 @@
+import { describe, test, expect, vi } from 'vitest';
+import { MAX_SECTIONS, SECTION_MAX_CHARS, buildDigestText, isLongSource, parseKeyPointsResponse, splitSource } from '@/lib/source-digest';
+import { digestSource } from '@/api/claude';
+import { generateOpenRouterMessage } from '@/libs/api-client';
+
+vi.mock('@/libs/api-client', () => ({
+  generateOpenRouterMessage: vi.fn(),
+}));
+
+/**
+ * Tests for map-reduce generation from long sources
+ */
+
+const paragraph = (topic: string) =>
+  `${topic} ist ein Thema, das viele Teams beschäftigt. Wir haben dazu Zahlen gesammelt und Gespräche geführt. `.repeat(12);
+
+describe('source digest', () => {
+  test('should split at markdown headings and pack short sections together', () => {
+    const source = [
+      'Einleitung ohne Überschrift.',
+      '## Onboarding',
+      paragraph('Onboarding'),
+      '## Kurz',
+      'Nur ein Satz.',
+      '# Fazit',
+      paragraph('Fazit'),
+    ].join('\n\n');
+
+    const sections = splitSource(source);
+
+    expect(sections.map((s) => s.title)).toEqual(['Onboarding · Kurz · Fazit']);
+    expect(sections[0].text.startsWith('Einleitung ohne Überschrift.')).toBe(true);
+
+    const long = splitSource(['## Teil A', paragraph('A').repeat(10), '## Teil B', paragraph('B')].join('\n\n'));
+    expect(long[0].title).toBe('Teil A (Teil 1)');
+    expect(long.every((s) => s.text.length <= SECTION_MAX_CHARS)).toBe(true);
+    expect(long[long.length - 1].title).toContain('Teil B');
+  });
+
+  test('should cut transcripts without headings into at most MAX_SECTIONS sections', () => {
+    const transcript = Array.from({ length: 2000 }, (_, i) => `Sprecher ${i % 2 + 1}: Das ist Aussage Nummer ${i}.`).join('\n');
+    const sections = splitSource(transcript);
+
+    expect(isLongSource(transcript)).toBe(true);
+    expect(sections.length).toBeGreaterThan(1);
+    expect(sections.length).toBeLessThanOrEqual(MAX_SECTIONS);
+    expect(sections.map((s) => s.text).join('\n')).toBe(transcript);
+  });
+
+  test('should parse key points and merge them in source order', () => {
+    expect(parseKeyPointsResponse('{"keyPoints": ["- Punkt eins", "Punkt eins", "2. Punkt zwei", ""]}')).toEqual([
+      'Punkt eins',
+      'Punkt zwei',
+    ]);
+    expect(() => parseKeyPointsResponse('Kein JSON')).toThrow('Kernaussagen-Antwort enthält kein gültiges JSON');
+
+    expect(buildDigestText([
+      { title: '', keyPoints: ['A'] },
+      { title: 'Leer', keyPoints: [] },
+      { title: 'Fazit', keyPoints: ['B', 'C'] },
+    ])).toBe('## Abschnitt 1\n- A\n\n## Fazit\n- B\n- C');
+  });
+
+  test('should request key points per section and restore personal data', async () => {
+    vi.mocked(generateOpenRouterMessage).mockResolvedValue({
+      content: [{ text: JSON.stringify({ keyPoints: ['Kontakt: [EMAIL_1]', '40 % schneller eingearbeitet'] }) }],
+    });
+    const source = ['## Onboarding', paragraph('Onboarding').repeat(6), 'Fragen an anna@example.com.', '## Fazit', paragraph('Fazit').repeat(6)].join('\n\n');
+    const progress: number[] = [];
+
+    const digest = await digestSource(source, (done) => progress.push(done));
+
+    const calls = vi.mocked(generateOpenRouterMessage).mock.calls;
+    expect(calls).toHaveLength(digest.sections.length);
+    expect(progress).toEqual(digest.sections.map((_, i) => i + 1));
+    expect(calls.every(([request]) => !request.messages[0].content.includes('anna@example.com'))).toBe(true);
+    expect(calls.every(([request]) => request.kind === 'auxiliary')).toBe(true);
+    expect(digest.sections[0].keyPoints[0]).toBe('Kontakt: anna@example.com');
+    expect(digest.text.startsWith('## Onboarding')).toBe(true);
+    expect(digest.source).toBe(source);
+  });
+});
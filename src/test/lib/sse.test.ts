@@ -0,0 +1,39 @@
+import { describe, test, expect } from 'vitest';
+import { readSseEvents } from '@/lib/sse';
+
+/**
+ * Tests for the SSE reader shared by streaming API calls
+ */
+
+const streamOf = (...chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const collect = async (body: ReadableStream<Uint8Array>) => {
+  const events: unknown[] = [];
+  for await (const event of readSseEvents(body)) events.push(event);
+  return events;
+};
+
+describe('readSseEvents', () => {
+  test('should reassemble events split across chunks', async () => {
+    const body = streamOf('data: {"type":"delta","te', 'xt":"Hal"}\n\ndata: {"type":"delta","text":"lo"}\n', '\n');
+
+    expect(await collect(body)).toEqual([
+      { type: 'delta', text: 'Hal' },
+      { type: 'delta', text: 'lo' },
+    ]);
+  });
+
+  test('should skip comments and malformed events', async () => {
+    const body = streamOf(': keep-alive\n\ndata: {kaputt}\n\ndata: {"type":"done"}\n\n');
+
+    expect(await collect(body)).toEqual([{ type: 'done' }]);
+  });
+});
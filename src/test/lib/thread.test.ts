@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'vitest';
+import {
+  findOverlongTweets,
+  fitThread,
+  joinThread,
+  mergeWithNext,
+  moveTweet,
+  numberThread,
+  parseThreadResponse,
+  splitThread,
+  splitTweet,
+} from '@/lib/thread';
+
+/**
+ * Tests for X thread parsing and editing helpers
+ */
+
+describe('thread helpers', () => {
+  test('should parse numbered tweets and drop the numbering', () => {
+    const response = `THREAD:
+1/ Die meisten Newsletter scheitern am Anfang.
+
+2/ Der Grund: niemand weiß, für wen sie geschrieben sind.
+
+3/ Schreib für eine Person. Nicht für alle. 3/3`;
+
+    expect(parseThreadResponse(response)).toEqual([
+      'Die meisten Newsletter scheitern am Anfang.',
+      'Der Grund: niemand weiß, für wen sie geschrieben sind.',
+      'Schreib für eine Person. Nicht für alle.',
+    ]);
+  });
+
+  test('should round-trip through the stored format', () => {
+    const tweets = ['Erster Tweet.', 'Zweiter Tweet.'];
+    expect(splitThread(joinThread(tweets))).toEqual(tweets);
+    expect(numberThread(tweets)).toEqual(['Erster Tweet. 1/2', 'Zweiter Tweet. 2/2']);
+  });
+
+  test('should reorder, merge and split tweets', () => {
+    const tweets = ['A.', 'B.', 'C.'];
+
+    expect(moveTweet(tweets, 2, 0)).toEqual(['C.', 'A.', 'B.']);
+    expect(mergeWithNext(tweets, 0)).toEqual(['A. B.', 'C.']);
+    expect(splitTweet(['Erster Satz. Zweiter Satz.'], 0)).toEqual(['Erster Satz.', 'Zweiter Satz.']);
+    expect(splitTweet(['abcdef'], 0, 2)).toEqual(['ab', 'cdef']);
+  });
+
+  test('should split overlong tweets so every numbered tweet fits', () => {
+    const long = 'Das ist ein ziemlich langer Satz über Content-Strategie. '.repeat(8).trim();
+    const fitted = fitThread(['Kurzer Einstieg.', long]);
+
+    expect(fitted.length).toBeGreaterThan(2);
+    expect(findOverlongTweets(fitted)).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createVariant,
+  parseVariantsResponse,
+  splitVariantParts,
+  toggleVariantStar,
+} from '@/lib/variants';
+import { buildVariantsPrompt } from '@/libs/promptBuilder';
+
+/**
+ * Tests for variants mode (alternatives compared side by side)
+ */
+
+const post = (hook: string) => `${hook} ` + 'Ein Gedanke mit konkretem Beispiel. '.repeat(4).trim();
+
+describe('post variants', () => {
+  test('should ask for distinct hooks in one JSON object', () => {
+    const prompt = buildVariantsPrompt('Quelle', 'threads', 3);
+
+    expect(prompt).toContain('Write 3 distinct alternatives');
+    expect(prompt).toContain('"variants"');
+  });
+
+  test('should parse variants and drop invalid or duplicate ones', () => {
+    const response = JSON.stringify({
+      variants: [
+        { approach: 'Kontroverse These', post: post('Alle irren sich.') },
+        { approach: 'Frage', post: post('Kennst du das?') },
+        { approach: 'Doppelt', post: post('Kennst du das?') },
+        { approach: 'Zu kurz', post: 'Kurz.' },
+        { post: post('Drei Zahlen:') },
+      ],
+    });
+
+    const variants = parseVariantsResponse(response, 'threads');
+
+    expect(variants.map((v) => v.approach)).toEqual(['Kontroverse These', 'Frage', 'Variante 3']);
+    expect(variants.every((v) => !v.starred)).toBe(true);
+    expect(new Set(variants.map((v) => v.id)).size).toBe(3);
+  });
+
+  test('should reject responses with fewer than two usable variants', () => {
+    expect(() => parseVariantsResponse('{"variants": [{"post": "Kurz."}]}', 'threads')).toThrow('Varianten unvollständig');
+    expect(() => parseVariantsResponse('keine Varianten', 'threads')).toThrow('kein gültiges JSON');
+  });
+
+  test('should star at most one variant', () => {
+    const variants = [createVariant('A', 'a'), createVariant('B', 'b')];
+
+    const starred = toggleVariantStar(toggleVariantStar(variants, variants[0].id), variants[1].id);
+    expect(starred.map((v) => v.starred)).toEqual([false, true]);
+    expect(toggleVariantStar(starred, variants[1].id).some((v) => v.starred)).toBe(false);
+  });
+
+  test('should split by paragraph, or by sentence for one-paragraph posts', () => {
+    expect(splitVariantParts('Hook.\n\nMitte.\n\nSchluss?')).toEqual({ parts: ['Hook.', 'Mitte.', 'Schluss?'], separator: '\n\n' });
+    expect(splitVariantParts('Erster Satz. Zweiter Satz! Rest')).toEqual({
+      parts: ['Erster Satz.', 'Zweiter Satz!', 'Rest'],
+      separator: ' ',
+    });
+  });
+});
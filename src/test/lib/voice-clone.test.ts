@@ -0,0 +1,65 @@
+import { describe, test, expect } from 'vitest';
+import {
+  anonymizeSample,
+  parseVoiceProfileResponse,
+  splitWritingSamples,
+  validateWritingSamples,
+} from '@/lib/voice-clone';
+import { buildSinglePostPrompt } from '@/libs/promptBuilder';
+import { DEFAULT_VOICE_TONE } from '@/config/voice-tones';
+
+/**
+ * Tests for cloning a voice tone from writing samples
+ */
+
+const post = (n: number) => `Post ${n}: ` + 'Ich schreibe kurze Sätze. Und dann noch einer. '.repeat(3);
+
+describe('voice cloning', () => {
+  test('should split pasted posts on --- lines', () => {
+    const text = `${post(1)}\n---\n${post(2)}\n\n  ----  \n${post(3)}\n---\n`;
+
+    expect(splitWritingSamples(text)).toEqual([post(1).trim(), post(2).trim(), post(3).trim()]);
+  });
+
+  test('should require 3-10 samples of useful length', () => {
+    expect(() => validateWritingSamples([post(1), post(2)])).toThrow('Mindestens 3 Posts');
+    expect(() => validateWritingSamples(Array.from({ length: 11 }, (_, i) => post(i)))).toThrow('Maximal 10 Posts');
+    expect(() => validateWritingSamples([post(1), 'Zu kurz.', post(3)])).toThrow('Post 2 ist zu kurz');
+    expect(() => validateWritingSamples([post(1), post(2), post(3)])).not.toThrow();
+  });
+
+  test('should mask emails, links and handles', () => {
+    expect(anonymizeSample('Schreib an anna@firma.de oder @anna_m, mehr auf https://firma.de/blog.')).toBe(
+      'Schreib an [E-Mail] oder @[Name], mehr auf [Link]'
+    );
+  });
+
+  test('should parse the profile and anonymize examples', () => {
+    const profile = parseVoiceProfileResponse(`\`\`\`json
+{
+  "name": "Direkt & Nahbar",
+  "emoji": "🧭",
+  "description": "Kurze Sätze, viel Ich-Perspektive.",
+  "characteristics": ["Kurze Sätze", "", "Ich-Perspektive"],
+  "promptModifier": "Write in a direct style with:\\n- Short sentences",
+  "examples": ["Frag mich: max@example.com", "Zwei", "Drei", "Vier"]
+}
+\`\`\``);
+
+    expect(profile.name).toBe('Direkt & Nahbar');
+    expect(profile.characteristics).toEqual(['Kurze Sätze', 'Ich-Perspektive']);
+    expect(profile.examples).toEqual(['Frag mich: [E-Mail]', 'Zwei', 'Drei']);
+  });
+
+  test('should reject incomplete profiles', () => {
+    expect(() => parseVoiceProfileResponse('{"name": "Leer"}')).toThrow('Stimmprofil unvollständig');
+    expect(() => parseVoiceProfileResponse('kein json')).toThrow('kein gültiges JSON');
+  });
+
+  test('should include custom tone examples in generation prompts', () => {
+    const tone = { ...DEFAULT_VOICE_TONE, id: 'custom', examples: ['Mein Stil. Kurz.'], isCustom: true };
+
+    expect(buildSinglePostPrompt('Quelle', 'linkedin', undefined, tone)).toContain('<example_1>\nMein Stil. Kurz.\n</example_1>');
+    expect(buildSinglePostPrompt('Quelle', 'linkedin')).not.toContain('STYLE EXAMPLES');
+  });
+});
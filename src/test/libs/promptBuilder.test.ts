@@ -0,0 +1,91 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { buildSinglePostPrompt, normalizeSinglePostResponse, parseBatchedResponse, validatePost } from '@/libs/promptBuilder';
+import { countPostLength, getPlatformLimits } from '@/config/platforms';
+import { readPartialJsonField } from '@/libs/postSchema';
+import { MASTODON_INSTANCE_STORAGE_KEY, setMastodonInstance } from '@/lib/mastodon-instance';
+
+/**
+ * Tests for platform-specific prompt building, parsing and validation
+ */
+
+describe('promptBuilder', () => {
+  beforeEach(() => {
+    localStorage.removeItem(MASTODON_INSTANCE_STORAGE_KEY);
+  });
+
+  describe('parseBatchedResponse', () => {
+    const sentence = 'Ein klarer Gedanke mit einem Beispiel. ';
+
+    test('should read one JSON field per platform', () => {
+      const threads = sentence.repeat(5).trim();
+      // Labels inside a post used to cut the regex sections short
+      const bluesky = `X: das war früher ein Problem. ${sentence.repeat(3)}`.trim();
+      const response = '```json\n' + JSON.stringify({ threads, bluesky }) + '\n```';
+
+      const result = parseBatchedResponse(response, ['threads', 'bluesky']);
+
+      expect(result?.failed).toEqual([]);
+      expect(result?.posts.threads).toEqual([threads]);
+      expect(result?.posts.bluesky).toEqual([bluesky]);
+    });
+
+    test('should repair overlong fields and flag only the invalid ones', () => {
+      const response = JSON.stringify({
+        threads: sentence.repeat(20),
+        bluesky: 'Zu kurz.',
+      });
+
+      const result = parseBatchedResponse(response, ['threads', 'bluesky', 'mastodon']);
+
+      expect(result?.failed).toEqual(['bluesky', 'mastodon']);
+      expect(countPostLength('threads', result!.posts.threads[0])).toBeLessThanOrEqual(500);
+      expect(result?.posts.threads[0]).toMatch(/Beispiel\.$/);
+      expect(result?.posts.bluesky).toEqual([]);
+    });
+
+    test('should signal fallback when the response is not JSON', () => {
+      expect(parseBatchedResponse('THREADS: Nur Threads.', ['threads', 'bluesky'])).toBeNull();
+    });
+  });
+
+  describe('normalizeSinglePostResponse', () => {
+    test('should take the structured post field as is', () => {
+      const response = JSON.stringify({ post: 'LINKEDIN: bleibt stehen.\n\n1. Punkt\n2. Punkt' });
+
+      expect(normalizeSinglePostResponse(response, 'linkedin')).toBe('LINKEDIN: bleibt stehen.\n\n1. Punkt\n2. Punkt');
+      expect(normalizeSinglePostResponse('LINKEDIN: Klartext.', 'linkedin')).toBe('Klartext.');
+    });
+  });
+
+  describe('readPartialJsonField', () => {
+    test('should decode the streamed post field so far', () => {
+      expect(readPartialJsonField('{"po', 'post')).toBeNull();
+      expect(readPartialJsonField('{"post": "Hallo\\nWelt, \\"das', 'post')).toBe('Hallo\nWelt, "das');
+      // Escape sequences cut off at the end of a chunk are held back
+      expect(readPartialJsonField('{"post": "Gr\\u00', 'post')).toBe('Gr');
+      expect(readPartialJsonField('{"post": "Fertig."}', 'post')).toBe('Fertig.');
+    });
+  });
+
+  describe('validatePost', () => {
+    test('should count graphemes for Bluesky', () => {
+      // 150 family emojis are 1650 UTF-16 units but only 150 graphemes
+      const post = '👨‍👩‍👧‍👦'.repeat(150);
+
+      expect(countPostLength('bluesky', post)).toBe(150);
+      expect(() => validatePost(post, 'bluesky')).not.toThrow();
+      expect(() => validatePost('a'.repeat(301), 'bluesky')).toThrow('Post zu lang (max. 300 Zeichen)');
+    });
+
+    test('should use the configured Mastodon instance limit', () => {
+      const post = 'a'.repeat(800);
+      expect(() => validatePost(post, 'mastodon')).toThrow('Post zu lang (max. 500 Zeichen)');
+
+      setMastodonInstance({ domain: 'https://chaos.social/', maxChars: 1000 });
+
+      expect(getPlatformLimits('mastodon').max).toBe(1000);
+      expect(() => validatePost(post, 'mastodon')).not.toThrow();
+      expect(buildSinglePostPrompt('Inhalt', 'mastodon')).toContain('instance limit is 1000');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'vitest';
+import { buildBatchedPostPrompt, buildSinglePostPrompt, buildVariantsPrompt } from '@/libs/promptBuilder';
+import { PROMPT_TEMPLATES, getTemplateVersion, renderPromptTemplate } from '@/libs/promptTemplates';
+import { POST_GOAL_META } from '@/config/post-goals';
+
+/**
+ * Tests for the versioned prompt templates and their variables
+ */
+
+describe('prompt templates', () => {
+  const source = 'Wir haben {{content}} als Platzhalter in unserer Doku.';
+
+  test('should fill every slot and keep braces in the source as they are', () => {
+    const prompt = buildSinglePostPrompt(source, 'linkedin');
+
+    expect(prompt).not.toMatch(/\{\{(?!content\}\})\w+\}\}/);
+    expect(prompt).toContain('VOICE & PERSONALITY:');
+    expect(prompt.endsWith(`Source Content: ${source}`)).toBe(true);
+  });
+
+  test('should throw on slots without a value', () => {
+    expect(() => renderPromptTemplate('{{tone}} {{unknown}}', { tone: 'x' })).toThrow('unknown');
+  });
+
+  test('should add goal, audience and the structured formulas only when chosen', () => {
+    const plain = buildSinglePostPrompt(source, 'linkedin');
+    expect(plain).not.toContain('GOAL:');
+    expect(plain).not.toContain('AUDIENCE:');
+    expect(plain).not.toContain('HOOK FORMULAS:');
+
+    const structured = buildVariantsPrompt(source, 'linkedin', 3, undefined, undefined, {
+      template: 'structured',
+      goal: 'start_conversation',
+      audience: '  HR-Leads in KMU ',
+    });
+    expect(structured).toContain('HOOK FORMULAS:');
+    expect(structured).toContain('VARIANTS:');
+    expect(structured).toContain(`GOAL: ${POST_GOAL_META.start_conversation.instruction}`);
+    expect(structured).toContain('AUDIENCE: Write for HR-Leads in KMU.');
+  });
+
+  test('should apply template, goal and audience to batched posts', () => {
+    const batched = buildBatchedPostPrompt(source, ['linkedin', 'x'], undefined, {
+      template: 'structured',
+      goal: 'start_conversation',
+      audience: 'HR-Leads in KMU',
+    });
+    expect(batched).toContain('HOOK FORMULAS:');
+    expect(batched).toContain('Return ONE JSON object with one string field per platform ("linkedin", "x")');
+    expect(batched).toContain(`GOAL: ${POST_GOAL_META.start_conversation.instruction}`);
+    expect(batched).toContain('AUDIENCE: Write for HR-Leads in KMU.');
+    expect(batched.endsWith(`Source Content: ${source}`)).toBe(true);
+  });
+
+  test('should identify templates by id and version', () => {
+    expect(getTemplateVersion()).toBe(`standard@${PROMPT_TEMPLATES.standard.version}`);
+    expect(getTemplateVersion('structured')).toBe(`structured@${PROMPT_TEMPLATES.structured.version}`);
+  });
+});